@@ -0,0 +1,31 @@
+import { HttpRequest, HttpResponse } from '../../application/ports/http-client';
+import { OAuthClient } from '../../infrastructure/auth/oauth-client';
+import { ClientCredentialsAuthProvider } from '../../infrastructure/auth/client-credentials-auth-provider';
+import { createStubHttpClient, jsonResponse } from './stub-http-client';
+
+export const upsConfig = {
+  clientId: 'test-client',
+  clientSecret: 'test-secret',
+  baseUrl: 'https://api.ups.com',
+  authUrl: 'https://auth.ups.com/token',
+  timeoutMs: 30000,
+  accountNumber: 'A1B2C3'
+};
+
+type Handler = (request: HttpRequest) => Promise<HttpResponse>;
+
+export function createUpsTestClients(httpHandler: Handler, tokenHandler?: Handler) {
+  let tokens = 0;
+  const httpClient = createStubHttpClient(async (req) => {
+    if (req.url !== upsConfig.authUrl) return httpHandler(req);
+    if (tokenHandler) return tokenHandler(req);
+    tokens += 1;
+    return jsonResponse(200, { access_token: `token_${tokens}`, expires_in: 3600 });
+  });
+  const oauthClient = new OAuthClient(httpClient, {
+    authUrl: upsConfig.authUrl,
+    clientId: upsConfig.clientId,
+    clientSecret: upsConfig.clientSecret
+  });
+  return { httpClient, authProvider: new ClientCredentialsAuthProvider(oauthClient) };
+}
@@ -0,0 +1,293 @@
+import { createStubHttpClient, jsonResponse, textResponse } from '../helpers/stub-http-client';
+import { BasicAuthProvider } from '../../infrastructure/auth/basic-auth-provider';
+import { DhlExpressRateClient } from '../../integrations/dhl/dhl-rate-client';
+import { DhlExpressRateMapper } from '../../integrations/dhl/dhl-rate-mapper';
+import { DhlExpressRateCarrier } from '../../integrations/dhl/dhl-rate-carrier';
+import { registerDhlExpressRateCarrier } from '../../integrations/dhl/register';
+import { CarrierRegistry } from '../../application/registry/carrier-registry';
+import { ErrorCode, RateLimitError } from '../../domain/errors';
+import { RateRequest } from '../../domain/rates';
+
+const dhlConfig = {
+  apiKey: 'dhl-key',
+  apiSecret: 'dhl-secret',
+  accountNumber: '123456789',
+  baseUrl: 'https://express.api.dhl.com/mydhlapi',
+  timeoutMs: 30000
+};
+
+const internationalRequest: RateRequest = {
+  origin: {
+    street: ['123 Main St', 'Suite 4'],
+    city: 'Atlanta',
+    state: 'GA',
+    postalCode: '30339',
+    country: 'US'
+  },
+  destination: {
+    street: ['Friedrichstrasse 10'],
+    city: 'Berlin',
+    state: 'BE',
+    postalCode: '10117',
+    country: 'DE'
+  },
+  packages: [{ weight: 5, length: 10, width: 8, height: 6 }]
+};
+
+type DhlRateRequestPayload = {
+  customerDetails: {
+    shipperDetails: { addressLine1: string; addressLine2?: string; cityName: string; countryCode: string };
+    receiverDetails: { cityName: string; countryCode: string };
+  };
+  accounts: Array<{ typeCode: string; number: string }>;
+  productCode?: string;
+  plannedShippingDateAndTime: string;
+  unitOfMeasurement: string;
+  isCustomsDeclarable: boolean;
+  packages: Array<{ weight: number; dimensions: { length: number } }>;
+};
+
+function rateSuccessResponse() {
+  return {
+    products: [
+      {
+        productName: 'EXPRESS WORLDWIDE',
+        productCode: 'P',
+        totalPrice: [
+          { currencyType: 'BILLC', priceCurrency: 'USD', price: 142.37 },
+          { currencyType: 'PULCL', priceCurrency: 'EUR', price: 131.02 }
+        ],
+        deliveryCapabilities: {
+          estimatedDeliveryDateAndTime: '2026-10-21T23:59:00',
+          totalTransitDays: '2'
+        }
+      },
+      {
+        productName: 'EXPRESS 9:00',
+        productCode: 'K',
+        totalPrice: [{ currencyType: 'BILLC', priceCurrency: 'USD', price: 198.5 }],
+        deliveryCapabilities: {
+          estimatedDeliveryDateAndTime: '2026-10-21T09:00:00',
+          totalTransitDays: '2'
+        }
+      },
+      {
+        productName: 'MEDICAL EXPRESS',
+        productCode: 'Q',
+        totalPrice: [{ currencyType: 'BILLC', priceCurrency: 'USD', price: 310 }]
+      }
+    ]
+  };
+}
+
+function buildCarrier(httpHandler: Parameters<typeof createStubHttpClient>[0]) {
+  const httpClient = createStubHttpClient(httpHandler);
+  const authProvider = new BasicAuthProvider({ username: dhlConfig.apiKey, password: dhlConfig.apiSecret });
+  const rateClient = new DhlExpressRateClient(httpClient, authProvider, dhlConfig);
+  const mapper = new DhlExpressRateMapper({
+    accountNumber: dhlConfig.accountNumber,
+    now: () => Date.parse('2026-10-19T08:30:00Z')
+  });
+  const carrier = new DhlExpressRateCarrier(rateClient, mapper);
+  return { httpClient, carrier };
+}
+
+describe('DhlExpressRateCarrier (MyDHL API rating)', () => {
+  it('exposes carrier name and supported service levels', () => {
+    const { carrier } = buildCarrier(async () => jsonResponse(200, rateSuccessResponse()));
+
+    expect(carrier.getName()).toBe('DHL');
+    expect(carrier.supportsServiceLevel('worldwideExpress')).toBe(true);
+    expect(carrier.supportsServiceLevel('express')).toBe(true);
+    expect(carrier.supportsServiceLevel('ground')).toBe(false);
+  });
+
+  it('builds a DHL shipment payload with basic auth', async () => {
+    const { httpClient, carrier } = buildCarrier(async () => jsonResponse(200, rateSuccessResponse()));
+
+    const result = await carrier.getRates(internationalRequest);
+    const [rateReq] = httpClient.getRequests();
+
+    expect(rateReq!.url).toBe('https://express.api.dhl.com/mydhlapi/rates');
+    expect(rateReq!.headers?.['Authorization']).toBe(
+      `Basic ${Buffer.from('dhl-key:dhl-secret').toString('base64')}`
+    );
+    expect(rateReq!.headers?.['Message-Reference']).toBe(result.requestId);
+
+    const body = JSON.parse(rateReq!.body ?? '{}') as DhlRateRequestPayload;
+    expect(body.customerDetails.shipperDetails).toMatchObject({
+      addressLine1: '123 Main St',
+      addressLine2: 'Suite 4',
+      cityName: 'Atlanta',
+      countryCode: 'US'
+    });
+    expect(body.customerDetails.receiverDetails.countryCode).toBe('DE');
+    expect(body.accounts).toEqual([{ typeCode: 'shipper', number: dhlConfig.accountNumber }]);
+    expect(body.plannedShippingDateAndTime).toBe('2026-10-19T12:00:00GMT+00:00');
+    expect(body.unitOfMeasurement).toBe('imperial');
+    expect(body.isCustomsDeclarable).toBe(true);
+    expect(body.productCode).toBeUndefined();
+    expect(body.packages[0]!.weight).toBe(5);
+  });
+
+  it('sends metric measurements for shipments from metric countries', async () => {
+    const { httpClient, carrier } = buildCarrier(async () => jsonResponse(200, rateSuccessResponse()));
+
+    await carrier.getRates({
+      origin: internationalRequest.destination,
+      destination: internationalRequest.origin,
+      packages: [{ weight: 32, length: 12, width: 10, height: 4, weightUnit: 'oz', dimensionUnit: 'in' }]
+    });
+
+    const body = JSON.parse(httpClient.getRequests()[0]!.body ?? '{}') as DhlRateRequestPayload;
+    expect(body.unitOfMeasurement).toBe('metric');
+    expect(body.packages[0]).toEqual({
+      weight: 0.908,
+      dimensions: { length: 30.48, width: 25.4, height: 10.16 }
+    });
+  });
+
+  it('plans the shipment for the requested ship date', async () => {
+    const { httpClient, carrier } = buildCarrier(async () => jsonResponse(200, rateSuccessResponse()));
+
+    await carrier.getRates({ ...internationalRequest, shipDate: '2026-11-02' });
+
+    const body = JSON.parse(httpClient.getRequests()[0]!.body ?? '{}') as DhlRateRequestPayload;
+    expect(body.plannedShippingDateAndTime).toBe('2026-11-02T12:00:00GMT+00:00');
+  });
+
+  it('rejects shipment options it cannot rate', async () => {
+    const { httpClient, carrier } = buildCarrier(async () => jsonResponse(200, rateSuccessResponse()));
+
+    await expect(
+      carrier.getRates({ ...internationalRequest, shipmentOptions: { signature: 'required' } })
+    ).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, carrier: 'DHL' });
+    expect(httpClient.getRequests()).toHaveLength(0);
+  });
+
+  it('rejects carrier packaging', async () => {
+    const { httpClient, carrier } = buildCarrier(async () => jsonResponse(200, rateSuccessResponse()));
+
+    await expect(
+      carrier.getRates({
+        ...internationalRequest,
+        packages: [{ weight: 1, length: 12, width: 9, height: 0.5, packagingType: 'envelope' }]
+      })
+    ).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+      carrier: 'DHL',
+      message: 'DHL does not support packaging types: envelope'
+    });
+    expect(httpClient.getRequests()).toHaveLength(0);
+  });
+
+  it('sends a product code when a service level is requested', async () => {
+    const { httpClient, carrier } = buildCarrier(async () => jsonResponse(200, rateSuccessResponse()));
+
+    await carrier.getRates({ ...internationalRequest, serviceLevel: 'worldwideExpress' });
+    const body = JSON.parse(httpClient.getRequests()[0]!.body ?? '{}') as DhlRateRequestPayload;
+    expect(body.productCode).toBe('P');
+  });
+
+  it('normalizes products into service levels with delivery estimates', async () => {
+    const { carrier } = buildCarrier(async () => jsonResponse(200, rateSuccessResponse()));
+
+    const result = await carrier.getRates(internationalRequest);
+    expect(result.quotes).toHaveLength(3);
+
+    expect(result.quotes[0]).toEqual({
+      serviceLevel: 'worldwideExpress',
+      serviceName: 'EXPRESS WORLDWIDE',
+      carrierServiceCode: 'P',
+      totalCost: 142.37,
+      currency: 'USD',
+      price: { minorUnits: 14237, currency: 'USD' },
+      estimatedDays: 2,
+      estimatedDeliveryDate: '2026-10-21',
+      deliveryWindow: { end: '23:59' },
+      carrier: 'DHL'
+    });
+    expect(result.quotes[1]!.serviceLevel).toBe('worldwideExpressPlus');
+    expect(result.quotes[2]).toMatchObject({
+      serviceLevel: 'other',
+      carrierServiceCode: 'Q',
+      serviceName: 'MEDICAL EXPRESS'
+    });
+  });
+
+  it('throws non-retryable AUTH_FAILED on 401 without retrying', async () => {
+    const { httpClient, carrier } = buildCarrier(async () => textResponse(401, 'Unauthorized'));
+
+    await expect(carrier.getRates(internationalRequest)).rejects.toMatchObject({
+      code: ErrorCode.AUTH_FAILED,
+      carrier: 'DHL',
+      retryable: false
+    });
+    expect(httpClient.getRequests()).toHaveLength(1);
+  });
+
+  it('throws API_ERROR on DHL problem responses', async () => {
+    const { carrier } = buildCarrier(async () =>
+      jsonResponse(400, { status: 400, title: 'Bad request', detail: 'Invalid postal code' })
+    );
+
+    await expect(carrier.getRates(internationalRequest)).rejects.toMatchObject({
+      code: ErrorCode.API_ERROR,
+      carrier: 'DHL',
+      retryable: false
+    });
+  });
+
+  it('throws RateLimitError on 429', async () => {
+    const { carrier } = buildCarrier(async () => textResponse(429, 'Too Many Requests'));
+
+    await expect(carrier.getRates(internationalRequest)).rejects.toBeInstanceOf(RateLimitError);
+  });
+
+  it('throws API_ERROR when no product carries a priced total', async () => {
+    const { carrier } = buildCarrier(async () =>
+      jsonResponse(200, {
+        products: [{ productCode: 'Q', totalPrice: [{ currencyType: 'BILLC', price: 1 }] }]
+      })
+    );
+
+    await expect(carrier.getRates(internationalRequest)).rejects.toMatchObject({
+      code: ErrorCode.API_ERROR,
+      carrier: 'DHL'
+    });
+  });
+
+  it('throws MALFORMED_RESPONSE on invalid JSON', async () => {
+    const { carrier } = buildCarrier(async () => textResponse(200, '<html>not json</html>'));
+
+    await expect(carrier.getRates(internationalRequest)).rejects.toMatchObject({
+      code: ErrorCode.MALFORMED_RESPONSE,
+      carrier: 'DHL'
+    });
+  });
+
+  it('registers DHL with the resilience wrappers', async () => {
+    let calls = 0;
+    const httpClient = createStubHttpClient(async () => {
+      calls += 1;
+      if (calls === 1) return textResponse(503, 'Service Unavailable');
+      return jsonResponse(200, rateSuccessResponse());
+    });
+
+    const registry = new CarrierRegistry();
+    registerDhlExpressRateCarrier(registry, {
+      config: dhlConfig,
+      httpClient,
+      instrumentHttp: false,
+      retryPolicy: {
+        maxAttempts: 2,
+        shouldRetry: (_error, attempt) => attempt < 2,
+        getDelayMs: () => 0
+      }
+    });
+
+    const result = await registry.getCarrier('dhl')!.getRates(internationalRequest);
+    expect(result.quotes).toHaveLength(3);
+    expect(calls).toBe(2);
+  });
+});
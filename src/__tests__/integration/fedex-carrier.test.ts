@@ -0,0 +1,325 @@
+import { createStubHttpClient, jsonResponse, textResponse } from '../helpers/stub-http-client';
+import { OAuthClient } from '../../infrastructure/auth/oauth-client';
+import { ClientCredentialsAuthProvider } from '../../infrastructure/auth/client-credentials-auth-provider';
+import { FedExRateClient } from '../../integrations/fedex/fedex-rate-client';
+import { FedExRateMapper } from '../../integrations/fedex/fedex-rate-mapper';
+import { FedExRateCarrier } from '../../integrations/fedex/fedex-rate-carrier';
+import { registerFedExRateCarrier } from '../../integrations/fedex/register';
+import { CarrierRegistry } from '../../application/registry/carrier-registry';
+import { ErrorCode, NetworkError, RateLimitError } from '../../domain/errors';
+import { RateRequest } from '../../domain/rates';
+
+const fedExConfig = {
+  clientId: 'fedex-client',
+  clientSecret: 'fedex-secret',
+  accountNumber: '740561073',
+  baseUrl: 'https://apis.fedex.com',
+  authUrl: 'https://apis.fedex.com/oauth/token',
+  timeoutMs: 30000
+};
+
+const validRequest: RateRequest = {
+  origin: {
+    street: ['123 Main St'],
+    city: 'Atlanta',
+    state: 'GA',
+    postalCode: '30339',
+    country: 'US'
+  },
+  destination: {
+    street: ['456 Oak Ave'],
+    city: 'Los Angeles',
+    state: 'CA',
+    postalCode: '90001',
+    country: 'US'
+  },
+  packages: [{ weight: 5, length: 10, width: 8, height: 6 }]
+};
+
+type FedExRateRequestPayload = {
+  accountNumber: { value: string };
+  requestedShipment: {
+    shipper: { address: { city: string } };
+    recipient: { address: { city: string; residential?: boolean } };
+    serviceType?: string;
+    packagingType: string;
+    requestedPackageLineItems: Array<{ weight: { units: string; value: number }; dimensions?: unknown }>;
+  };
+};
+
+function rateSuccessResponse() {
+  return {
+    transactionId: 'tx_1',
+    output: {
+      rateReplyDetails: [
+        {
+          serviceType: 'FEDEX_GROUND',
+          serviceName: 'FedEx Ground',
+          ratedShipmentDetails: [
+            { rateType: 'LIST', totalNetCharge: 21.1, currency: 'USD' },
+            { rateType: 'ACCOUNT', totalNetCharge: 17.35, currency: 'USD' }
+          ],
+          operationalDetail: { transitTime: 'FOUR_DAYS' }
+        },
+        {
+          serviceType: 'STANDARD_OVERNIGHT',
+          serviceName: 'FedEx Standard Overnight',
+          ratedShipmentDetails: [{ rateType: 'LIST', totalNetCharge: 72.4, currency: 'USD' }],
+          operationalDetail: { transitTime: 'ONE_DAY' }
+        }
+      ]
+    }
+  };
+}
+
+function tokenResponse(token = 'fx_token_1') {
+  return jsonResponse(200, { access_token: token, token_type: 'bearer', expires_in: 3599 });
+}
+
+function buildCarrier(httpHandler: Parameters<typeof createStubHttpClient>[0]) {
+  const httpClient = createStubHttpClient(httpHandler);
+  const oauthClient = new OAuthClient(httpClient, {
+    authUrl: fedExConfig.authUrl,
+    clientId: fedExConfig.clientId,
+    clientSecret: fedExConfig.clientSecret,
+    timeoutMs: fedExConfig.timeoutMs,
+    clientAuthMethod: 'body'
+  });
+  const authProvider = new ClientCredentialsAuthProvider(oauthClient);
+  const rateClient = new FedExRateClient(httpClient, authProvider, fedExConfig);
+  const mapper = new FedExRateMapper({ accountNumber: fedExConfig.accountNumber });
+  const carrier = new FedExRateCarrier(rateClient, mapper);
+  return { httpClient, carrier };
+}
+
+describe('FedExRateCarrier (FedEx Rate API)', () => {
+  it('exposes carrier name and supported service levels', () => {
+    const { carrier } = buildCarrier(async () => tokenResponse());
+
+    expect(carrier.getName()).toBe('FedEx');
+    expect(carrier.supportsServiceLevel('ground')).toBe(true);
+    expect(carrier.supportsServiceLevel('secondDayAir')).toBe(true);
+    expect(carrier.supportsServiceLevel('standard')).toBe(false);
+  });
+
+  describe('request building', () => {
+    it('builds a FedEx payload and sends credentials in the token request body', async () => {
+      const { httpClient, carrier } = buildCarrier(async (req) => {
+        if (req.url === fedExConfig.authUrl) return tokenResponse();
+        return jsonResponse(200, rateSuccessResponse());
+      });
+
+      const result = await carrier.getRates(validRequest);
+      const requests = httpClient.getRequests();
+
+      const tokenReq = requests.find((r) => r.url === fedExConfig.authUrl)!;
+      expect(tokenReq.headers?.['Authorization']).toBeUndefined();
+      expect(tokenReq.body).toContain('client_id=fedex-client');
+      expect(tokenReq.body).toContain('client_secret=fedex-secret');
+
+      const rateReq = requests.find((r) => r.url.includes('/rate/v1/rates/quotes'));
+      expect(rateReq).toBeDefined();
+      expect(rateReq!.headers?.['Authorization']).toBe('Bearer fx_token_1');
+      expect(rateReq!.headers?.['x-customer-transaction-id']).toBe(result.requestId);
+
+      const body = JSON.parse(rateReq!.body ?? '{}') as FedExRateRequestPayload;
+      expect(body.accountNumber.value).toBe(fedExConfig.accountNumber);
+      expect(body.requestedShipment.shipper.address.city).toBe('Atlanta');
+      expect(body.requestedShipment.recipient.address.city).toBe('Los Angeles');
+      expect(body.requestedShipment.serviceType).toBeUndefined();
+      expect(body.requestedShipment.packagingType).toBe('YOUR_PACKAGING');
+      expect(body.requestedShipment.requestedPackageLineItems[0]!.weight).toEqual({ units: 'LB', value: 5 });
+    });
+
+    it('sends a service type when a service level is requested', async () => {
+      const { httpClient, carrier } = buildCarrier(async (req) => {
+        if (req.url === fedExConfig.authUrl) return tokenResponse();
+        return jsonResponse(200, rateSuccessResponse());
+      });
+
+      await carrier.getRates({ ...validRequest, serviceLevel: 'secondDayAir' });
+      const rateReq = httpClient.getRequests().find((r) => r.url.includes('/rate/v1/rates/quotes'))!;
+      const body = JSON.parse(rateReq.body ?? '{}') as FedExRateRequestPayload;
+      expect(body.requestedShipment.serviceType).toBe('FEDEX_2_DAY');
+    });
+
+    it('flags residential recipients and rejects unsupported shipment options', async () => {
+      const { httpClient, carrier } = buildCarrier(async (req) => {
+        if (req.url === fedExConfig.authUrl) return tokenResponse();
+        return jsonResponse(200, rateSuccessResponse());
+      });
+
+      await carrier.getRates({ ...validRequest, shipmentOptions: { residential: true } });
+      const rateReq = httpClient.getRequests().find((r) => r.url.includes('/rate/v1/rates/quotes'))!;
+      const body = JSON.parse(rateReq.body ?? '{}') as FedExRateRequestPayload;
+      expect(body.requestedShipment.recipient.address.residential).toBe(true);
+
+      await expect(
+        carrier.getRates({ ...validRequest, shipmentOptions: { residential: true, saturdayDelivery: true } })
+      ).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+        carrier: 'FedEx',
+        message: 'FedEx does not support shipment options: saturdayDelivery'
+      });
+    });
+
+    it('sends FedEx packaging and rejects mixed or unsupported packaging', async () => {
+      const { httpClient, carrier } = buildCarrier(async (req) => {
+        if (req.url === fedExConfig.authUrl) return tokenResponse();
+        return jsonResponse(200, rateSuccessResponse());
+      });
+      const pak = { weight: 2, length: 12, width: 10, height: 2, packagingType: 'pak' as const };
+
+      await carrier.getRates({ ...validRequest, packages: [pak] });
+      const rateReq = httpClient.getRequests().find((r) => r.url.includes('/rate/v1/rates/quotes'))!;
+      const body = JSON.parse(rateReq.body ?? '{}') as FedExRateRequestPayload;
+      expect(body.requestedShipment.packagingType).toBe('FEDEX_PAK');
+      expect(body.requestedShipment.requestedPackageLineItems[0]!.dimensions).toBeUndefined();
+
+      await expect(
+        carrier.getRates({ ...validRequest, packages: [pak, validRequest.packages[0]!] })
+      ).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, carrier: 'FedEx' });
+      await expect(
+        carrier.getRates({ ...validRequest, packages: [{ ...pak, packagingType: 'pallet' }] })
+      ).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'FedEx does not support packaging types: pallet'
+      });
+    });
+  });
+
+  describe('response parsing', () => {
+    it('normalizes FedEx rate reply details and prefers account rates', async () => {
+      const { carrier } = buildCarrier(async (req) => {
+        if (req.url === fedExConfig.authUrl) return tokenResponse();
+        return jsonResponse(200, rateSuccessResponse());
+      });
+
+      const result = await carrier.getRates(validRequest);
+      expect(result.quotes).toHaveLength(2);
+
+      const ground = result.quotes.find((q) => q.serviceLevel === 'ground');
+      expect(ground?.totalCost).toBe(17.35);
+      expect(ground?.currency).toBe('USD');
+      expect(ground?.carrier).toBe('FedEx');
+      expect(ground?.estimatedDays).toBe(4);
+
+      const overnight = result.quotes.find((q) => q.serviceLevel === 'nextDayAir');
+      expect(overnight?.totalCost).toBe(72.4);
+      expect(overnight?.estimatedDays).toBe(1);
+    });
+  });
+
+  describe('error handling', () => {
+    it('refreshes the token and retries once on 401', async () => {
+      let tokenCalls = 0;
+      let rateCalls = 0;
+      const { carrier } = buildCarrier(async (req) => {
+        if (req.url === fedExConfig.authUrl) {
+          tokenCalls += 1;
+          return tokenResponse(`fx_token_${tokenCalls}`);
+        }
+        rateCalls += 1;
+        if (rateCalls === 1) return textResponse(401, 'Unauthorized');
+        return jsonResponse(200, rateSuccessResponse());
+      });
+
+      const result = await carrier.getRates(validRequest);
+      expect(result.quotes).toHaveLength(2);
+      expect(tokenCalls).toBe(2);
+      expect(rateCalls).toBe(2);
+    });
+
+    it('throws non-retryable API_ERROR on 4xx with FedEx error bodies', async () => {
+      const { carrier } = buildCarrier(async (req) => {
+        if (req.url === fedExConfig.authUrl) return tokenResponse();
+        return jsonResponse(400, {
+          transactionId: 'tx_2',
+          errors: [{ code: 'ACCOUNT.NUMBER.MISMATCH', message: 'Account number mismatch' }]
+        });
+      });
+
+      await expect(carrier.getRates(validRequest)).rejects.toMatchObject({
+        code: ErrorCode.API_ERROR,
+        carrier: 'FedEx',
+        retryable: false
+      });
+    });
+
+    it('throws API_ERROR when the body carries errors on a 2xx', async () => {
+      const { carrier } = buildCarrier(async (req) => {
+        if (req.url === fedExConfig.authUrl) return tokenResponse();
+        return jsonResponse(200, { errors: [{ code: 'SERVICE.UNAVAILABLE', message: 'Try later' }] });
+      });
+
+      await expect(carrier.getRates(validRequest)).rejects.toMatchObject({
+        code: ErrorCode.API_ERROR,
+        carrier: 'FedEx'
+      });
+    });
+
+    it('throws RateLimitError on 429', async () => {
+      const { carrier } = buildCarrier(async (req) => {
+        if (req.url === fedExConfig.authUrl) return tokenResponse();
+        return textResponse(429, 'Too Many Requests');
+      });
+
+      await expect(carrier.getRates(validRequest)).rejects.toBeInstanceOf(RateLimitError);
+    });
+
+    it('throws MALFORMED_RESPONSE on invalid JSON', async () => {
+      const { carrier } = buildCarrier(async (req) => {
+        if (req.url === fedExConfig.authUrl) return tokenResponse();
+        return textResponse(200, '<html>not json</html>');
+      });
+
+      await expect(carrier.getRates(validRequest)).rejects.toMatchObject({
+        code: ErrorCode.MALFORMED_RESPONSE,
+        carrier: 'FedEx'
+      });
+    });
+
+    it('attaches carrier context to network errors', async () => {
+      const { carrier } = buildCarrier(async (req) => {
+        if (req.url === fedExConfig.authUrl) return tokenResponse();
+        throw new NetworkError('socket hang up');
+      });
+
+      await expect(carrier.getRates(validRequest)).rejects.toMatchObject({
+        code: ErrorCode.NETWORK_ERROR,
+        carrier: 'FedEx'
+      });
+    });
+  });
+
+  describe('plugin registration', () => {
+    it('registers FedEx with the resilience wrappers', async () => {
+      let rateCalls = 0;
+      const httpClient = createStubHttpClient(async (req) => {
+        if (req.url === fedExConfig.authUrl) return tokenResponse();
+        rateCalls += 1;
+        if (rateCalls === 1) return textResponse(503, 'Service Unavailable');
+        return jsonResponse(200, rateSuccessResponse());
+      });
+
+      const registry = new CarrierRegistry();
+      registerFedExRateCarrier(registry, {
+        config: fedExConfig,
+        httpClient,
+        instrumentHttp: false,
+        retryPolicy: {
+          maxAttempts: 2,
+          shouldRetry: (_error, attempt) => attempt < 2,
+          getDelayMs: () => 0
+        }
+      });
+
+      const carrier = registry.getCarrier('fedex');
+      expect(carrier).toBeDefined();
+
+      const result = await carrier!.getRates(validRequest);
+      expect(result.quotes).toHaveLength(2);
+      expect(rateCalls).toBe(2);
+    });
+  });
+});
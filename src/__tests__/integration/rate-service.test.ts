@@ -1,11 +1,27 @@
 import { CarrierRegistry } from '../../application/registry/carrier-registry';
-import { RateService } from '../../application/services/rate-service';
+import { CarrierRateResult, RateService } from '../../application/services/rate-service';
 import { NoopLogger } from '../../infrastructure/logging/noop-logger';
 import { NoopTracer } from '../../infrastructure/tracing/noop-tracer';
 import { InMemoryRateCache } from '../../infrastructure/caching/in-memory-rate-cache';
+import { StaticExchangeRateProvider } from '../../infrastructure/fx/static-exchange-rate-provider';
+import { cheapestStrategy, fastestStrategy } from '../../application/services/quote-strategies';
+import { PricingEngine } from '../../application/services/pricing-engine';
 import { RateRequest, RateResponse, ServiceLevel } from '../../domain/rates';
-import { ConfigError, ServiceError, ValidationError } from '../../domain/errors';
+import { parseMoney } from '../../domain/money';
+import {
+  CancelledError,
+  ConfigError,
+  ErrorCode,
+  ServiceError,
+  TimeoutError,
+  ValidationError,
+  cancellationError
+} from '../../domain/errors';
 import { Tracer, Span } from '../../application/ports/tracer';
+import { Logger } from '../../application/ports/logger';
+import { CircuitBreaker } from '../../infrastructure/circuit-breaker/circuit-breaker';
+import { registerUpsRateCarrier } from '../../integrations/ups/register';
+import { createUpsTestClients, upsConfig } from '../helpers/ups-test-clients';
 
 const validRequest: RateRequest = {
   origin: {
@@ -89,6 +105,326 @@ describe('RateService', () => {
     expect(r1[0]!.requestId).toBe(r2[0]!.requestId);
   });
 
+  it('keys the cache by ship date and shipment options', async () => {
+    let calls = 0;
+    const registry = new CarrierRegistry();
+    registry.registerCarrier({
+      getName: () => 'UPS',
+      getRates: async () => {
+        calls += 1;
+        return { requestId: `r${calls}`, quotes: [] };
+      }
+    });
+    const service = new RateService(registry, {
+      logger: new NoopLogger(),
+      tracer: new NoopTracer(),
+      cache: new InMemoryRateCache({ maxEntries: 50 })
+    });
+
+    await service.getRates({ ...validRequest, shipDate: '2026-10-20' });
+    await service.getRates({ ...validRequest, shipDate: '2026-10-21' });
+    await service.getRates({ ...validRequest, shipDate: '2026-10-21', shipmentOptions: { residential: true } });
+    await service.getRates({ ...validRequest, shipDate: '2026-10-21', shipmentOptions: { residential: true } });
+
+    expect(calls).toBe(3);
+  });
+
+  it('attaches billable weights and warns when dimensional weight dominates', async () => {
+    const warnings: Array<{ obj: Record<string, unknown>; msg?: string }> = [];
+    const logger: Logger = {
+      debug: () => undefined,
+      info: () => undefined,
+      warn: (obj, msg) => {
+        warnings.push(msg === undefined ? { obj } : { obj, msg });
+      },
+      error: () => undefined,
+      child: () => logger
+    };
+    const registry = new CarrierRegistry();
+    registry.registerCarrier({
+      getName: () => 'USPS',
+      getRates: async () => ({
+        requestId: 'r1',
+        quotes: [{ carrier: 'USPS', currency: 'USD', serviceLevel: 'priorityMail', serviceName: 'Priority', totalCost: 9 }]
+      })
+    });
+    const service = new RateService(registry, {
+      logger,
+      tracer: new NoopTracer(),
+      dimDivisors: { usps: { imperial: 139, metric: 5000 } }
+    });
+
+    const light = await service.getRatesFromCarrier('USPS', validRequest);
+    expect(light.quotes[0]!.weights).toMatchObject({ actual: 5, dimensional: 4, billable: 5, divisor: 139 });
+    expect(warnings).toHaveLength(0);
+
+    const [bulky] = await service.getRates({
+      ...validRequest,
+      packages: [{ weight: 2, length: 24, width: 18, height: 12 }]
+    });
+    expect(bulky!.quotes[0]!.weights).toMatchObject({
+      actual: 2,
+      dimensional: 38,
+      billable: 38,
+      unit: 'lb',
+      dimensionalWeightApplies: true
+    });
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]!.obj).toMatchObject({ actualWeight: 2, dimensionalWeight: 38 });
+  });
+
+  it('normalizes quotes into a requested currency and keeps the original amount', async () => {
+    const registry = new CarrierRegistry();
+    registry.registerCarrier({
+      getName: () => 'DHL',
+      getRates: async () => ({
+        requestId: 'r1',
+        quotes: [
+          {
+            carrier: 'DHL',
+            currency: 'EUR',
+            serviceLevel: 'worldwideExpress',
+            serviceName: 'Express Worldwide',
+            totalCost: 92,
+            publishedCost: 100
+          }
+        ]
+      })
+    });
+    registry.registerCarrier({
+      getName: () => 'UPS',
+      getRates: async () => ({
+        requestId: 'r2',
+        quotes: [{ carrier: 'UPS', currency: 'USD', serviceLevel: 'ground', serviceName: 'Ground', totalCost: 10 }]
+      })
+    });
+    const cache = new InMemoryRateCache({ maxEntries: 50 });
+    const service = new RateService(registry, {
+      logger: new NoopLogger(),
+      tracer: new NoopTracer(),
+      cache,
+      exchangeRates: new StaticExchangeRateProvider({
+        base: 'USD',
+        rates: { EUR: 0.92 },
+        asOf: '2026-10-19T00:00:00Z'
+      })
+    });
+
+    const results = await service.getRates(validRequest, { currency: 'usd' });
+    const [dhl, ups] = results.flatMap((r) => r.quotes);
+    expect(dhl).toMatchObject({
+      totalCost: 100,
+      publishedCost: 108.7,
+      currency: 'USD',
+      conversion: { originalAmount: 92, originalCurrency: 'EUR', rateTimestamp: '2026-10-19T00:00:00Z' }
+    });
+    expect(dhl!.conversion!.rate).toBeCloseTo(1 / 0.92, 10);
+    expect(ups).toEqual({
+      carrier: 'UPS',
+      currency: 'USD',
+      serviceLevel: 'ground',
+      serviceName: 'Ground',
+      totalCost: 10,
+      price: { minorUnits: 1000, currency: 'USD' },
+      weights: expect.any(Object)
+    });
+
+    const unconverted = await service.getRates(validRequest);
+    expect(unconverted[0]!.quotes[0]).toMatchObject({ totalCost: 92, currency: 'EUR' });
+    expect(unconverted[0]!.quotes[0]!.conversion).toBeUndefined();
+
+    const detailed = await service.getRatesDetailed(validRequest, { currency: 'JPY' });
+    expect(detailed.find((r) => r.carrier === 'DHL')?.error).toBeInstanceOf(ConfigError);
+  });
+
+  it('converts charges and duties along with the total', async () => {
+    const eur = (amount: number) => parseMoney(amount, 'EUR');
+    const registry = new CarrierRegistry();
+    registry.registerCarrier({
+      getName: () => 'DHL',
+      getRates: async () => ({
+        requestId: 'r1',
+        quotes: [
+          {
+            carrier: 'DHL',
+            currency: 'EUR',
+            serviceLevel: 'worldwideExpress',
+            serviceName: 'Express Worldwide',
+            totalCost: 100,
+            publishedCost: 100,
+            charges: [
+              { type: 'transportation', description: 'Transportation', amount: 98.93, currency: 'EUR' },
+              { type: 'fuel', description: 'Fuel', amount: 1.07, currency: 'EUR', price: eur(1.07) }
+            ],
+            estimatedDutiesAndTaxes: { duties: eur(10), taxes: eur(19), fees: eur(0), total: eur(29) }
+          }
+        ]
+      })
+    });
+    registry.registerCarrier({
+      getName: () => 'UPS',
+      getRates: async () => ({
+        requestId: 'r2',
+        quotes: [
+          {
+            carrier: 'UPS',
+            currency: 'USD',
+            serviceLevel: 'ground',
+            serviceName: 'Ground',
+            totalCost: 10,
+            charges: [{ type: 'transportation', description: 'Transportation', amount: 10, currency: 'USD' }],
+            estimatedDutiesAndTaxes: { duties: eur(5), taxes: eur(0), fees: eur(1), total: eur(6) }
+          }
+        ]
+      })
+    });
+    const service = new RateService(registry, {
+      logger: new NoopLogger(),
+      tracer: new NoopTracer(),
+      exchangeRates: new StaticExchangeRateProvider({ base: 'USD', rates: { EUR: 0.92 }, asOf: '2026-10-19T00:00:00Z' })
+    });
+
+    const [dhl, ups] = (await service.getRates(validRequest, { currency: 'USD' })).flatMap((r) => r.quotes);
+    const usd = (amount: number) => parseMoney(amount, 'USD');
+
+    expect(dhl).toMatchObject({ totalCost: 108.7, publishedCost: 108.7, currency: 'USD' });
+    expect(dhl!.charges).toEqual([
+      { type: 'transportation', description: 'Transportation', amount: 107.54, currency: 'USD', price: usd(107.54) },
+      { type: 'fuel', description: 'Fuel', amount: 1.16, currency: 'USD', price: usd(1.16) }
+    ]);
+    expect(dhl!.estimatedDutiesAndTaxes).toEqual({
+      duties: usd(10.87),
+      taxes: usd(20.65),
+      fees: usd(0),
+      total: usd(31.52)
+    });
+
+    expect(ups).toMatchObject({ totalCost: 10, currency: 'USD' });
+    expect(ups!.conversion).toBeUndefined();
+    expect(ups!.charges).toEqual([
+      { type: 'transportation', description: 'Transportation', amount: 10, currency: 'USD', price: usd(10) }
+    ]);
+    expect(ups!.estimatedDutiesAndTaxes).toEqual({
+      duties: usd(5.43),
+      taxes: usd(0),
+      fees: usd(1.09),
+      total: usd(6.52)
+    });
+  });
+
+  it('requires an exchange rate provider to normalize currencies', async () => {
+    const service = createServiceWithCarriers([
+      { name: 'A', getRates: async () => ({ requestId: 'r1', quotes: [] }) }
+    ]);
+
+    await expect(service.getRates(validRequest, { currency: 'EUR' })).rejects.toBeInstanceOf(ConfigError);
+    await expect(service.getRates(validRequest, { currency: 'euro' })).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('ranks quotes across carriers and selects the winner for a strategy', async () => {
+    const service = createServiceWithCarriers([
+      {
+        name: 'A',
+        getRates: async () => ({
+          requestId: 'r1',
+          quotes: [
+            { carrier: 'A', currency: 'USD', serviceLevel: 'ground', serviceName: 'Ground', totalCost: 8, estimatedDays: 4 },
+            { carrier: 'A', currency: 'USD', serviceLevel: 'nextDayAir', serviceName: 'Next Day', totalCost: 30, estimatedDays: 1 }
+          ]
+        })
+      },
+      {
+        name: 'B',
+        getRates: async () => ({
+          requestId: 'r2',
+          quotes: [{ carrier: 'B', currency: 'USD', serviceLevel: 'ground', serviceName: 'Ground', totalCost: 7.25 }]
+        })
+      }
+    ]);
+    const request = { ...validRequest, shipDate: '2026-10-19' };
+
+    const ranking = await service.rankQuotes(request, { strategy: cheapestStrategy() });
+    expect(ranking.ranked.map((r) => `${r.quote.carrier} ${r.quote.serviceName}`)).toEqual([
+      'B Ground',
+      'A Ground',
+      'A Next Day'
+    ]);
+
+    const fastest = await service.selectQuote(request, { strategy: fastestStrategy() });
+    expect(fastest?.quote.serviceName).toBe('Next Day');
+    expect(fastest?.explanation).toBe('Earliest estimated delivery (2026-10-20) of 2 quotes with delivery estimates');
+  });
+
+  it('returns no selection when the strategy excludes every quote', async () => {
+    const service = createServiceWithCarriers([
+      {
+        name: 'A',
+        getRates: async () => ({
+          requestId: 'r1',
+          quotes: [{ carrier: 'A', currency: 'USD', serviceLevel: 'ground', serviceName: 'Ground', totalCost: 8 }]
+        })
+      }
+    ]);
+
+    await expect(service.selectQuote(validRequest, { strategy: fastestStrategy() })).resolves.toBeUndefined();
+  });
+
+  it('applies pricing rules after currency conversion without caching resale prices', async () => {
+    let calls = 0;
+    const registry = new CarrierRegistry();
+    registry.registerCarrier({
+      getName: () => 'UPS',
+      getRates: async () => {
+        calls += 1;
+        return {
+          requestId: `r${calls}`,
+          quotes: [{ carrier: 'UPS', currency: 'USD', serviceLevel: 'ground', serviceName: 'Ground', totalCost: 20 }]
+        };
+      }
+    });
+    const service = new RateService(registry, {
+      logger: new NoopLogger(),
+      tracer: new NoopTracer(),
+      cache: new InMemoryRateCache({ maxEntries: 10 }),
+      exchangeRates: new StaticExchangeRateProvider({
+        base: 'USD',
+        rates: { CAD: 1.5 },
+        asOf: '2026-10-19T00:00:00Z'
+      }),
+      pricing: new PricingEngine({
+        rules: [
+          { id: 'markup', adjustments: [{ type: 'percentMarkup', percent: 10 }] },
+          {
+            id: 'gold',
+            match: { customerTiers: ['gold'] },
+            adjustments: [{ type: 'fixedDiscount', amount: '1', currency: 'USD' }]
+          },
+          { id: 'cad-floor', adjustments: [{ type: 'minimum', amount: '40', currency: 'CAD' }] }
+        ]
+      })
+    });
+
+    const [standard] = await service.getRates(validRequest);
+    expect(standard!.quotes[0]).toMatchObject({
+      totalCost: 22,
+      pricing: { carrierCost: 20, margin: { minorUnits: 200, currency: 'USD' }, appliedRules: ['markup'] }
+    });
+
+    const [gold] = await service.getRates(validRequest, { customerTier: 'gold' });
+    expect(gold!.quotes[0]!.totalCost).toBe(21);
+
+    const [cad] = await service.getRates(validRequest, { currency: 'CAD' });
+    expect(cad!.quotes[0]).toMatchObject({
+      totalCost: 40,
+      currency: 'CAD',
+      pricing: { carrierCost: 30, appliedRules: ['markup', 'cad-floor'] }
+    });
+    expect(calls).toBe(1);
+
+    const [detailed] = await service.getRatesDetailed(validRequest, { customerTier: 'gold' });
+    expect(detailed!.response!.quotes[0]!.pricing?.appliedRules).toEqual(['markup', 'gold']);
+  });
+
   it('lists registered carriers', () => {
     const registry = new CarrierRegistry();
     registry.registerCarrier({
@@ -114,6 +450,11 @@ describe('RateService', () => {
     };
 
     await expect(service.getRates(invalidRequest as RateRequest)).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      service.getRates({ ...validRequest, destination: { ...validRequest.destination, postalCode: '9000' } })
+    ).rejects.toMatchObject({
+      details: { fieldErrors: { 'destination.postalCode': ['Postal code 9000 is not valid for US (for example 30339)'] } }
+    });
   });
 
   it('filters carriers by service level when specified', async () => {
@@ -141,6 +482,408 @@ describe('RateService', () => {
     expect(called).toEqual(['A']);
   });
 
+  it('sends a requested carrier service code only to that carrier', async () => {
+    const requests: Array<[string, RateRequest]> = [];
+    const service = createServiceWithCarriers(
+      ['UPS', 'FedEx'].map((name) => ({
+        name,
+        getRates: async (request: RateRequest) => {
+          requests.push([name, request]);
+          return { requestId: name, quotes: [] };
+        }
+      }))
+    );
+
+    await service.getRates({ ...validRequest, carrierService: { carrier: 'ups', code: '93' } });
+    expect(requests).toEqual([['UPS', expect.objectContaining({ carrierService: { carrier: 'ups', code: '93' } })]]);
+
+    await expect(
+      service.getRatesFromCarrier('FedEx', { ...validRequest, carrierService: { carrier: 'UPS', code: '93' } })
+    ).rejects.toThrow('Carrier service 93 belongs to UPS, not FedEx');
+    await expect(
+      service.getRates({ ...validRequest, serviceLevel: 'ground', carrierService: { carrier: 'UPS', code: '03' } })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('includes and excludes carriers per request', async () => {
+    const called: string[] = [];
+    const carrier = (name: string) => ({
+      name,
+      getRates: async () => {
+        called.push(name);
+        return { requestId: name, quotes: [] };
+      }
+    });
+    const service = createServiceWithCarriers([carrier('UPS'), carrier('FedEx'), carrier('USPS')]);
+
+    await service.getRates({ ...validRequest, carriers: { include: ['ups', 'USPS'] } });
+    expect(called.sort()).toEqual(['UPS', 'USPS']);
+
+    called.length = 0;
+    await service.getRates({ ...validRequest, carriers: { exclude: ['USPS'] } });
+    expect(called.sort()).toEqual(['FedEx', 'UPS']);
+
+    await expect(
+      service.getRates({ ...validRequest, carriers: { include: ['UPS'], exclude: ['FedEx'] } })
+    ).resolves.toHaveLength(1);
+    await expect(service.getRates({ ...validRequest, carriers: { include: ['DHL'] } })).rejects.toThrow(
+      'Carrier not found: DHL'
+    );
+    await expect(
+      service.getRatesFromCarrier('USPS', { ...validRequest, carriers: { exclude: ['usps'] } })
+    ).rejects.toThrow("Carrier USPS is excluded by the request's carrier filters");
+  });
+
+  it('restricts quotes to requested service codes and passes per-carrier options', async () => {
+    const registry = new CarrierRegistry();
+    const upsOptions: unknown[] = [];
+    registry.registerCarrier({
+      getName: () => 'UPS',
+      getRates: async (_request, context) => {
+        upsOptions.push(context?.options);
+        return {
+          requestId: 'u1',
+          quotes: [
+            { carrier: 'UPS', currency: 'USD', serviceLevel: 'ground', serviceName: 'Ground', totalCost: 10, carrierServiceCode: '03' },
+            { carrier: 'UPS', currency: 'USD', serviceLevel: 'nextDayAir', serviceName: 'Next Day Air', totalCost: 40, carrierServiceCode: '01' },
+            { carrier: 'UPS', currency: 'USD', serviceLevel: 'other', serviceName: 'Unknown', totalCost: 8 }
+          ]
+        };
+      }
+    });
+    const fedExCalls = jest.fn(async () => ({ requestId: 'f1', quotes: [] }));
+    registry.registerCarrier({ getName: () => 'FedEx', getRates: fedExCalls });
+    const service = new RateService(registry, {
+      logger: new NoopLogger(),
+      tracer: new NoopTracer(),
+      cache: new InMemoryRateCache({ maxEntries: 10 })
+    });
+
+    const request: RateRequest = {
+      ...validRequest,
+      serviceCodes: [{ carrier: 'ups', code: '03' }],
+      carrierOptions: { ups: { accountNumber: 'STORE2' } }
+    };
+    const responses = await service.getRates(request);
+    await service.getRates({ ...request, carrierOptions: { UPS: { accountNumber: 'STORE3' } } });
+
+    expect(responses.flatMap((r) => r.quotes.map((q) => q.carrierServiceCode))).toEqual(['03']);
+    expect(fedExCalls).not.toHaveBeenCalled();
+    expect(upsOptions).toEqual([{ accountNumber: 'STORE2' }, { accountNumber: 'STORE3' }]);
+  });
+
+  it('returns partial results at the deadline and cancels carriers that are still running', async () => {
+    let calls = 0;
+    let slowSignal: AbortSignal | undefined;
+    const registry = new CarrierRegistry();
+    registry.registerCarrier({
+      getName: () => 'UPS',
+      getRates: async () => {
+        calls += 1;
+        return {
+          requestId: 'u1',
+          quotes: [{ carrier: 'UPS', currency: 'USD', serviceLevel: 'ground', serviceName: 'Ground', totalCost: 10 }]
+        };
+      }
+    });
+    registry.registerCarrier({
+      getName: () => 'FedEx',
+      getRates: (_request, context) =>
+        new Promise((_resolve, reject) => {
+          slowSignal = context?.signal;
+          context?.signal?.addEventListener('abort', () => reject(context.signal?.reason));
+        })
+    });
+    const service = new RateService(registry, {
+      logger: new NoopLogger(),
+      tracer: new NoopTracer(),
+      cache: new InMemoryRateCache({ maxEntries: 10 }),
+      deadlineMs: 5000
+    });
+
+    const detailed = await service.getRatesDetailed(validRequest, { deadlineMs: 20 });
+    expect(detailed[0]!.response?.quotes).toHaveLength(1);
+    expect(detailed[1]).toMatchObject({
+      carrier: 'FedEx',
+      error: { code: ErrorCode.TIMEOUT, message: 'FedEx did not respond within the 20ms deadline' }
+    });
+    expect(slowSignal?.aborted).toBe(true);
+
+    const partial = await service.getRates(validRequest, { deadlineMs: 20 });
+    await service.getRates(validRequest, { deadlineMs: 20 });
+    expect(partial.flatMap((r) => r.quotes.map((q) => q.carrier))).toEqual(['UPS']);
+    expect(calls).toBe(3);
+
+    await expect(service.getRatesFromCarrier('FedEx', validRequest, { deadlineMs: 20 })).rejects.toBeInstanceOf(
+      TimeoutError
+    );
+    await expect(service.getRates(validRequest, { deadlineMs: 0 })).rejects.toThrow(
+      'Deadline must be a positive number of milliseconds: 0'
+    );
+  });
+
+  it('keeps the carrier circuit breaker closed when the deadline cancels a slow carrier', async () => {
+    const { httpClient } = createUpsTestClients(
+      (req) =>
+        new Promise((_resolve, reject) => {
+          req.signal?.addEventListener('abort', () => reject(cancellationError(req.signal!)));
+        })
+    );
+    const breaker = new CircuitBreaker({ failureThreshold: 5, openDurationMs: 30000 });
+    const registry = new CarrierRegistry();
+    registerUpsRateCarrier(registry, {
+      config: upsConfig,
+      httpClient,
+      instrumentHttp: false,
+      enableRetry: false,
+      circuitBreaker: breaker
+    });
+    const service = new RateService(registry, { logger: new NoopLogger(), tracer: new NoopTracer() });
+
+    for (let i = 0; i < 7; i += 1) {
+      const [result] = await service.getRatesDetailed(validRequest, { deadlineMs: 10 });
+      expect(result!.error).toMatchObject({ code: ErrorCode.TIMEOUT });
+    }
+    await expect(service.getRatesFromCarrier('UPS', validRequest, { deadlineMs: 10 })).rejects.toBeInstanceOf(
+      TimeoutError
+    );
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('streams carrier results in the order they resolve and caches the completed fan-out', async () => {
+    let releaseSlow: () => void = () => undefined;
+    let calls = 0;
+    const quote = (carrier: string, totalCost: number) => ({
+      requestId: carrier,
+      quotes: [{ carrier, currency: 'USD', serviceLevel: 'ground' as ServiceLevel, serviceName: 'Ground', totalCost }]
+    });
+    const registry = new CarrierRegistry();
+    registry.registerCarrier({
+      getName: () => 'UPS',
+      getRates: async () => {
+        calls += 1;
+        await new Promise<void>((resolve) => {
+          releaseSlow = resolve;
+        });
+        return quote('UPS', 12);
+      }
+    });
+    registry.registerCarrier({
+      getName: () => 'FedEx',
+      getRates: async () => {
+        calls += 1;
+        return quote('FedEx', 10);
+      }
+    });
+    const service = new RateService(registry, {
+      logger: new NoopLogger(),
+      tracer: new NoopTracer(),
+      cache: new InMemoryRateCache({ maxEntries: 10 }),
+      pricing: new PricingEngine({
+        rules: [{ id: 'markup', adjustments: [{ type: 'fixedMarkup', amount: '1.00', currency: 'USD' }] }]
+      })
+    });
+
+    const iterator = service.streamRates(validRequest)[Symbol.asyncIterator]();
+    const first = await iterator.next();
+    expect(first.value).toMatchObject({ carrier: 'FedEx', response: { quotes: [{ totalCost: 11 }] } });
+
+    releaseSlow();
+    const second = await iterator.next();
+    expect(second.value).toMatchObject({ carrier: 'UPS', response: { quotes: [{ totalCost: 13 }] } });
+    expect((await iterator.next()).done).toBe(true);
+
+    const cached = [];
+    for await (const result of service.streamRates(validRequest)) cached.push(result.carrier);
+    expect(cached).toEqual(['UPS', 'FedEx']);
+    expect(calls).toBe(2);
+
+    const invalid = service.streamRates({ ...validRequest, packages: [] })[Symbol.asyncIterator]();
+    await expect(invalid.next()).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('replays cached carriers by registry name, including carriers with no quotes', async () => {
+    let calls = 0;
+    const registry = new CarrierRegistry();
+    registry.registerCarrier({
+      getName: () => 'Acme',
+      getRates: async () => {
+        calls += 1;
+        return {
+          requestId: 'a1',
+          quotes: [{ carrier: 'UPS', currency: 'USD', serviceLevel: 'ground', serviceName: 'Ground', totalCost: 10 }]
+        };
+      }
+    });
+    registry.registerCarrier({
+      getName: () => 'USPS',
+      getRates: async () => {
+        calls += 1;
+        return { requestId: 'u1', quotes: [] };
+      }
+    });
+    const service = new RateService(registry, {
+      logger: new NoopLogger(),
+      tracer: new NoopTracer(),
+      cache: new InMemoryRateCache({ maxEntries: 10 })
+    });
+    const collect = () =>
+      new Promise<CarrierRateResult[]>((resolve) => {
+        const results: CarrierRateResult[] = [];
+        service
+          .streamRatesEvents(validRequest)
+          .on('result', (result: CarrierRateResult) => results.push(result))
+          .on('end', () => resolve(results));
+      });
+
+    const live = await collect();
+    const cached = await collect();
+
+    expect(calls).toBe(2);
+    for (const results of [live, cached]) {
+      expect(results.map((r) => [r.carrier, r.response?.quotes.length])).toEqual(
+        expect.arrayContaining([
+          ['Acme', 1],
+          ['USPS', 0]
+        ])
+      );
+      expect(results).toHaveLength(2);
+    }
+  });
+
+  it('emits streamed results as events and aborts pending carriers on cancel', async () => {
+    let slowSignal: AbortSignal | undefined;
+    const registry = new CarrierRegistry();
+    registry.registerCarrier({
+      getName: () => 'UPS',
+      getRates: async () => ({
+        requestId: 'u1',
+        quotes: [{ carrier: 'UPS', currency: 'USD', serviceLevel: 'ground', serviceName: 'Ground', totalCost: 10 }]
+      })
+    });
+    registry.registerCarrier({
+      getName: () => 'FedEx',
+      getRates: (_request, context) =>
+        new Promise((_resolve, reject) => {
+          slowSignal = context?.signal;
+          context?.signal?.addEventListener('abort', () => reject(new TimeoutError('aborted')));
+        })
+    });
+    const service = new RateService(registry, { logger: new NoopLogger(), tracer: new NoopTracer() });
+
+    const emitter = service.streamRatesEvents(validRequest);
+    const onEnd = jest.fn();
+    emitter.on('end', onEnd);
+    const first = await new Promise<CarrierRateResult>((resolve) => emitter.once('result', resolve));
+    expect(first.carrier).toBe('UPS');
+
+    emitter.cancel();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(slowSignal?.aborted).toBe(true);
+    expect(onEnd).not.toHaveBeenCalled();
+
+    const timedOut = service.streamRatesEvents(validRequest, { deadlineMs: 20 });
+    const results: CarrierRateResult[] = [];
+    timedOut.on('result', (result: CarrierRateResult) => results.push(result));
+    await new Promise((resolve) => timedOut.once('end', resolve));
+    expect(results.map((r) => r.error?.code)).toEqual([undefined, ErrorCode.TIMEOUT]);
+
+    const failed = service.streamRatesEvents({ ...validRequest, packages: [] });
+    await expect(new Promise((_resolve, reject) => failed.once('error', reject))).rejects.toBeInstanceOf(
+      ValidationError
+    );
+  });
+
+  it('cancels in-flight carrier calls when the caller aborts', async () => {
+    const signals: AbortSignal[] = [];
+    const registry = new CarrierRegistry();
+    registry.registerCarrier({
+      getName: () => 'UPS',
+      getRates: (_request, context) =>
+        new Promise((_resolve, reject) => {
+          signals.push(context!.signal!);
+          context?.signal?.addEventListener('abort', () => reject(context.signal?.reason));
+        })
+    });
+    const service = new RateService(registry, { logger: new NoopLogger(), tracer: new NoopTracer() });
+
+    const controller = new AbortController();
+    const pending = service.getRates(validRequest, { signal: controller.signal });
+    const single = service.getRatesFromCarrier('UPS', validRequest, { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ code: ErrorCode.CANCELLED });
+    await expect(single).rejects.toBeInstanceOf(CancelledError);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+
+    await expect(service.getRatesDetailed(validRequest, { signal: controller.signal })).rejects.toBeInstanceOf(
+      CancelledError
+    );
+    expect(signals).toHaveLength(2);
+  });
+
+  it('logs stream failures instead of rejecting when no error listener is attached', async () => {
+    const logger = new NoopLogger();
+    const errorSpy = jest.spyOn(logger, 'error');
+    const registry = new CarrierRegistry();
+    registry.registerCarrier({ getName: () => 'UPS', getRates: async () => ({ requestId: 'u1', quotes: [] }) });
+    const service = new RateService(registry, { logger, tracer: new NoopTracer() });
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+
+    try {
+      const emitter = service.streamRatesEvents({ ...validRequest, packages: [] });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(emitter.listenerCount('error')).toBe(0);
+      expect(unhandled).not.toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ err: expect.objectContaining({ code: ErrorCode.VALIDATION_ERROR }) }),
+        'rate stream failed with no error listener attached'
+      );
+    } finally {
+      process.off('unhandledRejection', unhandled);
+    }
+  });
+
+  it('cancels the transit time lookup when the caller aborts during it', async () => {
+    let transitSignal: AbortSignal | undefined;
+    let transitStarted: () => void = () => undefined;
+    const started = new Promise<void>((resolve) => {
+      transitStarted = resolve;
+    });
+    const registry = new CarrierRegistry();
+    registry.registerCarrier({
+      getName: () => 'UPS',
+      getRates: async () => ({
+        requestId: 'u1',
+        quotes: [{ carrier: 'UPS', currency: 'USD', serviceLevel: 'ground', serviceName: 'Ground', totalCost: 10 }]
+      })
+    });
+    registry.registerTransitTimeCarrier({
+      getName: () => 'UPS',
+      getTransitTimes: (_request, context) =>
+        new Promise((_resolve, reject) => {
+          transitSignal = context?.signal;
+          context?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+          transitStarted();
+        })
+    });
+    const service = new RateService(registry, {
+      logger: new NoopLogger(),
+      tracer: new NoopTracer(),
+      includeTransitTimes: true
+    });
+
+    const controller = new AbortController();
+    const pending = service.getRates(validRequest, { signal: controller.signal });
+    await started;
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ code: ErrorCode.CANCELLED });
+    expect(transitSignal?.aborted).toBe(true);
+  });
+
   it('throws when no carrier supports requested service level', async () => {
     const service = createServiceWithCarriers([
       {
@@ -0,0 +1,78 @@
+import { CarrierRegistry } from '../../application/registry/carrier-registry';
+import { ShipmentService } from '../../application/services/shipment-service';
+import { NoopLogger } from '../../infrastructure/logging/noop-logger';
+import { NoopTracer } from '../../infrastructure/tracing/noop-tracer';
+import { Shipment, ShipmentRequest } from '../../domain/shipments';
+import { ServiceError, ValidationError } from '../../domain/errors';
+
+const validRequest: ShipmentRequest = {
+  shipper: {
+    name: 'Shipping Dept',
+    address: { street: ['123 Main St'], city: 'Atlanta', state: 'GA', postalCode: '30339', country: 'US' }
+  },
+  recipient: {
+    name: 'Jane Doe',
+    address: { street: ['456 Oak Ave'], city: 'Los Angeles', state: 'CA', postalCode: '90001', country: 'US' }
+  },
+  packages: [{ weight: 5, length: 10, width: 8, height: 6 }],
+  serviceLevel: 'ground'
+};
+
+const shipment: Shipment = {
+  carrier: 'UPS',
+  shipmentId: '1Z1',
+  trackingNumber: '1Z1',
+  serviceLevel: 'ground',
+  totalCost: 10,
+  currency: 'USD',
+  packages: [{ trackingNumber: '1Z1', label: { format: 'GIF', imageBase64: 'AAAA' } }],
+  requestId: 'req_1'
+};
+
+function createService(createShipment: (request: ShipmentRequest) => Promise<Shipment>) {
+  const registry = new CarrierRegistry();
+  registry.registerShippingCarrier({
+    getName: () => 'UPS',
+    createShipment,
+    supportsServiceLevel: (level) => level !== 'priorityMail'
+  });
+  return new ShipmentService(registry, { logger: new NoopLogger(), tracer: new NoopTracer() });
+}
+
+describe('ShipmentService', () => {
+  it('creates a shipment through the named carrier', async () => {
+    const service = createService(async () => shipment);
+
+    await expect(service.createShipment('ups', validRequest)).resolves.toEqual(shipment);
+    expect(service.listCarriers().map((c) => c.getName())).toEqual(['UPS']);
+  });
+
+  it('validates the request before calling the carrier', async () => {
+    let called = false;
+    const service = createService(async () => {
+      called = true;
+      return shipment;
+    });
+
+    const invalid = { ...validRequest, recipient: { ...validRequest.recipient, name: '' } };
+    await expect(service.createShipment('UPS', invalid)).rejects.toBeInstanceOf(ValidationError);
+    expect(called).toBe(false);
+  });
+
+  it('throws a ValidationError for unknown carriers and unsupported service levels', async () => {
+    const service = createService(async () => shipment);
+
+    await expect(service.createShipment('FedEx', validRequest)).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      service.createShipment('UPS', { ...validRequest, serviceLevel: 'priorityMail' })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('wraps unexpected carrier failures as ServiceErrors', async () => {
+    const service = createService(async () => {
+      throw new Error('boom');
+    });
+
+    await expect(service.createShipment('UPS', validRequest)).rejects.toBeInstanceOf(ServiceError);
+  });
+});
@@ -0,0 +1,185 @@
+import { createStubHttpClient, jsonResponse, textResponse } from '../helpers/stub-http-client';
+import { createUpsTestClients, upsConfig } from '../helpers/ups-test-clients';
+import { UpsAddressValidationClient } from '../../integrations/ups/ups-address-validation-client';
+import { UpsAddressValidationMapper } from '../../integrations/ups/ups-address-validation-mapper';
+import { UpsAddressValidationCarrier } from '../../integrations/ups/ups-address-validation-carrier';
+import { CarrierRegistry } from '../../application/registry/carrier-registry';
+import { AddressValidationService } from '../../application/services/address-validation-service';
+import { NoopLogger } from '../../infrastructure/logging/noop-logger';
+import { NoopTracer } from '../../infrastructure/tracing/noop-tracer';
+import { ErrorCode, ValidationError } from '../../domain/errors';
+import { Address, RateRequest } from '../../domain/rates';
+
+const address: Address = {
+  street: ['26601 aliso creek rd'],
+  city: 'aliso viejo',
+  state: 'CA',
+  postalCode: '92656',
+  country: 'US'
+};
+
+function candidate(line: string, extended: string, classificationCode: string) {
+  return {
+    AddressClassification: { Code: classificationCode, Description: 'n/a' },
+    AddressKeyFormat: {
+      AddressLine: line,
+      PoliticalDivision2: 'ALISO VIEJO',
+      PoliticalDivision1: 'CA',
+      PostcodePrimaryLow: '92656',
+      PostcodeExtendedLow: extended,
+      CountryCode: 'US'
+    }
+  };
+}
+
+function buildService(httpHandler: Parameters<typeof createStubHttpClient>[0]) {
+  const { httpClient, authProvider } = createUpsTestClients(httpHandler);
+  const carrier = new UpsAddressValidationCarrier(
+    new UpsAddressValidationClient(httpClient, authProvider, upsConfig),
+    new UpsAddressValidationMapper()
+  );
+
+  const registry = new CarrierRegistry();
+  registry.registerAddressValidationCarrier(carrier);
+  const service = new AddressValidationService(registry, { logger: new NoopLogger(), tracer: new NoopTracer() });
+  return { httpClient, service };
+}
+
+describe('UpsAddressValidationCarrier (UPS XAV API)', () => {
+  it('sends the address in XAV key format with classification requested', async () => {
+    const { httpClient, service } = buildService(async () =>
+      jsonResponse(200, { XAVResponse: { NoCandidatesIndicator: '' } })
+    );
+
+    await service.validateAddress('UPS', { ...address, postalCode: '92656-3001' });
+    const xavReq = httpClient.getRequests().find((r) => r.url.includes('/addressvalidation/'))!;
+
+    expect(xavReq.method).toBe('POST');
+    expect(xavReq.url).toBe(
+      'https://api.ups.com/api/addressvalidation/v2/3?regionalrequestindicator=false&maximumcandidatelistsize=5'
+    );
+    expect(xavReq.headers?.['Authorization']).toBe('Bearer token_1');
+    expect(JSON.parse(xavReq.body!)).toEqual({
+      XAVRequest: {
+        AddressKeyFormat: {
+          AddressLine: ['26601 aliso creek rd'],
+          PoliticalDivision2: 'aliso viejo',
+          PoliticalDivision1: 'CA',
+          PostcodePrimaryLow: '92656',
+          PostcodeExtendedLow: '3001',
+          CountryCode: 'US'
+        }
+      }
+    });
+  });
+
+  it('returns the standardized address and classification for a valid match', async () => {
+    const { service } = buildService(async () =>
+      jsonResponse(200, {
+        XAVResponse: {
+          ValidAddressIndicator: '',
+          AddressClassification: { Code: '1', Description: 'Commercial' },
+          Candidate: candidate('26601 ALISO CREEK RD', '3001', '1')
+        }
+      })
+    );
+
+    const result = await service.validateAddress('ups', address);
+
+    expect(result.carrier).toBe('UPS');
+    expect(result.status).toBe('valid');
+    expect(result.classification).toBe('commercial');
+    expect(result.input).toEqual(address);
+    expect(result.standardizedAddress).toEqual({
+      street: ['26601 ALISO CREEK RD'],
+      city: 'ALISO VIEJO',
+      state: 'CA',
+      postalCode: '92656-3001',
+      country: 'US'
+    });
+    expect(result.candidates).toHaveLength(1);
+  });
+
+  it('returns candidate suggestions for ambiguous addresses', async () => {
+    const { service } = buildService(async () =>
+      jsonResponse(200, {
+        XAVResponse: {
+          AmbiguousAddressIndicator: '',
+          AddressClassification: { Code: '0', Description: 'Unknown' },
+          Candidate: [
+            candidate('26601 ALISO CREEK RD STE A', '3001', '1'),
+            candidate('26601 ALISO CREEK RD APT 2', '3002', '2')
+          ]
+        }
+      })
+    );
+
+    const result = await service.validateAddress('UPS', address);
+
+    expect(result.status).toBe('ambiguous');
+    expect(result.classification).toBe('unknown');
+    expect(result.standardizedAddress).toBeUndefined();
+    expect(result.candidates.map((c) => c.classification)).toEqual(['commercial', 'residential']);
+  });
+
+  it('reports invalid addresses without candidates', async () => {
+    const { service } = buildService(async () =>
+      jsonResponse(200, { XAVResponse: { NoCandidatesIndicator: '' } })
+    );
+
+    const result = await service.validateAddress('UPS', address);
+    expect(result.status).toBe('invalid');
+    expect(result.candidates).toEqual([]);
+  });
+
+  it('standardizes rate request addresses', async () => {
+    const { service } = buildService(async () =>
+      jsonResponse(200, {
+        XAVResponse: { ValidAddressIndicator: '', Candidate: candidate('26601 ALISO CREEK RD', '3001', '2') }
+      })
+    );
+    const request: RateRequest = {
+      origin: address,
+      destination: address,
+      packages: [{ weight: 1, length: 5, width: 5, height: 5 }]
+    };
+
+    const corrected = await service.standardizeRateRequest('UPS', request);
+    expect(corrected.origin.postalCode).toBe('92656-3001');
+    expect(corrected.destination.street).toEqual(['26601 ALISO CREEK RD']);
+    expect(corrected.packages).toBe(request.packages);
+  });
+
+  it('rejects unsupported countries and invalid input before calling UPS', async () => {
+    const { httpClient, service } = buildService(async () => jsonResponse(200, {}));
+
+    const toronto = { ...address, city: 'toronto', state: 'ON', postalCode: 'M5V 3L9', country: 'CA' };
+    await expect(service.validateAddress('UPS', toronto)).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+      carrier: 'UPS'
+    });
+    await expect(service.validateAddress('UPS', { ...address, street: [] })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await expect(service.validateAddress('FedEx', address)).rejects.toBeInstanceOf(ValidationError);
+    expect(httpClient.getRequests()).toHaveLength(0);
+  });
+
+  it('throws MALFORMED_RESPONSE when XAVResponse is missing', async () => {
+    const { service } = buildService(async () => jsonResponse(200, { response: {} }));
+
+    await expect(service.validateAddress('UPS', address)).rejects.toMatchObject({
+      code: ErrorCode.MALFORMED_RESPONSE,
+      carrier: 'UPS'
+    });
+  });
+
+  it('maps HTTP 400 to non-retryable API_ERROR', async () => {
+    const { service } = buildService(async () => textResponse(400, 'Bad Request'));
+
+    await expect(service.validateAddress('UPS', address)).rejects.toMatchObject({
+      code: ErrorCode.API_ERROR,
+      retryable: false
+    });
+  });
+});
@@ -1,20 +1,25 @@
 import { createStubHttpClient, jsonResponse, textResponse } from '../helpers/stub-http-client';
-import { OAuthClient } from '../../infrastructure/auth/oauth-client';
-import { ClientCredentialsAuthProvider } from '../../infrastructure/auth/client-credentials-auth-provider';
+import { createUpsTestClients, upsConfig } from '../helpers/ups-test-clients';
 import { UpsRateClient } from '../../integrations/ups/ups-rate-client';
 import { UpsRateMapper } from '../../integrations/ups/ups-rate-mapper';
 import { UpsRateCarrier } from '../../integrations/ups/ups-rate-carrier';
-import { ErrorCode, NetworkError, RateLimitError, ServiceError, TimeoutError } from '../../domain/errors';
+import { UpsLandedCostClient } from '../../integrations/ups/ups-landed-cost-client';
+import { UpsLandedCostMapper } from '../../integrations/ups/ups-landed-cost-mapper';
+import {
+  CancelledError,
+  ErrorCode,
+  NetworkError,
+  RateLimitError,
+  ServiceError,
+  TimeoutError,
+  cancellationError
+} from '../../domain/errors';
 import { RateRequest } from '../../domain/rates';
-
-const upsConfig = {
-  clientId: 'test-client',
-  clientSecret: 'test-secret',
-  baseUrl: 'https://api.ups.com',
-  authUrl: 'https://auth.ups.com/token',
-  timeoutMs: 30000,
-  accountNumber: 'A1B2C3'
-};
+import { Logger } from '../../application/ports/logger';
+import { NoopLogger } from '../../infrastructure/logging/noop-logger';
+import { CircuitBreaker } from '../../infrastructure/circuit-breaker/circuit-breaker';
+import { CarrierRegistry } from '../../application/registry/carrier-registry';
+import { registerUpsRateCarrier } from '../../integrations/ups/register';
 
 const validRequest: RateRequest = {
   origin: {
@@ -46,12 +51,6 @@ type UpsRateRequestPayload = {
   };
 };
 
-function futureDate(daysFromNow: number): string {
-  const d = new Date();
-  d.setDate(d.getDate() + daysFromNow);
-  return d.toISOString().slice(0, 10);
-}
-
 function rateSuccessResponse() {
   return {
     RateResponse: {
@@ -62,12 +61,12 @@ function rateSuccessResponse() {
         {
           Service: { Code: '03', Description: 'UPS Ground' },
           TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '18.42' },
-          GuaranteedDelivery: { Date: futureDate(5) }
+          GuaranteedDelivery: { BusinessDaysInTransit: '5' }
         },
         {
           Service: { Code: '01', Description: 'UPS Next Day Air' },
           TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '89.50' },
-          GuaranteedDelivery: { Date: futureDate(1) }
+          GuaranteedDelivery: { BusinessDaysInTransit: '1', DeliveryByTime: '10:30 A.M.' }
         }
       ]
     }
@@ -85,27 +84,73 @@ function rateErrorStatusResponse() {
   };
 }
 
-function buildCarrier(httpHandler: Parameters<typeof createStubHttpClient>[0]) {
-  const httpClient = createStubHttpClient(httpHandler);
-  const oauthClient = new OAuthClient(httpClient, {
-    authUrl: upsConfig.authUrl,
-    clientId: upsConfig.clientId,
-    clientSecret: upsConfig.clientSecret,
-    timeoutMs: upsConfig.timeoutMs
-  });
-  const authProvider = new ClientCredentialsAuthProvider(oauthClient);
+function buildCarrier(
+  httpHandler: Parameters<typeof createStubHttpClient>[0],
+  logger?: Logger,
+  tokenHandler?: Parameters<typeof createStubHttpClient>[0]
+) {
+  const { httpClient, authProvider } = createUpsTestClients(httpHandler, tokenHandler);
   const rateClient = new UpsRateClient(httpClient, authProvider, upsConfig);
   const mapper = new UpsRateMapper({ accountNumber: upsConfig.accountNumber });
-  const carrier = new UpsRateCarrier(rateClient, mapper);
+  const carrier = new UpsRateCarrier(rateClient, mapper, {
+    client: new UpsLandedCostClient(httpClient, authProvider, upsConfig),
+    mapper: new UpsLandedCostMapper(),
+    ...(logger ? { logger } : {})
+  });
   return { httpClient, carrier };
 }
 
+const internationalRequest: RateRequest = {
+  ...validRequest,
+  destination: {
+    street: ['Friedrichstrasse 10'],
+    city: 'Berlin',
+    state: 'BE',
+    postalCode: '10117',
+    country: 'DE'
+  },
+  serviceLevel: 'worldwideExpress',
+  customs: {
+    value: { amount: 120, currency: 'USD' },
+    commodities: [
+      { description: 'Cotton t-shirt', hsCode: '610910', countryOfOrigin: 'US', quantity: 4, unitValue: 30 }
+    ]
+  }
+};
+
+function landedCostResponse() {
+  return {
+    transID: 'req_1',
+    shipment: {
+      currencyCode: 'EUR',
+      importCountryCode: 'DE',
+      totalDuties: 13.2,
+      totalVAT: 25.31,
+      totalCommodityLevelTaxesAndFees: 0,
+      totalShipmentLevelTaxesAndFees: 0,
+      totalBrokerageFees: 4.5,
+      totalDutyAndTax: 38.51
+    }
+  };
+}
+
+function internationalRateResponse() {
+  return {
+    RateResponse: {
+      Response: { ResponseStatus: { Code: '1', Description: 'Success' } },
+      RatedShipment: [
+        {
+          Service: { Code: '07', Description: 'UPS Worldwide Express' },
+          TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '142.10' }
+        }
+      ]
+    }
+  };
+}
+
 describe('UpsRateCarrier (UPS Rating)', () => {
   it('exposes carrier name and supported service levels', () => {
-    const { carrier } = buildCarrier(async (req) => {
-      if (req.url === upsConfig.authUrl) {
-        return jsonResponse(200, { access_token: 'token_1', expires_in: 3600 });
-      }
+    const { carrier } = buildCarrier(async () => {
       return jsonResponse(200, rateSuccessResponse());
     });
 
@@ -116,18 +161,16 @@ describe('UpsRateCarrier (UPS Rating)', () => {
 
   describe('request building', () => {
     it('builds a correct UPS payload and includes auth + request id headers', async () => {
-      const { httpClient, carrier } = buildCarrier(async (req) => {
-        if (req.url === upsConfig.authUrl) {
-          return jsonResponse(200, { access_token: 'token_1', token_type: 'Bearer', expires_in: 3600 });
-        }
+      const { httpClient, carrier } = buildCarrier(async () => {
         return jsonResponse(200, rateSuccessResponse());
       });
 
       const result = await carrier.getRates(validRequest);
       const requests = httpClient.getRequests();
 
-      const rateReq = requests.find((r) => r.url.includes('/api/rating/v1/Rate'));
+      const rateReq = requests.find((r) => r.url.includes('/api/rating/v1/'));
       expect(rateReq).toBeDefined();
+      expect(rateReq!.url).toBe('https://api.ups.com/api/rating/v1/Shop');
       expect(rateReq!.headers?.['Authorization']).toBe('Bearer token_1');
       expect(rateReq!.headers?.['transId']).toBe(result.requestId);
 
@@ -141,27 +184,32 @@ describe('UpsRateCarrier (UPS Rating)', () => {
     });
 
     it('uses Rate + service code when a service level is requested', async () => {
-      const { httpClient, carrier } = buildCarrier(async (req) => {
-        if (req.url === upsConfig.authUrl) {
-          return jsonResponse(200, { access_token: 'token_1', expires_in: 3600 });
-        }
+      const { httpClient, carrier } = buildCarrier(async () => {
         return jsonResponse(200, rateSuccessResponse());
       });
 
       await carrier.getRates({ ...validRequest, serviceLevel: 'ground' });
-      const rateReq = httpClient.getRequests().find((r) => r.url.includes('/api/rating/v1/Rate'))!;
+      const rateReq = httpClient.getRequests().find((r) => r.url.includes('/api/rating/v1/'))!;
       const body = JSON.parse(rateReq.body ?? '{}') as UpsRateRequestPayload;
       expect(body.RateRequest.Request.RequestOption).toBe('Rate');
       expect(body.RateRequest.Shipment.Service?.Code).toBe('03');
     });
+
+    it('passes the caller abort signal to the HTTP request', async () => {
+      const { httpClient, carrier } = buildCarrier(async () => {
+        return jsonResponse(200, rateSuccessResponse());
+      });
+      const controller = new AbortController();
+
+      await carrier.getRates(validRequest, { signal: controller.signal });
+      const rateReq = httpClient.getRequests().find((r) => r.url.includes('/api/rating/v1/'))!;
+      expect(rateReq.signal).toBe(controller.signal);
+    });
   });
 
   describe('response parsing', () => {
     it('normalizes UPS response into RateResponse', async () => {
-      const { carrier } = buildCarrier(async (req) => {
-        if (req.url === upsConfig.authUrl) {
-          return jsonResponse(200, { access_token: 'token_1', expires_in: 3600 });
-        }
+      const { carrier } = buildCarrier(async () => {
         return jsonResponse(200, rateSuccessResponse());
       });
 
@@ -173,7 +221,7 @@ describe('UpsRateCarrier (UPS Rating)', () => {
       expect(ground?.totalCost).toBe(18.42);
       expect(ground?.currency).toBe('USD');
       expect(ground?.carrier).toBe('UPS');
-      expect(ground?.estimatedDays).toBeGreaterThan(0);
+      expect(ground?.estimatedDays).toBe(5);
     });
 
     it('prefers negotiated rates when present', async () => {
@@ -192,10 +240,7 @@ describe('UpsRateCarrier (UPS Rating)', () => {
         }
       };
 
-      const { carrier } = buildCarrier(async (req) => {
-        if (req.url === upsConfig.authUrl) {
-          return jsonResponse(200, { access_token: 'token_1', expires_in: 3600 });
-        }
+      const { carrier } = buildCarrier(async () => {
         return jsonResponse(200, negotiated);
       });
 
@@ -207,14 +252,9 @@ describe('UpsRateCarrier (UPS Rating)', () => {
 
   describe('auth lifecycle (401 retry)', () => {
     it('refreshes the token and retries once on 401', async () => {
-      let tokenCalls = 0;
       let rateCalls = 0;
 
-      const { httpClient, carrier } = buildCarrier(async (req) => {
-        if (req.url === upsConfig.authUrl) {
-          tokenCalls += 1;
-          return jsonResponse(200, { access_token: tokenCalls === 1 ? 'token_1' : 'token_2', expires_in: 3600 });
-        }
+      const { httpClient, carrier } = buildCarrier(async () => {
         rateCalls += 1;
         if (rateCalls === 1) return textResponse(401, 'Unauthorized');
         return jsonResponse(200, rateSuccessResponse());
@@ -222,20 +262,17 @@ describe('UpsRateCarrier (UPS Rating)', () => {
 
       const result = await carrier.getRates(validRequest);
       expect(result.quotes).toHaveLength(2);
-      expect(tokenCalls).toBe(2);
+      expect(httpClient.getRequests().filter((r) => r.url === upsConfig.authUrl)).toHaveLength(2);
       expect(rateCalls).toBe(2);
 
-      const rateRequests = httpClient.getRequests().filter((r) => r.url.includes('/api/rating/v1/Rate'));
+      const rateRequests = httpClient.getRequests().filter((r) => r.url.includes('/api/rating/v1/'));
       expect(rateRequests).toHaveLength(2);
       expect(rateRequests[0]!.headers?.['Authorization']).toBe('Bearer token_1');
       expect(rateRequests[1]!.headers?.['Authorization']).toBe('Bearer token_2');
     });
 
     it('throws AUTH_TOKEN_INVALID after a second 401', async () => {
-      const { carrier } = buildCarrier(async (req) => {
-        if (req.url === upsConfig.authUrl) {
-          return jsonResponse(200, { access_token: 'token_1', expires_in: 3600 });
-        }
+      const { carrier } = buildCarrier(async () => {
         return textResponse(401, 'Unauthorized');
       });
 
@@ -244,14 +281,28 @@ describe('UpsRateCarrier (UPS Rating)', () => {
         carrier: 'UPS'
       });
     });
+
+    it('surfaces a CancelledError when aborted while acquiring a token', async () => {
+      const rateHandler = jest.fn(async () => jsonResponse(200, rateSuccessResponse()));
+      const { carrier } = buildCarrier(rateHandler, undefined, (req) =>
+        new Promise((_resolve, reject) => {
+          req.signal?.addEventListener('abort', () => reject(cancellationError(req.signal!)));
+        })
+      );
+      const controller = new AbortController();
+
+      const rates = carrier.getRates(validRequest, { signal: controller.signal });
+      controller.abort();
+
+      await expect(rates).rejects.toBeInstanceOf(CancelledError);
+      await expect(rates).rejects.toMatchObject({ code: ErrorCode.CANCELLED });
+      expect(rateHandler).not.toHaveBeenCalled();
+    });
   });
 
   describe('error handling', () => {
     it('throws API_ERROR when UPS returns failure status in body', async () => {
-      const { carrier } = buildCarrier(async (req) => {
-        if (req.url === upsConfig.authUrl) {
-          return jsonResponse(200, { access_token: 'token_1', expires_in: 3600 });
-        }
+      const { carrier } = buildCarrier(async () => {
         return jsonResponse(200, rateErrorStatusResponse());
       });
 
@@ -262,10 +313,7 @@ describe('UpsRateCarrier (UPS Rating)', () => {
     });
 
     it('throws RateLimitError on 429', async () => {
-      const { carrier } = buildCarrier(async (req) => {
-        if (req.url === upsConfig.authUrl) {
-          return jsonResponse(200, { access_token: 'token_1', expires_in: 3600 });
-        }
+      const { carrier } = buildCarrier(async () => {
         return textResponse(429, 'Too Many Requests');
       });
 
@@ -273,10 +321,7 @@ describe('UpsRateCarrier (UPS Rating)', () => {
     });
 
     it('throws retryable API_ERROR on 5xx', async () => {
-      const { carrier } = buildCarrier(async (req) => {
-        if (req.url === upsConfig.authUrl) {
-          return jsonResponse(200, { access_token: 'token_1', expires_in: 3600 });
-        }
+      const { carrier } = buildCarrier(async () => {
         return textResponse(503, 'Service Unavailable');
       });
 
@@ -288,10 +333,7 @@ describe('UpsRateCarrier (UPS Rating)', () => {
     });
 
     it('throws non-retryable API_ERROR on other non-2xx responses', async () => {
-      const { carrier } = buildCarrier(async (req) => {
-        if (req.url === upsConfig.authUrl) {
-          return jsonResponse(200, { access_token: 'token_1', expires_in: 3600 });
-        }
+      const { carrier } = buildCarrier(async () => {
         return textResponse(400, 'Bad Request');
       });
 
@@ -303,10 +345,7 @@ describe('UpsRateCarrier (UPS Rating)', () => {
     });
 
     it('throws MALFORMED_RESPONSE on invalid JSON', async () => {
-      const { carrier } = buildCarrier(async (req) => {
-        if (req.url === upsConfig.authUrl) {
-          return jsonResponse(200, { access_token: 'token_1', expires_in: 3600 });
-        }
+      const { carrier } = buildCarrier(async () => {
         return textResponse(200, '<html>not json</html>');
       });
 
@@ -317,10 +356,7 @@ describe('UpsRateCarrier (UPS Rating)', () => {
     });
 
     it('attaches carrier context to network errors', async () => {
-      const { carrier } = buildCarrier(async (req) => {
-        if (req.url === upsConfig.authUrl) {
-          return jsonResponse(200, { access_token: 'token_1', expires_in: 3600 });
-        }
+      const { carrier } = buildCarrier(async () => {
         throw new NetworkError('socket hang up');
       });
 
@@ -331,10 +367,7 @@ describe('UpsRateCarrier (UPS Rating)', () => {
     });
 
     it('wraps unexpected non-ServiceError failures as UNKNOWN_ERROR', async () => {
-      const { carrier } = buildCarrier(async (req) => {
-        if (req.url === upsConfig.authUrl) {
-          return jsonResponse(200, { access_token: 'token_1', expires_in: 3600 });
-        }
+      const { carrier } = buildCarrier(async () => {
         throw new Error('boom');
       });
 
@@ -345,10 +378,7 @@ describe('UpsRateCarrier (UPS Rating)', () => {
     });
 
     it('attaches carrier context to timeout errors', async () => {
-      const { carrier } = buildCarrier(async (req) => {
-        if (req.url === upsConfig.authUrl) {
-          return jsonResponse(200, { access_token: 'token_1', expires_in: 3600 });
-        }
+      const { carrier } = buildCarrier(async () => {
         throw new TimeoutError('Request timeout after 30000ms');
       });
 
@@ -363,4 +393,139 @@ describe('UpsRateCarrier (UPS Rating)', () => {
       }
     });
   });
+
+  describe('international shipments', () => {
+    function buildInternationalCarrier() {
+      return buildCarrier(async (req) => {
+        if (req.url.includes('/api/landedcost/v1/')) {
+          return jsonResponse(200, landedCostResponse());
+        }
+        return jsonResponse(200, internationalRateResponse());
+      });
+    }
+
+    it('sends the customs value and commodities to UPS', async () => {
+      const { httpClient, carrier } = buildInternationalCarrier();
+
+      const result = await carrier.getRates(internationalRequest);
+
+      const rateReq = httpClient.getRequests().find((r) => r.url.includes('/api/rating/v1/'))!;
+      const rateBody = JSON.parse(rateReq.body ?? '{}') as {
+        RateRequest: { Shipment: { InvoiceLineTotal?: { CurrencyCode: string; MonetaryValue: string } } };
+      };
+      expect(rateBody.RateRequest.Shipment.InvoiceLineTotal).toEqual({ CurrencyCode: 'USD', MonetaryValue: '120.00' });
+
+      const landedCostReq = httpClient.getRequests().find((r) => r.url.includes('/api/landedcost/v1/'))!;
+      expect(landedCostReq.url).toBe('https://api.ups.com/api/landedcost/v1/quotes');
+      expect(JSON.parse(landedCostReq.body ?? '{}')).toMatchObject({
+        currencyCode: 'USD',
+        transID: result.requestId,
+        shipment: {
+          importCountryCode: 'DE',
+          exportCountryCode: 'US',
+          transModes: 'INT_AIR',
+          shipmentItems: [
+            {
+              commodityId: '1',
+              priceEach: '30.00',
+              commodityCurrencyCode: 'USD',
+              quantity: 4,
+              hsCode: '610910',
+              description: 'Cotton t-shirt',
+              originCountryCode: 'US'
+            }
+          ]
+        }
+      });
+    });
+
+    it('surfaces estimated duties and taxes on each quote', async () => {
+      const { carrier } = buildInternationalCarrier();
+
+      const result = await carrier.getRates(internationalRequest);
+
+      expect(result.quotes[0]!.totalCost).toBe(142.1);
+      expect(result.quotes[0]!.estimatedDutiesAndTaxes).toEqual({
+        duties: { minorUnits: 1320, currency: 'EUR' },
+        taxes: { minorUnits: 2531, currency: 'EUR' },
+        fees: { minorUnits: 450, currency: 'EUR' },
+        total: { minorUnits: 4301, currency: 'EUR' }
+      });
+    });
+
+    it('skips the landed cost lookup for domestic shipments', async () => {
+      const { httpClient, carrier } = buildInternationalCarrier();
+
+      const result = await carrier.getRates({ ...validRequest, customs: internationalRequest.customs! });
+
+      expect(httpClient.getRequests().some((r) => r.url.includes('/api/landedcost/v1/'))).toBe(false);
+      expect(result.quotes[0]!.estimatedDutiesAndTaxes).toBeUndefined();
+    });
+
+    it('returns quotes without duties when the landed cost lookup fails', async () => {
+      const logger = new NoopLogger();
+      const warn = jest.spyOn(logger, 'warn');
+      for (const landedCost of [
+        () => jsonResponse(200, { shipment: { totalDuties: 'n/a' } }),
+        () => textResponse(400, 'Bad Request')
+      ]) {
+        const { carrier } = buildCarrier(async (req) => {
+          if (req.url.includes('/api/landedcost/v1/')) return landedCost();
+          return jsonResponse(200, internationalRateResponse());
+        }, logger);
+
+        const result = await carrier.getRates(internationalRequest);
+        expect(result.quotes[0]!.totalCost).toBe(142.1);
+        expect(result.quotes[0]!.estimatedDutiesAndTaxes).toBeUndefined();
+      }
+      expect(warn).toHaveBeenCalledTimes(2);
+      expect(warn).toHaveBeenCalledWith(
+        { err: expect.objectContaining({ code: ErrorCode.MALFORMED_RESPONSE }) },
+        'UPS landed cost lookup failed; returning rates without duties and taxes'
+      );
+    });
+
+    it('keeps rating working while the opt-in landed cost lookup fails', async () => {
+      const { httpClient } = createUpsTestClients(async (req) =>
+        req.url.includes('/api/landedcost/v1/')
+          ? textResponse(403, 'Forbidden')
+          : jsonResponse(200, internationalRateResponse())
+      );
+      const ratingBreaker = new CircuitBreaker({ failureThreshold: 5, openDurationMs: 30000 });
+      const landedCostBreaker = new CircuitBreaker({ failureThreshold: 5, openDurationMs: 30000 });
+      const registry = new CarrierRegistry();
+      registerUpsRateCarrier(registry, {
+        config: upsConfig,
+        httpClient,
+        instrumentHttp: false,
+        circuitBreaker: ratingBreaker,
+        landedCostCircuitBreaker: landedCostBreaker,
+        enableLandedCost: true
+      });
+      const carrier = registry.getCarrier('UPS')!;
+
+      const burst = await Promise.all(Array.from({ length: 8 }, () => carrier.getRates(internationalRequest)));
+      const after = await carrier.getRates(internationalRequest);
+
+      for (const result of [...burst, after]) {
+        expect(result.quotes[0]!.totalCost).toBe(142.1);
+        expect(result.quotes[0]!.estimatedDutiesAndTaxes).toBeUndefined();
+      }
+      const requests = httpClient.getRequests();
+      expect(requests.filter((r) => r.url.includes('/api/landedcost/v1/'))).toHaveLength(8);
+      expect(requests.filter((r) => r.url === upsConfig.authUrl)).toHaveLength(1);
+      expect(landedCostBreaker.getState()).toBe('open');
+      expect(ratingBreaker.getState()).toBe('closed');
+    });
+
+    it('skips the landed cost lookup unless it is enabled', async () => {
+      const { httpClient } = createUpsTestClients(async () => jsonResponse(200, internationalRateResponse()));
+      const registry = new CarrierRegistry();
+      registerUpsRateCarrier(registry, { config: upsConfig, httpClient, instrumentHttp: false });
+
+      await registry.getCarrier('UPS')!.getRates(internationalRequest);
+
+      expect(httpClient.getRequests().some((r) => r.url.includes('/api/landedcost/v1/'))).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,231 @@
+import { createStubHttpClient, jsonResponse, textResponse } from '../helpers/stub-http-client';
+import { createUpsTestClients, upsConfig } from '../helpers/ups-test-clients';
+import { UpsFreightRateClient } from '../../integrations/ups/ups-freight-client';
+import { UpsFreightRateMapper } from '../../integrations/ups/ups-freight-mapper';
+import { UpsFreightCarrier } from '../../integrations/ups/ups-freight-carrier';
+import { registerUpsFreightCarrier } from '../../integrations/ups/register';
+import { CarrierRegistry } from '../../application/registry/carrier-registry';
+import { FreightRateService } from '../../application/services/freight-rate-service';
+import { PricingEngine } from '../../application/services/pricing-engine';
+import { NoopLogger } from '../../infrastructure/logging/noop-logger';
+import { NoopTracer } from '../../infrastructure/tracing/noop-tracer';
+import { ConfigError, ErrorCode, ValidationError } from '../../domain/errors';
+import { FreightRateRequest } from '../../domain/freight';
+
+const request: FreightRateRequest = {
+  origin: { street: ['1 Dock Rd'], city: 'Atlanta', state: 'GA', postalCode: '30339', country: 'US' },
+  destination: { street: ['9 Warehouse Way'], city: 'Dallas', state: 'TX', postalCode: '75201', country: 'US' },
+  handlingUnits: [
+    {
+      type: 'pallet',
+      quantity: 2,
+      weight: 450,
+      length: 48,
+      width: 40,
+      height: 50,
+      freightClass: '70',
+      nmfcCode: '116030-01',
+      description: 'Machine parts'
+    },
+    {
+      type: 'pallet',
+      quantity: 1,
+      weight: 300,
+      length: 48,
+      width: 40,
+      height: 40,
+      freightClass: '85',
+      description: 'Hardware'
+    }
+  ],
+  accessorials: ['liftgateDelivery', 'insideDelivery', 'appointmentDelivery']
+};
+
+function freightResponse() {
+  return {
+    FreightRateResponse: {
+      Response: { ResponseStatus: { Code: '1', Description: 'Success' } },
+      Service: { Code: '308' },
+      Rate: [
+        { Type: { Code: 'LND_GROSS', Description: 'Gross charge' }, Factor: { Value: '1012.40' } },
+        { Type: { Code: 'DSCNT', Description: 'Discount' }, Factor: { Value: '506.20' } }
+      ],
+      TotalShipmentCharge: { CurrencyCode: 'USD', MonetaryValue: '612.88' },
+      BillableShipmentWeight: { UnitOfMeasurement: { Code: 'LBS' }, Value: '1200' },
+      TimeInTransit: { DaysInTransit: '3' }
+    }
+  };
+}
+
+function buildService(httpHandler: Parameters<typeof createStubHttpClient>[0], pricing?: PricingEngine) {
+  const { httpClient, authProvider } = createUpsTestClients(httpHandler);
+  const carrier = new UpsFreightCarrier(
+    new UpsFreightRateClient(httpClient, authProvider, upsConfig),
+    new UpsFreightRateMapper({ accountNumber: upsConfig.accountNumber })
+  );
+  const registry = new CarrierRegistry();
+  registry.registerFreightCarrier(carrier);
+  return {
+    httpClient,
+    service: new FreightRateService(registry, {
+      logger: new NoopLogger(),
+      tracer: new NoopTracer(),
+      ...(pricing ? { pricing } : {})
+    })
+  };
+}
+
+describe('UpsFreightCarrier (UPS Freight Rating API)', () => {
+  it('posts handling units, commodities and accessorials', async () => {
+    const { httpClient, service } = buildService(async () => jsonResponse(200, freightResponse()));
+
+    await service.getFreightRates('UPS', { ...request, shipDate: '2026-10-21' });
+    const freightReq = httpClient.getRequests().find((r) => r.url.includes('/api/freight/'))!;
+
+    expect(freightReq.url).toBe('https://api.ups.com/api/freight/v1/rating/ground');
+    const body = JSON.parse(freightReq.body!).FreightRateRequest;
+    expect(body.PaymentInformation.Payer.ShipperNumber).toBe('A1B2C3');
+    expect(body.Service).toEqual({ Code: '308' });
+    expect(body.HandlingUnitOne).toEqual({ Quantity: '3', Type: { Code: 'PLT' } });
+    expect(body.HandlingUnitTwo).toBeUndefined();
+    expect(body.Commodity[0]).toEqual({
+      Description: 'Machine parts',
+      Weight: { UnitOfMeasurement: { Code: 'LBS' }, Value: '900' },
+      Dimensions: { UnitOfMeasurement: { Code: 'IN' }, Length: '48', Width: '40', Height: '50' },
+      NumberOfPieces: '2',
+      PackagingType: { Code: 'PLT' },
+      FreightClass: '70',
+      NMFCCommodity: { PrimeCode: '116030', SubCode: '01' }
+    });
+    expect(body.Commodity[1].NMFCCommodity).toBeUndefined();
+    expect(body.ShipmentServiceOptions).toEqual({
+      DeliveryOptions: {
+        LiftGateRequiredIndicator: '',
+        InsideDeliveryIndicator: '',
+        CallBeforeDeliveryIndicator: ''
+      }
+    });
+    expect(body.PickupRequest).toEqual({ PickupDate: '20261021' });
+  });
+
+  it('normalizes the freight rate into an LTL quote', async () => {
+    const { service } = buildService(async () => jsonResponse(200, freightResponse()));
+
+    const result = await service.getFreightRates('ups', request);
+
+    expect(result.quotes).toEqual([
+      {
+        serviceLevel: 'ltlStandard',
+        serviceName: 'TForce Freight LTL',
+        carrierServiceCode: '308',
+        totalCost: 612.88,
+        currency: 'USD',
+        price: { minorUnits: 61288, currency: 'USD' },
+        estimatedDays: 3,
+        guaranteed: false,
+        mode: 'ltl',
+        carrier: 'UPS'
+      }
+    ]);
+  });
+
+  it('applies pricing rules using the total handling unit weight', async () => {
+    const pricing = new PricingEngine({
+      rules: [
+        {
+          id: 'ltl-heavy',
+          match: { serviceLevels: ['ltlStandard'], weight: { min: 500, unit: 'kg' } },
+          adjustments: [{ type: 'percentMarkup', percent: 15 }]
+        },
+        {
+          id: 'ltl-light',
+          match: { weight: { max: 500, unit: 'kg' } },
+          adjustments: [{ type: 'fixedMarkup', amount: '25', currency: 'USD' }]
+        }
+      ]
+    });
+    const { service } = buildService(async () => jsonResponse(200, freightResponse()), pricing);
+
+    const result = await service.getFreightRates('UPS', request, { customerTier: 'standard' });
+
+    expect(result.quotes[0]).toMatchObject({
+      totalCost: 704.81,
+      pricing: { carrierCost: 612.88, appliedRules: ['ltl-heavy'] }
+    });
+  });
+
+  it('requests the guaranteed service when asked', async () => {
+    const response = freightResponse();
+    response.FreightRateResponse.Service.Code = '309';
+    const { httpClient, service } = buildService(async () => jsonResponse(200, response));
+
+    const result = await service.getFreightRates('UPS', { ...request, serviceLevel: 'ltlGuaranteed' });
+
+    const body = JSON.parse(httpClient.getRequests().find((r) => r.url.includes('/api/freight/'))!.body!);
+    expect(body.FreightRateRequest.Service).toEqual({ Code: '309' });
+    expect(result.quotes[0]).toMatchObject({ serviceLevel: 'ltlGuaranteed', guaranteed: true });
+  });
+
+  it('rejects more than two handling unit types', async () => {
+    const { httpClient, service } = buildService(async () => jsonResponse(200, freightResponse()));
+    const [unit] = request.handlingUnits;
+
+    await expect(
+      service.getFreightRates('UPS', {
+        ...request,
+        handlingUnits: [unit!, { ...unit!, type: 'skid' }, { ...unit!, type: 'tote' }]
+      })
+    ).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, carrier: 'UPS' });
+    expect(httpClient.getRequests()).toHaveLength(0);
+  });
+
+  it('validates freight class, NMFC code and handling unit weight', async () => {
+    const { httpClient, service } = buildService(async () => jsonResponse(200, freightResponse()));
+    const [unit] = request.handlingUnits;
+
+    for (const invalid of [
+      { ...unit!, freightClass: '72' },
+      { ...unit!, nmfcCode: 'ABC' },
+      { ...unit!, weight: 25000 }
+    ]) {
+      await expect(
+        service.getFreightRates('UPS', { ...request, handlingUnits: [invalid] } as FreightRateRequest)
+      ).rejects.toBeInstanceOf(ValidationError);
+    }
+    expect(httpClient.getRequests()).toHaveLength(0);
+  });
+
+  it('throws API_ERROR when UPS reports a failure status', async () => {
+    const { service } = buildService(async () =>
+      jsonResponse(200, {
+        FreightRateResponse: { Response: { ResponseStatus: { Code: '0', Description: 'Invalid lane' } } }
+      })
+    );
+
+    await expect(service.getFreightRates('UPS', request)).rejects.toMatchObject({
+      code: ErrorCode.API_ERROR,
+      carrier: 'UPS'
+    });
+  });
+
+  it('throws MALFORMED_RESPONSE on invalid JSON', async () => {
+    const { service } = buildService(async () => textResponse(200, 'not json'));
+
+    await expect(service.getFreightRates('UPS', request)).rejects.toMatchObject({
+      code: ErrorCode.MALFORMED_RESPONSE,
+      carrier: 'UPS'
+    });
+  });
+
+  it('requires an account number to register', () => {
+    const config = {
+      clientId: upsConfig.clientId,
+      clientSecret: upsConfig.clientSecret,
+      baseUrl: upsConfig.baseUrl,
+      authUrl: upsConfig.authUrl,
+      timeoutMs: upsConfig.timeoutMs
+    };
+
+    expect(() => registerUpsFreightCarrier(new CarrierRegistry(), { config })).toThrow(ConfigError);
+  });
+});
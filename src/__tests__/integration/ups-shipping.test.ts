@@ -0,0 +1,183 @@
+import { createStubHttpClient, jsonResponse, textResponse } from '../helpers/stub-http-client';
+import { createUpsTestClients, upsConfig } from '../helpers/ups-test-clients';
+import { UpsShipClient } from '../../integrations/ups/ups-ship-client';
+import { UpsShipmentMapper } from '../../integrations/ups/ups-shipment-mapper';
+import { UpsShippingCarrier } from '../../integrations/ups/ups-shipping-carrier';
+import { ErrorCode } from '../../domain/errors';
+import { ShipmentRequest } from '../../domain/shipments';
+
+const shipmentRequest: ShipmentRequest = {
+  shipper: {
+    name: 'Shipping Dept',
+    companyName: 'Cybership',
+    phone: '4045551234',
+    address: {
+      street: ['123 Main St'],
+      city: 'Atlanta',
+      state: 'GA',
+      postalCode: '30339',
+      country: 'US'
+    }
+  },
+  recipient: {
+    name: 'Jane Doe',
+    address: {
+      street: ['456 Oak Ave'],
+      city: 'Los Angeles',
+      state: 'CA',
+      postalCode: '90001',
+      country: 'US'
+    }
+  },
+  packages: [
+    { weight: 5, length: 10, width: 8, height: 6 },
+    { weight: 2, length: 6, width: 6, height: 6 }
+  ],
+  serviceLevel: 'ground',
+  reference: 'order-1001'
+};
+
+type UpsShipRequestPayload = {
+  ShipmentRequest: {
+    Request: { TransactionReference?: { CustomerContext?: string } };
+    Shipment: {
+      Shipper: { Name: string; AttentionName: string; ShipperNumber: string; Phone?: { Number: string } };
+      ShipTo: { Name: string };
+      PaymentInformation: { ShipmentCharge: Array<{ Type: string; BillShipper: { AccountNumber: string } }> };
+      Service: { Code: string };
+      Package: Array<{ PackageWeight: { Weight: string } }>;
+    };
+    LabelSpecification: { LabelImageFormat: { Code: string }; LabelStockSize?: { Height: string } };
+  };
+};
+
+function shipSuccessResponse() {
+  return {
+    ShipmentResponse: {
+      Response: { ResponseStatus: { Code: '1', Description: 'Success' } },
+      ShipmentResults: {
+        ShipmentIdentificationNumber: '1ZA1B2C30300000001',
+        ShipmentCharges: { TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '24.10' } },
+        PackageResults: [
+          {
+            TrackingNumber: '1ZA1B2C30300000001',
+            ShippingLabel: { ImageFormat: { Code: 'GIF' }, GraphicImage: 'R0lGODlhAQABAAAAACw=' }
+          },
+          {
+            TrackingNumber: '1ZA1B2C30300000002',
+            ShippingLabel: { ImageFormat: { Code: 'GIF' }, GraphicImage: 'R0lGODlhAgACAAAAACw=' }
+          }
+        ]
+      }
+    }
+  };
+}
+
+function buildCarrier(httpHandler: Parameters<typeof createStubHttpClient>[0]) {
+  const { httpClient, authProvider } = createUpsTestClients(httpHandler);
+  const shipClient = new UpsShipClient(httpClient, authProvider, upsConfig);
+  const mapper = new UpsShipmentMapper({ accountNumber: upsConfig.accountNumber });
+  const carrier = new UpsShippingCarrier(shipClient, mapper);
+  return { httpClient, carrier };
+}
+
+describe('UpsShippingCarrier (UPS Shipping API)', () => {
+  it('builds a UPS ship payload billed to the shipper account', async () => {
+    const { httpClient, carrier } = buildCarrier(async () => jsonResponse(200, shipSuccessResponse()));
+
+    const shipment = await carrier.createShipment(shipmentRequest);
+    const shipReq = httpClient.getRequests().find((r) => r.url.includes('/api/shipments/'))!;
+
+    expect(shipReq.url).toBe('https://api.ups.com/api/shipments/v2409/ship');
+    expect(shipReq.headers?.['Authorization']).toBe('Bearer token_1');
+    expect(shipReq.headers?.['transId']).toBe(shipment.requestId);
+
+    const body = JSON.parse(shipReq.body ?? '{}') as UpsShipRequestPayload;
+    const { Shipment } = body.ShipmentRequest;
+    expect(body.ShipmentRequest.Request.TransactionReference?.CustomerContext).toBe('order-1001');
+    expect(Shipment.Shipper).toMatchObject({
+      Name: 'Cybership',
+      AttentionName: 'Shipping Dept',
+      ShipperNumber: 'A1B2C3',
+      Phone: { Number: '4045551234' }
+    });
+    expect(Shipment.ShipTo.Name).toBe('Jane Doe');
+    expect(Shipment.PaymentInformation.ShipmentCharge).toEqual([
+      { Type: '01', BillShipper: { AccountNumber: 'A1B2C3' } }
+    ]);
+    expect(Shipment.Service.Code).toBe('03');
+    expect(Shipment.Package.map((p) => p.PackageWeight.Weight)).toEqual(['5', '2']);
+    expect(body.ShipmentRequest.LabelSpecification.LabelImageFormat.Code).toBe('GIF');
+  });
+
+  it('requests 4x6 label stock for ZPL labels', async () => {
+    const { httpClient, carrier } = buildCarrier(async () => jsonResponse(200, shipSuccessResponse()));
+
+    await carrier.createShipment({ ...shipmentRequest, labelFormat: 'ZPL' });
+    const shipReq = httpClient.getRequests().find((r) => r.url.includes('/api/shipments/'))!;
+    const body = JSON.parse(shipReq.body ?? '{}') as UpsShipRequestPayload;
+    expect(body.ShipmentRequest.LabelSpecification.LabelImageFormat.Code).toBe('ZPL');
+    expect(body.ShipmentRequest.LabelSpecification.LabelStockSize?.Height).toBe('6');
+  });
+
+  it('normalizes tracking numbers, charges and labels', async () => {
+    const { carrier } = buildCarrier(async () => jsonResponse(200, shipSuccessResponse()));
+
+    const shipment = await carrier.createShipment(shipmentRequest);
+    expect(shipment).toMatchObject({
+      carrier: 'UPS',
+      shipmentId: '1ZA1B2C30300000001',
+      trackingNumber: '1ZA1B2C30300000001',
+      serviceLevel: 'ground',
+      totalCost: 24.1,
+      currency: 'USD',
+      price: { minorUnits: 2410, currency: 'USD' }
+    });
+    expect(shipment.packages).toHaveLength(2);
+    expect(shipment.packages[1]).toEqual({
+      trackingNumber: '1ZA1B2C30300000002',
+      label: { format: 'GIF', imageBase64: 'R0lGODlhAgACAAAAACw=' }
+    });
+  });
+
+  it('accepts a single PackageResults object', async () => {
+    const single = shipSuccessResponse();
+    const results = single.ShipmentResponse.ShipmentResults as unknown as Record<string, unknown>;
+    results['PackageResults'] = single.ShipmentResponse.ShipmentResults.PackageResults[0];
+
+    const { carrier } = buildCarrier(async () => jsonResponse(200, single));
+
+    const shipment = await carrier.createShipment({ ...shipmentRequest, packages: [shipmentRequest.packages[0]!] });
+    expect(shipment.packages).toHaveLength(1);
+  });
+
+  it('rejects label formats UPS cannot produce', async () => {
+    const { carrier } = buildCarrier(async () => jsonResponse(200, {}));
+
+    await expect(carrier.createShipment({ ...shipmentRequest, labelFormat: 'PDF' })).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+      carrier: 'UPS'
+    });
+  });
+
+  it('throws non-retryable API_ERROR on 4xx', async () => {
+    const { carrier } = buildCarrier(async () =>
+      jsonResponse(400, { response: { errors: [{ code: '120100', message: 'Missing or invalid shipper number' }] } })
+    );
+
+    await expect(carrier.createShipment(shipmentRequest)).rejects.toMatchObject({
+      code: ErrorCode.API_ERROR,
+      carrier: 'UPS',
+      retryable: false
+    });
+  });
+
+  it('throws MALFORMED_RESPONSE when the response is missing labels', async () => {
+    const { carrier } = buildCarrier(async () => textResponse(200, '{"ShipmentResponse":{}}'));
+
+    await expect(carrier.createShipment(shipmentRequest)).rejects.toMatchObject({
+      code: ErrorCode.MALFORMED_RESPONSE,
+      carrier: 'UPS'
+    });
+  });
+});
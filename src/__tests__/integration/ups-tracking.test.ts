@@ -0,0 +1,179 @@
+import { createStubHttpClient, jsonResponse, textResponse } from '../helpers/stub-http-client';
+import { createUpsTestClients, upsConfig } from '../helpers/ups-test-clients';
+import { UpsTrackClient } from '../../integrations/ups/ups-track-client';
+import { UpsTrackingMapper } from '../../integrations/ups/ups-tracking-mapper';
+import { UpsTrackingCarrier } from '../../integrations/ups/ups-tracking-carrier';
+import { CarrierRegistry } from '../../application/registry/carrier-registry';
+import { TrackingService } from '../../application/services/tracking-service';
+import { NoopLogger } from '../../infrastructure/logging/noop-logger';
+import { NoopTracer } from '../../infrastructure/tracing/noop-tracer';
+import { ErrorCode, ValidationError } from '../../domain/errors';
+
+const TRACKING_NUMBER = '1Z12345E0205271688';
+
+function activity(type: string, description: string, date: string, time: string, extra: Record<string, unknown> = {}) {
+  return {
+    location: { address: { city: 'Atlanta', stateProvince: 'GA', postalCode: '30339', countryCode: 'US' } },
+    status: { type, description, code: type, ...extra },
+    date,
+    time
+  };
+}
+
+function trackResponse(activities: unknown[], deliveryDate?: Array<{ type: string; date: string }>) {
+  return {
+    trackResponse: {
+      shipment: [
+        {
+          inquiryNumber: TRACKING_NUMBER,
+          package: [
+            {
+              trackingNumber: TRACKING_NUMBER,
+              ...(deliveryDate ? { deliveryDate } : {}),
+              activity: activities
+            }
+          ]
+        }
+      ]
+    }
+  };
+}
+
+function buildService(httpHandler: Parameters<typeof createStubHttpClient>[0]) {
+  const { httpClient, authProvider } = createUpsTestClients(httpHandler);
+    const carrier = new UpsTrackingCarrier(
+    new UpsTrackClient(httpClient, authProvider, upsConfig),
+    new UpsTrackingMapper()
+  );
+
+  const registry = new CarrierRegistry();
+  registry.registerTrackingCarrier(carrier);
+  const service = new TrackingService(registry, { logger: new NoopLogger(), tracer: new NoopTracer() });
+  return { httpClient, service };
+}
+
+describe('UpsTrackingCarrier (UPS Track API)', () => {
+  it('requests tracking details by inquiry number', async () => {
+    const { httpClient, service } = buildService(async () =>
+      jsonResponse(200, trackResponse([activity('M', 'Shipper created a label', '20261015', '090000')]))
+    );
+
+    await service.track('UPS', TRACKING_NUMBER);
+    const trackReq = httpClient.getRequests().find((r) => r.url.includes('/api/track/'))!;
+
+    expect(trackReq.method).toBe('GET');
+    expect(trackReq.url).toBe(
+      `https://api.ups.com/api/track/v1/details/${TRACKING_NUMBER}?locale=en_US&returnSignature=false`
+    );
+    expect(trackReq.headers?.['Authorization']).toBe('Bearer token_1');
+  });
+
+  it('normalizes activity into a newest-first timeline', async () => {
+    const { service } = buildService(async () =>
+      jsonResponse(
+        200,
+        trackResponse(
+          [
+            activity('M', 'Shipper created a label', '20261015', '090000'),
+            activity('I', 'Out For Delivery Today', '20261017', '071500', { statusCode: '021' }),
+            activity('P', 'Pickup Scan', '20261015', '183000'),
+            activity('I', 'Arrived at Facility', '20261016', '230000')
+          ],
+          [{ type: 'SDD', date: '20261017' }]
+        )
+      )
+    );
+
+    const info = await service.track('ups', TRACKING_NUMBER);
+
+    expect(info.carrier).toBe('UPS');
+    expect(info.trackingNumber).toBe(TRACKING_NUMBER);
+    expect(info.status).toBe('out_for_delivery');
+    expect(info.estimatedDeliveryDate).toBe('2026-10-17');
+    expect(info.events.map((e) => e.status)).toEqual([
+      'out_for_delivery',
+      'in_transit',
+      'in_transit',
+      'pre_transit'
+    ]);
+    expect(info.events[0]).toEqual({
+      status: 'out_for_delivery',
+      description: 'Out For Delivery Today',
+      timestamp: '2026-10-17T07:15:00',
+      location: { city: 'Atlanta', state: 'GA', postalCode: '30339', country: 'US' },
+      carrierStatusCode: '021'
+    });
+  });
+
+  it('reports delivered shipments with a delivery timestamp', async () => {
+    const { service } = buildService(async () =>
+      jsonResponse(
+        200,
+        trackResponse([
+          { ...activity('D', 'DELIVERED', '20261018', '141200'), gmtDate: '20261018', gmtTime: '18:12:00' },
+          activity('I', 'Out For Delivery Today', '20261018', '071500', { statusCode: '021' })
+        ])
+      )
+    );
+
+    const info = await service.track('UPS', TRACKING_NUMBER);
+    expect(info.status).toBe('delivered');
+    expect(info.deliveredAt).toBe('2026-10-18T18:12:00Z');
+    expect(info.estimatedDeliveryDate).toBeUndefined();
+  });
+
+  it('maps exceptions', async () => {
+    const { service } = buildService(async () =>
+      jsonResponse(200, trackResponse([activity('X', 'Incorrect address', '20261017', '101500')]))
+    );
+
+    const info = await service.track('UPS', TRACKING_NUMBER);
+    expect(info.status).toBe('exception');
+  });
+
+  it('throws API_ERROR when UPS has no package details', async () => {
+    const { service } = buildService(async () =>
+      jsonResponse(200, {
+        trackResponse: {
+          shipment: [
+            {
+              inquiryNumber: TRACKING_NUMBER,
+              warnings: [{ code: 'TW0001', message: 'Tracking Information Not Found' }]
+            }
+          ]
+        }
+      })
+    );
+
+    await expect(service.track('UPS', TRACKING_NUMBER)).rejects.toMatchObject({
+      code: ErrorCode.API_ERROR,
+      carrier: 'UPS'
+    });
+  });
+
+  it('throws non-retryable API_ERROR on 404', async () => {
+    const { service } = buildService(async () => textResponse(404, 'Not Found'));
+
+    await expect(service.track('UPS', TRACKING_NUMBER)).rejects.toMatchObject({
+      code: ErrorCode.API_ERROR,
+      retryable: false
+    });
+  });
+
+  it('throws MALFORMED_RESPONSE on invalid JSON', async () => {
+    const { service } = buildService(async () => textResponse(200, '<html/>'));
+
+    await expect(service.track('UPS', TRACKING_NUMBER)).rejects.toMatchObject({
+      code: ErrorCode.MALFORMED_RESPONSE,
+      carrier: 'UPS'
+    });
+  });
+
+  it('validates tracking numbers and carrier names', async () => {
+    const { httpClient, service } = buildService(async () => jsonResponse(200, trackResponse([])));
+
+    await expect(service.track('UPS', '1Z 123/../x')).rejects.toBeInstanceOf(ValidationError);
+    await expect(service.track('FedEx', TRACKING_NUMBER)).rejects.toBeInstanceOf(ValidationError);
+    expect(httpClient.getRequests()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,241 @@
+import { createStubHttpClient, jsonResponse } from '../helpers/stub-http-client';
+import { createUpsTestClients, upsConfig } from '../helpers/ups-test-clients';
+import { UpsTransitTimeClient } from '../../integrations/ups/ups-transit-time-client';
+import { UpsTransitTimeMapper } from '../../integrations/ups/ups-transit-time-mapper';
+import { UpsTransitTimeCarrier } from '../../integrations/ups/ups-transit-time-carrier';
+import { CarrierRegistry } from '../../application/registry/carrier-registry';
+import { TransitTimeService } from '../../application/services/transit-time-service';
+import { RateService } from '../../application/services/rate-service';
+import { NoopLogger } from '../../infrastructure/logging/noop-logger';
+import { NoopTracer } from '../../infrastructure/tracing/noop-tracer';
+import { ErrorCode, ValidationError } from '../../domain/errors';
+import { RateRequest } from '../../domain/rates';
+
+const request: RateRequest = {
+  origin: { street: ['123 Main St'], city: 'Atlanta', state: 'GA', postalCode: '30339', country: 'US' },
+  destination: { street: ['456 Oak Ave'], city: 'Los Angeles', state: 'CA', postalCode: '90001', country: 'US' },
+  packages: [
+    { weight: 5, length: 10, width: 8, height: 6 },
+    { weight: 2.25, length: 6, width: 6, height: 6 }
+  ]
+};
+
+function transitResponse() {
+  return {
+    emsResponse: {
+      shipDate: '2026-10-19',
+      guaranteeSuspended: false,
+      services: [
+        {
+          serviceLevel: 'GND',
+          serviceLevelDescription: 'UPS Ground',
+          deliveryDate: '2026-10-23',
+          deliveryTime: '23:00:00',
+          guaranteeIndicator: '0',
+          businessTransitDays: '4'
+        },
+        {
+          serviceLevel: '1DA',
+          serviceLevelDescription: 'UPS Next Day Air',
+          deliveryDate: '2026-10-20',
+          deliveryTime: '10:30:00',
+          guaranteeIndicator: '1',
+          businessTransitDays: '1'
+        },
+        {
+          serviceLevel: '1DAS',
+          serviceLevelDescription: 'UPS Next Day Air (Saturday Delivery)',
+          deliveryDate: '2026-10-24',
+          guaranteeIndicator: '1',
+          businessTransitDays: '1'
+        }
+      ]
+    }
+  };
+}
+
+function buildRegistry(httpHandler: Parameters<typeof createStubHttpClient>[0]) {
+  const { httpClient, authProvider } = createUpsTestClients(httpHandler);
+  const carrier = new UpsTransitTimeCarrier(
+    new UpsTransitTimeClient(httpClient, authProvider, upsConfig),
+    new UpsTransitTimeMapper({ now: () => Date.parse('2026-10-19T15:00:00Z') })
+  );
+
+  const registry = new CarrierRegistry();
+  registry.registerTransitTimeCarrier(carrier);
+  return { httpClient, registry };
+}
+
+function buildService(httpHandler: Parameters<typeof createStubHttpClient>[0]) {
+  const { httpClient, registry } = buildRegistry(httpHandler);
+  return { httpClient, service: new TransitTimeService(registry, { logger: new NoopLogger(), tracer: new NoopTracer() }) };
+}
+
+describe('UpsTransitTimeCarrier (UPS Time in Transit API)', () => {
+  it('posts origin, destination, ship date and total weight', async () => {
+    const { httpClient, service } = buildService(async () => jsonResponse(200, transitResponse()));
+
+    await service.getTransitTimes('UPS', { ...request, shipDate: '2026-10-21' });
+    const tntReq = httpClient.getRequests().find((r) => r.url.includes('/transittimes'))!;
+
+    expect(tntReq.method).toBe('POST');
+    expect(tntReq.url).toBe('https://api.ups.com/api/shipments/v1/transittimes');
+    expect(JSON.parse(tntReq.body!)).toEqual({
+      originCountryCode: 'US',
+      originStateProvince: 'GA',
+      originCityName: 'Atlanta',
+      originPostalCode: '30339',
+      destinationCountryCode: 'US',
+      destinationStateProvince: 'CA',
+      destinationCityName: 'Los Angeles',
+      destinationPostalCode: '90001',
+      shipDate: '2026-10-21',
+      weight: '7.3',
+      weightUnitOfMeasure: 'LBS',
+      numberOfPackages: '2',
+      billType: '03',
+      avvFlag: true
+    });
+  });
+
+  it('defaults the ship date to today and omits weight without packages', async () => {
+    const { httpClient, service } = buildService(async () => jsonResponse(200, transitResponse()));
+
+    await service.getTransitTimes('UPS', { origin: request.origin, destination: request.destination });
+    const body = JSON.parse(httpClient.getRequests().find((r) => r.url.includes('/transittimes'))!.body!);
+
+    expect(body.shipDate).toBe('2026-10-19');
+    expect(body.weight).toBeUndefined();
+  });
+
+  it('maps services to per-level estimates and skips unknown codes', async () => {
+    const { service } = buildService(async () => jsonResponse(200, transitResponse()));
+
+    const result = await service.getTransitTimes('ups', request);
+
+    expect(result.carrier).toBe('UPS');
+    expect(result.shipDate).toBe('2026-10-19');
+    expect(result.estimates).toEqual([
+      {
+        serviceLevel: 'ground',
+        serviceName: 'UPS Ground',
+        businessTransitDays: 4,
+        estimatedDeliveryDate: '2026-10-23',
+        deliveryTime: '23:00:00',
+        guaranteed: false
+      },
+      {
+        serviceLevel: 'nextDayAir',
+        serviceName: 'UPS Next Day Air',
+        businessTransitDays: 1,
+        estimatedDeliveryDate: '2026-10-20',
+        deliveryTime: '10:30:00',
+        guaranteed: true
+      }
+    ]);
+  });
+
+  it('maps international service codes to worldwide levels', async () => {
+    const response = transitResponse();
+    const international: Array<[string, string, string]> = [
+      ['21', 'UPS Worldwide Express Plus', '2'],
+      ['01', 'UPS Worldwide Express', '2'],
+      ['28', 'UPS Worldwide Saver', '3'],
+      ['05', 'UPS Worldwide Expedited', '5'],
+      ['03', 'UPS Standard', '7']
+    ];
+    response.emsResponse.services = international.map(([serviceLevel, serviceLevelDescription, days]) => ({
+      serviceLevel,
+      serviceLevelDescription,
+      deliveryDate: '2026-10-28',
+      guaranteeIndicator: '0',
+      businessTransitDays: days
+    }));
+    const { service } = buildService(async () => jsonResponse(200, response));
+
+    const result = await service.getTransitTimes('ups', request);
+
+    expect(result.estimates.map((e) => [e.serviceLevel, e.businessTransitDays])).toEqual([
+      ['worldwideExpressPlus', 2],
+      ['worldwideExpress', 2],
+      ['worldwideSaver', 3],
+      ['worldwideExpedited', 5],
+      ['standard', 7]
+    ]);
+  });
+
+  it('drops guarantees while UPS has them suspended', async () => {
+    const response = transitResponse();
+    response.emsResponse.guaranteeSuspended = true;
+    const { service } = buildService(async () => jsonResponse(200, response));
+
+    const result = await service.getTransitTimes('UPS', request);
+    expect(result.estimates.every((e) => !e.guaranteed)).toBe(true);
+  });
+
+  it('throws API_ERROR when UPS cannot resolve the lane', async () => {
+    const { service } = buildService(async () =>
+      jsonResponse(200, {
+        validationList: { invalidFieldList: ['destinationPostalCode'], invalidFieldListCodes: ['TNT_1021'] }
+      })
+    );
+
+    await expect(service.getTransitTimes('UPS', request)).rejects.toMatchObject({
+      code: ErrorCode.API_ERROR,
+      carrier: 'UPS',
+      message: expect.stringContaining('destinationPostalCode')
+    });
+  });
+
+  it('validates the ship date before calling UPS', async () => {
+    const { httpClient, service } = buildService(async () => jsonResponse(200, transitResponse()));
+
+    await expect(service.getTransitTimes('UPS', { ...request, shipDate: '2026-02-31' })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await expect(service.getTransitTimes('UPS', { ...request, shipDate: '10/21/2026' })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    expect(httpClient.getRequests()).toHaveLength(0);
+  });
+});
+
+describe('RateService with includeTransitTimes', () => {
+  function buildRateService(transitHandler: Parameters<typeof createStubHttpClient>[0]) {
+    const { registry } = buildRegistry(transitHandler);
+    registry.registerCarrier({
+      getName: () => 'UPS',
+      getRates: async () => ({
+        requestId: 'r1',
+        quotes: [
+          { carrier: 'UPS', currency: 'USD', serviceLevel: 'ground', serviceName: 'UPS Ground', totalCost: 18.42 },
+          { carrier: 'UPS', currency: 'USD', serviceLevel: 'threeDaySelect', serviceName: 'UPS 3 Day Select', totalCost: 30 }
+        ]
+      })
+    });
+    return new RateService(registry, {
+      logger: new NoopLogger(),
+      tracer: new NoopTracer(),
+      includeTransitTimes: true
+    });
+  }
+
+  it('merges transit estimates into matching quotes', async () => {
+    const service = buildRateService(async () => jsonResponse(200, transitResponse()));
+
+    const [response] = await service.getRates(request);
+    const ground = response?.quotes.find((q) => q.serviceLevel === 'ground');
+    const threeDay = response?.quotes.find((q) => q.serviceLevel === 'threeDaySelect');
+
+    expect(ground).toMatchObject({ estimatedDays: 4, estimatedDeliveryDate: '2026-10-23', guaranteed: false });
+    expect(threeDay?.estimatedDays).toBeUndefined();
+  });
+
+  it('returns rates unchanged when the transit lookup fails', async () => {
+    const service = buildRateService(async () => jsonResponse(200, { validationList: {} }));
+
+    const [response] = await service.getRates(request);
+    expect(response?.quotes).toHaveLength(2);
+    expect(response?.quotes[0]?.estimatedDays).toBeUndefined();
+  });
+});
@@ -0,0 +1,289 @@
+import { createStubHttpClient, jsonResponse, textResponse } from '../helpers/stub-http-client';
+import { OAuthClient } from '../../infrastructure/auth/oauth-client';
+import { ClientCredentialsAuthProvider } from '../../infrastructure/auth/client-credentials-auth-provider';
+import { UspsRateClient } from '../../integrations/usps/usps-rate-client';
+import { UspsRateMapper } from '../../integrations/usps/usps-rate-mapper';
+import { UspsRateCarrier } from '../../integrations/usps/usps-rate-carrier';
+import { CarrierRegistry } from '../../application/registry/carrier-registry';
+import { RateService } from '../../application/services/rate-service';
+import { NoopLogger } from '../../infrastructure/logging/noop-logger';
+import { NoopTracer } from '../../infrastructure/tracing/noop-tracer';
+import { ErrorCode, RateLimitError, ValidationError } from '../../domain/errors';
+import { Logger } from '../../application/ports/logger';
+import { RateRequest } from '../../domain/rates';
+
+const uspsConfig = {
+  clientId: 'usps-client',
+  clientSecret: 'usps-secret',
+  baseUrl: 'https://apis.usps.com',
+  authUrl: 'https://apis.usps.com/oauth2/v3/token',
+  priceType: 'RETAIL' as const,
+  timeoutMs: 30000
+};
+
+const domesticRequest: RateRequest = {
+  origin: {
+    street: ['123 Main St'],
+    city: 'Atlanta',
+    state: 'GA',
+    postalCode: '30339-1234',
+    country: 'US'
+  },
+  destination: {
+    street: ['456 Oak Ave'],
+    city: 'Los Angeles',
+    state: 'CA',
+    postalCode: '90001',
+    country: 'US'
+  },
+  packages: [{ weight: 2, length: 10, width: 8, height: 6 }]
+};
+
+const internationalRequest: RateRequest = {
+  ...domesticRequest,
+  destination: {
+    street: ['10 Downing St'],
+    city: 'London',
+    state: 'LN',
+    postalCode: 'SW1A 2AA',
+    country: 'GB'
+  }
+};
+
+type DomesticBody = {
+  mailClass: string;
+  originZIPCode: string;
+  destinationZIPCode: string;
+  weight: number;
+  processingCategory: string;
+  rateIndicator: string;
+};
+type InternationalBody = { mailClass: string; destinationCountryCode: string; foreignPostalCode: string };
+
+const PRICES: Record<string, number> = {
+  PRIORITY_MAIL: 10.4,
+  USPS_GROUND_ADVANTAGE: 6.85,
+  PRIORITY_MAIL_INTERNATIONAL: 58.25
+};
+
+function priceResponse(mailClass: string) {
+  const price = PRICES[mailClass] ?? 0;
+  return {
+    totalBasePrice: price,
+    rates: [{ SKU: 'DPXX0XXXXX00010', description: mailClass, price, mailClass, zone: '08' }]
+  };
+}
+
+function buildCarrier(httpHandler: Parameters<typeof createStubHttpClient>[0], logger?: Logger) {
+  const httpClient = createStubHttpClient(httpHandler);
+  const oauthClient = new OAuthClient(httpClient, {
+    authUrl: uspsConfig.authUrl,
+    clientId: uspsConfig.clientId,
+    clientSecret: uspsConfig.clientSecret,
+    clientAuthMethod: 'body'
+  });
+  const authProvider = new ClientCredentialsAuthProvider(oauthClient);
+  const rateClient = new UspsRateClient(httpClient, authProvider, uspsConfig);
+  const mapper = new UspsRateMapper({ priceType: uspsConfig.priceType });
+  const carrier = new UspsRateCarrier(rateClient, mapper, logger);
+  return { httpClient, carrier };
+}
+
+const defaultHandler: Parameters<typeof createStubHttpClient>[0] = async (req) => {
+  if (req.url === uspsConfig.authUrl) {
+    return jsonResponse(200, { access_token: 'usps_token', token_type: 'Bearer', expires_in: 28800 });
+  }
+  const body = JSON.parse(req.body ?? '{}') as { mailClass: string };
+  return jsonResponse(200, priceResponse(body.mailClass));
+};
+
+describe('UspsRateCarrier (USPS Prices API)', () => {
+  it('supports only USPS service levels', () => {
+    const { carrier } = buildCarrier(defaultHandler);
+
+    expect(carrier.getName()).toBe('USPS');
+    expect(carrier.supportsServiceLevel('priorityMail')).toBe(true);
+    expect(carrier.supportsServiceLevel('groundAdvantage')).toBe(true);
+    expect(carrier.supportsServiceLevel('priorityMailInternational')).toBe(true);
+    expect(carrier.supportsServiceLevel('ground')).toBe(false);
+    expect(carrier.supportsServiceLevel('worldwideExpress')).toBe(false);
+  });
+
+  it('shops domestic mail classes against the domestic prices endpoint', async () => {
+    const { httpClient, carrier } = buildCarrier(defaultHandler);
+
+    const result = await carrier.getRates(domesticRequest);
+    const priceRequests = httpClient.getRequests().filter((r) => r.url !== uspsConfig.authUrl);
+
+    expect(priceRequests).toHaveLength(2);
+    priceRequests.forEach((r) => {
+      expect(r.url).toBe('https://apis.usps.com/prices/v3/base-rates/search');
+      expect(r.headers?.['Authorization']).toBe('Bearer usps_token');
+    });
+
+    const bodies = priceRequests.map((r) => JSON.parse(r.body ?? '{}') as DomesticBody);
+    expect(bodies.map((b) => b.mailClass).sort()).toEqual(['PRIORITY_MAIL', 'USPS_GROUND_ADVANTAGE']);
+    expect(bodies[0]!.originZIPCode).toBe('30339');
+    expect(bodies[0]!.destinationZIPCode).toBe('90001');
+
+    expect(result.quotes).toHaveLength(2);
+    const ground = result.quotes.find((q) => q.serviceLevel === 'groundAdvantage');
+    expect(ground).toMatchObject({
+      carrier: 'USPS',
+      currency: 'USD',
+      totalCost: 6.85,
+      serviceName: 'USPS Ground Advantage'
+    });
+  });
+
+  it('rates Priority Mail International for foreign destinations', async () => {
+    const { httpClient, carrier } = buildCarrier(defaultHandler);
+
+    const result = await carrier.getRates(internationalRequest);
+    const priceRequests = httpClient.getRequests().filter((r) => r.url !== uspsConfig.authUrl);
+
+    expect(priceRequests).toHaveLength(1);
+    expect(priceRequests[0]!.url).toBe('https://apis.usps.com/international-prices/v3/base-rates/search');
+    const body = JSON.parse(priceRequests[0]!.body ?? '{}') as InternationalBody;
+    expect(body.mailClass).toBe('PRIORITY_MAIL_INTERNATIONAL');
+    expect(body.destinationCountryCode).toBe('GB');
+    expect(body.foreignPostalCode).toBe('SW1A 2AA');
+
+    expect(result.quotes).toEqual([
+      expect.objectContaining({ serviceLevel: 'priorityMailInternational', totalCost: 58.25 })
+    ]);
+  });
+
+  it('sums per-package prices for multi-package requests', async () => {
+    const { carrier } = buildCarrier(defaultHandler);
+
+    const result = await carrier.getRates({
+      ...domesticRequest,
+      serviceLevel: 'priorityMail',
+      packages: [
+        { weight: 2, length: 10, width: 8, height: 6 },
+        { weight: 3, length: 12, width: 8, height: 6 }
+      ]
+    });
+
+    expect(result.quotes).toHaveLength(1);
+    expect(result.quotes[0]!.totalCost).toBe(20.8);
+  });
+
+  it('rejects domestic service levels for international destinations', async () => {
+    const { carrier } = buildCarrier(defaultHandler);
+
+    await expect(
+      carrier.getRates({ ...internationalRequest, serviceLevel: 'groundAdvantage' })
+    ).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, carrier: 'USPS' });
+  });
+
+  it('rates flat rate packaging with Priority Mail only', async () => {
+    const { httpClient, carrier } = buildCarrier(defaultHandler);
+
+    const result = await carrier.getRates({
+      ...domesticRequest,
+      packages: [{ weight: 1, length: 12, width: 9, height: 0.5, packagingType: 'envelope' }]
+    });
+
+    const priceRequests = httpClient.getRequests().filter((r) => r.url !== uspsConfig.authUrl);
+    expect(priceRequests).toHaveLength(1);
+    const body = JSON.parse(priceRequests[0]!.body ?? '{}') as DomesticBody;
+    expect(body).toMatchObject({ mailClass: 'PRIORITY_MAIL', rateIndicator: 'FE', processingCategory: 'FLATS' });
+    expect(result.quotes.map((q) => q.serviceLevel)).toEqual(['priorityMail']);
+
+    await expect(
+      carrier.getRates({
+        ...domesticRequest,
+        serviceLevel: 'groundAdvantage',
+        packages: [{ weight: 1, length: 12, width: 9, height: 0.5, packagingType: 'envelope' }]
+      })
+    ).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, carrier: 'USPS' });
+  });
+
+  it('rejects packages over the USPS weight limit', async () => {
+    const { carrier } = buildCarrier(defaultHandler);
+
+    await expect(
+      carrier.getRates({ ...domesticRequest, packages: [{ weight: 80, length: 10, width: 8, height: 6 }] })
+    ).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+  });
+
+  it('drops mail classes that fail while shopping and logs the failures', async () => {
+    const logger = new NoopLogger();
+    const warn = jest.spyOn(logger, 'warn');
+    const { carrier } = buildCarrier(async (req) => {
+      if (req.url === uspsConfig.authUrl) {
+        return jsonResponse(200, { access_token: 'usps_token', expires_in: 28800 });
+      }
+      const body = JSON.parse(req.body ?? '{}') as { mailClass: string };
+      if (body.mailClass === 'PRIORITY_MAIL') {
+        return jsonResponse(400, { error: { code: '400', message: 'Invalid rate indicator' } });
+      }
+      return jsonResponse(200, priceResponse(body.mailClass));
+    }, logger);
+
+    const result = await carrier.getRates(domesticRequest);
+    expect(result.quotes.map((q) => q.serviceLevel)).toEqual(['groundAdvantage']);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      { serviceLevel: 'priorityMail', err: expect.objectContaining({ code: ErrorCode.API_ERROR, carrier: 'USPS' }) },
+      'USPS mail class failed; returning rates for the other mail classes'
+    );
+  });
+
+  it('throws the carrier error when every mail class fails', async () => {
+    const { carrier } = buildCarrier(async (req) => {
+      if (req.url === uspsConfig.authUrl) {
+        return jsonResponse(200, { access_token: 'usps_token', expires_in: 28800 });
+      }
+      return textResponse(503, 'Service Unavailable');
+    });
+
+    await expect(carrier.getRates(domesticRequest)).rejects.toMatchObject({
+      code: ErrorCode.API_ERROR,
+      carrier: 'USPS',
+      retryable: true
+    });
+
+    const { carrier: rateLimited } = buildCarrier(async (req) => {
+      if (req.url === uspsConfig.authUrl) {
+        return jsonResponse(200, { access_token: 'usps_token', expires_in: 28800 });
+      }
+      return textResponse(429, 'Too Many Requests');
+    });
+    await expect(rateLimited.getRates(domesticRequest)).rejects.toBeInstanceOf(RateLimitError);
+  });
+
+  it('throws MALFORMED_RESPONSE when prices fail validation', async () => {
+    const { carrier } = buildCarrier(async (req) => {
+      if (req.url === uspsConfig.authUrl) {
+        return jsonResponse(200, { access_token: 'usps_token', expires_in: 28800 });
+      }
+      return jsonResponse(200, { rates: [] });
+    });
+
+    await expect(
+      carrier.getRates({ ...domesticRequest, serviceLevel: 'priorityMail' })
+    ).rejects.toMatchObject({ code: ErrorCode.MALFORMED_RESPONSE, carrier: 'USPS' });
+  });
+
+  it('is selected by RateService only for USPS service levels', async () => {
+    const { carrier } = buildCarrier(defaultHandler);
+    const registry = new CarrierRegistry();
+    registry.registerCarrier(carrier);
+    registry.registerCarrier({
+      getName: () => 'UPS',
+      getRates: async () => ({ requestId: 'ups', quotes: [] }),
+      supportsServiceLevel: (level) => level === 'ground'
+    });
+    const service = new RateService(registry, { logger: new NoopLogger(), tracer: new NoopTracer() });
+
+    const detailed = await service.getRatesDetailed({ ...domesticRequest, serviceLevel: 'priorityMail' });
+    expect(detailed.map((r) => r.carrier)).toEqual(['USPS']);
+
+    await expect(
+      service.getRatesDetailed({ ...domesticRequest, serviceLevel: 'worldwideExpedited' })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
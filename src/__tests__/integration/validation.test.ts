@@ -73,6 +73,184 @@ describe('validation schemas', () => {
       expect(result.success).toBe(false);
     });
 
+    it('applies weight and dimension limits in the package units', () => {
+      const metric = { weight: 60, length: 250, width: 40, height: 30, weightUnit: 'kg', dimensionUnit: 'cm' };
+      expect(rateRequestSchema.safeParse({ ...validRequest, packages: [metric] }).success).toBe(true);
+
+      const result = rateRequestSchema.safeParse({
+        ...validRequest,
+        packages: [{ ...metric, weight: 70, length: 280 }]
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues.map((i) => [i.path.join('.'), i.message])).toEqual([
+          ['packages.0.weight', 'Weight must not exceed 68.04 kg'],
+          ['packages.0.length', 'length must not exceed 274.32 cm']
+        ]);
+      }
+    });
+
+    it('rejects unknown units', () => {
+      const result = rateRequestSchema.safeParse({
+        ...validRequest,
+        packages: [{ weight: 5, length: 10, width: 8, height: 6, weightUnit: 'stone' }]
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('validates shipment options', () => {
+      expect(
+        rateRequestSchema.safeParse({
+          ...validRequest,
+          shipmentOptions: { signature: 'adult', declaredValue: { amount: 250, currency: 'USD' } }
+        }).success
+      ).toBe(true);
+      expect(
+        rateRequestSchema.safeParse({ ...validRequest, shipmentOptions: { signature: 'sometimes' } }).success
+      ).toBe(false);
+      expect(
+        rateRequestSchema.safeParse({ ...validRequest, shipmentOptions: { cod: { amount: -5, currency: 'USD' } } })
+          .success
+      ).toBe(false);
+    });
+
+    it('validates the ship date as a calendar date', () => {
+      expect(rateRequestSchema.safeParse({ ...validRequest, shipDate: '2026-10-21' }).success).toBe(true);
+      expect(rateRequestSchema.safeParse({ ...validRequest, shipDate: '2026-02-30' }).success).toBe(false);
+      expect(rateRequestSchema.safeParse({ ...validRequest, shipDate: '2026-10-21T09:00:00Z' }).success).toBe(
+        false
+      );
+    });
+
+    it('rejects flat rate packaging with dimensions larger than the packaging', () => {
+      const envelope = { weight: 1, length: 12, width: 9, height: 0.5, packagingType: 'envelope' };
+
+      expect(rateRequestSchema.safeParse({ ...validRequest, packages: [envelope] }).success).toBe(true);
+      const oversized = rateRequestSchema.safeParse({ ...validRequest, packages: [{ ...envelope, height: 6 }] });
+      expect(oversized.success).toBe(false);
+      expect(oversized.error?.issues[0]).toMatchObject({
+        path: ['packages', 0, 'packagingType'],
+        message: 'envelope packaging must not exceed 15 x 12.5 x 1 in'
+      });
+      expect(
+        rateRequestSchema.safeParse({
+          ...validRequest,
+          packages: [{ weight: 1, length: 30, width: 30, height: 2, dimensionUnit: 'cm', packagingType: 'envelope' }]
+        }).success
+      ).toBe(true);
+      expect(
+        rateRequestSchema.safeParse({ ...validRequest, packages: [{ ...envelope, packagingType: 'crate' }] }).success
+      ).toBe(false);
+    });
+
+    it('requires customs information when origin and destination countries differ', () => {
+      const international = {
+        ...validRequest,
+        destination: { ...validRequest.destination, state: 'ON', postalCode: 'M5V3L9', country: 'CA' }
+      };
+      const customs = {
+        value: { amount: 60, currency: 'USD' },
+        commodities: [{ description: 'Ceramic mug', hsCode: '691200', countryOfOrigin: 'US', quantity: 2, unitValue: 30 }]
+      };
+
+      const missing = rateRequestSchema.safeParse(international);
+      expect(missing.success).toBe(false);
+      expect(missing.error?.issues[0]?.path).toEqual(['customs']);
+
+      expect(rateRequestSchema.safeParse({ ...international, customs }).success).toBe(true);
+      expect(
+        rateRequestSchema.safeParse({
+          ...international,
+          customs: { ...customs, commodities: [{ ...customs.commodities[0], hsCode: '69.12' }] }
+        }).success
+      ).toBe(false);
+      expect(rateRequestSchema.safeParse({ ...international, customs: { ...customs, commodities: [] } }).success).toBe(
+        false
+      );
+    });
+
+    it('requires an ISO country of origin on each commodity and normalizes its case', () => {
+      const withOrigin = (countryOfOrigin: string) =>
+        rateRequestSchema.safeParse({
+          ...validRequest,
+          destination: { ...validRequest.destination, state: 'ON', postalCode: 'M5V3L9', country: 'CA' },
+          customs: {
+            value: { amount: 10, currency: 'USD' },
+            commodities: [{ description: 'Book', countryOfOrigin, quantity: 1, unitValue: 10 }]
+          }
+        });
+
+      expect(withOrigin(' cn ').data?.customs?.commodities[0]?.countryOfOrigin).toBe('CN');
+      for (const invalid of ['zz', '12', 'USA']) {
+        expect(withOrigin(invalid).error?.issues[0]).toMatchObject({
+          path: ['customs', 'commodities', 0, 'countryOfOrigin'],
+          message: 'Country must be an ISO 3166-1 alpha-2 code'
+        });
+      }
+    });
+
+    it('applies per-country postal code and state rules', () => {
+      const withDestination = (destination: Record<string, unknown>) =>
+        rateRequestSchema.safeParse({
+          ...validRequest,
+          destination: { street: ['1 Harbour Rd'], city: 'Somewhere', ...destination },
+          customs: {
+            value: { amount: 10, currency: 'USD' },
+            commodities: [{ description: 'Book', countryOfOrigin: 'US', quantity: 1, unitValue: 10 }]
+          }
+        });
+
+      expect(withDestination({ state: 'NSW', postalCode: '2000', country: 'AU' }).success).toBe(true);
+      expect(withDestination({ postalCode: '1050', country: 'DK' }).success).toBe(true);
+      expect(withDestination({ country: 'HK' }).success).toBe(true);
+      expect(withDestination({ postalCode: '', country: 'HK' }).success).toBe(true);
+      expect(withDestination({ country: 'IE' }).success).toBe(true);
+      expect(withDestination({ postalCode: 'd02 x285', country: 'ie' }).data?.destination.country).toBe('IE');
+      expect(withDestination({ postalCode: 'SW1A 1AA', country: 'GB' }).success).toBe(true);
+
+      const australia = withDestination({ postalCode: '20000', country: 'AU' });
+      expect(australia.error?.issues.map((i) => [i.path.join('.'), i.message])).toEqual([
+        ['destination.postalCode', 'Postal code 20000 is not valid for AU (for example 2000)'],
+        ['destination.state', 'State or province is required for AU']
+      ]);
+      expect(withDestination({ country: 'DE' }).error?.issues[0]?.message).toBe('Postal code is required for DE');
+      expect(withDestination({ postalCode: '12345', country: 'XX' }).error?.issues[0]).toMatchObject({
+        path: ['destination', 'country'],
+        message: 'Country must be an ISO 3166-1 alpha-2 code'
+      });
+    });
+
+    it('validates carrier filters and per-carrier options', () => {
+      const result = rateRequestSchema.safeParse({
+        ...validRequest,
+        carriers: { include: ['UPS', 'FedEx'], exclude: ['fedex'] },
+        carrierService: { carrier: 'UPS', code: '03' },
+        serviceCodes: [{ carrier: 'UPS', code: '03' }],
+        carrierOptions: { UPS: { shipperNumber: 'A1' } }
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues.map((issue) => issue.message)).toEqual([
+          "Unrecognized key(s) in object: 'shipperNumber'"
+        ]);
+      }
+
+      const refined = rateRequestSchema.safeParse({
+        ...validRequest,
+        carriers: { include: ['UPS', 'FedEx'], exclude: ['fedex'] },
+        carrierService: { carrier: 'UPS', code: '03' },
+        serviceCodes: [{ carrier: 'UPS', code: '03' }],
+        carrierOptions: { UPS: { accountNumber: 'A1' } }
+      });
+      expect(refined.success).toBe(false);
+      if (!refined.success) {
+        expect(refined.error.issues.map((issue) => issue.message)).toEqual([
+          'Request either a carrier service or a set of service codes, not both',
+          'Carrier FedEx is both included and excluded'
+        ]);
+      }
+    });
+
     it('rejects empty packages array', () => {
       const result = rateRequestSchema.safeParse({
         ...validRequest,
@@ -0,0 +1,80 @@
+import {
+  DIM_DIVISORS,
+  calculatePackageWeights,
+  calculateShipmentWeights,
+  dimDivisorsForCarrier
+} from '../../domain/billable-weight';
+
+describe('billable weight', () => {
+  it('computes dimensional weight with the daily and retail divisors', () => {
+    const box = { weight: 5, length: 12, width: 12, height: 12 };
+
+    expect(calculatePackageWeights(box, 'imperial', DIM_DIVISORS.daily)).toEqual({
+      actual: 5,
+      dimensional: 13,
+      billable: 13
+    });
+    expect(calculatePackageWeights(box, 'imperial', DIM_DIVISORS.retail)).toEqual({
+      actual: 5,
+      dimensional: 11,
+      billable: 11
+    });
+  });
+
+  it('bills flat rate packaging on actual weight', () => {
+    const pak = { weight: 2, length: 17, width: 14, height: 3, packagingType: 'pak' as const };
+
+    expect(calculatePackageWeights(pak, 'imperial', DIM_DIVISORS.daily)).toEqual({
+      actual: 2,
+      dimensional: 6,
+      billable: 2
+    });
+  });
+
+  it('rounds metric weights up to the next half kilogram', () => {
+    const box = { weight: 2.1, length: 30, width: 20, height: 15, weightUnit: 'kg' as const, dimensionUnit: 'cm' as const };
+
+    expect(calculatePackageWeights(box, 'metric', DIM_DIVISORS.metric)).toEqual({
+      actual: 2.5,
+      dimensional: 2,
+      billable: 2.5
+    });
+  });
+
+  it('converts package units into the unit system before calculating', () => {
+    const box = { weight: 1, length: 50, width: 40, height: 30, weightUnit: 'kg' as const, dimensionUnit: 'cm' as const };
+
+    const weights = calculatePackageWeights(box, 'imperial', DIM_DIVISORS.daily);
+    expect(weights.actual).toBe(3);
+    expect(weights.dimensional).toBe(28);
+  });
+
+  it('sums per-package weights for the shipment', () => {
+    const weights = calculateShipmentWeights(
+      [
+        { weight: 20, length: 10, width: 10, height: 10 },
+        { weight: 2, length: 20, width: 20, height: 10 }
+      ],
+      'imperial'
+    );
+
+    expect(weights).toEqual({
+      actual: 22,
+      dimensional: 37,
+      billable: 49,
+      unit: 'lb',
+      divisor: 139,
+      dimensionalWeightApplies: true,
+      packages: [
+        { actual: 20, dimensional: 8, billable: 20 },
+        { actual: 2, dimensional: 29, billable: 29 }
+      ]
+    });
+  });
+
+  it('looks up carrier divisors case-insensitively', () => {
+    expect(dimDivisorsForCarrier('usps')).toEqual({ imperial: 166, metric: 6000 });
+    expect(dimDivisorsForCarrier('FedEx')).toEqual({ imperial: 139, metric: 5000 });
+    expect(dimDivisorsForCarrier('Acme')).toEqual({ imperial: 139, metric: 5000 });
+  });
+});
@@ -38,5 +38,72 @@ describe('CarrierRegistry', () => {
     expect(registry.getCarrier('ups')).toBe(carrier);
     expect(registry.getCarrier('UPS')).toBe(carrier);
   });
-});
 
+  it('keeps shipping carriers separate from rate carriers', () => {
+    const registry = new CarrierRegistry();
+    registry.registerCarrier({
+      getName: () => 'UPS',
+      getRates: async () => ({ requestId: 'x', quotes: [] })
+    });
+    const shipping = {
+      getName: () => 'UPS',
+      createShipment: async () => {
+        throw new Error('not used');
+      }
+    };
+    registry.registerShippingCarrier(shipping);
+
+    expect(registry.getShippingCarrier('ups')).toBe(shipping);
+    expect(registry.listCarriers()).toHaveLength(1);
+    expect(() => registry.registerShippingCarrier(shipping)).toThrow(ConfigError);
+  });
+
+  it('registers tracking carriers independently', () => {
+    const registry = new CarrierRegistry();
+    const tracking = {
+      getName: () => 'UPS',
+      track: async () => {
+        throw new Error('not used');
+      }
+    };
+    registry.registerTrackingCarrier(tracking);
+
+    expect(registry.getTrackingCarrier('ups')).toBe(tracking);
+    expect(registry.listTrackingCarriers()).toEqual([tracking]);
+    expect(registry.getCarrier('ups')).toBeUndefined();
+    expect(() => registry.registerTrackingCarrier(tracking)).toThrow(ConfigError);
+  });
+
+  it('exposes carrier service catalogs', () => {
+    const registry = new CarrierRegistry();
+    registry.registerCarrier({
+      getName: () => 'UPS',
+      getRates: async () => ({ requestId: 'x', quotes: [] }),
+      getServiceCatalog: () => [
+        { code: '03', name: 'UPS Ground', serviceLevel: 'ground', domestic: true, international: false }
+      ]
+    });
+    registry.registerCarrier({
+      getName: () => 'Local',
+      getRates: async () => ({ requestId: 'y', quotes: [] })
+    });
+
+    expect(registry.getServiceCatalog('ups')?.map((s) => s.code)).toEqual(['03']);
+    expect(registry.getServiceCatalog('local')).toBeUndefined();
+    expect(registry.getServiceCatalog('missing')).toBeUndefined();
+  });
+
+  it('registers freight carriers independently', () => {
+    const registry = new CarrierRegistry();
+    const freight = {
+      getName: () => 'UPS',
+      getFreightRates: async () => ({ requestId: 'x', quotes: [] })
+    };
+    registry.registerFreightCarrier(freight);
+
+    expect(registry.getFreightCarrier('ups')).toBe(freight);
+    expect(registry.listFreightCarriers()).toEqual([freight]);
+    expect(registry.getCarrier('ups')).toBeUndefined();
+    expect(() => registry.registerFreightCarrier(freight)).toThrow(ConfigError);
+  });
+});
@@ -1,5 +1,5 @@
 import { CircuitBreaker } from '../../infrastructure/circuit-breaker/circuit-breaker';
-import { CircuitOpenError } from '../../domain/errors';
+import { CancelledError, CircuitOpenError, TimeoutError } from '../../domain/errors';
 
 describe('CircuitBreaker', () => {
   it('opens after the failure threshold and fast-fails until openDuration passes', async () => {
@@ -26,5 +26,28 @@ describe('CircuitBreaker', () => {
     expect(result).toBe('ok');
     expect(breaker.getState()).toBe('closed');
   });
-});
 
+  it('does not count cancelled calls as failures', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, openDurationMs: 5000 });
+
+    const cancelled = async () => {
+      throw new CancelledError('Request cancelled by caller');
+    };
+
+    await expect(breaker.execute('UPS', cancelled)).rejects.toBeInstanceOf(CancelledError);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('does not count failures of calls whose signal was aborted', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, openDurationMs: 5000 });
+    const controller = new AbortController();
+    controller.abort(new TimeoutError('Rate deadline exceeded'));
+
+    const aborted = async () => {
+      throw controller.signal.reason;
+    };
+
+    await expect(breaker.execute('UPS', aborted, controller.signal)).rejects.toBeInstanceOf(TimeoutError);
+    expect(breaker.getState()).toBe('closed');
+  });
+});
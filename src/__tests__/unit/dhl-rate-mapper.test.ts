@@ -0,0 +1,26 @@
+import { DhlExpressRateMapper } from '../../integrations/dhl/dhl-rate-mapper';
+import { DhlRateResponse } from '../../integrations/dhl/dhl-schemas';
+
+describe('DhlExpressRateMapper', () => {
+  it('keeps products outside the catalog as other with their DHL product code', () => {
+    const mapper = new DhlExpressRateMapper({ accountNumber: 'ACCT' });
+    const response: DhlRateResponse = {
+      products: [
+        { productCode: 'P', totalPrice: [{ currencyType: 'BILLC', priceCurrency: 'USD', price: 142.37 }] },
+        {
+          productCode: '8',
+          productName: 'EXPRESS EASY',
+          totalPrice: [{ currencyType: 'BILLC', priceCurrency: 'USD', price: 95 }]
+        },
+        { productCode: 'Z', totalPrice: [{ currencyType: 'BILLC', priceCurrency: 'USD', price: 60 }] }
+      ]
+    };
+
+    const quotes = mapper.fromCarrierResponse(response, 'req_1').quotes;
+    expect(quotes.map((q) => [q.serviceLevel, q.carrierServiceCode, q.serviceName, q.totalCost])).toEqual([
+      ['worldwideExpress', 'P', 'DHL Express Worldwide', 142.37],
+      ['other', '8', 'EXPRESS EASY', 95],
+      ['other', 'Z', 'DHL product Z', 60]
+    ]);
+  });
+});
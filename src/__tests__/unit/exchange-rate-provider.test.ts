@@ -0,0 +1,71 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { StaticExchangeRateProvider } from '../../infrastructure/fx/static-exchange-rate-provider';
+import { FileExchangeRateProvider } from '../../infrastructure/fx/file-exchange-rate-provider';
+import { ConfigError } from '../../domain/errors';
+
+const table = {
+  base: 'USD',
+  rates: { CAD: 1.36, EUR: 0.92 },
+  asOf: '2026-10-19T00:00:00Z'
+};
+
+describe('StaticExchangeRateProvider', () => {
+  const provider = new StaticExchangeRateProvider(table);
+
+  it('returns base and inverse rates', async () => {
+    await expect(provider.getRate('USD', 'CAD')).resolves.toEqual({
+      from: 'USD',
+      to: 'CAD',
+      rate: 1.36,
+      asOf: '2026-10-19T00:00:00Z'
+    });
+    expect((await provider.getRate('cad', 'usd')).rate).toBeCloseTo(1 / 1.36, 10);
+  });
+
+  it('derives cross rates through the base currency', async () => {
+    expect((await provider.getRate('CAD', 'EUR')).rate).toBeCloseTo(0.92 / 1.36, 10);
+    expect((await provider.getRate('EUR', 'EUR')).rate).toBe(1);
+  });
+
+  it('throws ConfigError for currencies missing from the table', async () => {
+    await expect(provider.getRate('USD', 'JPY')).rejects.toBeInstanceOf(ConfigError);
+  });
+});
+
+describe('FileExchangeRateProvider', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'fx-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads the rate table from disk once and reloads on demand', async () => {
+    const path = join(dir, 'rates.json');
+    writeFileSync(path, JSON.stringify(table));
+    const provider = new FileExchangeRateProvider({ path });
+
+    expect((await provider.getRate('USD', 'CAD')).rate).toBe(1.36);
+
+    writeFileSync(path, JSON.stringify({ ...table, rates: { CAD: 1.4 } }));
+    expect((await provider.getRate('USD', 'CAD')).rate).toBe(1.36);
+
+    provider.reload();
+    expect((await provider.getRate('USD', 'CAD')).rate).toBe(1.4);
+  });
+
+  it('throws ConfigError for missing or invalid files', async () => {
+    await expect(
+      new FileExchangeRateProvider({ path: join(dir, 'missing.json') }).getRate('USD', 'CAD')
+    ).rejects.toBeInstanceOf(ConfigError);
+
+    const path = join(dir, 'rates.json');
+    writeFileSync(path, JSON.stringify({ base: 'USD', rates: { CAD: -1 }, asOf: 'yesterday' }));
+    await expect(new FileExchangeRateProvider({ path }).getRate('USD', 'CAD')).rejects.toBeInstanceOf(ConfigError);
+  });
+});
@@ -0,0 +1,35 @@
+import { loadFedExConfig } from '../../integrations/fedex/fedex-config';
+import { ConfigError } from '../../domain/errors';
+
+describe('FedEx config loader', () => {
+  it('loads required fields and defaults optional ones', () => {
+    const env = {
+      get: (name: string) => {
+        if (name === 'FEDEX_CLIENT_ID') return 'id';
+        if (name === 'FEDEX_CLIENT_SECRET') return 'secret';
+        if (name === 'FEDEX_ACCOUNT_NUMBER') return 'ACCT';
+        return undefined;
+      }
+    };
+
+    const cfg = loadFedExConfig(env);
+    expect(cfg.clientId).toBe('id');
+    expect(cfg.clientSecret).toBe('secret');
+    expect(cfg.accountNumber).toBe('ACCT');
+    expect(cfg.baseUrl).toBe('https://apis.fedex.com');
+    expect(cfg.authUrl).toContain('oauth/token');
+    expect(cfg.timeoutMs).toBe(30000);
+  });
+
+  it('throws ConfigError when the account number is missing', () => {
+    const env = {
+      get: (name: string) => {
+        if (name === 'FEDEX_CLIENT_ID') return 'id';
+        if (name === 'FEDEX_CLIENT_SECRET') return 'secret';
+        return undefined;
+      }
+    };
+
+    expect(() => loadFedExConfig(env)).toThrow(ConfigError);
+  });
+});
@@ -0,0 +1,34 @@
+import { FedExRateMapper } from '../../integrations/fedex/fedex-rate-mapper';
+import { FedExRateResponse } from '../../integrations/fedex/fedex-schemas';
+
+describe('FedExRateMapper', () => {
+  it('keeps services outside the catalog as other with their FedEx service type', () => {
+    const mapper = new FedExRateMapper({ accountNumber: 'ACCT' });
+    const response: FedExRateResponse = {
+      output: {
+        rateReplyDetails: [
+          {
+            serviceType: 'FEDEX_GROUND',
+            ratedShipmentDetails: [{ rateType: 'ACCOUNT', totalNetCharge: 17.35, currency: 'USD' }]
+          },
+          {
+            serviceType: 'GROUND_ECONOMY',
+            serviceName: 'FedEx Ground Economy',
+            ratedShipmentDetails: [{ rateType: 'ACCOUNT', totalNetCharge: 9.1, currency: 'USD' }]
+          },
+          {
+            serviceType: 'FEDEX_REGIONAL_ECONOMY',
+            ratedShipmentDetails: [{ rateType: 'ACCOUNT', totalNetCharge: 12, currency: 'USD' }]
+          }
+        ]
+      }
+    };
+
+    const quotes = mapper.fromCarrierResponse(response, 'req_1').quotes;
+    expect(quotes.map((q) => [q.serviceLevel, q.carrierServiceCode, q.serviceName, q.totalCost])).toEqual([
+      ['ground', 'FEDEX_GROUND', 'FedEx Ground', 17.35],
+      ['other', 'GROUND_ECONOMY', 'FedEx Ground Economy', 9.1],
+      ['other', 'FEDEX_REGIONAL_ECONOMY', 'FedEx service FEDEX_REGIONAL_ECONOMY', 12]
+    ]);
+  });
+});
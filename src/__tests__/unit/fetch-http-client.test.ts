@@ -1,5 +1,5 @@
 import { FetchHttpClient } from '../../infrastructure/http/fetch-http-client';
-import { NetworkError, TimeoutError } from '../../domain/errors';
+import { ErrorCode, NetworkError, TimeoutError } from '../../domain/errors';
 
 describe('FetchHttpClient', () => {
   const originalFetch = globalThis.fetch;
@@ -42,6 +42,47 @@ describe('FetchHttpClient', () => {
     );
   });
 
+  it('aborts the fetch when the caller signal aborts and rethrows its reason', async () => {
+    const mockFetch = jest.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => {
+            const abortErr = new Error('aborted');
+            abortErr.name = 'AbortError';
+            reject(abortErr);
+          });
+        })
+    ) as unknown as typeof fetch;
+
+    (globalThis as unknown as { fetch: typeof fetch }).fetch = mockFetch;
+
+    const client = new FetchHttpClient(5000);
+    const controller = new AbortController();
+    const reason = new TimeoutError('Rate deadline of 100ms exceeded');
+    const pending = client.request({ method: 'GET', url: 'https://example.com', signal: controller.signal });
+    controller.abort(reason);
+
+    await expect(pending).rejects.toBe(reason);
+  });
+
+  it('throws a CANCELLED error when the caller aborts without a ServiceError reason', async () => {
+    const abortErr = new Error('aborted');
+    abortErr.name = 'AbortError';
+    const mockFetch = jest.fn(async () => {
+      throw abortErr;
+    }) as unknown as typeof fetch;
+
+    (globalThis as unknown as { fetch: typeof fetch }).fetch = mockFetch;
+
+    const controller = new AbortController();
+    controller.abort();
+    const client = new FetchHttpClient(5000);
+
+    await expect(
+      client.request({ method: 'GET', url: 'https://example.com', signal: controller.signal })
+    ).rejects.toMatchObject({ code: ErrorCode.CANCELLED });
+  });
+
   it('throws NetworkError on other fetch failures', async () => {
     const mockFetch = jest.fn(async () => {
       throw new Error('dns');
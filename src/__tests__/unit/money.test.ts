@@ -0,0 +1,65 @@
+import {
+  addMoney,
+  compareMoney,
+  convertMoney,
+  formatMoney,
+  moneyEquals,
+  moneyFromMinorUnits,
+  moneyToDecimal,
+  moneyToNumber,
+  multiplyMoney,
+  parseMoney,
+  subtractMoney,
+  sumMoney
+} from '../../domain/money';
+import { ValidationError } from '../../domain/errors';
+
+describe('money', () => {
+  it('parses decimal strings exactly in the currency minor units', () => {
+    expect(parseMoney('12.34', 'usd')).toEqual({ minorUnits: 1234, currency: 'USD' });
+    expect(parseMoney('12.3', 'USD').minorUnits).toBe(1230);
+    expect(parseMoney('-0.005', 'USD').minorUnits).toBe(-1);
+    expect(parseMoney('1500', 'JPY').minorUnits).toBe(1500);
+    expect(parseMoney('1.2345', 'KWD').minorUnits).toBe(1235);
+    expect(parseMoney(1.005, 'USD').minorUnits).toBe(101);
+    expect(() => parseMoney('12,34', 'USD')).toThrow(ValidationError);
+  });
+
+  it('rounds dropped digits with the requested rounding mode', () => {
+    expect(parseMoney('0.125', 'USD', 'halfEven').minorUnits).toBe(12);
+    expect(parseMoney('0.135', 'USD', 'halfEven').minorUnits).toBe(14);
+    expect(parseMoney('0.121', 'USD', 'up').minorUnits).toBe(13);
+    expect(parseMoney('0.129', 'USD', 'down').minorUnits).toBe(12);
+    expect(multiplyMoney(moneyFromMinorUnits(1001, 'USD'), 0.5, 'halfEven').minorUnits).toBe(500);
+    expect(multiplyMoney(moneyFromMinorUnits(1001, 'USD'), 0.5).minorUnits).toBe(501);
+  });
+
+  it('adds multi-package totals without floating point drift', () => {
+    const items = ['0.10', '0.20', '0.30'].map((amount) => parseMoney(amount, 'USD'));
+    const total = sumMoney(items, 'USD');
+
+    expect(total.minorUnits).toBe(60);
+    expect(moneyToNumber(total)).toBe(0.6);
+    expect(subtractMoney(total, items[0]!)).toEqual(addMoney(items[1]!, items[2]!));
+  });
+
+  it('compares and refuses to mix currencies', () => {
+    const usd = parseMoney('10', 'USD');
+    expect(compareMoney(usd, parseMoney('9.99', 'USD'))).toBe(1);
+    expect(moneyEquals(usd, parseMoney('10.00', 'USD'))).toBe(true);
+    expect(moneyEquals(usd, parseMoney('10', 'CAD'))).toBe(false);
+    expect(() => addMoney(usd, parseMoney('10', 'CAD'))).toThrow('Currency mismatch: USD and CAD');
+  });
+
+  it('converts between currencies with different minor units', () => {
+    expect(convertMoney(parseMoney('10.00', 'USD'), 150.123, 'JPY')).toEqual({ minorUnits: 1501, currency: 'JPY' });
+    expect(convertMoney(parseMoney('1500', 'JPY'), 0.0066, 'USD')).toEqual({ minorUnits: 990, currency: 'USD' });
+  });
+
+  it('formats decimals and localized amounts', () => {
+    expect(moneyToDecimal(moneyFromMinorUnits(-5, 'USD'))).toBe('-0.05');
+    expect(moneyToDecimal(parseMoney('1500', 'JPY'))).toBe('1500');
+    expect(formatMoney(parseMoney('1234.5', 'USD'))).toBe('$1,234.50');
+    expect(formatMoney(parseMoney('1234.5', 'EUR'), 'de-DE')).toBe('1.234,50 €');
+  });
+});
@@ -1,7 +1,7 @@
 import { OAuthClient } from '../../infrastructure/auth/oauth-client';
 import { ClientCredentialsAuthProvider } from '../../infrastructure/auth/client-credentials-auth-provider';
 import { createStubHttpClient, jsonResponse, textResponse } from '../helpers/stub-http-client';
-import { AuthError, ErrorCode } from '../../domain/errors';
+import { AuthError, CancelledError, ErrorCode } from '../../domain/errors';
 
 describe('OAuthClient + ClientCredentialsAuthProvider', () => {
   const authUrl = 'https://auth.ups.com/token';
@@ -102,6 +102,71 @@ describe('OAuthClient + ClientCredentialsAuthProvider', () => {
     expect(calls).toBe(1);
   });
 
+  it('stops a cancelled caller waiting on a refresh without cancelling the refresh', async () => {
+    let resolveToken: (() => void) | undefined;
+    let calls = 0;
+    let refreshSignal: AbortSignal | undefined;
+    const gate = new Promise<void>((resolve) => {
+      resolveToken = resolve;
+    });
+
+    const httpClient = createStubHttpClient(async (req) => {
+      calls += 1;
+      refreshSignal = req.signal;
+      await gate;
+      return jsonResponse(200, { access_token: 'shared', expires_in: 3600 });
+    });
+
+    const provider = new ClientCredentialsAuthProvider(new OAuthClient(httpClient, { authUrl, clientId, clientSecret }));
+    const controller = new AbortController();
+
+    const cancelled = provider.getAuthorizationHeader(controller.signal);
+    const waiting = provider.getAuthorizationHeader();
+    const waitingWithSignal = provider.getAuthorizationHeader(new AbortController().signal);
+    controller.abort();
+
+    await expect(cancelled).rejects.toBeInstanceOf(CancelledError);
+    const joinedAfterCancel = provider.getAuthorizationHeader(new AbortController().signal);
+    resolveToken?.();
+    await expect(waiting).resolves.toBe('Bearer shared');
+    await expect(waitingWithSignal).resolves.toBe('Bearer shared');
+    await expect(joinedAfterCancel).resolves.toBe('Bearer shared');
+    expect(calls).toBe(1);
+    expect(refreshSignal?.aborted).toBe(false);
+  });
+
+  it('aborts the token request once every waiting caller has cancelled', async () => {
+    const tokenSignals: Array<AbortSignal | undefined> = [];
+    const httpClient = createStubHttpClient(
+      (req) =>
+        new Promise((resolve, reject) => {
+          tokenSignals.push(req.signal);
+          if (tokenSignals.length > 1) {
+            resolve(jsonResponse(200, { access_token: 'fresh', expires_in: 3600 }));
+            return;
+          }
+          req.signal?.addEventListener('abort', () => reject(req.signal?.reason));
+        })
+    );
+
+    const provider = new ClientCredentialsAuthProvider(new OAuthClient(httpClient, { authUrl, clientId, clientSecret }));
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const p1 = provider.getAuthorizationHeader(first.signal);
+    const p2 = provider.getAuthorizationHeader(second.signal);
+    first.abort();
+    await expect(p1).rejects.toBeInstanceOf(CancelledError);
+    expect(tokenSignals[0]?.aborted).toBe(false);
+
+    second.abort();
+    await expect(p2).rejects.toBeInstanceOf(CancelledError);
+    expect(tokenSignals[0]?.aborted).toBe(true);
+
+    await expect(provider.getAuthorizationHeader()).resolves.toBe('Bearer fresh');
+    expect(tokenSignals).toHaveLength(2);
+  });
+
   it('refreshes immediately when token expires within the refresh buffer', async () => {
     let calls = 0;
     const httpClient = createStubHttpClient(async () => {
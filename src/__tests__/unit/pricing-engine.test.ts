@@ -0,0 +1,165 @@
+import { PricingEngine, PricingContext } from '../../application/services/pricing-engine';
+import { PricingRuleSet } from '../../domain/pricing';
+import { RateQuote } from '../../domain/rates';
+import { ConfigError } from '../../domain/errors';
+
+const toronto: PricingContext = {
+  destination: { street: ['1 King St W'], city: 'Toronto', state: 'ON', postalCode: 'M5H 1A1', country: 'CA' }
+};
+const berlin: PricingContext = {
+  destination: { street: ['Unter den Linden 1'], city: 'Berlin', postalCode: '10117', country: 'DE' }
+};
+
+function quote(overrides: Partial<RateQuote> = {}): RateQuote {
+  return {
+    carrier: 'UPS',
+    serviceLevel: 'ground',
+    serviceName: 'Ground',
+    totalCost: 20,
+    currency: 'USD',
+    ...overrides
+  };
+}
+
+describe('PricingEngine', () => {
+  it('applies matching rules in order and keeps the carrier cost', () => {
+    const engine = new PricingEngine({
+      rules: [
+        { id: 'base', adjustments: [{ type: 'percentMarkup', percent: 12.5 }] },
+        { id: 'handling', adjustments: [{ type: 'fixedMarkup', amount: '1.99', currency: 'USD' }] },
+        { id: 'round', adjustments: [{ type: 'round', increment: '0.25', mode: 'up' }] }
+      ]
+    });
+
+    const priced = engine.priceQuote(quote({ totalCost: 18.4 }), toronto);
+
+    expect(priced.totalCost).toBe(22.75);
+    expect(priced.price).toEqual({ minorUnits: 2275, currency: 'USD' });
+    expect(priced.pricing).toEqual({
+      carrierCost: 18.4,
+      carrierPrice: { minorUnits: 1840, currency: 'USD' },
+      margin: { minorUnits: 435, currency: 'USD' },
+      appliedRules: ['base', 'handling', 'round']
+    });
+  });
+
+  it('adds the margin to the charge breakdown and the published and negotiated costs', () => {
+    const engine = new PricingEngine({
+      rules: [{ id: 'base', adjustments: [{ type: 'percentMarkup', percent: 10 }] }]
+    });
+    const charges = [
+      { type: 'transportation' as const, description: 'Transportation', amount: 15, currency: 'USD' },
+      { type: 'fuel' as const, description: 'Fuel', amount: 3.4, currency: 'USD' }
+    ];
+
+    const priced = engine.priceQuote(quote({ totalCost: 18.4, publishedCost: 18.4, charges }), toronto);
+
+    expect(priced.totalCost).toBe(20.24);
+    expect(priced.publishedCost).toBe(20.24);
+    expect(priced.charges?.[2]).toEqual({
+      type: 'pricing_adjustment',
+      description: 'Pricing adjustment',
+      amount: 1.84,
+      currency: 'USD',
+      price: { minorUnits: 184, currency: 'USD' }
+    });
+    const chargesTotal = priced.charges!.reduce((sum, charge) => sum + Math.round(charge.amount * 100), 0);
+    expect(chargesTotal).toBe(priced.price!.minorUnits);
+
+    const negotiated = engine.priceQuote(quote({ totalCost: 18, publishedCost: 20, negotiatedCost: 18 }), toronto);
+    expect(negotiated).toMatchObject({ totalCost: 19.8, publishedCost: 21.8, negotiatedCost: 19.8 });
+    expect(negotiated.charges).toBeUndefined();
+
+    const unchanged = new PricingEngine({ rules: [] }).priceQuote(quote({ charges }), toronto);
+    expect(unchanged.charges).toBe(charges);
+  });
+
+  it('matches rules by carrier, service level, zone, weight band and customer tier', () => {
+    const engine = new PricingEngine({
+      zones: { EU: ['DE', 'FR', 'NL'] },
+      rules: [
+        { id: 'fedex-only', match: { carriers: ['fedex'] }, adjustments: [{ type: 'percentMarkup', percent: 50 }] },
+        { id: 'eu', match: { zones: ['EU'] }, adjustments: [{ type: 'fixedMarkup', amount: '5', currency: 'USD' }] },
+        {
+          id: 'heavy-ground',
+          match: { serviceLevels: ['ground'], weight: { min: 10, unit: 'kg' } },
+          adjustments: [{ type: 'fixedMarkup', amount: '3', currency: 'USD' }]
+        },
+        {
+          id: 'gold',
+          match: { customerTiers: ['gold'] },
+          adjustments: [{ type: 'percentDiscount', percent: 10 }]
+        }
+      ]
+    });
+    const heavy = quote({
+      weights: { actual: 30, dimensional: 12, billable: 30, unit: 'lb', divisor: 139, dimensionalWeightApplies: false, packages: [] }
+    });
+
+    expect(engine.priceQuote(heavy, toronto).pricing?.appliedRules).toEqual(['heavy-ground']);
+    expect(engine.priceQuote(quote(), { ...berlin, customerTier: 'gold' }).pricing?.appliedRules).toEqual([
+      'eu',
+      'gold'
+    ]);
+    expect(engine.priceQuote(quote(), { ...berlin, customerTier: 'gold' }).totalCost).toBe(22.5);
+    expect(engine.priceQuote(quote({ carrier: 'FedEx' }), toronto).pricing?.appliedRules).toEqual(['fedex-only']);
+  });
+
+  it('enforces minimums, never discounts below zero and skips rules in another currency', () => {
+    const engine = new PricingEngine({
+      rules: [
+        { id: 'cad-fee', adjustments: [{ type: 'fixedMarkup', amount: '2.00', currency: 'CAD' }] },
+        { id: 'promo', adjustments: [{ type: 'fixedDiscount', amount: '50', currency: 'USD' }] },
+        { id: 'floor', adjustments: [{ type: 'minimum', amount: '7.50', currency: 'USD' }] }
+      ]
+    });
+
+    const priced = engine.priceQuote(quote(), toronto);
+
+    expect(priced.totalCost).toBe(7.5);
+    expect(priced.pricing?.appliedRules).toEqual(['promo', 'floor']);
+    expect(priced.pricing?.margin).toEqual({ minorUnits: -1250, currency: 'USD' });
+  });
+
+  it('rounds percentage adjustments with the configured rounding mode', () => {
+    const rules = (rounding: PricingRuleSet['rounding']): PricingRuleSet => ({
+      ...(rounding ? { rounding } : {}),
+      rules: [{ id: 'markup', adjustments: [{ type: 'percentMarkup', percent: 2.5 }] }]
+    });
+
+    const price = (rounding: PricingRuleSet['rounding'], totalCost: number) =>
+      new PricingEngine(rules(rounding)).priceQuote(quote({ totalCost }), toronto).totalCost;
+
+    expect(price(undefined, 10.6)).toBe(10.87);
+    expect(price('halfEven', 10.6)).toBe(10.86);
+    expect(price(undefined, 10.3)).toBe(10.56);
+    expect(price('down', 10.3)).toBe(10.55);
+  });
+
+  it('loads rules from JSON and rejects invalid rule sets', () => {
+    const engine = PricingEngine.fromJSON(
+      JSON.stringify({ rules: [{ id: 'a', adjustments: [{ type: 'percentMarkup', percent: 5 }] }] })
+    );
+    expect(engine.listRules().map((r) => r.id)).toEqual(['a']);
+
+    expect(() => PricingEngine.fromJSON('{')).toThrow(ConfigError);
+    const markup = { type: 'percentMarkup', percent: 5 } as const;
+    expect(() => new PricingEngine({ rules: [{ id: 'a', match: { zones: ['APAC'] }, adjustments: [markup] }] })).toThrow(
+      'Invalid pricing rules: rules.0.match.zones.0: Unknown pricing zone: APAC'
+    );
+    expect(() =>
+      new PricingEngine({ rules: [{ id: 'a', adjustments: [markup] }, { id: 'a', adjustments: [markup] }] })
+    ).toThrow('Invalid pricing rules: rules.1.id: Duplicate pricing rule id: a');
+    expect(() => new PricingEngine({ rules: [{ id: 'a', adjustments: [{ type: 'percentDiscount', percent: 120 }] }] }))
+      .toThrow(ConfigError);
+    expect(
+      () => new PricingEngine({ rules: [{ id: 'x', adjustments: [{ type: 'minimum', amount: '-1', currency: 'USD' }] }] })
+    ).toThrow(
+      expect.objectContaining({
+        details: expect.objectContaining({
+          fieldErrors: { 'rules.0.adjustments.0.amount': ['Amount must be a non-negative decimal'] }
+        })
+      })
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  bestValueStrategy,
+  cheapestStrategy,
+  cheapestWithinDeadlineStrategy,
+  fastestStrategy
+} from '../../application/services/quote-strategies';
+import { RateQuote } from '../../domain/rates';
+import { ConfigError, ValidationError } from '../../domain/errors';
+
+const context = { shipDate: '2026-10-16' };
+
+function quote(overrides: Partial<RateQuote>): RateQuote {
+  return {
+    carrier: 'UPS',
+    serviceLevel: 'ground',
+    serviceName: 'Ground',
+    totalCost: 10,
+    currency: 'USD',
+    ...overrides
+  };
+}
+
+const ground = quote({ serviceName: 'Ground', totalCost: 12.5, estimatedDays: 5 });
+const twoDay = quote({ carrier: 'FedEx', serviceLevel: 'secondDayAir', serviceName: '2Day', totalCost: 24, estimatedDays: 2 });
+const overnight = quote({
+  carrier: 'FedEx',
+  serviceLevel: 'nextDayAir',
+  serviceName: 'Priority Overnight',
+  totalCost: 48.75,
+  estimatedDeliveryDate: '2026-10-19',
+  deliveryWindow: { end: '10:30' },
+  guaranteed: true
+});
+const unknownTransit = quote({ carrier: 'USPS', serviceName: 'Ground Advantage', totalCost: 9 });
+
+describe('quote strategies', () => {
+  it('ranks by price and explains the margin over the runner-up', () => {
+    const ranking = cheapestStrategy().rank([twoDay, ground, overnight], context);
+
+    expect(ranking.strategy).toBe('cheapest');
+    expect(ranking.ranked.map((r) => r.quote)).toEqual([ground, twoDay, overnight]);
+    expect(ranking.ranked[0]!.score).toBe(1);
+    expect(ranking.ranked[0]!.explanation).toBe('Cheapest of 3 quotes: $12.50, $11.50 less than FedEx 2Day');
+    expect(ranking.ranked[2]!.explanation).toBe('$48.75, $36.25 more than UPS Ground');
+  });
+
+  it('ranks by delivery date, skipping weekends, and excludes quotes without estimates', () => {
+    const ranking = fastestStrategy().rank([ground, unknownTransit, twoDay, overnight], context);
+
+    expect(ranking.ranked.map((r) => r.quote)).toEqual([overnight, twoDay, ground]);
+    expect(ranking.ranked[0]!.explanation).toBe(
+      'Earliest estimated delivery (2026-10-19 by 10:30) of 3 quotes with delivery estimates'
+    );
+    expect(ranking.ranked[1]!.explanation).toBe('Delivers 2026-10-20, 1 day after FedEx Priority Overnight');
+    expect(ranking.ranked[2]!.explanation).toBe('Delivers 2026-10-23, 4 days after FedEx Priority Overnight');
+    expect(ranking.excluded).toEqual([{ quote: unknownTransit, reason: 'No delivery estimate' }]);
+  });
+
+  it('picks the cheapest quote that arrives by the deadline', () => {
+    const ranking = cheapestWithinDeadlineStrategy('2026-10-21').rank([ground, twoDay, overnight], context);
+
+    expect(ranking.ranked.map((r) => r.quote)).toEqual([twoDay, overnight]);
+    expect(ranking.ranked[0]!.explanation).toBe(
+      'Cheapest of 2 quotes delivering by 2026-10-21: $24.00, $24.75 less than FedEx Priority Overnight'
+    );
+    expect(ranking.excluded).toEqual([
+      { quote: ground, reason: 'Estimated delivery 2026-10-23 is after the 2026-10-21 deadline' }
+    ]);
+  });
+
+  it('scores best value from weighted cost, speed and guarantee', () => {
+    const costOnly = bestValueStrategy({ cost: 1, speed: 0 }).rank([overnight, ground], context);
+    expect(costOnly.ranked[0]!.quote).toBe(ground);
+
+    const speedHeavy = bestValueStrategy({ cost: 0.2, speed: 0.5, guaranteed: 0.3 }).rank([ground, overnight], context);
+    expect(speedHeavy.ranked[0]!.quote).toBe(overnight);
+    expect(speedHeavy.ranked[0]!.explanation).toBe(
+      'Best value score 0.85 (cost 0.26 x 0.2, speed 1 x 0.5, guaranteed 1 x 0.3)'
+    );
+    expect(speedHeavy.ranked[1]!.explanation).toBe('Value score 0.37 (cost 1 x 0.2, speed 0.33 x 0.5, guaranteed 0 x 0.3)');
+  });
+
+  it('excludes quotes with malformed delivery dates from date-based ranking', () => {
+    const malformed = quote({ carrier: 'UPS', serviceName: 'Express', estimatedDeliveryDate: '10/21/2026' });
+    const impossible = quote({ carrier: 'UPS', serviceName: 'Saver', estimatedDeliveryDate: '2026-02-30' });
+
+    const fastest = fastestStrategy().rank([malformed, twoDay, impossible], context);
+    expect(fastest.ranked.map((r) => r.quote)).toEqual([twoDay]);
+    expect(fastest.excluded).toEqual([
+      { quote: malformed, reason: 'Invalid estimated delivery date: 10/21/2026' },
+      { quote: impossible, reason: 'Invalid estimated delivery date: 2026-02-30' }
+    ]);
+
+    const withinDeadline = cheapestWithinDeadlineStrategy('2026-10-21').rank([malformed, twoDay], context);
+    expect(withinDeadline.ranked.map((r) => r.quote)).toEqual([twoDay]);
+    expect(withinDeadline.excluded.map((e) => e.quote)).toEqual([malformed]);
+  });
+
+  it('ranks far-future delivery dates without walking every day', () => {
+    const farFuture = quote({ carrier: 'UPS', serviceName: 'Freight', estimatedDeliveryDate: '9999-12-31' });
+
+    const ranking = fastestStrategy().rank([farFuture, overnight], context);
+    expect(ranking.ranked.map((r) => r.quote)).toEqual([overnight, farFuture]);
+    expect(ranking.ranked[1]!.score).toBeCloseTo(2 / 2_080_111, 10);
+
+    const deadline = cheapestWithinDeadlineStrategy('2026-10-21').rank([farFuture], context);
+    expect(deadline.excluded).toEqual([
+      { quote: farFuture, reason: 'Estimated delivery 9999-12-31 is after the 2026-10-21 deadline' }
+    ]);
+  });
+
+  it('refuses to compare quotes in different currencies', () => {
+    expect(() => cheapestStrategy().rank([ground, quote({ currency: 'CAD' })], context)).toThrow(ValidationError);
+  });
+
+  it('rejects invalid strategy configuration', () => {
+    expect(() => cheapestWithinDeadlineStrategy('next week')).toThrow(ConfigError);
+    expect(() => cheapestWithinDeadlineStrategy('2026-02-30')).toThrow(ConfigError);
+    expect(() => bestValueStrategy({ cost: 0, speed: 0 })).toThrow(ConfigError);
+    expect(() => bestValueStrategy({ cost: -1, speed: 2 })).toThrow(ConfigError);
+  });
+});
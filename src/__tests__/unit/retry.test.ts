@@ -1,6 +1,6 @@
 import { ExponentialBackoffRetryPolicy } from '../../infrastructure/retry/retry-policy';
 import { withRetry } from '../../infrastructure/retry/with-retry';
-import { ErrorCode, ServiceError } from '../../domain/errors';
+import { CancelledError, ErrorCode, ServiceError } from '../../domain/errors';
 
 describe('retry', () => {
   it('retries retryable ServiceErrors and eventually succeeds', async () => {
@@ -56,5 +56,49 @@ describe('retry', () => {
 
     expect(calls).toBe(1);
   });
-});
 
+  it('only retries the configured error codes when retryableCodes is set', () => {
+    const policy = new ExponentialBackoffRetryPolicy({
+      maxAttempts: 3,
+      baseDelayMs: 0,
+      maxDelayMs: 0,
+      jitterRatio: 0,
+      retryableCodes: [ErrorCode.RATE_LIMIT_EXCEEDED]
+    });
+
+    const timeout = new ServiceError('timeout', { code: ErrorCode.TIMEOUT, carrier: 'UPS', retryable: true });
+    const limited = new ServiceError('slow down', {
+      code: ErrorCode.RATE_LIMIT_EXCEEDED,
+      carrier: 'UPS',
+      retryable: true
+    });
+
+    expect(policy.shouldRetry(timeout, 1)).toBe(false);
+    expect(policy.shouldRetry(limited, 1)).toBe(true);
+  });
+
+  it('stops waiting between attempts when the signal aborts', async () => {
+    const policy = new ExponentialBackoffRetryPolicy({
+      maxAttempts: 3,
+      baseDelayMs: 60000,
+      maxDelayMs: 60000,
+      jitterRatio: 0
+    });
+    const controller = new AbortController();
+
+    let calls = 0;
+    const pending = withRetry(
+      async () => {
+        calls += 1;
+        throw new ServiceError('temporary', { code: ErrorCode.NETWORK_ERROR, carrier: 'UPS', retryable: true });
+      },
+      policy,
+      () => setTimeout(() => controller.abort(), 0),
+      controller.signal
+    );
+
+    await expect(pending).rejects.toMatchObject({ code: ErrorCode.CANCELLED });
+    await expect(pending).rejects.toBeInstanceOf(CancelledError);
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,46 @@
+import {
+  convertDimension,
+  convertPackage,
+  convertWeight,
+  roundUp,
+  unitSystemForCountry,
+  unitsForSystem
+} from '../../domain/units';
+
+describe('units', () => {
+  it('converts between weight units', () => {
+    expect(convertWeight(1, 'kg', 'lb')).toBeCloseTo(2.20462, 5);
+    expect(convertWeight(16, 'oz', 'lb')).toBeCloseTo(1, 10);
+    expect(convertWeight(500, 'g', 'kg')).toBe(0.5);
+    expect(convertWeight(3, 'lb', 'lb')).toBe(3);
+  });
+
+  it('converts between dimension units', () => {
+    expect(convertDimension(10, 'in', 'cm')).toBeCloseTo(25.4, 10);
+    expect(convertDimension(254, 'cm', 'in')).toBeCloseTo(100, 10);
+  });
+
+  it('converts packages, defaulting to pounds and inches', () => {
+    expect(convertPackage({ weight: 2, length: 10, width: 5, height: 1 }, 'kg', 'cm')).toEqual({
+      weight: expect.closeTo(0.907185, 6),
+      length: expect.closeTo(25.4, 10),
+      width: expect.closeTo(12.7, 10),
+      height: expect.closeTo(2.54, 10),
+      weightUnit: 'kg',
+      dimensionUnit: 'cm'
+    });
+  });
+
+  it('picks the unit system for a country', () => {
+    expect(unitSystemForCountry('US')).toBe('imperial');
+    expect(unitSystemForCountry('pr')).toBe('imperial');
+    expect(unitSystemForCountry('DE')).toBe('metric');
+    expect(unitsForSystem('metric')).toEqual({ weightUnit: 'kg', dimensionUnit: 'cm' });
+  });
+
+  it('rounds up without tripping over float noise', () => {
+    expect(roundUp(convertDimension(convertDimension(5, 'in', 'cm'), 'cm', 'in'), 1)).toBe(5);
+    expect(roundUp(0.04, 1)).toBe(0.1);
+    expect(roundUp(2.21, 1)).toBe(2.3);
+  });
+});
@@ -1,6 +1,7 @@
 import { UpsRateMapper } from '../../integrations/ups/ups-rate-mapper';
 import { ErrorCode, ServiceError } from '../../domain/errors';
 import { RateRequest } from '../../domain/rates';
+import { sumMoney } from '../../domain/money';
 import { UpsRateResponse } from '../../integrations/ups/ups-schemas';
 
 describe('UpsRateMapper', () => {
@@ -28,12 +29,173 @@ describe('UpsRateMapper', () => {
     expect(req.RateRequest.Shipment.Shipper.ShipperNumber).toBe('ACCT');
   });
 
+  it('uses a per-request account number over the configured one', () => {
+    const mapper = new UpsRateMapper({ accountNumber: 'ACCT' });
+    const req = mapper.toCarrierRequest(baseRequest, { accountNumber: 'STORE2' });
+    expect(req.RateRequest.Shipment.Shipper.ShipperNumber).toBe('STORE2');
+  });
+
+  it('sends KGS/CM for metric origins and LBS/IN for US origins', () => {
+    const mapper = new UpsRateMapper({});
+    const pkg = { weight: 2, length: 30, width: 20, height: 10, weightUnit: 'kg', dimensionUnit: 'cm' } as const;
+
+    const fromDe = mapper.toCarrierRequest({
+      ...baseRequest,
+      origin: { ...baseRequest.origin, country: 'DE', state: 'BE' },
+      packages: [pkg]
+    });
+    expect(fromDe.RateRequest.Shipment.Package[0]).toMatchObject({
+      Weight: { Value: '2', UnitOfMeasurement: { Code: 'KGS' } },
+      Dimensions: { Length: '30', Width: '20', Height: '10', UnitOfMeasurement: { Code: 'CM' } }
+    });
+
+    const fromUs = mapper.toCarrierRequest({ ...baseRequest, packages: [pkg] });
+    expect(fromUs.RateRequest.Shipment.Package[0]).toMatchObject({
+      Weight: { Value: '4.5', UnitOfMeasurement: { Code: 'LBS' } },
+      Dimensions: { Length: '11.9', Width: '7.9', Height: '4', UnitOfMeasurement: { Code: 'IN' } }
+    });
+  });
+
+  it('sends UPS packaging codes and omits dimensions for carrier packaging', () => {
+    const mapper = new UpsRateMapper({});
+    const req = mapper.toCarrierRequest({
+      ...baseRequest,
+      packages: [
+        { weight: 0.5, length: 12, width: 9, height: 0.5, packagingType: 'envelope' },
+        { weight: 3, length: 10, width: 8, height: 6 }
+      ]
+    });
+
+    const [envelope, box] = req.RateRequest.Shipment.Package;
+    expect(envelope!.Packaging).toEqual({ Code: '01', Description: 'UPS Letter' });
+    expect(envelope!.Dimensions).toBeUndefined();
+    expect(box!.Packaging).toEqual({ Code: '02', Description: 'Package' });
+    expect(box!.Dimensions).toBeDefined();
+  });
+
+  it('maps domestic shipment options into UPS service options', () => {
+    const mapper = new UpsRateMapper({});
+    const req = mapper.toCarrierRequest({
+      ...baseRequest,
+      packages: [baseRequest.packages[0]!, baseRequest.packages[0]!, baseRequest.packages[0]!],
+      shipmentOptions: {
+        residential: true,
+        signature: 'adult',
+        saturdayDelivery: true,
+        declaredValue: { amount: 100, currency: 'USD' },
+        cod: { amount: 45.5, currency: 'USD' }
+      }
+    });
+    const shipment = req.RateRequest.Shipment;
+
+    expect(shipment.ShipTo.Address.ResidentialAddressIndicator).toBe('');
+    expect(shipment.ShipmentServiceOptions).toEqual({ SaturdayDeliveryIndicator: '' });
+    expect(shipment.Package.map((p) => p.PackageServiceOptions)).toEqual([
+      {
+        DeliveryConfirmation: { DCISType: '3' },
+        COD: { CODFundsCode: '0', CODAmount: { CurrencyCode: 'USD', MonetaryValue: '45.50' } },
+        DeclaredValue: { CurrencyCode: 'USD', MonetaryValue: '33.33' }
+      },
+      {
+        DeliveryConfirmation: { DCISType: '3' },
+        DeclaredValue: { CurrencyCode: 'USD', MonetaryValue: '33.33' }
+      },
+      {
+        DeliveryConfirmation: { DCISType: '3' },
+        DeclaredValue: { CurrencyCode: 'USD', MonetaryValue: '33.34' }
+      }
+    ]);
+  });
+
+  it('formats declared values and COD amounts with the currency exponent', () => {
+    const mapper = new UpsRateMapper({});
+    const declaredValues = (amount: number, currency: string) =>
+      mapper
+        .toCarrierRequest({
+          ...baseRequest,
+          packages: [baseRequest.packages[0]!, baseRequest.packages[0]!, baseRequest.packages[0]!],
+          shipmentOptions: { declaredValue: { amount, currency }, cod: { amount, currency } }
+        })
+        .RateRequest.Shipment.Package.map((p) => p.PackageServiceOptions);
+
+    const yen = declaredValues(10000, 'JPY');
+    expect(yen.map((o) => o?.DeclaredValue?.MonetaryValue)).toEqual(['3333', '3333', '3334']);
+    expect(yen[0]?.COD?.CODAmount).toEqual({ CurrencyCode: 'JPY', MonetaryValue: '10000' });
+
+    const dinar = declaredValues(100, 'KWD');
+    expect(dinar.map((o) => o?.DeclaredValue?.MonetaryValue)).toEqual(['33.333', '33.333', '33.334']);
+    expect(dinar[0]?.COD?.CODAmount).toEqual({ CurrencyCode: 'KWD', MonetaryValue: '100.000' });
+  });
+
+  it('maps international signature and COD at shipment level', () => {
+    const mapper = new UpsRateMapper({});
+    const international: RateRequest = {
+      ...baseRequest,
+      destination: { ...baseRequest.destination, country: 'CA', state: 'ON', postalCode: 'M5V3L9' }
+    };
+
+    const req = mapper.toCarrierRequest({
+      ...international,
+      shipmentOptions: { signature: 'required', cod: { amount: 20, currency: 'CAD' } }
+    });
+    expect(req.RateRequest.Shipment.ShipmentServiceOptions).toEqual({
+      DeliveryConfirmation: { DCISType: '1' },
+      COD: { CODFundsCode: '9', CODAmount: { CurrencyCode: 'CAD', MonetaryValue: '20.00' } }
+    });
+    expect(req.RateRequest.Shipment.Package[0]!.PackageServiceOptions).toBeUndefined();
+
+    expect(() =>
+      mapper.toCarrierRequest({ ...international, shipmentOptions: { deliveryConfirmation: true } })
+    ).toThrow(ServiceError);
+  });
+
+  it('omits service options when none are requested', () => {
+    const mapper = new UpsRateMapper({});
+    const req = mapper.toCarrierRequest({ ...baseRequest, shipmentOptions: { residential: false } });
+    expect(req.RateRequest.Shipment.ShipmentServiceOptions).toBeUndefined();
+    expect(req.RateRequest.Shipment.ShipTo.Address.ResidentialAddressIndicator).toBeUndefined();
+    expect(req.RateRequest.Shipment.Package[0]!.PackageServiceOptions).toBeUndefined();
+  });
+
   it('throws a validation error for an unsupported service level', () => {
     const mapper = new UpsRateMapper({});
     const bad = { ...baseRequest, serviceLevel: 'teleport' } as unknown as RateRequest;
     expect(() => mapper.toCarrierRequest(bad)).toThrow(ServiceError);
   });
 
+  it('preserves unknown UPS service codes instead of mislabeling them', () => {
+    const mapper = new UpsRateMapper({});
+    const response: UpsRateResponse = {
+      RateResponse: {
+        Response: { ResponseStatus: { Code: '1', Description: 'Success' } },
+        RatedShipment: [
+          { Service: { Code: '65' }, TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '88.00' } },
+          { Service: { Code: '92' }, TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '7.10' } },
+          { Service: { Code: 'X9' }, TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '5.00' } }
+        ]
+      }
+    };
+
+    const quotes = mapper.fromCarrierResponse(response, 'req_1').quotes;
+    expect(quotes.map((q) => [q.serviceLevel, q.carrierServiceCode, q.serviceName])).toEqual([
+      ['worldwideSaver', '65', 'UPS Worldwide Saver'],
+      ['other', '92', 'UPS SurePost Less Than 1 lb'],
+      ['other', 'X9', 'UPS service X9']
+    ]);
+  });
+
+  it('rates a requested UPS service code directly', () => {
+    const mapper = new UpsRateMapper({});
+    const request = mapper.toCarrierRequest({ ...baseRequest, carrierService: { carrier: 'UPS', code: '93' } });
+
+    expect(request.RateRequest.Request.RequestOption).toBe('Rate');
+    expect(request.RateRequest.Shipment.Service).toEqual({ Code: '93', Description: 'UPS Ground Saver' });
+    expect(
+      mapper.toCarrierRequest({ ...baseRequest, carrierService: { carrier: 'UPS', code: 'X9' } }).RateRequest.Shipment
+        .Service
+    ).toEqual({ Code: 'X9' });
+  });
+
   it('throws API_ERROR when UPS returns no RatedShipment entries', () => {
     const mapper = new UpsRateMapper({});
     const response: UpsRateResponse = {
@@ -52,5 +214,196 @@ describe('UpsRateMapper', () => {
       expect(err.carrier).toBe('UPS');
     }
   });
-});
 
+  it('uses business days in transit instead of deriving days from the clock', () => {
+    const mapper = new UpsRateMapper({});
+    const response: UpsRateResponse = {
+      RateResponse: {
+        Response: { ResponseStatus: { Code: '1', Description: 'Success' } },
+        RatedShipment: [
+          {
+            Service: { Code: '02' },
+            TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '40.00' },
+            GuaranteedDelivery: { BusinessDaysInTransit: '2', Date: '20261021' }
+          },
+          {
+            Service: { Code: '03' },
+            TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '12.00' },
+            GuaranteedDelivery: { Date: '2026-10-23' }
+          }
+        ]
+      }
+    };
+
+    const [secondDay, ground] = mapper.fromCarrierResponse(response, 'req_1').quotes;
+    expect(secondDay).toMatchObject({ estimatedDays: 2, estimatedDeliveryDate: '2026-10-21' });
+    expect(ground?.estimatedDays).toBeUndefined();
+    expect(ground?.estimatedDeliveryDate).toBe('2026-10-23');
+  });
+
+  it('itemizes charges and separates published from negotiated cost', () => {
+    const mapper = new UpsRateMapper({});
+    const response: UpsRateResponse = {
+      RateResponse: {
+        Response: { ResponseStatus: { Code: '1', Description: 'Success' } },
+        RatedShipment: [
+          {
+            Service: { Code: '03' },
+            TransportationCharges: { CurrencyCode: 'USD', MonetaryValue: '24.10' },
+            ServiceOptionsCharges: { CurrencyCode: 'USD', MonetaryValue: '6.20' },
+            ItemizedCharges: [
+              { Code: '375', Description: 'FUEL SURCHARGE', CurrencyCode: 'USD', MonetaryValue: '3.55' },
+              { Code: '270', Description: 'RESIDENTIAL ADDRESS', CurrencyCode: 'USD', MonetaryValue: '5.15' }
+            ],
+            TaxCharges: { Type: 'SALES TAX', MonetaryValue: '1.10' },
+            TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '30.30' },
+            TotalChargesWithTaxes: { CurrencyCode: 'USD', MonetaryValue: '31.40' },
+            NegotiatedRateCharges: { TotalCharge: { CurrencyCode: 'USD', MonetaryValue: '22.75' } }
+          }
+        ]
+      }
+    };
+
+    const [quote] = mapper.fromCarrierResponse(response, 'req_1').quotes;
+
+    expect(quote?.totalCost).toBe(22.75);
+    expect(quote?.publishedCost).toBe(31.4);
+    expect(quote?.negotiatedCost).toBe(22.75);
+    expect(quote?.price).toEqual({ minorUnits: 2275, currency: 'USD' });
+    expect(quote?.publishedPrice).toEqual({ minorUnits: 3140, currency: 'USD' });
+    expect(quote?.charges).toEqual([
+      {
+        type: 'transportation',
+        description: 'Transportation',
+        amount: 15.4,
+        currency: 'USD',
+        price: { minorUnits: 1540, currency: 'USD' }
+      },
+      {
+        type: 'fuel',
+        description: 'FUEL SURCHARGE',
+        amount: 3.55,
+        currency: 'USD',
+        price: { minorUnits: 355, currency: 'USD' },
+        carrierCode: '375'
+      },
+      {
+        type: 'residential',
+        description: 'RESIDENTIAL ADDRESS',
+        amount: 5.15,
+        currency: 'USD',
+        price: { minorUnits: 515, currency: 'USD' },
+        carrierCode: '270'
+      },
+      {
+        type: 'service_option',
+        description: 'Service options',
+        amount: 6.2,
+        currency: 'USD',
+        price: { minorUnits: 620, currency: 'USD' }
+      },
+      { type: 'tax', description: 'SALES TAX', amount: 1.1, currency: 'USD', price: { minorUnits: 110, currency: 'USD' } }
+    ]);
+    const sum = sumMoney(quote!.charges!.map((charge) => charge.price!), 'USD');
+    expect(sum).toEqual(quote!.publishedPrice);
+  });
+
+  it('uses the base service charge when UPS provides it', () => {
+    const mapper = new UpsRateMapper({});
+    const response: UpsRateResponse = {
+      RateResponse: {
+        Response: { ResponseStatus: { Code: '1', Description: 'Success' } },
+        RatedShipment: [
+          {
+            Service: { Code: '01' },
+            BaseServiceCharge: { CurrencyCode: 'USD', MonetaryValue: '80.00' },
+            ItemizedCharges: { Code: '375', CurrencyCode: 'USD', MonetaryValue: '9.50' },
+            TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '89.50' }
+          }
+        ]
+      }
+    };
+
+    const [quote] = mapper.fromCarrierResponse(response, 'req_1').quotes;
+    expect(quote?.negotiatedCost).toBeUndefined();
+    expect(quote?.publishedCost).toBe(89.5);
+    expect(quote?.charges?.map((c) => [c.type, c.amount])).toEqual([
+      ['transportation', 80],
+      ['fuel', 9.5]
+    ]);
+  });
+
+  it('requests time in transit for the ship date', () => {
+    const mapper = new UpsRateMapper({});
+    const req = mapper.toCarrierRequest({
+      ...baseRequest,
+      packages: [
+        { weight: 1, length: 1, width: 1, height: 1 },
+        { weight: 24, length: 1, width: 1, height: 1, weightUnit: 'oz' }
+      ],
+      shipDate: '2026-10-23'
+    });
+
+    expect(req.RateRequest.Request.RequestOption).toBe('Shoptimeintransit');
+    expect(req.RateRequest.Shipment.DeliveryTimeInformation).toEqual({
+      PackageBillType: '03',
+      Pickup: { Date: '20261023' }
+    });
+    expect(req.RateRequest.Shipment.ShipmentTotalWeight).toEqual({
+      UnitOfMeasurement: { Code: 'LBS' },
+      Weight: '2.5'
+    });
+    expect(mapper.toCarrierRequest(baseRequest).RateRequest.Shipment.DeliveryTimeInformation).toBeUndefined();
+  });
+
+  it('reads the delivery date, commit time and guarantee from time in transit', () => {
+    const mapper = new UpsRateMapper({});
+    const response: UpsRateResponse = {
+      RateResponse: {
+        Response: { ResponseStatus: { Code: '1', Description: 'Success' } },
+        RatedShipment: [
+          {
+            Service: { Code: '01' },
+            TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '89.50' },
+            TimeInTransit: {
+              ServiceSummary: {
+                GuaranteedIndicator: '',
+                EstimatedArrival: {
+                  Arrival: { Date: '20261026', Time: '103000' },
+                  BusinessDaysInTransit: '1'
+                }
+              }
+            }
+          },
+          {
+            Service: { Code: '03' },
+            TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '18.42' },
+            TimeInTransit: {
+              ServiceSummary: {
+                EstimatedArrival: {
+                  Arrival: { Date: '20261029', Time: '230000' },
+                  BusinessDaysInTransit: '4'
+                }
+              }
+            }
+          },
+          {
+            Service: { Code: '02' },
+            TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '40.00' },
+            GuaranteedDelivery: { BusinessDaysInTransit: '2', DeliveryByTime: '12:00 P.M.' }
+          }
+        ]
+      }
+    };
+
+    const [nextDay, ground, secondDay] = mapper.fromCarrierResponse(response, 'req_1').quotes;
+    expect(nextDay).toMatchObject({
+      estimatedDays: 1,
+      estimatedDeliveryDate: '2026-10-26',
+      deliveryWindow: { end: '10:30' },
+      guaranteed: true
+    });
+    expect(ground).toMatchObject({ estimatedDays: 4, estimatedDeliveryDate: '2026-10-29', guaranteed: false });
+    expect(secondDay).toMatchObject({ estimatedDays: 2, deliveryWindow: { end: '12:00' }, guaranteed: true });
+  });
+});
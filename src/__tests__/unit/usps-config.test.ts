@@ -0,0 +1,28 @@
+import { loadUspsConfig } from '../../integrations/usps/usps-config';
+import { ConfigError } from '../../domain/errors';
+
+describe('USPS config loader', () => {
+  const baseEnv: Record<string, string> = {
+    USPS_CLIENT_ID: 'id',
+    USPS_CLIENT_SECRET: 'secret'
+  };
+
+  it('loads required fields and defaults optional ones', () => {
+    const cfg = loadUspsConfig({ get: (name: string) => baseEnv[name] });
+    expect(cfg.clientId).toBe('id');
+    expect(cfg.baseUrl).toBe('https://apis.usps.com');
+    expect(cfg.authUrl).toContain('oauth2/v3/token');
+    expect(cfg.priceType).toBe('RETAIL');
+    expect(cfg.timeoutMs).toBe(30000);
+  });
+
+  it('accepts a case-insensitive price type', () => {
+    const env: Record<string, string> = { ...baseEnv, USPS_PRICE_TYPE: 'commercial' };
+    expect(loadUspsConfig({ get: (name: string) => env[name] }).priceType).toBe('COMMERCIAL');
+  });
+
+  it('throws ConfigError for an unknown price type', () => {
+    const env: Record<string, string> = { ...baseEnv, USPS_PRICE_TYPE: 'CHEAP' };
+    expect(() => loadUspsConfig({ get: (name: string) => env[name] })).toThrow(ConfigError);
+  });
+});
@@ -0,0 +1,7 @@
+import { Address } from '../../domain/rates';
+import { AddressValidationResult } from '../../domain/address-validation';
+
+export interface AddressValidationCarrier {
+  getName(): string;
+  validateAddress(address: Address): Promise<AddressValidationResult>;
+}
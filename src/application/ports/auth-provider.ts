@@ -1,5 +1,5 @@
 export interface AuthProvider {
-  getAuthorizationHeader(): Promise<string>;
+  getAuthorizationHeader(signal?: AbortSignal): Promise<string>;
   invalidate(): void;
 }
 
@@ -1,8 +1,15 @@
-import { RateRequest, RateResponse, ServiceLevel } from '../../domain/rates';
+import { CarrierRateOptions, RateRequest, RateResponse, ServiceLevel } from '../../domain/rates';
+import { CarrierService } from '../../domain/service-catalog';
+
+export interface CarrierRateContext {
+  options?: CarrierRateOptions;
+  signal?: AbortSignal;
+}
 
 export interface Carrier {
   getName(): string;
-  getRates(request: RateRequest): Promise<RateResponse>;
+  getRates(request: RateRequest, context?: CarrierRateContext): Promise<RateResponse>;
   supportsServiceLevel?(serviceLevel: ServiceLevel): boolean;
+  getServiceCatalog?(): CarrierService[];
 }
 
@@ -0,0 +1,5 @@
+import { ExchangeRate } from '../../domain/currency';
+
+export interface ExchangeRateProvider {
+  getRate(from: string, to: string): Promise<ExchangeRate>;
+}
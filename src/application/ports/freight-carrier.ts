@@ -0,0 +1,7 @@
+import { FreightRateRequest } from '../../domain/freight';
+import { RateResponse } from '../../domain/rates';
+
+export interface FreightCarrier {
+  getName(): string;
+  getFreightRates(request: FreightRateRequest): Promise<RateResponse>;
+}
@@ -0,0 +1,27 @@
+import { RateQuote } from '../../domain/rates';
+
+export interface QuoteRankingContext {
+  shipDate: string;
+}
+
+export interface RankedQuote {
+  quote: RateQuote;
+  score: number;
+  explanation: string;
+}
+
+export interface ExcludedQuote {
+  quote: RateQuote;
+  reason: string;
+}
+
+export interface QuoteRanking {
+  strategy: string;
+  ranked: RankedQuote[];
+  excluded: ExcludedQuote[];
+}
+
+export interface QuoteStrategy {
+  readonly name: string;
+  rank(quotes: RateQuote[], context: QuoteRankingContext): QuoteRanking;
+}
@@ -1,7 +1,11 @@
 import { RateResponse } from '../../domain/rates';
 
-export interface RateCache {
-  get(key: string): RateResponse[] | undefined;
-  set(key: string, value: RateResponse[], ttlMs: number): void;
+export interface CachedCarrierRates {
+  carrier: string;
+  response: RateResponse;
 }
 
+export interface RateCache {
+  get(key: string): CachedCarrierRates[] | undefined;
+  set(key: string, value: CachedCarrierRates[], ttlMs: number): void;
+}
@@ -0,0 +1,8 @@
+import { ServiceLevel } from '../../domain/rates';
+import { Shipment, ShipmentRequest } from '../../domain/shipments';
+
+export interface ShippingCarrier {
+  getName(): string;
+  createShipment(request: ShipmentRequest): Promise<Shipment>;
+  supportsServiceLevel?(serviceLevel: ServiceLevel): boolean;
+}
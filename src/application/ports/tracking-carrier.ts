@@ -0,0 +1,6 @@
+import { TrackingInfo } from '../../domain/tracking';
+
+export interface TrackingCarrier {
+  getName(): string;
+  track(trackingNumber: string): Promise<TrackingInfo>;
+}
@@ -0,0 +1,10 @@
+import { TransitTimeRequest, TransitTimeResponse } from '../../domain/transit-times';
+
+export interface TransitTimeContext {
+  signal?: AbortSignal;
+}
+
+export interface TransitTimeCarrier {
+  getName(): string;
+  getTransitTimes(request: TransitTimeRequest, context?: TransitTimeContext): Promise<TransitTimeResponse>;
+}
@@ -1,19 +1,22 @@
 import { Carrier } from '../ports/carrier';
+import { ShippingCarrier } from '../ports/shipping-carrier';
+import { TrackingCarrier } from '../ports/tracking-carrier';
+import { AddressValidationCarrier } from '../ports/address-validation-carrier';
+import { TransitTimeCarrier } from '../ports/transit-time-carrier';
+import { FreightCarrier } from '../ports/freight-carrier';
 import { ConfigError } from '../../domain/errors';
+import { CarrierService } from '../../domain/service-catalog';
 
 export class CarrierRegistry {
   private readonly carriersByName = new Map<string, Carrier>();
+  private readonly shippingCarriersByName = new Map<string, ShippingCarrier>();
+  private readonly trackingCarriersByName = new Map<string, TrackingCarrier>();
+  private readonly addressValidationCarriersByName = new Map<string, AddressValidationCarrier>();
+  private readonly transitTimeCarriersByName = new Map<string, TransitTimeCarrier>();
+  private readonly freightCarriersByName = new Map<string, FreightCarrier>();
 
   registerCarrier(carrier: Carrier): void {
-    const name = carrier.getName().trim();
-    if (!name) {
-      throw new ConfigError('Carrier name must be non-empty');
-    }
-    const key = name.toLowerCase();
-    if (this.carriersByName.has(key)) {
-      throw new ConfigError(`Carrier already registered: ${name}`);
-    }
-    this.carriersByName.set(key, carrier);
+    register(this.carriersByName, carrier.getName(), carrier);
   }
 
   listCarriers(): Carrier[] {
@@ -23,5 +26,80 @@ export class CarrierRegistry {
   getCarrier(name: string): Carrier | undefined {
     return this.carriersByName.get(name.toLowerCase());
   }
+
+  getServiceCatalog(name: string): CarrierService[] | undefined {
+    return this.getCarrier(name)?.getServiceCatalog?.();
+  }
+
+  registerShippingCarrier(carrier: ShippingCarrier): void {
+    register(this.shippingCarriersByName, carrier.getName(), carrier);
+  }
+
+  listShippingCarriers(): ShippingCarrier[] {
+    return [...this.shippingCarriersByName.values()];
+  }
+
+  getShippingCarrier(name: string): ShippingCarrier | undefined {
+    return this.shippingCarriersByName.get(name.toLowerCase());
+  }
+
+  registerTrackingCarrier(carrier: TrackingCarrier): void {
+    register(this.trackingCarriersByName, carrier.getName(), carrier);
+  }
+
+  listTrackingCarriers(): TrackingCarrier[] {
+    return [...this.trackingCarriersByName.values()];
+  }
+
+  getTrackingCarrier(name: string): TrackingCarrier | undefined {
+    return this.trackingCarriersByName.get(name.toLowerCase());
+  }
+
+  registerAddressValidationCarrier(carrier: AddressValidationCarrier): void {
+    register(this.addressValidationCarriersByName, carrier.getName(), carrier);
+  }
+
+  listAddressValidationCarriers(): AddressValidationCarrier[] {
+    return [...this.addressValidationCarriersByName.values()];
+  }
+
+  getAddressValidationCarrier(name: string): AddressValidationCarrier | undefined {
+    return this.addressValidationCarriersByName.get(name.toLowerCase());
+  }
+
+  registerTransitTimeCarrier(carrier: TransitTimeCarrier): void {
+    register(this.transitTimeCarriersByName, carrier.getName(), carrier);
+  }
+
+  listTransitTimeCarriers(): TransitTimeCarrier[] {
+    return [...this.transitTimeCarriersByName.values()];
+  }
+
+  getTransitTimeCarrier(name: string): TransitTimeCarrier | undefined {
+    return this.transitTimeCarriersByName.get(name.toLowerCase());
+  }
+
+  registerFreightCarrier(carrier: FreightCarrier): void {
+    register(this.freightCarriersByName, carrier.getName(), carrier);
+  }
+
+  listFreightCarriers(): FreightCarrier[] {
+    return [...this.freightCarriersByName.values()];
+  }
+
+  getFreightCarrier(name: string): FreightCarrier | undefined {
+    return this.freightCarriersByName.get(name.toLowerCase());
+  }
 }
 
+function register<T>(carriersByName: Map<string, T>, rawName: string, carrier: T): void {
+  const name = rawName.trim();
+  if (!name) {
+    throw new ConfigError('Carrier name must be non-empty');
+  }
+  const key = name.toLowerCase();
+  if (carriersByName.has(key)) {
+    throw new ConfigError(`Carrier already registered: ${name}`);
+  }
+  carriersByName.set(key, carrier);
+}
@@ -0,0 +1,88 @@
+import { Address, RateRequest } from '../../domain/rates';
+import { AddressValidationResult } from '../../domain/address-validation';
+import { addressSchema } from '../../domain/validation/schemas';
+import { CarrierRegistry } from '../registry/carrier-registry';
+import { AddressValidationCarrier } from '../ports/address-validation-carrier';
+import { Logger } from '../ports/logger';
+import { Tracer } from '../ports/tracer';
+import { formatZodErrors, toFieldErrors } from './validation';
+import { ServiceError, UnknownError, ValidationError } from '../../domain/errors';
+
+export interface AddressValidationServiceOptions {
+  logger: Logger;
+  tracer: Tracer;
+}
+
+export class AddressValidationService {
+  constructor(
+    private readonly registry: CarrierRegistry,
+    private readonly options: AddressValidationServiceOptions
+  ) {}
+
+  listCarriers(): AddressValidationCarrier[] {
+    return this.registry.listAddressValidationCarriers();
+  }
+
+  async validateAddress(carrierName: string, address: Address): Promise<AddressValidationResult> {
+    const validated = this.validateInput(address);
+
+    const carrier = this.registry.getAddressValidationCarrier(carrierName);
+    if (!carrier) {
+      throw new ValidationError(`Address validation carrier not found: ${carrierName}`);
+    }
+
+    const log = this.options.logger.child({ carrier: carrier.getName() });
+    return this.options.tracer.startSpan(
+      'AddressValidationService.validateAddress',
+      { carrier: carrier.getName(), 'address.country': validated.country },
+      async (span) => {
+        try {
+          const result = await carrier.validateAddress(validated);
+          span.setAttribute('address.status', result.status);
+          span.setAttribute('address.classification', result.classification);
+          span.setAttribute('address.candidates', result.candidates.length);
+          return result;
+        } catch (error) {
+          span.recordException(error);
+          const serviceError =
+            error instanceof ServiceError
+              ? error
+              : new UnknownError(
+                  'Unexpected error while validating address',
+                  carrier.getName(),
+                  undefined,
+                  error
+                );
+          log.error({ err: serviceError.toJSON() }, 'carrier.validateAddress failed');
+          throw serviceError;
+        } finally {
+          span.end();
+        }
+      }
+    );
+  }
+
+  async standardizeRateRequest(carrierName: string, request: RateRequest): Promise<RateRequest> {
+    const [origin, destination] = await Promise.all([
+      this.validateAddress(carrierName, request.origin),
+      this.validateAddress(carrierName, request.destination)
+    ]);
+
+    return {
+      ...request,
+      origin: origin.standardizedAddress ?? request.origin,
+      destination: destination.standardizedAddress ?? request.destination
+    };
+  }
+
+  private validateInput(address: Address): Address {
+    const validation = addressSchema.safeParse(address);
+    if (!validation.success) {
+      throw new ValidationError(`Invalid address: ${formatZodErrors(validation.error.errors)}`, {
+        validationErrors: validation.error.errors,
+        fieldErrors: toFieldErrors(validation.error.errors)
+      });
+    }
+    return validation.data;
+  }
+}
@@ -0,0 +1,100 @@
+import { FreightRateRequest } from '../../domain/freight';
+import { RateResponse } from '../../domain/rates';
+import { DEFAULT_WEIGHT_UNIT, convertWeight } from '../../domain/units';
+import { freightRateRequestSchema } from '../../domain/validation/schemas';
+import { CarrierRegistry } from '../registry/carrier-registry';
+import { FreightCarrier } from '../ports/freight-carrier';
+import { Logger } from '../ports/logger';
+import { Tracer } from '../ports/tracer';
+import { formatZodErrors, toFieldErrors } from './validation';
+import { PricingEngine } from './pricing-engine';
+import { ServiceError, UnknownError, ValidationError } from '../../domain/errors';
+
+export interface FreightRateServiceOptions {
+  logger: Logger;
+  tracer: Tracer;
+  pricing?: PricingEngine;
+}
+
+export interface GetFreightRatesOptions {
+  customerTier?: string;
+}
+
+export class FreightRateService {
+  constructor(
+    private readonly registry: CarrierRegistry,
+    private readonly options: FreightRateServiceOptions
+  ) {}
+
+  listCarriers(): FreightCarrier[] {
+    return this.registry.listFreightCarriers();
+  }
+
+  async getFreightRates(
+    carrierName: string,
+    request: FreightRateRequest,
+    options: GetFreightRatesOptions = {}
+  ): Promise<RateResponse> {
+    const validated = this.validateRequest(request);
+
+    const carrier = this.registry.getFreightCarrier(carrierName);
+    if (!carrier) {
+      throw new ValidationError(`Freight carrier not found: ${carrierName}`);
+    }
+
+    const log = this.options.logger.child({ carrier: carrier.getName() });
+    return this.options.tracer.startSpan(
+      'FreightRateService.getFreightRates',
+      { carrier: carrier.getName(), handlingUnits: validated.handlingUnits.length },
+      async (span) => {
+        try {
+          const response = await carrier.getFreightRates(validated);
+          span.setAttribute('freight.quotes', response.quotes.length);
+          return this.priceResponse(response, validated, options);
+        } catch (error) {
+          span.recordException(error);
+          const serviceError =
+            error instanceof ServiceError
+              ? error
+              : new UnknownError('Unexpected error while fetching freight rates', carrier.getName(), undefined, error);
+          log.error({ err: serviceError.toJSON() }, 'carrier.getFreightRates failed');
+          throw serviceError;
+        } finally {
+          span.end();
+        }
+      }
+    );
+  }
+
+  private priceResponse(
+    response: RateResponse,
+    request: FreightRateRequest,
+    options: GetFreightRatesOptions
+  ): RateResponse {
+    if (!this.options.pricing) return response;
+    const weight = request.handlingUnits.reduce(
+      (total, unit) =>
+        total + convertWeight(unit.weight, unit.weightUnit ?? DEFAULT_WEIGHT_UNIT, DEFAULT_WEIGHT_UNIT) * unit.quantity,
+      0
+    );
+    return this.options.pricing.applyToResponse(response, {
+      destination: request.destination,
+      weight: { value: weight, unit: DEFAULT_WEIGHT_UNIT },
+      ...(options.customerTier ? { customerTier: options.customerTier } : {})
+    });
+  }
+
+  private validateRequest(request: FreightRateRequest): FreightRateRequest {
+    const validation = freightRateRequestSchema.safeParse(request);
+    if (!validation.success) {
+      throw new ValidationError(
+        `Invalid freight rate request: ${formatZodErrors(validation.error.errors)}`,
+        {
+          validationErrors: validation.error.errors,
+          fieldErrors: toFieldErrors(validation.error.errors)
+        }
+      );
+    }
+    return validation.data;
+  }
+}
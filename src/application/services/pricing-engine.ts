@@ -0,0 +1,160 @@
+import { Address, RateCharge, RateQuote, RateResponse } from '../../domain/rates';
+import { PricingAdjustment, PricingRule, PricingRuleSet } from '../../domain/pricing';
+import {
+  Money,
+  RoundingMode,
+  addMoney,
+  moneyFromMinorUnits,
+  moneyToNumber,
+  multiplyMoney,
+  parseMoney,
+  roundMinorUnits,
+  subtractMoney
+} from '../../domain/money';
+import { WeightUnit, convertWeight } from '../../domain/units';
+import { pricingRuleSetSchema } from '../../domain/validation/schemas';
+import { ConfigError } from '../../domain/errors';
+import { formatZodErrors, toFieldErrors } from './validation';
+
+export interface PricingContext {
+  destination: Address;
+  customerTier?: string;
+  weight?: { value: number; unit: WeightUnit };
+}
+
+export class PricingEngine {
+  private readonly ruleSet: PricingRuleSet;
+
+  constructor(ruleSet: PricingRuleSet) {
+    const validation = pricingRuleSetSchema.safeParse(ruleSet);
+    if (!validation.success) {
+      throw new ConfigError(`Invalid pricing rules: ${formatZodErrors(validation.error.errors)}`, {
+        validationErrors: validation.error.errors,
+        fieldErrors: toFieldErrors(validation.error.errors)
+      });
+    }
+    this.ruleSet = validation.data;
+  }
+
+  static fromJSON(json: string): PricingEngine {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch (error) {
+      throw new ConfigError('Pricing rules are not valid JSON', undefined, error);
+    }
+    return new PricingEngine(parsed as PricingRuleSet);
+  }
+
+  listRules(): PricingRule[] {
+    return [...this.ruleSet.rules];
+  }
+
+  applyToResponse(response: RateResponse, context: PricingContext): RateResponse {
+    return { ...response, quotes: response.quotes.map((quote) => this.priceQuote(quote, context)) };
+  }
+
+  priceQuote(quote: RateQuote, context: PricingContext): RateQuote {
+    const carrierPrice = quote.price ?? parseMoney(quote.totalCost, quote.currency);
+    let price = carrierPrice;
+    const appliedRules: string[] = [];
+
+    for (const rule of this.ruleSet.rules) {
+      if (!this.matches(rule, quote, carrierPrice.currency, context)) continue;
+      price = rule.adjustments.reduce((current, adjustment) => this.adjust(current, adjustment), price);
+      appliedRules.push(rule.id);
+    }
+
+    const margin = subtractMoney(price, carrierPrice);
+    return {
+      ...quote,
+      ...(margin.minorUnits !== 0 ? withMarginInBreakdown(quote, margin) : {}),
+      totalCost: moneyToNumber(price),
+      price,
+      pricing: {
+        carrierCost: moneyToNumber(carrierPrice),
+        carrierPrice,
+        margin,
+        appliedRules
+      }
+    };
+  }
+
+  private matches(rule: PricingRule, quote: RateQuote, currency: string, context: PricingContext): boolean {
+    const fixedCurrencies = rule.adjustments.flatMap((a) => ('currency' in a ? [a.currency] : []));
+    if (fixedCurrencies.some((c) => c !== currency)) return false;
+
+    const match = rule.match;
+    if (!match) return true;
+
+    const country = context.destination.country.toUpperCase();
+    if (match.carriers && !match.carriers.some((c) => c.toLowerCase() === quote.carrier.toLowerCase())) {
+      return false;
+    }
+    if (match.serviceLevels && !match.serviceLevels.includes(quote.serviceLevel)) return false;
+    if (match.countries && !match.countries.includes(country)) return false;
+    if (match.zones && !match.zones.some((zone) => this.ruleSet.zones?.[zone]?.includes(country))) return false;
+    if (match.customerTiers && !(context.customerTier && match.customerTiers.includes(context.customerTier))) {
+      return false;
+    }
+    if (match.weight) {
+      const weight = quote.weights ? { value: quote.weights.billable, unit: quote.weights.unit } : context.weight;
+      if (!weight) return false;
+      const value = convertWeight(weight.value, weight.unit, match.weight.unit);
+      if (match.weight.min !== undefined && value < match.weight.min) return false;
+      if (match.weight.max !== undefined && value >= match.weight.max) return false;
+    }
+    return true;
+  }
+
+  private adjust(price: Money, adjustment: PricingAdjustment): Money {
+    const rounding = this.ruleSet.rounding ?? 'halfUp';
+    switch (adjustment.type) {
+      case 'percentMarkup':
+        return addMoney(price, multiplyMoney(price, adjustment.percent / 100, rounding));
+      case 'percentDiscount':
+        return atLeastZero(subtractMoney(price, multiplyMoney(price, adjustment.percent / 100, rounding)));
+      case 'fixedMarkup':
+        return addMoney(price, parseMoney(adjustment.amount, adjustment.currency));
+      case 'fixedDiscount':
+        return atLeastZero(subtractMoney(price, parseMoney(adjustment.amount, adjustment.currency)));
+      case 'minimum': {
+        const minimum = parseMoney(adjustment.amount, adjustment.currency);
+        return price.minorUnits < minimum.minorUnits ? minimum : price;
+      }
+      case 'round':
+        return roundToIncrement(price, adjustment.increment, adjustment.mode ?? rounding);
+    }
+  }
+}
+
+function withMarginInBreakdown(quote: RateQuote, margin: Money): Partial<RateQuote> {
+  const shift = (money: Money | undefined, amount: number): Money =>
+    addMoney(money ?? parseMoney(amount, quote.currency), margin);
+  const publishedPrice =
+    quote.publishedCost !== undefined ? shift(quote.publishedPrice, quote.publishedCost) : undefined;
+  const negotiatedPrice =
+    quote.negotiatedCost !== undefined ? shift(quote.negotiatedPrice, quote.negotiatedCost) : undefined;
+  const adjustment: RateCharge = {
+    type: 'pricing_adjustment',
+    description: 'Pricing adjustment',
+    amount: moneyToNumber(margin),
+    currency: margin.currency,
+    price: margin
+  };
+
+  return {
+    ...(publishedPrice ? { publishedCost: moneyToNumber(publishedPrice), publishedPrice } : {}),
+    ...(negotiatedPrice ? { negotiatedCost: moneyToNumber(negotiatedPrice), negotiatedPrice } : {}),
+    ...(quote.charges ? { charges: [...quote.charges, adjustment] } : {})
+  };
+}
+
+function roundToIncrement(price: Money, increment: string, mode: RoundingMode): Money {
+  const step = parseMoney(increment, price.currency, 'up').minorUnits;
+  return moneyFromMinorUnits(roundMinorUnits(price.minorUnits / step, mode) * step, price.currency);
+}
+
+function atLeastZero(price: Money): Money {
+  return price.minorUnits < 0 ? moneyFromMinorUnits(0, price.currency) : price;
+}
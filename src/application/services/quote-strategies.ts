@@ -0,0 +1,265 @@
+import { RateQuote } from '../../domain/rates';
+import { Money, formatMoney, parseMoney, subtractMoney } from '../../domain/money';
+import { ConfigError, ValidationError } from '../../domain/errors';
+import { ExcludedQuote, QuoteRankingContext, QuoteStrategy, RankedQuote } from '../ports/quote-strategy';
+
+export interface BestValueWeights {
+  cost: number;
+  speed: number;
+  guaranteed?: number;
+}
+
+export const DEFAULT_BEST_VALUE_WEIGHTS: BestValueWeights = { cost: 0.6, speed: 0.3, guaranteed: 0.1 };
+
+interface Candidate {
+  quote: RateQuote;
+  price: Money;
+  deliveryDate?: string;
+  transitDays?: number;
+  invalidDeliveryDate?: string;
+}
+
+export function cheapestStrategy(): QuoteStrategy {
+  return {
+    name: 'cheapest',
+    rank(quotes, context) {
+      const candidates = toCandidates(quotes, context);
+      return {
+        strategy: 'cheapest',
+        ranked: rankByPrice(candidates, `Cheapest of ${candidates.length} quotes`),
+        excluded: []
+      };
+    }
+  };
+}
+
+export function fastestStrategy(): QuoteStrategy {
+  return {
+    name: 'fastest',
+    rank(quotes, context) {
+      const { estimated, excluded } = partitionByEstimate(toCandidates(quotes, context));
+      const sorted = [...estimated].sort(
+        (a, b) =>
+          a.deliveryDate!.localeCompare(b.deliveryDate!) ||
+          windowEnd(a.quote).localeCompare(windowEnd(b.quote)) ||
+          a.price.minorUnits - b.price.minorUnits
+      );
+      const fastest = sorted[0];
+      const ranked = sorted.map((candidate, index): RankedQuote => {
+        const daysLater = calendarDaysBetween(fastest!.deliveryDate!, candidate.deliveryDate!);
+        return {
+          quote: candidate.quote,
+          score: (fastest!.transitDays! + 1) / (candidate.transitDays! + 1),
+          explanation:
+            index === 0
+              ? `Earliest estimated delivery (${describeDelivery(candidate)}) of ${sorted.length} quotes with delivery estimates`
+              : daysLater === 0
+                ? `Delivers ${describeDelivery(candidate)}, the same day as ${describeQuote(fastest!.quote)} but later or at a higher price`
+                : `Delivers ${describeDelivery(candidate)}, ${pluralize(daysLater, 'day')} after ${describeQuote(fastest!.quote)}`
+        };
+      });
+      return { strategy: 'fastest', ranked, excluded };
+    }
+  };
+}
+
+export function cheapestWithinDeadlineStrategy(deadline: string): QuoteStrategy {
+  if (!isIsoDate(deadline)) {
+    throw new ConfigError(`Deadline must be a YYYY-MM-DD date: ${deadline}`);
+  }
+  return {
+    name: 'cheapestWithinDeadline',
+    rank(quotes, context) {
+      const { estimated, excluded } = partitionByEstimate(toCandidates(quotes, context));
+      const onTime: Candidate[] = [];
+      for (const candidate of estimated) {
+        if (candidate.deliveryDate! <= deadline) {
+          onTime.push(candidate);
+        } else {
+          excluded.push({
+            quote: candidate.quote,
+            reason: `Estimated delivery ${candidate.deliveryDate} is after the ${deadline} deadline`
+          });
+        }
+      }
+      return {
+        strategy: 'cheapestWithinDeadline',
+        ranked: rankByPrice(onTime, `Cheapest of ${onTime.length} quotes delivering by ${deadline}`),
+        excluded
+      };
+    }
+  };
+}
+
+export function bestValueStrategy(weights: BestValueWeights = DEFAULT_BEST_VALUE_WEIGHTS): QuoteStrategy {
+  const guaranteedWeight = weights.guaranteed ?? 0;
+  const totalWeight = weights.cost + weights.speed + guaranteedWeight;
+  if ([weights.cost, weights.speed, guaranteedWeight].some((w) => !Number.isFinite(w) || w < 0) || totalWeight <= 0) {
+    throw new ConfigError('Best value weights must be non-negative and not all zero', { weights });
+  }
+
+  return {
+    name: 'bestValue',
+    rank(quotes, context) {
+      const candidates = toCandidates(quotes, context);
+      const cheapest = Math.min(...candidates.map((c) => c.price.minorUnits));
+      const quickest = Math.min(...candidates.flatMap((c) => (c.transitDays === undefined ? [] : [c.transitDays])));
+
+      const scored = candidates.map((candidate) => {
+        const cost = candidate.price.minorUnits <= 0 ? 1 : cheapest / candidate.price.minorUnits;
+        const speed = candidate.transitDays === undefined ? 0 : (quickest + 1) / (candidate.transitDays + 1);
+        const guaranteed = candidate.quote.guaranteed ? 1 : 0;
+        const score =
+          (weights.cost * cost + weights.speed * speed + guaranteedWeight * guaranteed) / totalWeight;
+        const parts = [
+          `cost ${round(cost)} x ${weights.cost}`,
+          `speed ${round(speed)} x ${weights.speed}`,
+          ...(guaranteedWeight > 0 ? [`guaranteed ${guaranteed} x ${guaranteedWeight}`] : [])
+        ];
+        return { candidate, score, parts };
+      });
+      scored.sort((a, b) => b.score - a.score || a.candidate.price.minorUnits - b.candidate.price.minorUnits);
+
+      return {
+        strategy: 'bestValue',
+        ranked: scored.map(({ candidate, score, parts }, index) => ({
+          quote: candidate.quote,
+          score,
+          explanation: `${index === 0 ? 'Best value' : 'Value'} score ${round(score)} (${parts.join(', ')})`
+        })),
+        excluded: []
+      };
+    }
+  };
+}
+
+function toCandidates(quotes: RateQuote[], context: QuoteRankingContext): Candidate[] {
+  const currencies = [...new Set(quotes.map((q) => q.currency.toUpperCase()))];
+  if (currencies.length > 1) {
+    throw new ValidationError(
+      `Cannot rank quotes in multiple currencies (${currencies.join(', ')}); request a single currency`
+    );
+  }
+
+  return quotes.map((quote) => {
+    const price = quote.price ?? parseMoney(quote.totalCost, quote.currency);
+    if (quote.estimatedDeliveryDate !== undefined && !isIsoDate(quote.estimatedDeliveryDate)) {
+      return { quote, price, invalidDeliveryDate: quote.estimatedDeliveryDate };
+    }
+    const deliveryDate =
+      quote.estimatedDeliveryDate ??
+      (quote.estimatedDays !== undefined ? addBusinessDays(context.shipDate, quote.estimatedDays) : undefined);
+    const transitDays =
+      quote.estimatedDays ?? (deliveryDate ? businessDaysBetween(context.shipDate, deliveryDate) : undefined);
+    return {
+      quote,
+      price,
+      ...(deliveryDate ? { deliveryDate } : {}),
+      ...(transitDays !== undefined ? { transitDays } : {})
+    };
+  });
+}
+
+function partitionByEstimate(candidates: Candidate[]): { estimated: Candidate[]; excluded: ExcludedQuote[] } {
+  const estimated: Candidate[] = [];
+  const excluded: ExcludedQuote[] = [];
+  for (const candidate of candidates) {
+    if (candidate.deliveryDate && candidate.transitDays !== undefined) {
+      estimated.push(candidate);
+    } else if (candidate.invalidDeliveryDate !== undefined) {
+      excluded.push({
+        quote: candidate.quote,
+        reason: `Invalid estimated delivery date: ${candidate.invalidDeliveryDate}`
+      });
+    } else {
+      excluded.push({ quote: candidate.quote, reason: 'No delivery estimate' });
+    }
+  }
+  return { estimated, excluded };
+}
+
+function rankByPrice(candidates: Candidate[], winnerPrefix: string): RankedQuote[] {
+  const sorted = [...candidates].sort(
+    (a, b) =>
+      a.price.minorUnits - b.price.minorUnits ||
+      (a.deliveryDate ?? '9999-12-31').localeCompare(b.deliveryDate ?? '9999-12-31')
+  );
+  const cheapest = sorted[0];
+  return sorted.map((candidate, index) => {
+    let explanation: string;
+    if (index === 0) {
+      const runnerUp = sorted[1];
+      explanation = runnerUp
+        ? `${winnerPrefix}: ${formatMoney(candidate.price)}, ${formatMoney(subtractMoney(runnerUp.price, candidate.price))} less than ${describeQuote(runnerUp.quote)}`
+        : `${winnerPrefix}: ${formatMoney(candidate.price)}`;
+    } else {
+      explanation = `${formatMoney(candidate.price)}, ${formatMoney(subtractMoney(candidate.price, cheapest!.price))} more than ${describeQuote(cheapest!.quote)}`;
+    }
+    return {
+      quote: candidate.quote,
+      score: candidate.price.minorUnits <= 0 ? 1 : Math.max(cheapest!.price.minorUnits, 0) / candidate.price.minorUnits,
+      explanation
+    };
+  });
+}
+
+function describeQuote(quote: RateQuote): string {
+  return `${quote.carrier} ${quote.serviceName}`;
+}
+
+function describeDelivery(candidate: Candidate): string {
+  const end = candidate.quote.deliveryWindow?.end;
+  return end ? `${candidate.deliveryDate} by ${end}` : candidate.deliveryDate!;
+}
+
+function windowEnd(quote: RateQuote): string {
+  return quote.deliveryWindow?.end ?? '23:59';
+}
+
+const DAY_MS = 86_400_000;
+
+function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+function isWeekday(weekday: number): boolean {
+  return weekday !== 0 && weekday !== 6;
+}
+
+function addBusinessDays(date: string, days: number): string {
+  if (days <= 0) return date;
+  const current = new Date(`${date}T00:00:00Z`);
+  const weeks = Math.floor((days - 1) / 5);
+  current.setUTCDate(current.getUTCDate() + weeks * 7);
+  let remaining = days - weeks * 5;
+  while (remaining > 0) {
+    current.setUTCDate(current.getUTCDate() + 1);
+    if (isWeekday(current.getUTCDay())) remaining -= 1;
+  }
+  return current.toISOString().slice(0, 10);
+}
+
+function businessDaysBetween(from: string, to: string): number {
+  const totalDays = calendarDaysBetween(from, to);
+  if (totalDays <= 0) return 0;
+  const startWeekday = new Date(`${from}T00:00:00Z`).getUTCDay();
+  let days = Math.floor(totalDays / 7) * 5;
+  for (let offset = 1; offset <= totalDays % 7; offset += 1) {
+    if (isWeekday((startWeekday + offset) % 7)) days += 1;
+  }
+  return days;
+}
+
+function calendarDaysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+function pluralize(count: number, unit: string): string {
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -1,15 +1,30 @@
-import { RateRequest, RateResponse } from '../../domain/rates';
+import { EventEmitter } from 'events';
+import { DutiesAndTaxes, RateCharge, RateQuote, RateRequest, RateResponse } from '../../domain/rates';
+import { ExchangeRate } from '../../domain/currency';
+import { Money, convertMoney, moneyFromMinorUnits, moneyToNumber, parseMoney, sumMoney } from '../../domain/money';
+import { DEFAULT_DIMENSION_UNIT, DEFAULT_WEIGHT_UNIT, unitSystemForCountry } from '../../domain/units';
+import { DEFAULT_PACKAGING_TYPE } from '../../domain/packaging';
+import { DimensionalDivisors, calculateShipmentWeights, dimDivisorsForCarrier } from '../../domain/billable-weight';
 import { rateRequestSchema } from '../../domain/validation/schemas';
 import { CarrierRegistry } from '../registry/carrier-registry';
 import { Carrier } from '../ports/carrier';
 import { Logger } from '../ports/logger';
 import { Tracer } from '../ports/tracer';
 import { RateCache } from '../ports/rate-cache';
+import { ExchangeRateProvider } from '../ports/exchange-rate-provider';
+import { QuoteRanking, QuoteStrategy, RankedQuote } from '../ports/quote-strategy';
+import { formatZodErrors, toFieldErrors } from './validation';
+import { PricingEngine } from './pricing-engine';
+import { mergeTransitTimes } from './transit-time-service';
 import {
   ServiceError,
   ValidationError,
   UnknownError,
-  ConfigError
+  ConfigError,
+  TimeoutError,
+  CancelledError,
+  cancellationError,
+  throwIfCancelled
 } from '../../domain/errors';
 
 export interface CarrierRateResult {
@@ -23,10 +38,32 @@ export interface RateServiceOptions {
   tracer: Tracer;
   cache?: RateCache;
   cacheTtlMs?: number;
+  includeTransitTimes?: boolean;
+  dimDivisors?: Record<string, DimensionalDivisors>;
+  exchangeRates?: ExchangeRateProvider;
+  pricing?: PricingEngine;
+  deadlineMs?: number;
 }
 
-function formatZodErrors(errors: { path: (string | number)[]; message: string }[]): string {
-  return errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ');
+export interface GetRatesOptions {
+  currency?: string;
+  customerTier?: string;
+  deadlineMs?: number;
+  signal?: AbortSignal;
+}
+
+export interface RankQuotesOptions extends GetRatesOptions {
+  strategy: QuoteStrategy;
+}
+
+export class RateResultEmitter extends EventEmitter {
+  constructor(private readonly cancellation: AbortController) {
+    super();
+  }
+
+  cancel(): void {
+    this.cancellation.abort();
+  }
 }
 
 export class RateService {
@@ -44,15 +81,21 @@ export class RateService {
     return this.registry.listCarriers();
   }
 
-  async getRates(request: RateRequest): Promise<RateResponse[]> {
+  async getRates(request: RateRequest, options: GetRatesOptions = {}): Promise<RateResponse[]> {
     const validated = this.validateRequest(request);
+    const currency = this.validateCurrency(options.currency);
+    const deadlineMs = this.validateDeadline(options.deadlineMs);
+    throwIfCancelled(options.signal);
     const cacheKey = this.options.cache ? buildRateCacheKey(validated) : undefined;
     if (cacheKey) {
       const cached = this.options.cache?.get(cacheKey);
-      if (cached) return cached;
+      if (cached) {
+        const responses = cached.map((entry) => entry.response);
+        return this.applyPricing(await this.normalizeCurrency(responses, currency), validated, options);
+      }
     }
 
-    const detailed = await this.getRatesDetailedValidated(validated);
+    const detailed = await this.getRatesDetailedValidated(validated, deadlineMs, options.signal);
     const responses = detailed
       .map((r) => r.response)
       .filter((r): r is RateResponse => Boolean(r));
@@ -62,49 +105,243 @@ export class RateService {
       throw firstError ?? new UnknownError('All carriers failed to return rates');
     }
 
-    if (cacheKey) {
-      this.options.cache?.set(cacheKey, responses, this.options.cacheTtlMs ?? 30000);
-    }
-    return responses;
+    this.cacheResults(cacheKey, detailed);
+    return this.applyPricing(await this.normalizeCurrency(responses, currency), validated, options);
   }
 
-  async getRatesDetailed(request: RateRequest): Promise<CarrierRateResult[]> {
+  async getRatesDetailed(request: RateRequest, options: GetRatesOptions = {}): Promise<CarrierRateResult[]> {
     const validated = this.validateRequest(request);
-    return this.getRatesDetailedValidated(validated);
+    const currency = this.validateCurrency(options.currency);
+    const deadlineMs = this.validateDeadline(options.deadlineMs);
+    throwIfCancelled(options.signal);
+    const results = await this.getRatesDetailedValidated(validated, deadlineMs, options.signal);
+    const finalize = this.createResultFinalizer(validated, currency, options);
+    return Promise.all(results.map(finalize));
+  }
+
+  streamRates(request: RateRequest, options: GetRatesOptions = {}): AsyncIterable<CarrierRateResult> {
+    return this.createRateStream(request, options);
   }
 
-  async getRatesFromCarrier(name: string, request: RateRequest): Promise<RateResponse> {
+  streamRatesEvents(request: RateRequest, options: GetRatesOptions = {}): RateResultEmitter {
+    const cancellation = new AbortController();
+    const emitter = new RateResultEmitter(cancellation);
+    const pump = async () => {
+      try {
+        for await (const result of this.createRateStream(request, options, cancellation.signal)) {
+          emitter.emit('result', result);
+        }
+        if (!cancellation.signal.aborted) emitter.emit('end');
+      } catch (error) {
+        if (emitter.listenerCount('error') > 0) {
+          emitter.emit('error', error);
+        } else {
+          const err = error instanceof ServiceError ? error.toJSON() : { message: String(error) };
+          this.options.logger.error({ err }, 'rate stream failed with no error listener attached');
+        }
+      }
+    };
+    pump().catch((error: unknown) => {
+      const err = error instanceof ServiceError ? error.toJSON() : { message: String(error) };
+      this.options.logger.error({ err }, 'rate stream error listener threw');
+    });
+    return emitter;
+  }
+
+  async getRatesFromCarrier(name: string, request: RateRequest, options: GetRatesOptions = {}): Promise<RateResponse> {
     const validated = this.validateRequest(request);
+    const currency = this.validateCurrency(options.currency);
+    const deadlineMs = this.validateDeadline(options.deadlineMs);
 
     const carrier = this.registry.getCarrier(name);
     if (!carrier) {
       throw new ValidationError(`Carrier not found: ${name}`);
     }
+    if (validated.carrierService && this.registry.getCarrier(validated.carrierService.carrier) !== carrier) {
+      throw new ValidationError(
+        `Carrier service ${validated.carrierService.code} belongs to ${validated.carrierService.carrier}, not ${name}`
+      );
+    }
+    if (this.filterCarriers([carrier], validated).length === 0) {
+      throw new ValidationError(`Carrier ${name} is excluded by the request's carrier filters`);
+    }
 
-    return carrier.getRates(validated);
+    throwIfCancelled(options.signal);
+    const controller = new AbortController();
+    const unlink = linkAbortSignal(controller, options.signal);
+    let withTransit: RateResponse;
+    try {
+      const [response] = await settleWithinDeadline(
+        [this.fetchCarrierRates(carrier, validated, controller.signal)],
+        deadlineMs,
+        controller.signal
+      );
+      if (!response) {
+        throwIfCancelled(options.signal);
+        controller.abort(deadlineCancellation(deadlineMs!));
+        throw this.deadlineExceeded(carrier.getName(), deadlineMs!);
+      }
+      withTransit = await this.withTransitTimes(carrier.getName(), validated, response, controller.signal);
+    } finally {
+      unlink();
+    }
+    const withWeights = this.withShipmentWeights(carrier.getName(), validated, withQuotePrices(withTransit));
+    const normalized = currency ? await this.createConverter(currency)(withWeights) : withWeights;
+    return this.priceResponse(normalized, validated, options);
   }
 
-  private async getRatesDetailedValidated(request: RateRequest): Promise<CarrierRateResult[]> {
-    const carriers = this.selectEligibleCarriers(request);
-    if (carriers.length === 0) {
-      throw new ValidationError(
-        `No carriers support the requested service level: ${request.serviceLevel}`
-      );
+  async rankQuotes(request: RateRequest, options: RankQuotesOptions): Promise<QuoteRanking> {
+    const { strategy, ...rateOptions } = options;
+    const responses = await this.getRates(request, rateOptions);
+    const quotes = responses.flatMap((response) => response.quotes);
+    const shipDate = request.shipDate ?? new Date().toISOString().slice(0, 10);
+    return strategy.rank(quotes, { shipDate });
+  }
+
+  async selectQuote(request: RateRequest, options: RankQuotesOptions): Promise<RankedQuote | undefined> {
+    const ranking = await this.rankQuotes(request, options);
+    return ranking.ranked[0];
+  }
+
+  private async *createRateStream(
+    request: RateRequest,
+    options: GetRatesOptions,
+    cancellation?: AbortSignal
+  ): AsyncGenerator<CarrierRateResult, void, undefined> {
+    const validated = this.validateRequest(request);
+    const currency = this.validateCurrency(options.currency);
+    const deadlineMs = this.validateDeadline(options.deadlineMs);
+    const finalize = this.createResultFinalizer(validated, currency, options);
+    throwIfCancelled(options.signal);
+
+    const cacheKey = this.options.cache ? buildRateCacheKey(validated) : undefined;
+    const cached = cacheKey ? this.options.cache?.get(cacheKey) : undefined;
+    if (cached) {
+      for (const { carrier, response } of cached) {
+        if (cancellation?.aborted) return;
+        yield await finalize({ carrier, response });
+      }
+      return;
+    }
+
+    const controller = new AbortController();
+    const queue: CarrierRateResult[] = [];
+    const results: CarrierRateResult[] = [];
+    let wake: (() => void) | undefined;
+    let outcome: { error?: unknown } | undefined;
+
+    const onCancel = () => wake?.();
+    cancellation?.addEventListener('abort', onCancel);
+    this.fanOutRates(validated, deadlineMs, controller, options.signal, { streaming: true }, (result, index) => {
+      results[index] = result;
+      queue.push(result);
+      wake?.();
+    }).then(
+      () => {
+        outcome = {};
+        wake?.();
+      },
+      (error: unknown) => {
+        outcome = { error };
+        wake?.();
+      }
+    );
+
+    try {
+      for (;;) {
+        if (cancellation?.aborted) return;
+        const next = queue.shift();
+        if (next) {
+          yield await finalize(next);
+          continue;
+        }
+        if (outcome) {
+          if (outcome.error !== undefined) throw outcome.error;
+          break;
+        }
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+        wake = undefined;
+      }
+    } finally {
+      cancellation?.removeEventListener('abort', onCancel);
+      if (!outcome) controller.abort();
     }
 
+    this.cacheResults(cacheKey, results);
+  }
+
+  private async getRatesDetailedValidated(
+    request: RateRequest,
+    deadlineMs: number | undefined,
+    signal: AbortSignal | undefined
+  ): Promise<CarrierRateResult[]> {
+    const results: CarrierRateResult[] = [];
+    await this.fanOutRates(request, deadlineMs, new AbortController(), signal, {}, (result, index) => {
+      results[index] = result;
+    });
+    return results;
+  }
+
+  private async fanOutRates(
+    request: RateRequest,
+    deadlineMs: number | undefined,
+    controller: AbortController,
+    signal: AbortSignal | undefined,
+    attributes: Record<string, string | number | boolean>,
+    onResult: (result: CarrierRateResult, index: number) => void
+  ): Promise<void> {
+    const carriers = this.selectEligibleCarriers(request);
+
     return this.options.tracer.startSpan(
       'RateService.getRates',
-      { carriers: carriers.length, hasServiceLevel: Boolean(request.serviceLevel) },
+      {
+        carriers: carriers.length,
+        hasServiceLevel: Boolean(request.serviceLevel),
+        ...(deadlineMs !== undefined ? { deadlineMs } : {}),
+        ...attributes
+      },
       async (span) => {
+        const unlink = linkAbortSignal(controller, signal);
         try {
-          const results = await Promise.all(
-            carriers.map(async (carrier) => this.getRatesFromCarrierSafe(carrier, request))
+          const delivered = new Set<number>();
+          let closed = false;
+          await settleWithinDeadline(
+            carriers.map(async (carrier, index) => {
+              const result = await this.getRatesFromCarrierSafe(carrier, request, controller.signal);
+              if (closed || controller.signal.aborted) return;
+              delivered.add(index);
+              onResult(result, index);
+            }),
+            deadlineMs,
+            controller.signal
           );
-          return results;
+          closed = true;
+          if (controller.signal.aborted) {
+            span.setAttribute('cancelled', true);
+            throwIfCancelled(signal);
+            return;
+          }
+
+          const pending = carriers.filter((_, index) => !delivered.has(index));
+          if (pending.length === 0) return;
+
+          span.setAttribute('timedOutCarriers', pending.length);
+          controller.abort(deadlineCancellation(deadlineMs!));
+          carriers.forEach((carrier, index) => {
+            if (delivered.has(index)) return;
+            const carrierName = carrier.getName();
+            this.options.logger
+              .child({ carrier: carrierName })
+              .warn({ deadlineMs }, 'carrier did not respond before the rate deadline; returning partial results');
+            onResult({ carrier: carrierName, error: this.deadlineExceeded(carrierName, deadlineMs!) }, index);
+          });
         } catch (error) {
           span.recordException(error);
           throw error;
         } finally {
+          unlink();
           span.end();
         }
       }
@@ -116,51 +353,441 @@ export class RateService {
     if (!validation.success) {
       throw new ValidationError(
         `Invalid rate request: ${formatZodErrors(validation.error.errors)}`,
-        { validationErrors: validation.error.errors }
+        {
+          validationErrors: validation.error.errors,
+          fieldErrors: toFieldErrors(validation.error.errors)
+        }
       );
     }
-    const { serviceLevel, ...rest } = validation.data;
-    return serviceLevel ? { ...rest, serviceLevel } : rest;
+    return validation.data;
+  }
+
+  private validateDeadline(deadlineMs: number | undefined): number | undefined {
+    const resolved = deadlineMs ?? this.options.deadlineMs;
+    if (resolved === undefined) return undefined;
+    if (!Number.isFinite(resolved) || resolved <= 0) {
+      throw new ValidationError(`Deadline must be a positive number of milliseconds: ${resolved}`);
+    }
+    return resolved;
+  }
+
+  private deadlineExceeded(carrierName: string, deadlineMs: number): TimeoutError {
+    return new TimeoutError(`${carrierName} did not respond within the ${deadlineMs}ms deadline`, carrierName, {
+      deadlineMs
+    });
+  }
+
+  private validateCurrency(currency: string | undefined): string | undefined {
+    if (currency === undefined) return undefined;
+    if (!/^[A-Za-z]{3}$/.test(currency)) {
+      throw new ValidationError(`Invalid currency: ${currency}`);
+    }
+    if (!this.options.exchangeRates) {
+      throw new ConfigError('An exchange rate provider is required to normalize quote currencies');
+    }
+    return currency.toUpperCase();
+  }
+
+  private async normalizeCurrency(responses: RateResponse[], currency: string | undefined): Promise<RateResponse[]> {
+    if (!currency) return responses;
+    const convert = this.createConverter(currency);
+    return Promise.all(responses.map(convert));
+  }
+
+  private createConverter(currency: string): (response: RateResponse) => Promise<RateResponse> {
+    const provider = this.options.exchangeRates;
+    if (!provider) {
+      throw new ConfigError('An exchange rate provider is required to normalize quote currencies');
+    }
+    const ratesByCurrency = new Map<string, Promise<ExchangeRate>>();
+    const rateFor = (from: string): Promise<ExchangeRate> => {
+      const key = from.toUpperCase();
+      let rate = ratesByCurrency.get(key);
+      if (!rate) {
+        rate = provider.getRate(key, currency);
+        ratesByCurrency.set(key, rate);
+      }
+      return rate;
+    };
+
+    return async (response) => ({
+      ...response,
+      quotes: await Promise.all(response.quotes.map((quote) => convertQuote(quote, currency, rateFor)))
+    });
+  }
+
+  private createResultFinalizer(
+    request: RateRequest,
+    currency: string | undefined,
+    options: GetRatesOptions
+  ): (result: CarrierRateResult) => Promise<CarrierRateResult> {
+    const convert = currency ? this.createConverter(currency) : undefined;
+    return async (result) => {
+      if (!result.response) return result;
+      if (!convert) return { ...result, response: this.priceResponse(result.response, request, options) };
+      try {
+        const converted = await convert(result.response);
+        return { carrier: result.carrier, response: this.priceResponse(converted, request, options) };
+      } catch (error) {
+        const serviceError =
+          error instanceof ServiceError
+            ? error
+            : new UnknownError('Unexpected error while converting rates', result.carrier, undefined, error);
+        this.options.logger
+          .child({ carrier: result.carrier })
+          .error({ err: serviceError.toJSON() }, 'currency conversion failed');
+        return { carrier: result.carrier, error: serviceError };
+      }
+    };
+  }
+
+  private cacheResults(cacheKey: string | undefined, results: CarrierRateResult[]): void {
+    if (!cacheKey || results.some((r) => r.error instanceof TimeoutError)) return;
+    const entries = results.flatMap((r) => (r.response ? [{ carrier: r.carrier, response: r.response }] : []));
+    if (entries.length === 0) return;
+    this.options.cache?.set(cacheKey, entries, this.options.cacheTtlMs ?? 30000);
+  }
+
+  private applyPricing(responses: RateResponse[], request: RateRequest, options: GetRatesOptions): RateResponse[] {
+    return responses.map((response) => this.priceResponse(response, request, options));
+  }
+
+  private priceResponse(response: RateResponse, request: RateRequest, options: GetRatesOptions): RateResponse {
+    if (!this.options.pricing) return response;
+    return this.options.pricing.applyToResponse(response, {
+      destination: request.destination,
+      ...(options.customerTier ? { customerTier: options.customerTier } : {})
+    });
   }
 
   private selectEligibleCarriers(request: RateRequest): Carrier[] {
-    const carriers = this.registry.listCarriers();
+    const carriers = this.filterCarriers(this.registry.listCarriers(), request);
+    if (carriers.length === 0) {
+      throw new ValidationError('No carriers match the requested carrier filters');
+    }
     if (!request.serviceLevel) return carriers;
 
-    return carriers.filter(
+    const supported = carriers.filter(
       (c) => !c.supportsServiceLevel || c.supportsServiceLevel(request.serviceLevel!)
     );
+    if (supported.length === 0) {
+      throw new ValidationError(`No carriers support the requested service level: ${request.serviceLevel}`);
+    }
+    return supported;
+  }
+
+  private filterCarriers(carriers: Carrier[], request: RateRequest): Carrier[] {
+    const resolve = (names: string[] | undefined): Set<Carrier> | undefined => {
+      if (!names) return undefined;
+      return new Set(
+        names.map((name) => {
+          const carrier = this.registry.getCarrier(name);
+          if (!carrier) throw new ValidationError(`Carrier not found: ${name}`);
+          return carrier;
+        })
+      );
+    };
+
+    const selected = resolve(request.carrierService ? [request.carrierService.carrier] : undefined);
+    const included = resolve(request.carriers?.include);
+    const excluded = resolve(request.carriers?.exclude);
+    const withCodes = resolve(request.serviceCodes?.map((selection) => selection.carrier));
+    resolve(Object.keys(request.carrierOptions ?? {}));
+
+    return carriers.filter(
+      (carrier) =>
+        (!selected || selected.has(carrier)) &&
+        (!included || included.has(carrier)) &&
+        !excluded?.has(carrier) &&
+        (!withCodes || withCodes.has(carrier))
+    );
+  }
+
+  private async fetchCarrierRates(carrier: Carrier, request: RateRequest, signal: AbortSignal): Promise<RateResponse> {
+    const carrierOptions = Object.entries(request.carrierOptions ?? {}).find(
+      ([name]) => this.registry.getCarrier(name) === carrier
+    )?.[1];
+    const response = await carrier.getRates(request, { ...(carrierOptions ? { options: carrierOptions } : {}), signal });
+    if (!request.serviceCodes) return response;
+
+    const codes = new Set(
+      request.serviceCodes
+        .filter((selection) => this.registry.getCarrier(selection.carrier) === carrier)
+        .map((selection) => selection.code)
+    );
+    return {
+      ...response,
+      quotes: response.quotes.filter((quote) => quote.carrierServiceCode && codes.has(quote.carrierServiceCode))
+    };
   }
 
   private async getRatesFromCarrierSafe(
     carrier: Carrier,
-    request: RateRequest
+    request: RateRequest,
+    signal: AbortSignal
   ): Promise<CarrierRateResult> {
     const carrierName = carrier.getName();
     const log = this.options.logger.child({ carrier: carrierName });
 
     try {
-      const response = await carrier.getRates(request);
-      return { carrier: carrierName, response };
+      const response = await this.fetchCarrierRates(carrier, request, signal);
+      const withTransit = await this.withTransitTimes(carrierName, request, response, signal);
+      return {
+        carrier: carrierName,
+        response: this.withShipmentWeights(carrierName, request, withQuotePrices(withTransit))
+      };
     } catch (error) {
       const serviceError =
         error instanceof ServiceError
           ? error
           : new UnknownError('Unexpected error while fetching rates', carrierName, undefined, error);
 
-      log.error({ err: serviceError.toJSON() }, 'carrier.getRates failed');
+      if (!signal.aborted) {
+        log.error({ err: serviceError.toJSON() }, 'carrier.getRates failed');
+      }
       return { carrier: carrierName, error: serviceError };
     }
   }
+
+  private withShipmentWeights(carrierName: string, request: RateRequest, response: RateResponse): RateResponse {
+    const configured = Object.entries(this.options.dimDivisors ?? {}).find(
+      ([name]) => name.toLowerCase() === carrierName.toLowerCase()
+    );
+    const divisors = configured?.[1] ?? dimDivisorsForCarrier(carrierName);
+    const weights = calculateShipmentWeights(
+      request.packages,
+      unitSystemForCountry(request.origin.country),
+      divisors
+    );
+
+    if (weights.dimensionalWeightApplies) {
+      this.options.logger.child({ carrier: carrierName }).warn(
+        {
+          actualWeight: weights.actual,
+          dimensionalWeight: weights.dimensional,
+          billableWeight: weights.billable,
+          unit: weights.unit,
+          divisor: weights.divisor
+        },
+        'dimensional weight exceeds actual weight; quotes are billed on dimensional weight'
+      );
+    }
+
+    return { ...response, quotes: response.quotes.map((quote) => ({ ...quote, weights })) };
+  }
+
+  private async withTransitTimes(
+    carrierName: string,
+    request: RateRequest,
+    response: RateResponse,
+    signal: AbortSignal
+  ): Promise<RateResponse> {
+    if (!this.options.includeTransitTimes) return response;
+
+    const transitCarrier = this.registry.getTransitTimeCarrier(carrierName);
+    if (!transitCarrier) return response;
+
+    try {
+      throwIfCancelled(signal);
+      const transitTimes = await transitCarrier.getTransitTimes(
+        {
+          origin: request.origin,
+          destination: request.destination,
+          packages: request.packages,
+          ...(request.shipDate ? { shipDate: request.shipDate } : {})
+        },
+        { signal }
+      );
+      throwIfCancelled(signal);
+      return mergeTransitTimes(response, transitTimes);
+    } catch (error) {
+      if (signal.aborted) throw cancellationError(signal);
+      const err = error instanceof ServiceError ? error.toJSON() : { message: String(error) };
+      this.options.logger
+        .child({ carrier: carrierName })
+        .warn({ err }, 'carrier.getTransitTimes failed; returning rates without transit times');
+      return response;
+    }
+  }
+}
+
+function deadlineCancellation(deadlineMs: number): CancelledError {
+  return new CancelledError(`Rate deadline of ${deadlineMs}ms exceeded`, undefined, { deadlineMs });
+}
+
+function linkAbortSignal(controller: AbortController, signal: AbortSignal | undefined): () => void {
+  if (!signal) return () => undefined;
+  const onAbort = () => controller.abort(cancellationError(signal));
+  if (signal.aborted) onAbort();
+  else signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
+
+async function settleWithinDeadline<T>(
+  tasks: Array<Promise<T>>,
+  deadlineMs: number | undefined,
+  signal?: AbortSignal
+): Promise<Array<T | undefined>> {
+  if (deadlineMs === undefined && !signal) return Promise.all(tasks);
+
+  const settled: Array<T | undefined> = tasks.map(() => undefined);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stop: () => void = () => undefined;
+  const deadline = new Promise<void>((resolve) => {
+    stop = resolve;
+    if (deadlineMs !== undefined) timer = setTimeout(resolve, deadlineMs);
+    if (signal?.aborted) resolve();
+    signal?.addEventListener('abort', stop, { once: true });
+  });
+  try {
+    await Promise.race([
+      Promise.all(
+        tasks.map(async (task, index) => {
+          settled[index] = await task;
+        })
+      ),
+      deadline
+    ]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', stop);
+  }
+  return settled;
+}
+
+function withQuotePrices(response: RateResponse): RateResponse {
+  return {
+    ...response,
+    quotes: response.quotes.map((quote) => ({
+      ...quote,
+      price: quote.price ?? parseMoney(quote.totalCost, quote.currency),
+      ...(quote.publishedCost !== undefined
+        ? { publishedPrice: quote.publishedPrice ?? parseMoney(quote.publishedCost, quote.currency) }
+        : {}),
+      ...(quote.negotiatedCost !== undefined
+        ? { negotiatedPrice: quote.negotiatedPrice ?? parseMoney(quote.negotiatedCost, quote.currency) }
+        : {})
+    }))
+  };
+}
+
+async function convertQuote(
+  quote: RateQuote,
+  currency: string,
+  rateFor: (from: string) => Promise<ExchangeRate>
+): Promise<RateQuote> {
+  const convertAny = async (money: Money): Promise<Money> =>
+    money.currency.toUpperCase() === currency
+      ? money
+      : convertMoney(money, (await rateFor(money.currency)).rate, currency);
+  const charges = quote.charges
+    ? await Promise.all(quote.charges.map((charge) => convertCharge(charge, convertAny)))
+    : undefined;
+  const duties = quote.estimatedDutiesAndTaxes
+    ? await convertDuties(quote.estimatedDutiesAndTaxes, convertAny)
+    : undefined;
+  const breakdown = {
+    ...(charges ? { charges } : {}),
+    ...(duties ? { estimatedDutiesAndTaxes: duties } : {})
+  };
+
+  if (quote.currency.toUpperCase() === currency) return { ...quote, ...breakdown };
+
+  const exchangeRate = await rateFor(quote.currency);
+  const { rate, to } = exchangeRate;
+  const original = (money: Money | undefined, amount: number): Money => money ?? parseMoney(amount, quote.currency);
+  const price = convertMoney(original(quote.price, quote.totalCost), rate, to);
+  const publishedOriginal =
+    quote.publishedCost !== undefined ? original(quote.publishedPrice, quote.publishedCost) : undefined;
+  const publishedPrice = publishedOriginal ? convertMoney(publishedOriginal, rate, to) : undefined;
+  const negotiatedPrice =
+    quote.negotiatedCost !== undefined
+      ? convertMoney(original(quote.negotiatedPrice, quote.negotiatedCost), rate, to)
+      : undefined;
+
+  return {
+    ...quote,
+    ...breakdown,
+    totalCost: moneyToNumber(price),
+    currency: price.currency,
+    price,
+    ...(publishedPrice ? { publishedCost: moneyToNumber(publishedPrice), publishedPrice } : {}),
+    ...(negotiatedPrice ? { negotiatedCost: moneyToNumber(negotiatedPrice), negotiatedPrice } : {}),
+    ...(charges && quote.charges && publishedOriginal && publishedPrice
+      ? { charges: balanceCharges(quote.charges, charges, publishedOriginal, publishedPrice) }
+      : {}),
+    conversion: {
+      originalAmount: quote.totalCost,
+      originalCurrency: quote.currency,
+      rate,
+      rateTimestamp: exchangeRate.asOf
+    }
+  };
+}
+
+async function convertCharge(charge: RateCharge, convert: (money: Money) => Promise<Money>): Promise<RateCharge> {
+  const price = await convert(chargePrice(charge));
+  return { ...charge, amount: moneyToNumber(price), currency: price.currency, price };
+}
+
+function chargePrice(charge: RateCharge): Money {
+  return charge.price ?? parseMoney(charge.amount, charge.currency);
+}
+
+async function convertDuties(
+  dutiesAndTaxes: DutiesAndTaxes,
+  convert: (money: Money) => Promise<Money>
+): Promise<DutiesAndTaxes> {
+  const [duties, taxes, fees] = await Promise.all([
+    convert(dutiesAndTaxes.duties),
+    convert(dutiesAndTaxes.taxes),
+    convert(dutiesAndTaxes.fees)
+  ]);
+  return { duties, taxes, fees, total: sumMoney([duties, taxes, fees], duties.currency) };
+}
+
+function balanceCharges(original: RateCharge[], converted: RateCharge[], from: Money, to: Money): RateCharge[] {
+  const originalPrices = original.map(chargePrice);
+  if (converted.length === 0 || originalPrices.some((price) => price.currency !== from.currency)) return converted;
+  if (sumMoney(originalPrices, from.currency).minorUnits !== from.minorUnits) return converted;
+
+  const prices = converted.map(chargePrice);
+  const drift = to.minorUnits - sumMoney(prices, to.currency).minorUnits;
+  if (drift === 0) return converted;
+
+  const largest = prices.reduce(
+    (best, price, index) => (Math.abs(price.minorUnits) > Math.abs(prices[best]!.minorUnits) ? index : best),
+    0
+  );
+  return converted.map((charge, index) => {
+    if (index !== largest) return charge;
+    const price = moneyFromMinorUnits(prices[index]!.minorUnits + drift, to.currency);
+    return { ...charge, amount: moneyToNumber(price), price };
+  });
 }
 
 function buildRateCacheKey(request: RateRequest): string {
   const o = request.origin;
   const d = request.destination;
   const pkgKey = request.packages
-    .map((p) => `${p.weight}x${p.length}x${p.width}x${p.height}`)
+    .map(
+      (p) =>
+        `${p.weight}${p.weightUnit ?? DEFAULT_WEIGHT_UNIT}x${p.length}x${p.width}x${p.height}${p.dimensionUnit ?? DEFAULT_DIMENSION_UNIT}:${p.packagingType ?? DEFAULT_PACKAGING_TYPE}`
+    )
     .join('|');
   const sl = request.serviceLevel ?? '';
+  const optionsKey = Object.entries(request.shipmentOptions ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}=${typeof value === 'object' ? `${value.amount}${value.currency}` : value}`)
+    .join(',');
+  const customsKey = request.customs
+    ? [
+        `${request.customs.value.amount}${request.customs.value.currency}`,
+        ...request.customs.commodities.map(
+          (c) => `${c.hsCode ?? ''}:${c.description}:${c.countryOfOrigin}:${c.quantity}x${c.unitValue}`
+        )
+      ].join('|')
+    : '';
   return [
     o.country,
     o.state,
@@ -173,7 +800,25 @@ function buildRateCacheKey(request: RateRequest): string {
     d.city,
     d.street.join('|'),
     pkgKey,
-    sl
+    sl,
+    optionsKey,
+    request.shipDate ?? '',
+    customsKey,
+    request.carrierService ? `${request.carrierService.carrier.toLowerCase()}:${request.carrierService.code}` : '',
+    carrierFilterKey(request)
   ].join('::');
 }
 
+function carrierFilterKey(request: RateRequest): string {
+  const names = (list: string[] | undefined) => (list ?? []).map((name) => name.toLowerCase()).sort().join(',');
+  const codes = (request.serviceCodes ?? [])
+    .map((selection) => `${selection.carrier.toLowerCase()}:${selection.code}`)
+    .sort()
+    .join(',');
+  const options = Object.entries(request.carrierOptions ?? {})
+    .map(([name, carrierOptions]) => `${name.toLowerCase()}:${carrierOptions.accountNumber ?? ''}`)
+    .sort()
+    .join(',');
+  return [names(request.carriers?.include), names(request.carriers?.exclude), codes, options].join('|');
+}
+
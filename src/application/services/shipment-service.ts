@@ -0,0 +1,84 @@
+import { Shipment, ShipmentRequest } from '../../domain/shipments';
+import { shipmentRequestSchema } from '../../domain/validation/schemas';
+import { CarrierRegistry } from '../registry/carrier-registry';
+import { ShippingCarrier } from '../ports/shipping-carrier';
+import { Logger } from '../ports/logger';
+import { Tracer } from '../ports/tracer';
+import { formatZodErrors, toFieldErrors } from './validation';
+import { ServiceError, UnknownError, ValidationError } from '../../domain/errors';
+
+export interface ShipmentServiceOptions {
+  logger: Logger;
+  tracer: Tracer;
+}
+
+export class ShipmentService {
+  constructor(
+    private readonly registry: CarrierRegistry,
+    private readonly options: ShipmentServiceOptions
+  ) {}
+
+  listCarriers(): ShippingCarrier[] {
+    return this.registry.listShippingCarriers();
+  }
+
+  async createShipment(carrierName: string, request: ShipmentRequest): Promise<Shipment> {
+    const validated = this.validateRequest(request);
+
+    const carrier = this.registry.getShippingCarrier(carrierName);
+    if (!carrier) {
+      throw new ValidationError(`Shipping carrier not found: ${carrierName}`);
+    }
+    if (carrier.supportsServiceLevel && !carrier.supportsServiceLevel(validated.serviceLevel)) {
+      throw new ValidationError(
+        `Carrier ${carrier.getName()} does not support the requested service level: ${validated.serviceLevel}`
+      );
+    }
+
+    const log = this.options.logger.child({ carrier: carrier.getName() });
+    return this.options.tracer.startSpan(
+      'ShipmentService.createShipment',
+      { carrier: carrier.getName(), packages: validated.packages.length },
+      async (span) => {
+        try {
+          const shipment = await carrier.createShipment(validated);
+          span.setAttribute('shipment.id', shipment.shipmentId);
+          log.info(
+            { shipmentId: shipment.shipmentId, trackingNumber: shipment.trackingNumber },
+            'shipment created'
+          );
+          return shipment;
+        } catch (error) {
+          span.recordException(error);
+          const serviceError =
+            error instanceof ServiceError
+              ? error
+              : new UnknownError(
+                  'Unexpected error while creating shipment',
+                  carrier.getName(),
+                  undefined,
+                  error
+                );
+          log.error({ err: serviceError.toJSON() }, 'carrier.createShipment failed');
+          throw serviceError;
+        } finally {
+          span.end();
+        }
+      }
+    );
+  }
+
+  private validateRequest(request: ShipmentRequest): ShipmentRequest {
+    const validation = shipmentRequestSchema.safeParse(request);
+    if (!validation.success) {
+      throw new ValidationError(
+        `Invalid shipment request: ${formatZodErrors(validation.error.errors)}`,
+        {
+          validationErrors: validation.error.errors,
+          fieldErrors: toFieldErrors(validation.error.errors)
+        }
+      );
+    }
+    return validation.data as ShipmentRequest;
+  }
+}
@@ -0,0 +1,76 @@
+import { TrackingInfo } from '../../domain/tracking';
+import { trackingNumberSchema } from '../../domain/validation/schemas';
+import { CarrierRegistry } from '../registry/carrier-registry';
+import { TrackingCarrier } from '../ports/tracking-carrier';
+import { Logger } from '../ports/logger';
+import { Tracer } from '../ports/tracer';
+import { formatZodErrors, toFieldErrors } from './validation';
+import { ServiceError, UnknownError, ValidationError } from '../../domain/errors';
+
+export interface TrackingServiceOptions {
+  logger: Logger;
+  tracer: Tracer;
+}
+
+export class TrackingService {
+  constructor(
+    private readonly registry: CarrierRegistry,
+    private readonly options: TrackingServiceOptions
+  ) {}
+
+  listCarriers(): TrackingCarrier[] {
+    return this.registry.listTrackingCarriers();
+  }
+
+  async track(carrierName: string, trackingNumber: string): Promise<TrackingInfo> {
+    const validated = this.validateTrackingNumber(trackingNumber);
+
+    const carrier = this.registry.getTrackingCarrier(carrierName);
+    if (!carrier) {
+      throw new ValidationError(`Tracking carrier not found: ${carrierName}`);
+    }
+
+    const log = this.options.logger.child({ carrier: carrier.getName() });
+    return this.options.tracer.startSpan(
+      'TrackingService.track',
+      { carrier: carrier.getName() },
+      async (span) => {
+        try {
+          const info = await carrier.track(validated);
+          span.setAttribute('tracking.status', info.status);
+          span.setAttribute('tracking.events', info.events.length);
+          return info;
+        } catch (error) {
+          span.recordException(error);
+          const serviceError =
+            error instanceof ServiceError
+              ? error
+              : new UnknownError(
+                  'Unexpected error while tracking shipment',
+                  carrier.getName(),
+                  undefined,
+                  error
+                );
+          log.error({ err: serviceError.toJSON() }, 'carrier.track failed');
+          throw serviceError;
+        } finally {
+          span.end();
+        }
+      }
+    );
+  }
+
+  private validateTrackingNumber(trackingNumber: string): string {
+    const validation = trackingNumberSchema.safeParse(trackingNumber);
+    if (!validation.success) {
+      throw new ValidationError(
+        `Invalid tracking number: ${formatZodErrors(validation.error.errors)}`,
+        {
+          validationErrors: validation.error.errors,
+          fieldErrors: toFieldErrors(validation.error.errors)
+        }
+      );
+    }
+    return validation.data;
+  }
+}
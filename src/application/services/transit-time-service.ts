@@ -0,0 +1,101 @@
+import { RateResponse } from '../../domain/rates';
+import { TransitTimeRequest, TransitTimeResponse } from '../../domain/transit-times';
+import { transitTimeRequestSchema } from '../../domain/validation/schemas';
+import { CarrierRegistry } from '../registry/carrier-registry';
+import { TransitTimeCarrier } from '../ports/transit-time-carrier';
+import { Logger } from '../ports/logger';
+import { Tracer } from '../ports/tracer';
+import { formatZodErrors, toFieldErrors } from './validation';
+import { ServiceError, UnknownError, ValidationError } from '../../domain/errors';
+
+export interface TransitTimeServiceOptions {
+  logger: Logger;
+  tracer: Tracer;
+}
+
+export class TransitTimeService {
+  constructor(
+    private readonly registry: CarrierRegistry,
+    private readonly options: TransitTimeServiceOptions
+  ) {}
+
+  listCarriers(): TransitTimeCarrier[] {
+    return this.registry.listTransitTimeCarriers();
+  }
+
+  async getTransitTimes(carrierName: string, request: TransitTimeRequest): Promise<TransitTimeResponse> {
+    const validated = this.validateRequest(request);
+
+    const carrier = this.registry.getTransitTimeCarrier(carrierName);
+    if (!carrier) {
+      throw new ValidationError(`Transit time carrier not found: ${carrierName}`);
+    }
+
+    const log = this.options.logger.child({ carrier: carrier.getName() });
+    return this.options.tracer.startSpan(
+      'TransitTimeService.getTransitTimes',
+      { carrier: carrier.getName() },
+      async (span) => {
+        try {
+          const response = await carrier.getTransitTimes(validated);
+          span.setAttribute('transit.estimates', response.estimates.length);
+          return response;
+        } catch (error) {
+          span.recordException(error);
+          const serviceError =
+            error instanceof ServiceError
+              ? error
+              : new UnknownError(
+                  'Unexpected error while fetching transit times',
+                  carrier.getName(),
+                  undefined,
+                  error
+                );
+          log.error({ err: serviceError.toJSON() }, 'carrier.getTransitTimes failed');
+          throw serviceError;
+        } finally {
+          span.end();
+        }
+      }
+    );
+  }
+
+  private validateRequest(request: TransitTimeRequest): TransitTimeRequest {
+    const validation = transitTimeRequestSchema.safeParse(request);
+    if (!validation.success) {
+      throw new ValidationError(
+        `Invalid transit time request: ${formatZodErrors(validation.error.errors)}`,
+        {
+          validationErrors: validation.error.errors,
+          fieldErrors: toFieldErrors(validation.error.errors)
+        }
+      );
+    }
+    const { shipDate, packages, ...rest } = validation.data;
+    return {
+      ...rest,
+      ...(shipDate ? { shipDate } : {}),
+      ...(packages ? { packages } : {})
+    };
+  }
+}
+
+export function mergeTransitTimes(response: RateResponse, transitTimes: TransitTimeResponse): RateResponse {
+  return {
+    ...response,
+    quotes: response.quotes.map((quote) => {
+      if (quote.carrier.toLowerCase() !== transitTimes.carrier.toLowerCase()) return quote;
+
+      const estimate = transitTimes.estimates.find((e) => e.serviceLevel === quote.serviceLevel);
+      if (!estimate) return quote;
+
+      return {
+        ...quote,
+        estimatedDays: estimate.businessTransitDays,
+        estimatedDeliveryDate: estimate.estimatedDeliveryDate,
+        ...(estimate.deliveryTime ? { deliveryWindow: { end: estimate.deliveryTime.slice(0, 5) } } : {}),
+        guaranteed: estimate.guaranteed
+      };
+    })
+  };
+}
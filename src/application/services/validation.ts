@@ -0,0 +1,12 @@
+export function formatZodErrors(errors: { path: (string | number)[]; message: string }[]): string {
+  return errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ');
+}
+
+export function toFieldErrors(errors: { path: (string | number)[]; message: string }[]): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {};
+  for (const error of errors) {
+    const field = error.path.join('.') || '_root';
+    (fieldErrors[field] ??= []).push(error.message);
+  }
+  return fieldErrors;
+}
@@ -14,7 +14,10 @@ async function main() {
     const client = createCybershipRatesClient({
       usePino: true,
       logLevel: process.env['LOG_LEVEL'] ?? 'info',
-      serviceName: 'cybership-carrier-integration'
+      serviceName: 'cybership-carrier-integration',
+      ...(process.env['FEDEX_CLIENT_ID'] ? { fedex: {} } : {}),
+      ...(process.env['USPS_CLIENT_ID'] ? { usps: {} } : {}),
+      ...(process.env['DHL_API_KEY'] ? { dhl: {} } : {})
     });
 
     const results = await client.service.getRatesDetailed(request);
@@ -66,6 +69,12 @@ function printHelp() {
       '',
       'Environment:',
       '  UPS_CLIENT_ID, UPS_CLIENT_SECRET, UPS_BASE_URL, UPS_AUTH_URL, UPS_ACCOUNT_NUMBER, UPS_TIMEOUT_MS',
+      '  FEDEX_CLIENT_ID, FEDEX_CLIENT_SECRET, FEDEX_ACCOUNT_NUMBER, FEDEX_BASE_URL, FEDEX_AUTH_URL,',
+      '  FEDEX_TIMEOUT_MS (optional; FedEx is registered when FEDEX_CLIENT_ID is set)',
+      '  USPS_CLIENT_ID, USPS_CLIENT_SECRET, USPS_BASE_URL, USPS_AUTH_URL, USPS_PRICE_TYPE,',
+      '  USPS_TIMEOUT_MS (optional; USPS is registered when USPS_CLIENT_ID is set)',
+      '  DHL_API_KEY, DHL_API_SECRET, DHL_ACCOUNT_NUMBER, DHL_BASE_URL,',
+      '  DHL_TIMEOUT_MS (optional; DHL Express is registered when DHL_API_KEY is set)',
       '  LOG_LEVEL (optional)'
     ].join('\n') + '\n'
   );
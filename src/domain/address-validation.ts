@@ -0,0 +1,19 @@
+import { Address } from './rates';
+
+export type AddressClassification = 'residential' | 'commercial' | 'unknown';
+
+export type AddressValidationStatus = 'valid' | 'ambiguous' | 'invalid';
+
+export interface AddressCandidate {
+  address: Address;
+  classification: AddressClassification;
+}
+
+export interface AddressValidationResult {
+  carrier: string;
+  status: AddressValidationStatus;
+  classification: AddressClassification;
+  input: Address;
+  standardizedAddress?: Address;
+  candidates: AddressCandidate[];
+}
@@ -0,0 +1,91 @@
+import {
+  PackageMeasurements,
+  UnitSystem,
+  WeightUnit,
+  convertPackage,
+  roundUp,
+  unitsForSystem
+} from './units';
+import { PackagingType, isFlatRatePackaging } from './packaging';
+
+export interface DimensionalDivisors {
+  imperial: number;
+  metric: number;
+}
+
+export const DIM_DIVISORS = {
+  daily: 139,
+  retail: 166,
+  metric: 5000
+} as const;
+
+export const DEFAULT_DIM_DIVISORS: DimensionalDivisors = {
+  imperial: DIM_DIVISORS.daily,
+  metric: DIM_DIVISORS.metric
+};
+
+const CARRIER_DIM_DIVISORS: Record<string, DimensionalDivisors> = {
+  UPS: DEFAULT_DIM_DIVISORS,
+  FEDEX: DEFAULT_DIM_DIVISORS,
+  DHL: DEFAULT_DIM_DIVISORS,
+  USPS: { imperial: DIM_DIVISORS.retail, metric: 6000 }
+};
+
+export interface PackageWeights {
+  actual: number;
+  dimensional: number;
+  billable: number;
+}
+
+export interface ShipmentWeights extends PackageWeights {
+  unit: WeightUnit;
+  divisor: number;
+  dimensionalWeightApplies: boolean;
+  packages: PackageWeights[];
+}
+
+export function dimDivisorsForCarrier(carrierName: string): DimensionalDivisors {
+  return CARRIER_DIM_DIVISORS[carrierName.toUpperCase()] ?? DEFAULT_DIM_DIVISORS;
+}
+
+export function calculatePackageWeights(
+  pkg: PackageMeasurements & { packagingType?: PackagingType },
+  unitSystem: UnitSystem,
+  divisor: number
+): PackageWeights {
+  const { weightUnit, dimensionUnit } = unitsForSystem(unitSystem);
+  const converted = convertPackage(pkg, weightUnit, dimensionUnit);
+  const volume = Math.round(converted.length) * Math.round(converted.width) * Math.round(converted.height);
+
+  const actual = roundToBillingIncrement(converted.weight, unitSystem);
+  const dimensional = roundToBillingIncrement(volume / divisor, unitSystem);
+  const billable = isFlatRatePackaging(pkg.packagingType) ? actual : Math.max(actual, dimensional);
+  return { actual, dimensional, billable };
+}
+
+export function calculateShipmentWeights(
+  packages: Array<PackageMeasurements & { packagingType?: PackagingType }>,
+  unitSystem: UnitSystem,
+  divisors: DimensionalDivisors = DEFAULT_DIM_DIVISORS
+): ShipmentWeights {
+  const divisor = divisors[unitSystem];
+  const perPackage = packages.map((pkg) => calculatePackageWeights(pkg, unitSystem, divisor));
+  const sum = (field: keyof PackageWeights) =>
+    roundUp(perPackage.reduce((total, weights) => total + weights[field], 0), 1);
+
+  const actual = sum('actual');
+  const billable = sum('billable');
+  return {
+    actual,
+    dimensional: sum('dimensional'),
+    billable,
+    unit: unitsForSystem(unitSystem).weightUnit,
+    divisor,
+    dimensionalWeightApplies: billable > actual,
+    packages: perPackage
+  };
+}
+
+function roundToBillingIncrement(weight: number, unitSystem: UnitSystem): number {
+  return unitSystem === 'imperial' ? roundUp(weight, 0) : roundUp(weight * 2, 0) / 2;
+}
@@ -0,0 +1,116 @@
+export interface CountryAddressRule {
+  postalCodePattern?: RegExp;
+  postalCodeExample?: string;
+  postalCodeRequired: boolean;
+  stateRequired: boolean;
+  statePattern?: RegExp;
+}
+
+export const ISO_3166_COUNTRY_CODES: ReadonlySet<string> = new Set(
+  (
+    'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV BW ' +
+    'BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET FI ' +
+    'FJ FK FM FO FR GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN ' +
+    'IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME ' +
+    'MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF ' +
+    'PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV ' +
+    'SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS YE ' +
+    'YT ZA ZM ZW'
+  ).split(' ')
+);
+
+const US_ZIP: CountryAddressRule = {
+  postalCodePattern: /^\d{5}(-\d{4})?$/,
+  postalCodeExample: '30339',
+  postalCodeRequired: true,
+  stateRequired: true,
+  statePattern: /^[A-Z]{2}$/
+};
+
+const NO_POSTAL_CODE: CountryAddressRule = { postalCodeRequired: false, stateRequired: false };
+
+const DEFAULT_ADDRESS_RULE: CountryAddressRule = {
+  postalCodePattern: /^[A-Z0-9][A-Z0-9 -]{1,9}$/i,
+  postalCodeRequired: false,
+  stateRequired: false
+};
+
+export const COUNTRY_ADDRESS_RULES: Readonly<Record<string, CountryAddressRule>> = {
+  US: US_ZIP,
+  PR: US_ZIP,
+  VI: US_ZIP,
+  GU: US_ZIP,
+  AS: US_ZIP,
+  MP: US_ZIP,
+  CA: {
+    postalCodePattern: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/i,
+    postalCodeExample: 'M5V 3L9',
+    postalCodeRequired: true,
+    stateRequired: true,
+    statePattern: /^[A-Z]{2}$/
+  },
+  MX: { postalCodePattern: /^\d{5}$/, postalCodeExample: '06600', postalCodeRequired: true, stateRequired: true },
+  BR: {
+    postalCodePattern: /^\d{5}-?\d{3}$/,
+    postalCodeExample: '01310-100',
+    postalCodeRequired: true,
+    stateRequired: true,
+    statePattern: /^[A-Z]{2}$/
+  },
+  AU: {
+    postalCodePattern: /^\d{4}$/,
+    postalCodeExample: '2000',
+    postalCodeRequired: true,
+    stateRequired: true,
+    statePattern: /^[A-Z]{2,3}$/
+  },
+  IN: { postalCodePattern: /^\d{6}$/, postalCodeExample: '110001', postalCodeRequired: true, stateRequired: true },
+  GB: {
+    postalCodePattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i,
+    postalCodeExample: 'SW1A 1AA',
+    postalCodeRequired: true,
+    stateRequired: false
+  },
+  IE: {
+    postalCodePattern: /^[A-Z]\d[\dW] ?[A-Z\d]{4}$/i,
+    postalCodeExample: 'D02 X285',
+    postalCodeRequired: false,
+    stateRequired: false
+  },
+  DE: { postalCodePattern: /^\d{5}$/, postalCodeExample: '10117', postalCodeRequired: true, stateRequired: false },
+  FR: { postalCodePattern: /^\d{5}$/, postalCodeExample: '75008', postalCodeRequired: true, stateRequired: false },
+  IT: { postalCodePattern: /^\d{5}$/, postalCodeExample: '00184', postalCodeRequired: true, stateRequired: false },
+  ES: { postalCodePattern: /^\d{5}$/, postalCodeExample: '28013', postalCodeRequired: true, stateRequired: false },
+  FI: { postalCodePattern: /^\d{5}$/, postalCodeExample: '00100', postalCodeRequired: true, stateRequired: false },
+  NL: {
+    postalCodePattern: /^\d{4} ?[A-Z]{2}$/i,
+    postalCodeExample: '1012 AB',
+    postalCodeRequired: true,
+    stateRequired: false
+  },
+  BE: { postalCodePattern: /^\d{4}$/, postalCodeExample: '1000', postalCodeRequired: true, stateRequired: false },
+  DK: { postalCodePattern: /^\d{4}$/, postalCodeExample: '1050', postalCodeRequired: true, stateRequired: false },
+  NO: { postalCodePattern: /^\d{4}$/, postalCodeExample: '0150', postalCodeRequired: true, stateRequired: false },
+  CH: { postalCodePattern: /^\d{4}$/, postalCodeExample: '8001', postalCodeRequired: true, stateRequired: false },
+  AT: { postalCodePattern: /^\d{4}$/, postalCodeExample: '1010', postalCodeRequired: true, stateRequired: false },
+  NZ: { postalCodePattern: /^\d{4}$/, postalCodeExample: '6011', postalCodeRequired: true, stateRequired: false },
+  SE: { postalCodePattern: /^\d{3} ?\d{2}$/, postalCodeExample: '111 22', postalCodeRequired: true, stateRequired: false },
+  PL: { postalCodePattern: /^\d{2}-\d{3}$/, postalCodeExample: '00-001', postalCodeRequired: true, stateRequired: false },
+  PT: { postalCodePattern: /^\d{4}-\d{3}$/, postalCodeExample: '1100-148', postalCodeRequired: true, stateRequired: false },
+  JP: { postalCodePattern: /^\d{3}-?\d{4}$/, postalCodeExample: '100-0005', postalCodeRequired: true, stateRequired: false },
+  KR: { postalCodePattern: /^\d{5}$/, postalCodeExample: '04524', postalCodeRequired: true, stateRequired: false },
+  CN: { postalCodePattern: /^\d{6}$/, postalCodeExample: '100000', postalCodeRequired: true, stateRequired: false },
+  SG: { postalCodePattern: /^\d{6}$/, postalCodeExample: '018956', postalCodeRequired: true, stateRequired: false },
+  AE: NO_POSTAL_CODE,
+  HK: NO_POSTAL_CODE,
+  MO: NO_POSTAL_CODE,
+  QA: NO_POSTAL_CODE
+};
+
+export function isIsoCountryCode(country: string): boolean {
+  return ISO_3166_COUNTRY_CODES.has(country);
+}
+
+export function addressRuleForCountry(country: string): CountryAddressRule {
+  return COUNTRY_ADDRESS_RULES[country.toUpperCase()] ?? DEFAULT_ADDRESS_RULE;
+}
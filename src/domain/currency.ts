@@ -0,0 +1,13 @@
+export interface ExchangeRate {
+  from: string;
+  to: string;
+  rate: number;
+  asOf: string;
+}
+
+export interface CurrencyConversion {
+  originalAmount: number;
+  originalCurrency: string;
+  rate: number;
+  rateTimestamp: string;
+}
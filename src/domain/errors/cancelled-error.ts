@@ -0,0 +1,25 @@
+import { ErrorCode } from './error-code';
+import { ServiceError } from './service-error';
+
+export class CancelledError extends ServiceError {
+  constructor(message: string, carrier?: string, details?: unknown, cause?: unknown) {
+    super(message, {
+      code: ErrorCode.CANCELLED,
+      carrier: carrier ?? 'SYSTEM',
+      retryable: false,
+      details,
+      cause
+    });
+  }
+}
+
+export function cancellationError(signal: AbortSignal): ServiceError {
+  const reason: unknown = signal.reason;
+  return reason instanceof ServiceError
+    ? reason
+    : new CancelledError('Request cancelled by caller', undefined, undefined, reason);
+}
+
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) throw cancellationError(signal);
+}
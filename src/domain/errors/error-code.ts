@@ -7,6 +7,7 @@ export enum ErrorCode {
 
   NETWORK_ERROR = 'NETWORK_ERROR',
   TIMEOUT = 'TIMEOUT',
+  CANCELLED = 'CANCELLED',
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
 
   API_ERROR = 'API_ERROR',
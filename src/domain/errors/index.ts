@@ -4,6 +4,7 @@ export { ValidationError } from './validation-error';
 export { AuthError } from './auth-error';
 export { NetworkError } from './network-error';
 export { TimeoutError } from './timeout-error';
+export { CancelledError, cancellationError, throwIfCancelled } from './cancelled-error';
 export { RateLimitError } from './rate-limit-error';
 export { CarrierError } from './carrier-error';
 export { CircuitOpenError } from './circuit-open-error';
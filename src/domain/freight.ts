@@ -0,0 +1,60 @@
+import { Address, ServiceLevel } from './rates';
+import { DimensionUnit, WeightUnit } from './units';
+
+export type FreightClass =
+  | '50'
+  | '55'
+  | '60'
+  | '65'
+  | '70'
+  | '77.5'
+  | '85'
+  | '92.5'
+  | '100'
+  | '110'
+  | '125'
+  | '150'
+  | '175'
+  | '200'
+  | '250'
+  | '300'
+  | '400'
+  | '500';
+
+export type HandlingUnitType = 'pallet' | 'skid' | 'tote' | 'loose' | 'other';
+
+export interface HandlingUnit {
+  type: HandlingUnitType;
+  quantity: number;
+  weight: number;
+  length: number;
+  width: number;
+  height: number;
+  weightUnit?: WeightUnit;
+  dimensionUnit?: DimensionUnit;
+  freightClass: FreightClass;
+  nmfcCode?: string;
+  description: string;
+}
+
+export type FreightAccessorial =
+  | 'liftgatePickup'
+  | 'liftgateDelivery'
+  | 'insidePickup'
+  | 'insideDelivery'
+  | 'residentialPickup'
+  | 'residentialDelivery'
+  | 'limitedAccessPickup'
+  | 'limitedAccessDelivery'
+  | 'appointmentDelivery';
+
+export type FreightServiceLevel = Extract<ServiceLevel, 'ltlStandard' | 'ltlGuaranteed'>;
+
+export interface FreightRateRequest {
+  origin: Address;
+  destination: Address;
+  handlingUnits: HandlingUnit[];
+  accessorials?: FreightAccessorial[];
+  serviceLevel?: FreightServiceLevel;
+  shipDate?: string;
+}
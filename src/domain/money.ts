@@ -0,0 +1,169 @@
+import { ValidationError } from './errors';
+
+export interface Money {
+  minorUnits: number;
+  currency: string;
+}
+
+export type RoundingMode = 'halfUp' | 'halfEven' | 'up' | 'down';
+
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  BHD: 3,
+  CLP: 0,
+  IQD: 3,
+  ISK: 0,
+  JOD: 3,
+  JPY: 0,
+  KRW: 0,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+  VND: 0
+};
+
+const DEFAULT_CURRENCY_EXPONENT = 2;
+
+export function currencyExponent(currency: string): number {
+  return CURRENCY_EXPONENTS[currency.toUpperCase()] ?? DEFAULT_CURRENCY_EXPONENT;
+}
+
+export function moneyFromMinorUnits(minorUnits: number, currency: string): Money {
+  if (!Number.isSafeInteger(minorUnits)) {
+    throw new ValidationError(`Minor units must be a safe integer: ${minorUnits}`);
+  }
+  return { minorUnits: minorUnits === 0 ? 0 : minorUnits, currency: currency.toUpperCase() };
+}
+
+export function parseMoney(amount: string | number, currency: string, rounding: RoundingMode = 'halfUp'): Money {
+  const text = typeof amount === 'number' ? numberToDecimal(amount) : amount.trim();
+  const match = /^([+-])?(\d+)(?:\.(\d*))?$/.exec(text);
+  if (!match) {
+    throw new ValidationError(`Invalid monetary amount: ${String(amount)}`);
+  }
+
+  const exponent = currencyExponent(currency);
+  const negative = match[1] === '-';
+  const fraction = match[3] ?? '';
+  const kept = fraction.slice(0, exponent).padEnd(exponent, '0');
+  const dropped = fraction.slice(exponent);
+  let magnitude = Number(`${match[2]}${kept}`);
+
+  const comparison = compareToHalf(dropped);
+  if (roundsAway(rounding, negative, magnitude % 2 === 1, comparison)) {
+    magnitude += 1;
+  }
+  return moneyFromMinorUnits(negative ? -magnitude : magnitude, currency);
+}
+
+export function moneyToDecimal(money: Money): string {
+  const exponent = currencyExponent(money.currency);
+  const digits = Math.abs(money.minorUnits).toString().padStart(exponent + 1, '0');
+  const sign = money.minorUnits < 0 ? '-' : '';
+  if (exponent === 0) return `${sign}${digits}`;
+  return `${sign}${digits.slice(0, -exponent)}.${digits.slice(-exponent)}`;
+}
+
+export function moneyToNumber(money: Money): number {
+  return Number(moneyToDecimal(money));
+}
+
+export function formatMoney(money: Money, locale = 'en-US'): string {
+  const exponent = currencyExponent(money.currency);
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: money.currency,
+    minimumFractionDigits: exponent,
+    maximumFractionDigits: exponent
+  }).format(moneyToNumber(money));
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return moneyFromMinorUnits(a.minorUnits + b.minorUnits, a.currency);
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return moneyFromMinorUnits(a.minorUnits - b.minorUnits, a.currency);
+}
+
+export function sumMoney(items: Money[], currency: string): Money {
+  return items.reduce((total, item) => addMoney(total, item), moneyFromMinorUnits(0, currency));
+}
+
+export function multiplyMoney(money: Money, factor: number, rounding: RoundingMode = 'halfUp'): Money {
+  return moneyFromMinorUnits(roundMinorUnits(money.minorUnits * factor, rounding), money.currency);
+}
+
+export function convertMoney(
+  money: Money,
+  rate: number,
+  currency: string,
+  rounding: RoundingMode = 'halfUp'
+): Money {
+  const scale = 10 ** (currencyExponent(currency) - currencyExponent(money.currency));
+  return moneyFromMinorUnits(roundMinorUnits(money.minorUnits * rate * scale, rounding), currency);
+}
+
+export function compareMoney(a: Money, b: Money): number {
+  assertSameCurrency(a, b);
+  return Math.sign(a.minorUnits - b.minorUnits);
+}
+
+export function moneyEquals(a: Money, b: Money): boolean {
+  return a.currency === b.currency && a.minorUnits === b.minorUnits;
+}
+
+export function roundMinorUnits(value: number, rounding: RoundingMode = 'halfUp'): number {
+  if (!Number.isFinite(value)) {
+    throw new ValidationError(`Invalid monetary amount: ${value}`);
+  }
+  const negative = value < 0;
+  const absolute = Number(Math.abs(value).toPrecision(15));
+  let magnitude = Math.floor(absolute);
+  const remainder = Number((absolute - magnitude).toPrecision(15));
+
+  const comparison = remainder === 0 ? 'zero' : remainder < 0.5 ? 'below' : remainder === 0.5 ? 'half' : 'above';
+  if (roundsAway(rounding, negative, magnitude % 2 === 1, comparison)) {
+    magnitude += 1;
+  }
+  return negative && magnitude !== 0 ? -magnitude : magnitude;
+}
+
+type HalfComparison = 'zero' | 'below' | 'half' | 'above';
+
+function compareToHalf(digits: string): HalfComparison {
+  if (/^0*$/.test(digits)) return 'zero';
+  if (digits[0]! < '5') return 'below';
+  if (digits[0] === '5' && /^0*$/.test(digits.slice(1))) return 'half';
+  return 'above';
+}
+
+function roundsAway(rounding: RoundingMode, negative: boolean, odd: boolean, comparison: HalfComparison): boolean {
+  if (comparison === 'zero') return false;
+  switch (rounding) {
+    case 'halfUp':
+      return comparison !== 'below';
+    case 'halfEven':
+      return comparison === 'above' || (comparison === 'half' && odd);
+    case 'up':
+      return !negative;
+    case 'down':
+      return negative;
+  }
+}
+
+function numberToDecimal(amount: number): string {
+  if (!Number.isFinite(amount)) {
+    throw new ValidationError(`Invalid monetary amount: ${amount}`);
+  }
+  const precise = amount.toPrecision(15);
+  return /e/.test(precise) ? amount.toFixed(20) : precise;
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new ValidationError(`Currency mismatch: ${a.currency} and ${b.currency}`);
+  }
+}
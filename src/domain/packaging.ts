@@ -0,0 +1,26 @@
+export type PackagingType =
+  | 'custom'
+  | 'envelope'
+  | 'pak'
+  | 'tube'
+  | 'smallBox'
+  | 'mediumBox'
+  | 'largeBox'
+  | 'pallet';
+
+export const DEFAULT_PACKAGING_TYPE: PackagingType = 'custom';
+
+export type FlatRatePackagingType = Exclude<PackagingType, 'custom' | 'pallet'>;
+
+export const FLAT_RATE_PACKAGING_MAX_DIMENSIONS_IN: Record<FlatRatePackagingType, readonly [number, number, number]> = {
+  envelope: [15, 12.5, 1],
+  pak: [17.5, 14.75, 3],
+  tube: [38, 6, 6],
+  smallBox: [13, 11, 2],
+  mediumBox: [16, 11.5, 5.5],
+  largeBox: [18, 13, 6]
+};
+
+export function isFlatRatePackaging(type: PackagingType | undefined): type is FlatRatePackagingType {
+  return type !== undefined && type in FLAT_RATE_PACKAGING_MAX_DIMENSIONS_IN;
+}
@@ -0,0 +1,46 @@
+import { Money, RoundingMode } from './money';
+import { ServiceLevel } from './rates';
+import { WeightUnit } from './units';
+
+export interface WeightBand {
+  min?: number;
+  max?: number;
+  unit: WeightUnit;
+}
+
+export interface PricingRuleMatch {
+  carriers?: string[];
+  serviceLevels?: ServiceLevel[];
+  countries?: string[];
+  zones?: string[];
+  weight?: WeightBand;
+  customerTiers?: string[];
+}
+
+export type PricingAdjustment =
+  | { type: 'percentMarkup'; percent: number }
+  | { type: 'fixedMarkup'; amount: string; currency: string }
+  | { type: 'percentDiscount'; percent: number }
+  | { type: 'fixedDiscount'; amount: string; currency: string }
+  | { type: 'minimum'; amount: string; currency: string }
+  | { type: 'round'; increment: string; mode?: RoundingMode };
+
+export interface PricingRule {
+  id: string;
+  description?: string;
+  match?: PricingRuleMatch;
+  adjustments: PricingAdjustment[];
+}
+
+export interface PricingRuleSet {
+  zones?: Record<string, string[]>;
+  rounding?: RoundingMode;
+  rules: PricingRule[];
+}
+
+export interface QuotePricing {
+  carrierCost: number;
+  carrierPrice: Money;
+  margin: Money;
+  appliedRules: string[];
+}
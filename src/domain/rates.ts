@@ -1,8 +1,15 @@
+import { DimensionUnit, WeightUnit } from './units';
+import { ShipmentWeights } from './billable-weight';
+import { PackagingType } from './packaging';
+import { CurrencyConversion } from './currency';
+import { Money } from './money';
+import { QuotePricing } from './pricing';
+
 export interface Address {
   street: string[];
   city: string;
-  state: string;
-  postalCode: string;
+  state?: string;
+  postalCode?: string;
   country: string;
 }
 
@@ -11,6 +18,9 @@ export interface Package {
   length: number;
   width: number;
   height: number;
+  weightUnit?: WeightUnit;
+  dimensionUnit?: DimensionUnit;
+  packagingType?: PackagingType;
 }
 
 export type ServiceLevel =
@@ -24,13 +34,105 @@ export type ServiceLevel =
   | 'worldwideExpressPlus'
   | 'worldwideExpedited'
   | 'standard'
-  | 'express';
+  | 'express'
+  | 'priorityMail'
+  | 'groundAdvantage'
+  | 'priorityMailInternational'
+  | 'ltlStandard'
+  | 'ltlGuaranteed'
+  | 'nextDayAirSaver'
+  | 'worldwideSaver'
+  | 'groundSaver'
+  | 'other';
+
+export type ShippingMode = 'parcel' | 'ltl';
+
+export interface MonetaryAmount {
+  amount: number;
+  currency: string;
+}
+
+export type SignatureOption = 'required' | 'adult';
+
+export interface ShipmentOptions {
+  residential?: boolean;
+  signature?: SignatureOption;
+  saturdayDelivery?: boolean;
+  declaredValue?: MonetaryAmount;
+  cod?: MonetaryAmount;
+  deliveryConfirmation?: boolean;
+}
+
+export interface CustomsCommodity {
+  description: string;
+  hsCode?: string;
+  countryOfOrigin: string;
+  quantity: number;
+  unitValue: number;
+}
+
+export interface CustomsDeclaration {
+  value: MonetaryAmount;
+  commodities: CustomsCommodity[];
+}
 
 export interface RateRequest {
   origin: Address;
   destination: Address;
   packages: Package[];
   serviceLevel?: ServiceLevel;
+  shipmentOptions?: ShipmentOptions;
+  shipDate?: string;
+  customs?: CustomsDeclaration;
+  carrierService?: CarrierServiceSelection;
+  carriers?: CarrierFilter;
+  serviceCodes?: CarrierServiceSelection[];
+  carrierOptions?: Record<string, CarrierRateOptions>;
+}
+
+export interface CarrierServiceSelection {
+  carrier: string;
+  code: string;
+}
+
+export interface CarrierFilter {
+  include?: string[];
+  exclude?: string[];
+}
+
+export interface CarrierRateOptions {
+  accountNumber?: string;
+}
+
+export type RateChargeType =
+  | 'transportation'
+  | 'fuel'
+  | 'residential'
+  | 'delivery_area'
+  | 'service_option'
+  | 'surcharge'
+  | 'tax'
+  | 'pricing_adjustment';
+
+export interface RateCharge {
+  type: RateChargeType;
+  description: string;
+  amount: number;
+  currency: string;
+  price?: Money;
+  carrierCode?: string;
+}
+
+export interface DeliveryWindow {
+  start?: string;
+  end: string;
+}
+
+export interface DutiesAndTaxes {
+  duties: Money;
+  taxes: Money;
+  fees: Money;
+  total: Money;
 }
 
 export interface RateQuote {
@@ -38,7 +140,22 @@ export interface RateQuote {
   serviceName: string;
   totalCost: number;
   currency: string;
+  publishedCost?: number;
+  negotiatedCost?: number;
+  price?: Money;
+  publishedPrice?: Money;
+  negotiatedPrice?: Money;
+  charges?: RateCharge[];
   estimatedDays?: number;
+  estimatedDeliveryDate?: string;
+  deliveryWindow?: DeliveryWindow;
+  guaranteed?: boolean;
+  estimatedDutiesAndTaxes?: DutiesAndTaxes;
+  weights?: ShipmentWeights;
+  mode?: ShippingMode;
+  conversion?: CurrencyConversion;
+  carrierServiceCode?: string;
+  pricing?: QuotePricing;
   carrier: string;
 }
 
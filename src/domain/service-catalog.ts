@@ -0,0 +1,26 @@
+import { ServiceLevel } from './rates';
+
+export interface DeliveryCommitment {
+  businessDays?: number;
+  time?: string;
+  guaranteed: boolean;
+}
+
+export interface CarrierService {
+  code: string;
+  name: string;
+  serviceLevel?: ServiceLevel;
+  domestic: boolean;
+  international: boolean;
+  deliveryCommitment?: DeliveryCommitment;
+}
+
+export function findCarrierService(catalog: readonly CarrierService[], code: string): CarrierService | undefined {
+  return catalog.find((service) => service.code === code);
+}
+
+export function serviceLevelsByCode(catalog: readonly CarrierService[]): Record<string, ServiceLevel> {
+  return Object.fromEntries(
+    catalog.flatMap((service) => (service.serviceLevel ? [[service.code, service.serviceLevel]] : []))
+  );
+}
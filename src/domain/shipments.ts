@@ -0,0 +1,42 @@
+import { Address, Package, ServiceLevel } from './rates';
+import { Money } from './money';
+
+export type LabelFormat = 'PDF' | 'PNG' | 'GIF' | 'ZPL';
+
+export interface ShipmentParty {
+  name: string;
+  companyName?: string;
+  phone?: string;
+  address: Address;
+}
+
+export interface ShipmentRequest {
+  shipper: ShipmentParty;
+  recipient: ShipmentParty;
+  packages: Package[];
+  serviceLevel: ServiceLevel;
+  labelFormat?: LabelFormat;
+  reference?: string;
+}
+
+export interface ShipmentLabel {
+  format: LabelFormat;
+  imageBase64: string;
+}
+
+export interface ShippedPackage {
+  trackingNumber: string;
+  label: ShipmentLabel;
+}
+
+export interface Shipment {
+  carrier: string;
+  shipmentId: string;
+  trackingNumber: string;
+  serviceLevel: ServiceLevel;
+  totalCost: number;
+  currency: string;
+  price?: Money;
+  packages: ShippedPackage[];
+  requestId: string;
+}
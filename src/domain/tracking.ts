@@ -0,0 +1,32 @@
+export type TrackingStatus =
+  | 'pre_transit'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'exception'
+  | 'returned'
+  | 'unknown';
+
+export interface TrackingLocation {
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface TrackingEvent {
+  status: TrackingStatus;
+  description: string;
+  timestamp: string;
+  location?: TrackingLocation;
+  carrierStatusCode?: string;
+}
+
+export interface TrackingInfo {
+  carrier: string;
+  trackingNumber: string;
+  status: TrackingStatus;
+  events: TrackingEvent[];
+  estimatedDeliveryDate?: string;
+  deliveredAt?: string;
+}
@@ -0,0 +1,24 @@
+import { Address, Package, ServiceLevel } from './rates';
+
+export interface TransitTimeRequest {
+  origin: Address;
+  destination: Address;
+  shipDate?: string;
+  packages?: Package[];
+}
+
+export interface TransitTimeEstimate {
+  serviceLevel: ServiceLevel;
+  serviceName: string;
+  businessTransitDays: number;
+  estimatedDeliveryDate: string;
+  deliveryTime?: string;
+  guaranteed: boolean;
+}
+
+export interface TransitTimeResponse {
+  carrier: string;
+  shipDate: string;
+  estimates: TransitTimeEstimate[];
+  requestId: string;
+}
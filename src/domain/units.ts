@@ -0,0 +1,73 @@
+export type WeightUnit = 'lb' | 'kg' | 'oz' | 'g';
+
+export type DimensionUnit = 'in' | 'cm';
+
+export type UnitSystem = 'imperial' | 'metric';
+
+export interface PackageMeasurements {
+  weight: number;
+  length: number;
+  width: number;
+  height: number;
+  weightUnit?: WeightUnit;
+  dimensionUnit?: DimensionUnit;
+}
+
+export const DEFAULT_WEIGHT_UNIT: WeightUnit = 'lb';
+export const DEFAULT_DIMENSION_UNIT: DimensionUnit = 'in';
+
+const GRAMS_PER_WEIGHT_UNIT: Record<WeightUnit, number> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.349523125,
+  lb: 453.59237
+};
+
+const MILLIMETRES_PER_DIMENSION_UNIT: Record<DimensionUnit, number> = {
+  cm: 10,
+  in: 25.4
+};
+
+const IMPERIAL_COUNTRIES = new Set(['US', 'PR', 'VI', 'GU', 'AS', 'MP', 'LR', 'MM']);
+
+export function convertWeight(value: number, from: WeightUnit, to: WeightUnit): number {
+  if (from === to) return value;
+  return (value * GRAMS_PER_WEIGHT_UNIT[from]) / GRAMS_PER_WEIGHT_UNIT[to];
+}
+
+export function convertDimension(value: number, from: DimensionUnit, to: DimensionUnit): number {
+  if (from === to) return value;
+  return (value * MILLIMETRES_PER_DIMENSION_UNIT[from]) / MILLIMETRES_PER_DIMENSION_UNIT[to];
+}
+
+export function convertPackage<T extends PackageMeasurements>(
+  pkg: T,
+  weightUnit: WeightUnit,
+  dimensionUnit: DimensionUnit
+): T & { weightUnit: WeightUnit; dimensionUnit: DimensionUnit } {
+  const fromWeight = pkg.weightUnit ?? DEFAULT_WEIGHT_UNIT;
+  const fromDimension = pkg.dimensionUnit ?? DEFAULT_DIMENSION_UNIT;
+
+  return {
+    ...pkg,
+    weight: convertWeight(pkg.weight, fromWeight, weightUnit),
+    length: convertDimension(pkg.length, fromDimension, dimensionUnit),
+    width: convertDimension(pkg.width, fromDimension, dimensionUnit),
+    height: convertDimension(pkg.height, fromDimension, dimensionUnit),
+    weightUnit,
+    dimensionUnit
+  };
+}
+
+export function unitSystemForCountry(country: string): UnitSystem {
+  return IMPERIAL_COUNTRIES.has(country.toUpperCase()) ? 'imperial' : 'metric';
+}
+
+export function unitsForSystem(system: UnitSystem): { weightUnit: WeightUnit; dimensionUnit: DimensionUnit } {
+  return system === 'imperial' ? { weightUnit: 'lb', dimensionUnit: 'in' } : { weightUnit: 'kg', dimensionUnit: 'cm' };
+}
+
+export function roundUp(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.ceil(value * factor - 1e-9) / factor;
+}
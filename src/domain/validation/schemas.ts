@@ -1,19 +1,128 @@
 import { z } from 'zod';
+import {
+  DEFAULT_DIMENSION_UNIT,
+  DEFAULT_WEIGHT_UNIT,
+  convertDimension,
+  convertWeight
+} from '../units';
+import { FLAT_RATE_PACKAGING_MAX_DIMENSIONS_IN, isFlatRatePackaging } from '../packaging';
+import { addressRuleForCountry, isIsoCountryCode } from '../countries';
 
-export const addressSchema = z.object({
-  street: z.array(z.string().min(1)).min(1).max(3),
-  city: z.string().min(1).max(50),
-  state: z.string().length(2),
-  postalCode: z.string().min(5).max(10),
-  country: z.string().length(2)
-});
+export const addressSchema = z
+  .object({
+    street: z.array(z.string().min(1)).min(1).max(3),
+    city: z.string().min(1).max(50),
+    state: optionalText(z.string().trim().max(50)),
+    postalCode: optionalText(z.string().trim().max(12)),
+    country: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .refine(isIsoCountryCode, { message: 'Country must be an ISO 3166-1 alpha-2 code' })
+  })
+  .superRefine((address, ctx) => {
+    if (!isIsoCountryCode(address.country)) return;
+    const rule = addressRuleForCountry(address.country);
 
-export const packageSchema = z.object({
-  weight: z.number().positive().max(150),
-  length: z.number().positive().max(108),
-  width: z.number().positive().max(108),
-  height: z.number().positive().max(108)
-});
+    if (address.postalCode === undefined) {
+      if (rule.postalCodeRequired) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['postalCode'],
+          message: `Postal code is required for ${address.country}`
+        });
+      }
+    } else if (rule.postalCodePattern && !rule.postalCodePattern.test(address.postalCode)) {
+      const example = rule.postalCodeExample ? ` (for example ${rule.postalCodeExample})` : '';
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['postalCode'],
+        message: `Postal code ${address.postalCode} is not valid for ${address.country}${example}`
+      });
+    }
+
+    if (address.state === undefined) {
+      if (rule.stateRequired) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['state'],
+          message: `State or province is required for ${address.country}`
+        });
+      }
+    } else if (rule.statePattern && !rule.statePattern.test(address.state)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['state'],
+        message: `State or province code ${address.state} is not valid for ${address.country}`
+      });
+    }
+  })
+  .transform(withoutUndefined);
+
+const MAX_PACKAGE_WEIGHT_LB = 150;
+const MAX_PACKAGE_DIMENSION_IN = 108;
+
+export const weightUnitSchema = z.enum(['lb', 'kg', 'oz', 'g']);
+export const dimensionUnitSchema = z.enum(['in', 'cm']);
+export const packagingTypeSchema = z.enum([
+  'custom',
+  'envelope',
+  'pak',
+  'tube',
+  'smallBox',
+  'mediumBox',
+  'largeBox',
+  'pallet'
+]);
+
+export const packageSchema = z
+  .object({
+    weight: z.number().positive(),
+    length: z.number().positive(),
+    width: z.number().positive(),
+    height: z.number().positive(),
+    weightUnit: weightUnitSchema.optional(),
+    dimensionUnit: dimensionUnitSchema.optional(),
+    packagingType: packagingTypeSchema.optional()
+  })
+  .superRefine((pkg, ctx) => {
+    const weightUnit = pkg.weightUnit ?? DEFAULT_WEIGHT_UNIT;
+    const maxWeight = convertWeight(MAX_PACKAGE_WEIGHT_LB, 'lb', weightUnit);
+    if (pkg.weight > maxWeight) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['weight'],
+        message: `Weight must not exceed ${formatLimit(maxWeight)} ${weightUnit}`
+      });
+    }
+
+    const dimensionUnit = pkg.dimensionUnit ?? DEFAULT_DIMENSION_UNIT;
+    const maxDimension = convertDimension(MAX_PACKAGE_DIMENSION_IN, 'in', dimensionUnit);
+    for (const field of ['length', 'width', 'height'] as const) {
+      if (pkg[field] > maxDimension) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field],
+          message: `${field} must not exceed ${formatLimit(maxDimension)} ${dimensionUnit}`
+        });
+      }
+    }
+
+    if (isFlatRatePackaging(pkg.packagingType)) {
+      const limits = FLAT_RATE_PACKAGING_MAX_DIMENSIONS_IN[pkg.packagingType].map((limit) =>
+        convertDimension(limit, 'in', dimensionUnit)
+      );
+      const dimensions = [pkg.length, pkg.width, pkg.height].sort((a, b) => b - a);
+      if (dimensions.some((value, index) => value > limits[index]! + 1e-9)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['packagingType'],
+          message: `${pkg.packagingType} packaging must not exceed ${limits.map(formatLimit).join(' x ')} ${dimensionUnit}`
+        });
+      }
+    }
+  })
+  .transform(withoutUndefined);
 
 export const serviceLevelSchema = z.enum([
   'ground',
@@ -26,17 +135,353 @@ export const serviceLevelSchema = z.enum([
   'worldwideExpressPlus',
   'worldwideExpedited',
   'standard',
-  'express'
+  'express',
+  'priorityMail',
+  'groundAdvantage',
+  'priorityMailInternational',
+  'ltlStandard',
+  'ltlGuaranteed',
+  'nextDayAirSaver',
+  'worldwideSaver',
+  'groundSaver'
 ]);
 
-export const rateRequestSchema = z.object({
+export const shipDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Ship date must be formatted as YYYY-MM-DD')
+  .refine(isCalendarDate, 'Ship date must be a valid date');
+
+export const monetaryAmountSchema = z.object({
+  amount: z.number().positive(),
+  currency: z.string().length(3)
+});
+
+export const shipmentOptionsSchema = z
+  .object({
+    residential: z.boolean().optional(),
+    signature: z.enum(['required', 'adult']).optional(),
+    saturdayDelivery: z.boolean().optional(),
+    declaredValue: monetaryAmountSchema.optional(),
+    cod: monetaryAmountSchema.optional(),
+    deliveryConfirmation: z.boolean().optional()
+  })
+  .transform(withoutUndefined);
+
+const countryCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine(isIsoCountryCode, { message: 'Country must be an ISO 3166-1 alpha-2 code' });
+
+export const customsCommoditySchema = z
+  .object({
+    description: z.string().min(1).max(100),
+    hsCode: z
+      .string()
+      .regex(/^\d{6,10}$/, 'HS code must be 6 to 10 digits')
+      .optional(),
+    countryOfOrigin: countryCodeSchema,
+    quantity: z.number().int().positive(),
+    unitValue: z.number().positive()
+  })
+  .transform(withoutUndefined);
+
+export const customsDeclarationSchema = z.object({
+  value: monetaryAmountSchema,
+  commodities: z.array(customsCommoditySchema).min(1).max(99)
+});
+
+export const carrierServiceSelectionSchema = z.object({
+  carrier: z.string().trim().min(1),
+  code: z.string().trim().min(1).max(32)
+});
+
+export const carrierFilterSchema = z
+  .object({
+    include: z.array(z.string().trim().min(1)).min(1).optional(),
+    exclude: z.array(z.string().trim().min(1)).min(1).optional()
+  })
+  .transform(withoutUndefined);
+
+export const carrierRateOptionsSchema = z
+  .object({
+    accountNumber: optionalText(z.string().trim().max(32))
+  })
+  .strict()
+  .transform(withoutUndefined);
+
+export const rateRequestSchema = z
+  .object({
+    origin: addressSchema,
+    destination: addressSchema,
+    packages: z.array(packageSchema).min(1).max(50),
+    serviceLevel: serviceLevelSchema.optional(),
+    shipmentOptions: shipmentOptionsSchema.optional(),
+    shipDate: shipDateSchema.optional(),
+    customs: customsDeclarationSchema.optional(),
+    carrierService: carrierServiceSelectionSchema.optional(),
+    carriers: carrierFilterSchema.optional(),
+    serviceCodes: z.array(carrierServiceSelectionSchema).min(1).optional(),
+    carrierOptions: z.record(z.string().trim().min(1), carrierRateOptionsSchema).optional()
+  })
+  .superRefine((request, ctx) => {
+    if (request.origin.country !== request.destination.country && !request.customs) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['customs'],
+        message: 'Customs information is required when origin and destination countries differ'
+      });
+    }
+    if (request.serviceLevel && request.carrierService) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['carrierService'],
+        message: 'Request either a service level or a carrier service, not both'
+      });
+    }
+    if (request.carrierService && request.serviceCodes) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['serviceCodes'],
+        message: 'Request either a carrier service or a set of service codes, not both'
+      });
+    }
+    const excluded = new Set(request.carriers?.exclude?.map((name) => name.toLowerCase()));
+    request.carriers?.include?.forEach((name, index) => {
+      if (excluded.has(name.toLowerCase())) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['carriers', 'include', index],
+          message: `Carrier ${name} is both included and excluded`
+        });
+      }
+    });
+  })
+  .transform(withoutUndefined);
+
+export const transitTimeRequestSchema = z.object({
   origin: addressSchema,
   destination: addressSchema,
+  shipDate: shipDateSchema.optional(),
+  packages: z.array(packageSchema).min(1).max(50).optional()
+});
+
+const MAX_HANDLING_UNIT_WEIGHT_LB = 20000;
+
+export const freightClassSchema = z.enum([
+  '50',
+  '55',
+  '60',
+  '65',
+  '70',
+  '77.5',
+  '85',
+  '92.5',
+  '100',
+  '110',
+  '125',
+  '150',
+  '175',
+  '200',
+  '250',
+  '300',
+  '400',
+  '500'
+]);
+
+export const freightAccessorialSchema = z.enum([
+  'liftgatePickup',
+  'liftgateDelivery',
+  'insidePickup',
+  'insideDelivery',
+  'residentialPickup',
+  'residentialDelivery',
+  'limitedAccessPickup',
+  'limitedAccessDelivery',
+  'appointmentDelivery'
+]);
+
+export const handlingUnitSchema = z
+  .object({
+    type: z.enum(['pallet', 'skid', 'tote', 'loose', 'other']),
+    quantity: z.number().int().positive().max(99),
+    weight: z.number().positive(),
+    length: z.number().positive(),
+    width: z.number().positive(),
+    height: z.number().positive(),
+    weightUnit: weightUnitSchema.optional(),
+    dimensionUnit: dimensionUnitSchema.optional(),
+    freightClass: freightClassSchema,
+    nmfcCode: z
+      .string()
+      .regex(/^\d{1,6}(-\d{1,2})?$/, 'NMFC code must look like 123456 or 123456-01')
+      .optional(),
+    description: z.string().min(1).max(35)
+  })
+  .superRefine((unit, ctx) => {
+    const weightUnit = unit.weightUnit ?? DEFAULT_WEIGHT_UNIT;
+    const maxWeight = convertWeight(MAX_HANDLING_UNIT_WEIGHT_LB, 'lb', weightUnit);
+    if (unit.weight > maxWeight) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['weight'],
+        message: `Handling unit weight must not exceed ${formatLimit(maxWeight)} ${weightUnit}`
+      });
+    }
+  })
+  .transform(withoutUndefined);
+
+export const freightRateRequestSchema = z
+  .object({
+    origin: addressSchema,
+    destination: addressSchema,
+    handlingUnits: z.array(handlingUnitSchema).min(1).max(20),
+    accessorials: z.array(freightAccessorialSchema).optional(),
+    serviceLevel: z.enum(['ltlStandard', 'ltlGuaranteed']).optional(),
+    shipDate: shipDateSchema.optional()
+  })
+  .transform(withoutUndefined);
+
+export const labelFormatSchema = z.enum(['PDF', 'PNG', 'GIF', 'ZPL']);
+
+export const shipmentPartySchema = z.object({
+  name: z.string().min(1).max(35),
+  companyName: z.string().min(1).max(35).optional(),
+  phone: z.string().min(7).max(15).optional(),
+  address: addressSchema
+});
+
+export const shipmentRequestSchema = z.object({
+  shipper: shipmentPartySchema,
+  recipient: shipmentPartySchema,
   packages: z.array(packageSchema).min(1).max(50),
-  serviceLevel: serviceLevelSchema.optional()
+  serviceLevel: serviceLevelSchema,
+  labelFormat: labelFormatSchema.optional(),
+  reference: z.string().min(1).max(35).optional()
 });
 
+export const trackingNumberSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(35)
+  .regex(/^[A-Za-z0-9]+$/, 'Tracking number must be alphanumeric');
+
+export const roundingModeSchema = z.enum(['halfUp', 'halfEven', 'up', 'down']);
+
+const currencyCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{3}$/, 'Currency must be a three-letter code')
+  .toUpperCase();
+
+const decimalAmountSchema = z
+  .union([z.string().trim(), z.number().nonnegative()])
+  .transform((value) => String(value))
+  .refine((value) => /^\d+(\.\d+)?$/.test(value), 'Amount must be a non-negative decimal');
+
+export const weightBandSchema = z
+  .object({
+    min: z.number().nonnegative().optional(),
+    max: z.number().positive().optional(),
+    unit: weightUnitSchema
+  })
+  .refine((band) => band.min === undefined || band.max === undefined || band.min < band.max, {
+    message: 'Weight band minimum must be below its maximum',
+    path: ['max']
+  })
+  .transform(withoutUndefined);
+
+export const pricingRuleMatchSchema = z
+  .object({
+    carriers: z.array(z.string().trim().min(1)).min(1).optional(),
+    serviceLevels: z.array(serviceLevelSchema).min(1).optional(),
+    countries: z.array(countryCodeSchema).min(1).optional(),
+    zones: z.array(z.string().trim().min(1)).min(1).optional(),
+    weight: weightBandSchema.optional(),
+    customerTiers: z.array(z.string().trim().min(1)).min(1).optional()
+  })
+  .transform(withoutUndefined);
+
+export const pricingAdjustmentSchema = z
+  .discriminatedUnion('type', [
+    z.object({ type: z.literal('percentMarkup'), percent: z.number().positive() }),
+    z.object({ type: z.literal('fixedMarkup'), amount: decimalAmountSchema, currency: currencyCodeSchema }),
+    z.object({ type: z.literal('percentDiscount'), percent: z.number().positive().max(100) }),
+    z.object({ type: z.literal('fixedDiscount'), amount: decimalAmountSchema, currency: currencyCodeSchema }),
+    z.object({ type: z.literal('minimum'), amount: decimalAmountSchema, currency: currencyCodeSchema }),
+    z.object({
+      type: z.literal('round'),
+      increment: decimalAmountSchema.refine((value) => Number(value) > 0, 'Rounding increment must be positive'),
+      mode: roundingModeSchema.optional()
+    })
+  ])
+  .transform(withoutUndefined);
+
+export const pricingRuleSchema = z
+  .object({
+    id: z.string().trim().min(1),
+    description: z.string().optional(),
+    match: pricingRuleMatchSchema.optional(),
+    adjustments: z.array(pricingAdjustmentSchema).min(1)
+  })
+  .transform(withoutUndefined);
+
+export const pricingRuleSetSchema = z
+  .object({
+    zones: z.record(z.string().trim().min(1), z.array(countryCodeSchema).min(1)).optional(),
+    rounding: roundingModeSchema.optional(),
+    rules: z.array(pricingRuleSchema)
+  })
+  .superRefine((ruleSet, ctx) => {
+    const seen = new Set<string>();
+    ruleSet.rules.forEach((rule, index) => {
+      if (seen.has(rule.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['rules', index, 'id'],
+          message: `Duplicate pricing rule id: ${rule.id}`
+        });
+      }
+      seen.add(rule.id);
+
+      rule.match?.zones?.forEach((zone, zoneIndex) => {
+        if (!ruleSet.zones || !Object.prototype.hasOwnProperty.call(ruleSet.zones, zone)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['rules', index, 'match', 'zones', zoneIndex],
+            message: `Unknown pricing zone: ${zone}`
+          });
+        }
+      });
+    });
+  })
+  .transform(withoutUndefined);
+
 export type ValidatedAddress = z.infer<typeof addressSchema>;
 export type ValidatedPackage = z.infer<typeof packageSchema>;
 export type ValidatedRateRequest = z.infer<typeof rateRequestSchema>;
+export type ValidatedFreightRateRequest = z.infer<typeof freightRateRequestSchema>;
+export type ValidatedTransitTimeRequest = z.infer<typeof transitTimeRequestSchema>;
+
+export type ValidatedShipmentRequest = z.infer<typeof shipmentRequestSchema>;
+export type ValidatedPricingRuleSet = z.infer<typeof pricingRuleSetSchema>;
+
+function isCalendarDate(value: string): boolean {
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+}
+
+function formatLimit(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function optionalText<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess((value) => (typeof value === 'string' && value.trim() === '' ? undefined : value), schema.optional());
+}
 
+function withoutUndefined<T extends object>(value: T): { [K in keyof T]: Exclude<T[K], undefined> } {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as {
+    [K in keyof T]: Exclude<T[K], undefined>;
+  };
+}
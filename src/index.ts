@@ -1,15 +1,42 @@
 export * from './domain/rates';
+export * from './domain/shipments';
+export * from './domain/tracking';
+export * from './domain/address-validation';
+export * from './domain/transit-times';
+export * from './domain/freight';
+export * from './domain/units';
+export * from './domain/billable-weight';
+export * from './domain/packaging';
+export * from './domain/currency';
+export * from './domain/money';
+export * from './domain/pricing';
+export * from './domain/countries';
+export * from './domain/service-catalog';
 export * from './domain/errors';
 export * from './domain/validation/schemas';
 
 export * from './application/ports/carrier';
+export * from './application/ports/shipping-carrier';
+export * from './application/ports/tracking-carrier';
+export * from './application/ports/address-validation-carrier';
+export * from './application/ports/transit-time-carrier';
+export * from './application/ports/freight-carrier';
 export * from './application/ports/http-client';
 export * from './application/ports/auth-provider';
 export * from './application/ports/logger';
 export * from './application/ports/tracer';
 export * from './application/ports/rate-cache';
+export * from './application/ports/exchange-rate-provider';
+export * from './application/ports/quote-strategy';
 export * from './application/registry/carrier-registry';
 export * from './application/services/rate-service';
+export * from './application/services/shipment-service';
+export * from './application/services/tracking-service';
+export * from './application/services/address-validation-service';
+export * from './application/services/transit-time-service';
+export * from './application/services/freight-rate-service';
+export * from './application/services/quote-strategies';
+export * from './application/services/pricing-engine';
 
 export * from './config/env';
 
@@ -17,6 +44,7 @@ export * from './infrastructure/http/fetch-http-client';
 export * from './infrastructure/http/instrumented-http-client';
 export * from './infrastructure/auth/oauth-client';
 export * from './infrastructure/auth/client-credentials-auth-provider';
+export * from './infrastructure/auth/basic-auth-provider';
 export * from './infrastructure/logging/noop-logger';
 export * from './infrastructure/logging/pino-logger';
 export * from './infrastructure/logging/redaction';
@@ -28,11 +56,52 @@ export * from './infrastructure/retry/retrying-carrier-client';
 export * from './infrastructure/circuit-breaker/circuit-breaker';
 export * from './infrastructure/circuit-breaker/circuit-breaker-carrier-client';
 export * from './infrastructure/caching/in-memory-rate-cache';
+export * from './infrastructure/fx/static-exchange-rate-provider';
+export * from './infrastructure/fx/file-exchange-rate-provider';
 
 export * from './integrations/ups/ups-config';
 export * from './integrations/ups/ups-rate-client';
 export * from './integrations/ups/ups-rate-mapper';
 export * from './integrations/ups/ups-rate-carrier';
+export * from './integrations/ups/ups-landed-cost-client';
+export * from './integrations/ups/ups-landed-cost-mapper';
+export * from './integrations/ups/ups-ship-client';
+export * from './integrations/ups/ups-shipment-mapper';
+export * from './integrations/ups/ups-shipping-carrier';
+export * from './integrations/ups/ups-track-client';
+export * from './integrations/ups/ups-tracking-mapper';
+export * from './integrations/ups/ups-tracking-carrier';
+export * from './integrations/ups/ups-address-validation-client';
+export * from './integrations/ups/ups-address-validation-mapper';
+export * from './integrations/ups/ups-address-validation-carrier';
+export * from './integrations/ups/ups-transit-time-client';
+export * from './integrations/ups/ups-transit-time-mapper';
+export * from './integrations/ups/ups-transit-time-carrier';
+export * from './integrations/ups/ups-freight-client';
+export * from './integrations/ups/ups-freight-mapper';
+export * from './integrations/ups/ups-freight-carrier';
+export * from './integrations/ups/ups-service-catalog';
 export * from './integrations/ups/register';
 
+export * from './integrations/fedex/fedex-config';
+export * from './integrations/fedex/fedex-rate-client';
+export * from './integrations/fedex/fedex-rate-mapper';
+export * from './integrations/fedex/fedex-rate-carrier';
+export * from './integrations/fedex/fedex-service-catalog';
+export * from './integrations/fedex/register';
+
+export * from './integrations/usps/usps-config';
+export * from './integrations/usps/usps-rate-client';
+export * from './integrations/usps/usps-rate-mapper';
+export * from './integrations/usps/usps-rate-carrier';
+export * from './integrations/usps/usps-service-catalog';
+export * from './integrations/usps/register';
+
+export * from './integrations/dhl/dhl-config';
+export * from './integrations/dhl/dhl-rate-client';
+export * from './integrations/dhl/dhl-rate-mapper';
+export * from './integrations/dhl/dhl-rate-carrier';
+export * from './integrations/dhl/dhl-service-catalog';
+export * from './integrations/dhl/register';
+
 export * from './sdk/rates-client';
@@ -0,0 +1,23 @@
+import { AuthProvider } from '../../application/ports/auth-provider';
+import { throwIfCancelled } from '../../domain/errors';
+
+export interface BasicAuthCredentials {
+  username: string;
+  password: string;
+}
+
+export class BasicAuthProvider implements AuthProvider {
+  private readonly header: string;
+
+  constructor(credentials: BasicAuthCredentials) {
+    const encoded = Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64');
+    this.header = `Basic ${encoded}`;
+  }
+
+  invalidate(): void {}
+
+  async getAuthorizationHeader(signal?: AbortSignal): Promise<string> {
+    throwIfCancelled(signal);
+    return this.header;
+  }
+}
@@ -1,16 +1,23 @@
 import { AuthProvider } from '../../application/ports/auth-provider';
 import { OAuthClient, OAuthToken } from './oauth-client';
+import { cancellationError, throwIfCancelled } from '../../domain/errors';
 
 export interface CachedToken {
   token: OAuthToken;
   expiresAtMs: number;
 }
 
+interface InFlightRefresh {
+  promise: Promise<string>;
+  controller: AbortController;
+  waiters: number;
+}
+
 const REFRESH_BUFFER_MS = 60000;
 
 export class ClientCredentialsAuthProvider implements AuthProvider {
   private cached: CachedToken | null = null;
-  private refreshPromise: Promise<string> | null = null;
+  private inFlight: InFlightRefresh | null = null;
 
   constructor(private readonly oauthClient: OAuthClient) {}
 
@@ -18,23 +25,40 @@ export class ClientCredentialsAuthProvider implements AuthProvider {
     this.cached = null;
   }
 
-  async getAuthorizationHeader(): Promise<string> {
+  async getAuthorizationHeader(signal?: AbortSignal): Promise<string> {
+    throwIfCancelled(signal);
     const now = Date.now();
     if (this.cached && this.cached.expiresAtMs > now + REFRESH_BUFFER_MS) {
       return `Bearer ${this.cached.token.accessToken}`;
     }
 
-    if (this.refreshPromise) return this.refreshPromise;
+    const refresh = this.inFlight ?? this.startRefresh();
+    refresh.waiters += 1;
+    if (!signal) return refresh.promise;
 
-    this.refreshPromise = this.refresh().finally(() => {
-      this.refreshPromise = null;
+    return untilCancelled(refresh.promise, signal, () => {
+      refresh.waiters -= 1;
+      if (refresh.waiters > 0) return;
+      if (this.inFlight === refresh) this.inFlight = null;
+      refresh.controller.abort(cancellationError(signal));
     });
+  }
 
-    return this.refreshPromise;
+  private startRefresh(): InFlightRefresh {
+    const controller = new AbortController();
+    const refresh: InFlightRefresh = {
+      controller,
+      waiters: 0,
+      promise: this.refresh(controller.signal).finally(() => {
+        if (this.inFlight === refresh) this.inFlight = null;
+      })
+    };
+    this.inFlight = refresh;
+    return refresh;
   }
 
-  private async refresh(): Promise<string> {
-    const token = await this.oauthClient.acquireToken();
+  private async refresh(signal: AbortSignal): Promise<string> {
+    const token = await this.oauthClient.acquireToken(signal);
     this.cached = {
       token,
       expiresAtMs: Date.now() + token.expiresInSeconds * 1000 - REFRESH_BUFFER_MS
@@ -43,3 +67,13 @@ export class ClientCredentialsAuthProvider implements AuthProvider {
   }
 }
 
+function untilCancelled<T>(promise: Promise<T>, signal: AbortSignal, onCancel: () => void): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      onCancel();
+      reject(cancellationError(signal));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { HttpClient } from '../../application/ports/http-client';
+import { HttpClient, HttpRequest } from '../../application/ports/http-client';
 import { AuthError, ErrorCode } from '../../domain/errors';
 
 const tokenResponseSchema = z
@@ -21,6 +21,7 @@ export interface OAuthClientCredentials {
   clientId: string;
   clientSecret: string;
   timeoutMs?: number;
+  clientAuthMethod?: 'basic' | 'body';
 }
 
 export class OAuthClient {
@@ -29,23 +30,13 @@ export class OAuthClient {
     private readonly creds: OAuthClientCredentials
   ) {}
 
-  async acquireToken(): Promise<OAuthToken> {
-    const credentials = Buffer.from(`${this.creds.clientId}:${this.creds.clientSecret}`).toString(
-      'base64'
-    );
-
-    const request = {
-      method: 'POST' as const,
-      url: this.creds.authUrl,
-      headers: {
-        Authorization: `Basic ${credentials}`,
-        'Content-Type': 'application/x-www-form-urlencoded'
-      },
-      body: 'grant_type=client_credentials'
-    };
-    const response = await this.httpClient.request(
-      this.creds.timeoutMs !== undefined ? { ...request, timeoutMs: this.creds.timeoutMs } : request
-    );
+  async acquireToken(signal?: AbortSignal): Promise<OAuthToken> {
+    const request = this.buildTokenRequest();
+    const response = await this.httpClient.request({
+      ...request,
+      ...(this.creds.timeoutMs !== undefined ? { timeoutMs: this.creds.timeoutMs } : {}),
+      ...(signal ? { signal } : {})
+    });
 
     if (response.status < 200 || response.status >= 300) {
       throw new AuthError(
@@ -74,6 +65,32 @@ export class OAuthClient {
     if (parsed.data.token_type) token.tokenType = parsed.data.token_type;
     return token;
   }
+
+  private buildTokenRequest(): HttpRequest {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded'
+    };
+
+    if (this.creds.clientAuthMethod === 'body') {
+      const body = new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: this.creds.clientId,
+        client_secret: this.creds.clientSecret
+      }).toString();
+      return { method: 'POST', url: this.creds.authUrl, headers, body };
+    }
+
+    const credentials = Buffer.from(`${this.creds.clientId}:${this.creds.clientSecret}`).toString(
+      'base64'
+    );
+    headers['Authorization'] = `Basic ${credentials}`;
+    return {
+      method: 'POST',
+      url: this.creds.authUrl,
+      headers,
+      body: 'grant_type=client_credentials'
+    };
+  }
 }
 
 function safeJsonParse(text: string): unknown {
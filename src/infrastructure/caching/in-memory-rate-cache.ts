@@ -1,8 +1,7 @@
-import { RateCache } from '../../application/ports/rate-cache';
-import { RateResponse } from '../../domain/rates';
+import { CachedCarrierRates, RateCache } from '../../application/ports/rate-cache';
 
 interface Entry {
-  value: RateResponse[];
+  value: CachedCarrierRates[];
   expiresAtMs: number;
 }
 
@@ -15,7 +14,7 @@ export class InMemoryRateCache implements RateCache {
 
   constructor(private readonly options: InMemoryRateCacheOptions = { maxEntries: 500 }) {}
 
-  get(key: string): RateResponse[] | undefined {
+  get(key: string): CachedCarrierRates[] | undefined {
     const entry = this.store.get(key);
     if (!entry) return undefined;
     if (Date.now() >= entry.expiresAtMs) {
@@ -25,7 +24,7 @@ export class InMemoryRateCache implements RateCache {
     return entry.value;
   }
 
-  set(key: string, value: RateResponse[], ttlMs: number): void {
+  set(key: string, value: CachedCarrierRates[], ttlMs: number): void {
     if (this.store.size >= this.options.maxEntries) {
       const oldestKey = this.store.keys().next().value as string | undefined;
       if (oldestKey) this.store.delete(oldestKey);
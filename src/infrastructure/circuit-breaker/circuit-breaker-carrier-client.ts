@@ -1,4 +1,4 @@
-import { CarrierClient } from '../../integrations/shared/carrier-client';
+import { CarrierClient, CarrierRequestContext } from '../../integrations/shared/carrier-client';
 import { HttpResponse } from '../../application/ports/http-client';
 import { CircuitBreaker } from './circuit-breaker';
 
@@ -9,8 +9,8 @@ export class CircuitBreakerCarrierClient<CarrierRequest> implements CarrierClien
     private readonly inner: CarrierClient<CarrierRequest>
   ) {}
 
-  send(request: CarrierRequest, context: { requestId: string }): Promise<HttpResponse> {
-    return this.breaker.execute(this.carrierName, () => this.inner.send(request, context));
+  send(request: CarrierRequest, context: CarrierRequestContext): Promise<HttpResponse> {
+    return this.breaker.execute(this.carrierName, () => this.inner.send(request, context), context.signal);
   }
 }
 
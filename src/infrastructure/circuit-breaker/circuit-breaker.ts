@@ -1,4 +1,4 @@
-import { CircuitOpenError } from '../../domain/errors';
+import { CancelledError, CircuitOpenError } from '../../domain/errors';
 
 type State = 'closed' | 'open' | 'half_open';
 
@@ -21,7 +21,7 @@ export class CircuitBreaker {
     return this.state;
   }
 
-  async execute<T>(carrier: string, operation: () => Promise<T>): Promise<T> {
+  async execute<T>(carrier: string, operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
     if (this.state === 'open') {
       const elapsed = this.now() - this.openedAtMs;
       if (elapsed < this.options.openDurationMs) {
@@ -38,7 +38,7 @@ export class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      if (!(error instanceof CancelledError) && !signal?.aborted) this.onFailure();
       throw error;
     }
   }
@@ -0,0 +1,63 @@
+import { readFile } from 'node:fs/promises';
+import { z } from 'zod';
+import { ExchangeRateProvider } from '../../application/ports/exchange-rate-provider';
+import { ExchangeRate } from '../../domain/currency';
+import { ConfigError } from '../../domain/errors';
+import { StaticExchangeRateProvider } from './static-exchange-rate-provider';
+
+const exchangeRateTableSchema = z.object({
+  base: z.string().length(3),
+  rates: z.record(z.string().length(3), z.number().positive()),
+  asOf: z.string().datetime({ offset: true })
+});
+
+export interface FileExchangeRateProviderOptions {
+  path: string;
+}
+
+export class FileExchangeRateProvider implements ExchangeRateProvider {
+  private loaded: Promise<StaticExchangeRateProvider> | undefined;
+
+  constructor(private readonly options: FileExchangeRateProviderOptions) {}
+
+  async getRate(from: string, to: string): Promise<ExchangeRate> {
+    const provider = await this.load();
+    return provider.getRate(from, to);
+  }
+
+  reload(): void {
+    this.loaded = undefined;
+  }
+
+  private load(): Promise<StaticExchangeRateProvider> {
+    if (!this.loaded) {
+      this.loaded = this.readTable().catch((error: unknown) => {
+        this.loaded = undefined;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async readTable(): Promise<StaticExchangeRateProvider> {
+    let text: string;
+    try {
+      text = await readFile(this.options.path, 'utf8');
+    } catch (error) {
+      throw new ConfigError(`Unable to read exchange rate file: ${this.options.path}`, undefined, error);
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      throw new ConfigError(`Exchange rate file is not valid JSON: ${this.options.path}`, undefined, error);
+    }
+
+    const parsed = exchangeRateTableSchema.safeParse(json);
+    if (!parsed.success) {
+      throw new ConfigError(`Invalid exchange rate file: ${this.options.path}`, { issues: parsed.error.issues });
+    }
+    return new StaticExchangeRateProvider(parsed.data);
+  }
+}
@@ -0,0 +1,35 @@
+import { ExchangeRateProvider } from '../../application/ports/exchange-rate-provider';
+import { ExchangeRate } from '../../domain/currency';
+import { ConfigError } from '../../domain/errors';
+
+export interface ExchangeRateTable {
+  base: string;
+  rates: Record<string, number>;
+  asOf: string;
+}
+
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  private readonly base: string;
+  private readonly rates: Map<string, number>;
+
+  constructor(private readonly table: ExchangeRateTable) {
+    this.base = table.base.toUpperCase();
+    this.rates = new Map(Object.entries(table.rates).map(([currency, rate]) => [currency.toUpperCase(), rate]));
+    this.rates.set(this.base, 1);
+  }
+
+  async getRate(from: string, to: string): Promise<ExchangeRate> {
+    const source = from.toUpperCase();
+    const target = to.toUpperCase();
+    const sourceRate = this.rates.get(source);
+    const targetRate = this.rates.get(target);
+    if (sourceRate === undefined || targetRate === undefined) {
+      throw new ConfigError(`No exchange rate configured for ${source} to ${target}`, {
+        base: this.base,
+        missing: [source, target].filter((currency) => !this.rates.has(currency))
+      });
+    }
+
+    return { from: source, to: target, rate: targetRate / sourceRate, asOf: this.table.asOf };
+  }
+}
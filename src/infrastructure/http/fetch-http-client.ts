@@ -1,5 +1,5 @@
 import { HttpClient, HttpRequest, HttpResponse } from '../../application/ports/http-client';
-import { NetworkError, TimeoutError } from '../../domain/errors';
+import { NetworkError, TimeoutError, cancellationError } from '../../domain/errors';
 
 function headersToRecord(headers: Headers): Record<string, string> {
   const out: Record<string, string> = {};
@@ -16,6 +16,12 @@ export class FetchHttpClient implements HttpClient {
     const controller = new AbortController();
     const timeoutMs = request.timeoutMs ?? this.defaultTimeoutMs;
     const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const abortFromCaller = () => controller.abort();
+    if (request.signal?.aborted) {
+      controller.abort();
+    } else {
+      request.signal?.addEventListener('abort', abortFromCaller, { once: true });
+    }
 
     try {
       const init: RequestInit = {
@@ -34,12 +40,16 @@ export class FetchHttpClient implements HttpClient {
         bodyText
       };
     } catch (error) {
+      if (request.signal?.aborted) {
+        throw cancellationError(request.signal);
+      }
       if (error instanceof Error && error.name === 'AbortError') {
         throw new TimeoutError(`Request timeout after ${timeoutMs}ms`, undefined, { url: request.url }, error);
       }
       throw new NetworkError('Network error while making HTTP request', undefined, { url: request.url }, error);
     } finally {
       clearTimeout(timeoutId);
+      request.signal?.removeEventListener('abort', abortFromCaller);
     }
   }
 }
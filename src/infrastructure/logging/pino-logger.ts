@@ -16,7 +16,14 @@ export function createPinoLogger(options: PinoLoggerOptions = {}): Logger {
         '*.authorization',
         '*.clientSecret',
         '*.UPS_CLIENT_SECRET',
-        '*.UPS_CLIENT_ID'
+        '*.UPS_CLIENT_ID',
+        '*.FEDEX_CLIENT_SECRET',
+        '*.FEDEX_CLIENT_ID',
+        '*.USPS_CLIENT_SECRET',
+        '*.USPS_CLIENT_ID',
+        '*.apiSecret',
+        '*.DHL_API_SECRET',
+        '*.DHL_API_KEY'
       ],
       censor: '[REDACTED]'
     }
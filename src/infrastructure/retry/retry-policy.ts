@@ -1,4 +1,4 @@
-import { ServiceError } from '../../domain/errors';
+import { ErrorCode, ServiceError } from '../../domain/errors';
 
 export interface RetryPolicy {
   maxAttempts: number;
@@ -11,6 +11,7 @@ export interface ExponentialBackoffOptions {
   baseDelayMs: number;
   maxDelayMs: number;
   jitterRatio: number;
+  retryableCodes?: ErrorCode[];
 }
 
 export class ExponentialBackoffRetryPolicy implements RetryPolicy {
@@ -22,7 +23,12 @@ export class ExponentialBackoffRetryPolicy implements RetryPolicy {
 
   shouldRetry(error: unknown, attempt: number): boolean {
     if (attempt >= this.options.maxAttempts) return false;
-    if (error instanceof ServiceError) return error.retryable;
+    if (error instanceof ServiceError) {
+      if (this.options.retryableCodes && !this.options.retryableCodes.includes(error.code)) {
+        return false;
+      }
+      return error.retryable;
+    }
     return false;
   }
 
@@ -1,4 +1,4 @@
-import { CarrierClient } from '../../integrations/shared/carrier-client';
+import { CarrierClient, CarrierRequestContext } from '../../integrations/shared/carrier-client';
 import { HttpResponse } from '../../application/ports/http-client';
 import { Logger } from '../../application/ports/logger';
 import { withRetry } from './with-retry';
@@ -12,14 +12,15 @@ export class RetryingCarrierClient<CarrierRequest> implements CarrierClient<Carr
     private readonly logger?: Logger
   ) {}
 
-  send(request: CarrierRequest, context: { requestId: string }): Promise<HttpResponse> {
+  send(request: CarrierRequest, context: CarrierRequestContext): Promise<HttpResponse> {
     const log = this.logger?.child({ carrier: this.carrierName, requestId: context.requestId });
     return withRetry(
       async () => this.inner.send(request, context),
       this.policy,
       ({ attempt, delayMs, error }) => {
         log?.warn({ attempt, delayMs, err: error }, 'retrying carrier request');
-      }
+      },
+      context.signal
     );
   }
 }
@@ -1,28 +1,42 @@
 import { RetryPolicy } from './retry-policy';
+import { cancellationError, throwIfCancelled } from '../../domain/errors';
 
 export async function withRetry<T>(
   operation: (attempt: number) => Promise<T>,
   policy: RetryPolicy,
-  onRetry?: (info: { attempt: number; delayMs: number; error: unknown }) => void
+  onRetry?: (info: { attempt: number; delayMs: number; error: unknown }) => void,
+  signal?: AbortSignal
 ): Promise<T> {
   for (let attempt = 1; attempt <= policy.maxAttempts; attempt += 1) {
+    throwIfCancelled(signal);
     try {
       return await operation(attempt);
     } catch (error) {
-      if (!policy.shouldRetry(error, attempt)) {
+      if (signal?.aborted || !policy.shouldRetry(error, attempt)) {
         throw error;
       }
       const nextAttempt = attempt + 1;
       const delayMs = policy.getDelayMs(nextAttempt, error);
       onRetry?.({ attempt: nextAttempt, delayMs, error });
-      await sleep(delayMs);
+      throwIfCancelled(signal);
+      await sleep(delayMs, signal);
     }
   }
 
   throw new Error('Retry attempts exhausted');
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancellationError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
@@ -0,0 +1,19 @@
+import { envNumber, optionalEnv, requireEnv, EnvReader, processEnv } from '../../config/env';
+
+export interface DhlExpressConfig {
+  apiKey: string;
+  apiSecret: string;
+  accountNumber: string;
+  baseUrl: string;
+  timeoutMs: number;
+}
+
+export function loadDhlExpressConfig(env: EnvReader = processEnv): DhlExpressConfig {
+  return {
+    apiKey: requireEnv('DHL_API_KEY', env),
+    apiSecret: requireEnv('DHL_API_SECRET', env),
+    accountNumber: requireEnv('DHL_ACCOUNT_NUMBER', env),
+    baseUrl: optionalEnv('DHL_BASE_URL', env) ?? 'https://express.api.dhl.com/mydhlapi',
+    timeoutMs: envNumber('DHL_TIMEOUT_MS', 30000, env)
+  };
+}
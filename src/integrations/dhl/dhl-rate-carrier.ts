@@ -0,0 +1,55 @@
+import { Carrier, CarrierRateContext } from '../../application/ports/carrier';
+import { RateRequest, RateResponse, ServiceLevel } from '../../domain/rates';
+import { dhlRateResponseSchema } from './dhl-schemas';
+import { DhlExpressRateMapper } from './dhl-rate-mapper';
+import { CarrierClient } from '../shared/carrier-client';
+import { createRequestId, safeJsonParse, withCarrierContext } from '../shared/carrier-response';
+import { DhlRateRequest, DHL_PRODUCT_CODES } from './dhl-types';
+import { CarrierError, ErrorCode } from '../../domain/errors';
+import { CarrierService } from '../../domain/service-catalog';
+import { DHL_SERVICE_CATALOG } from './dhl-service-catalog';
+
+export class DhlExpressRateCarrier implements Carrier {
+  private readonly carrierName = 'DHL';
+
+  constructor(
+    private readonly client: CarrierClient<DhlRateRequest>,
+    private readonly mapper: DhlExpressRateMapper
+  ) {}
+
+  getName(): string {
+    return this.carrierName;
+  }
+
+  supportsServiceLevel(serviceLevel: ServiceLevel): boolean {
+    return serviceLevel in DHL_PRODUCT_CODES;
+  }
+
+  getServiceCatalog(): CarrierService[] {
+    return [...DHL_SERVICE_CATALOG];
+  }
+
+  async getRates(request: RateRequest, context: CarrierRateContext = {}): Promise<RateResponse> {
+    const requestId = createRequestId();
+    const signal = context.signal ? { signal: context.signal } : {};
+    try {
+      const dhlRequest = this.mapper.toCarrierRequest(request, context.options);
+      const res = await this.client.send(dhlRequest, { requestId, ...signal });
+
+      const parsedJson = safeJsonParse(res.bodyText);
+      const parsed = dhlRateResponseSchema.safeParse(parsedJson);
+      if (!parsed.success) {
+        throw new CarrierError(
+          ErrorCode.MALFORMED_RESPONSE,
+          'DHL Express response failed validation',
+          this.carrierName,
+          { retryable: false, details: { issues: parsed.error.issues } }
+        );
+      }
+
+      return this.mapper.fromCarrierResponse(parsed.data, requestId);
+    } catch (error) {
+      throw withCarrierContext(error, this.carrierName);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { HttpClient, HttpResponse } from '../../application/ports/http-client';
+import { AuthProvider } from '../../application/ports/auth-provider';
+import { CarrierClient, CarrierRequestContext } from '../shared/carrier-client';
+import { ensureSuccessStatus } from '../shared/authorized-request';
+import { DhlExpressConfig } from './dhl-config';
+import { DhlRateRequest } from './dhl-types';
+import { AuthError, ErrorCode } from '../../domain/errors';
+
+export class DhlExpressRateClient implements CarrierClient<DhlRateRequest> {
+  private readonly carrierName = 'DHL';
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly auth: AuthProvider,
+    private readonly config: Pick<DhlExpressConfig, 'baseUrl' | 'timeoutMs'>
+  ) {}
+
+  async send(request: DhlRateRequest, context: CarrierRequestContext): Promise<HttpResponse> {
+    const authorization = await this.auth.getAuthorizationHeader(context.signal);
+    const res = await this.httpClient.request({
+      method: 'POST',
+      url: `${this.config.baseUrl}/rates`,
+      timeoutMs: this.config.timeoutMs,
+      ...(context.signal ? { signal: context.signal } : {}),
+      headers: {
+        Authorization: authorization,
+        'Content-Type': 'application/json',
+        'Message-Reference': context.requestId
+      },
+      body: JSON.stringify(request)
+    });
+
+    if (res.status === 401 || res.status === 403) {
+      throw new AuthError(
+        ErrorCode.AUTH_FAILED,
+        'DHL Express rejected the API credentials',
+        this.carrierName,
+        { status: res.status, body: res.bodyText }
+      );
+    }
+
+    return ensureSuccessStatus(res, this.carrierName);
+  }
+}
@@ -0,0 +1,138 @@
+import { RateMapper } from '../shared/rate-mapper';
+import { ShipmentOptionName, assertSupportedShipmentOptions } from '../shared/shipment-options';
+import { assertSupportedPackaging } from '../shared/packaging';
+import { CarrierRateOptions, RateRequest, RateResponse, RateQuote, Address, Package } from '../../domain/rates';
+import { PackagingType } from '../../domain/packaging';
+import { CarrierError, ErrorCode, ValidationError } from '../../domain/errors';
+import { DhlRateRequest, DHL_PRODUCT_CODES, DHL_SERVICE_NAMES, DhlAddress, DhlPackage } from './dhl-types';
+import { DhlRateResponse } from './dhl-schemas';
+import { UnitSystem, convertPackage, roundUp, unitSystemForCountry, unitsForSystem } from '../../domain/units';
+import { moneyToNumber, parseMoney } from '../../domain/money';
+import { findCarrierService, serviceLevelsByCode } from '../../domain/service-catalog';
+import { DHL_SERVICE_CATALOG } from './dhl-service-catalog';
+
+const PRODUCT_CODE_TO_LEVEL = serviceLevelsByCode(DHL_SERVICE_CATALOG);
+
+const SUPPORTED_SHIPMENT_OPTIONS: readonly ShipmentOptionName[] = [];
+
+const SUPPORTED_PACKAGING: readonly PackagingType[] = ['custom'];
+
+export interface DhlExpressRateMapperConfig {
+  accountNumber: string;
+  now?: () => number;
+}
+
+export class DhlExpressRateMapper implements RateMapper<DhlRateRequest, DhlRateResponse> {
+  private readonly carrierName = 'DHL';
+
+  constructor(private readonly config: DhlExpressRateMapperConfig) {}
+
+  toCarrierRequest(request: RateRequest, options?: CarrierRateOptions): DhlRateRequest {
+    assertSupportedShipmentOptions(this.carrierName, request.shipmentOptions, SUPPORTED_SHIPMENT_OPTIONS);
+    assertSupportedPackaging(this.carrierName, request.packages, SUPPORTED_PACKAGING);
+
+    const unitSystem = unitSystemForCountry(request.origin.country);
+    const dhlRequest: DhlRateRequest = {
+      customerDetails: {
+        shipperDetails: this.toDhlAddress(request.origin),
+        receiverDetails: this.toDhlAddress(request.destination)
+      },
+      accounts: [{ typeCode: 'shipper', number: options?.accountNumber ?? this.config.accountNumber }],
+      plannedShippingDateAndTime: this.plannedShippingDateAndTime(request.shipDate),
+      unitOfMeasurement: unitSystem,
+      isCustomsDeclarable: request.origin.country !== request.destination.country,
+      packages: request.packages.map((pkg) => this.toDhlPackage(pkg, unitSystem))
+    };
+
+    if (request.carrierService) {
+      const service = findCarrierService(DHL_SERVICE_CATALOG, request.carrierService.code);
+      if (!service) {
+        throw new ValidationError(`Unknown DHL product code: ${request.carrierService.code}`);
+      }
+      dhlRequest.productCode = service.code;
+    } else if (request.serviceLevel) {
+      const productCode = DHL_PRODUCT_CODES[request.serviceLevel];
+      if (!productCode) {
+        throw new ValidationError(`Unsupported service level: ${request.serviceLevel}`);
+      }
+      dhlRequest.productCode = productCode;
+    }
+
+    return dhlRequest;
+  }
+
+  fromCarrierResponse(response: DhlRateResponse, requestId: string): RateResponse {
+    const quotes: RateQuote[] = [];
+    for (const product of response.products) {
+      const serviceLevel = PRODUCT_CODE_TO_LEVEL[product.productCode] ?? 'other';
+
+      const price =
+        product.totalPrice.find((p) => p.currencyType === 'BILLC' && p.priceCurrency) ??
+        product.totalPrice.find((p) => p.priceCurrency);
+      if (!price?.priceCurrency) continue;
+
+      const total = parseMoney(price.price, price.priceCurrency);
+      const delivery = product.deliveryCapabilities;
+      const [deliveryDate, deliveryTime] = delivery?.estimatedDeliveryDateAndTime?.split('T') ?? [];
+      quotes.push({
+        serviceLevel,
+        serviceName:
+          product.productName ??
+          findCarrierService(DHL_SERVICE_CATALOG, product.productCode)?.name ??
+          DHL_SERVICE_NAMES[serviceLevel] ??
+          `DHL product ${product.productCode}`,
+        carrierServiceCode: product.productCode,
+        totalCost: moneyToNumber(total),
+        currency: total.currency,
+        price: total,
+        ...(delivery?.totalTransitDays !== undefined ? { estimatedDays: delivery.totalTransitDays } : {}),
+        ...(deliveryDate ? { estimatedDeliveryDate: deliveryDate } : {}),
+        ...(deliveryTime ? { deliveryWindow: { end: deliveryTime.slice(0, 5) } } : {}),
+        carrier: this.carrierName
+      });
+    }
+
+    if (quotes.length === 0) {
+      throw new CarrierError(
+        ErrorCode.API_ERROR,
+        'DHL Express API returned no rate quotes',
+        this.carrierName,
+        { details: { productCodes: response.products.map((p) => p.productCode) } }
+      );
+    }
+
+    return { quotes, requestId };
+  }
+
+  private plannedShippingDateAndTime(shipDate: string | undefined): string {
+    const now = this.config.now?.() ?? Date.now();
+    const date = shipDate ?? new Date(now).toISOString().slice(0, 10);
+    return `${date}T12:00:00GMT+00:00`;
+  }
+
+  private toDhlAddress(address: Address): DhlAddress {
+    const [line1, line2, line3] = address.street;
+    return {
+      addressLine1: line1 ?? '',
+      ...(line2 ? { addressLine2: line2 } : {}),
+      ...(line3 ? { addressLine3: line3 } : {}),
+      cityName: address.city,
+      ...(address.state ? { provinceCode: address.state } : {}),
+      ...(address.postalCode ? { postalCode: address.postalCode } : {}),
+      countryCode: address.country
+    };
+  }
+
+  private toDhlPackage(pkg: Package, unitSystem: UnitSystem): DhlPackage {
+    const { weightUnit, dimensionUnit } = unitsForSystem(unitSystem);
+    const converted = convertPackage(pkg, weightUnit, dimensionUnit);
+    return {
+      weight: roundUp(converted.weight, 3),
+      dimensions: {
+        length: roundUp(converted.length, 3),
+        width: roundUp(converted.width, 3),
+        height: roundUp(converted.height, 3)
+      }
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+const totalPriceSchema = z
+  .object({
+    currencyType: z.string(),
+    priceCurrency: z.string().optional(),
+    price: z.number()
+  })
+  .passthrough();
+
+const productSchema = z
+  .object({
+    productName: z.string().optional(),
+    productCode: z.string(),
+    localProductCode: z.string().optional(),
+    totalPrice: z.array(totalPriceSchema),
+    deliveryCapabilities: z
+      .object({
+        estimatedDeliveryDateAndTime: z.string().optional(),
+        totalTransitDays: z.coerce.number().optional()
+      })
+      .passthrough()
+      .optional()
+  })
+  .passthrough();
+
+export const dhlRateResponseSchema = z
+  .object({
+    products: z.array(productSchema)
+  })
+  .passthrough();
+
+export type DhlRateResponse = z.infer<typeof dhlRateResponseSchema>;
@@ -0,0 +1,84 @@
+import { CarrierService } from '../../domain/service-catalog';
+
+export const DHL_SERVICE_CATALOG: readonly CarrierService[] = [
+  {
+    code: 'P',
+    name: 'DHL Express Worldwide',
+    serviceLevel: 'worldwideExpress',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { time: '23:59', guaranteed: false }
+  },
+  {
+    code: 'D',
+    name: 'DHL Express Worldwide (documents)',
+    serviceLevel: 'worldwideExpress',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { time: '23:59', guaranteed: false }
+  },
+  {
+    code: 'U',
+    name: 'DHL Express Worldwide (EU)',
+    serviceLevel: 'worldwideExpress',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { time: '23:59', guaranteed: false }
+  },
+  {
+    code: 'K',
+    name: 'DHL Express 9:00 (documents)',
+    serviceLevel: 'worldwideExpressPlus',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { time: '09:00', guaranteed: true }
+  },
+  {
+    code: 'E',
+    name: 'DHL Express 9:00',
+    serviceLevel: 'worldwideExpressPlus',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { time: '09:00', guaranteed: true }
+  },
+  {
+    code: 'T',
+    name: 'DHL Express 12:00 (documents)',
+    serviceLevel: 'worldwideExpressPlus',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { time: '12:00', guaranteed: true }
+  },
+  {
+    code: 'Y',
+    name: 'DHL Express 12:00',
+    serviceLevel: 'worldwideExpressPlus',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { time: '12:00', guaranteed: true }
+  },
+  {
+    code: 'H',
+    name: 'DHL Economy Select',
+    serviceLevel: 'worldwideExpedited',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { guaranteed: false }
+  },
+  {
+    code: 'W',
+    name: 'DHL Economy Select (EU)',
+    serviceLevel: 'worldwideExpedited',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { guaranteed: false }
+  },
+  {
+    code: 'N',
+    name: 'DHL Express Domestic',
+    serviceLevel: 'express',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { businessDays: 1, guaranteed: false }
+  }
+];
@@ -0,0 +1,45 @@
+export interface DhlAddress {
+  addressLine1: string;
+  addressLine2?: string;
+  addressLine3?: string;
+  cityName: string;
+  provinceCode?: string;
+  postalCode?: string;
+  countryCode: string;
+}
+
+export interface DhlPackage {
+  weight: number;
+  dimensions: {
+    length: number;
+    width: number;
+    height: number;
+  };
+}
+
+export const DHL_PRODUCT_CODES: Record<string, string> = {
+  worldwideExpress: 'P',
+  worldwideExpressPlus: 'K',
+  worldwideExpedited: 'H',
+  express: 'N'
+};
+
+export const DHL_SERVICE_NAMES: Record<string, string> = {
+  worldwideExpress: 'DHL Express Worldwide',
+  worldwideExpressPlus: 'DHL Express 9:00',
+  worldwideExpedited: 'DHL Economy Select',
+  express: 'DHL Express Domestic'
+};
+
+export interface DhlRateRequest {
+  customerDetails: {
+    shipperDetails: DhlAddress;
+    receiverDetails: DhlAddress;
+  };
+  accounts: Array<{ typeCode: string; number: string }>;
+  productCode?: string;
+  plannedShippingDateAndTime: string;
+  unitOfMeasurement: 'metric' | 'imperial';
+  isCustomsDeclarable: boolean;
+  packages: DhlPackage[];
+}
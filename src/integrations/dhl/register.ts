@@ -0,0 +1,88 @@
+import { CarrierRegistry } from '../../application/registry/carrier-registry';
+import { Logger } from '../../application/ports/logger';
+import { Tracer } from '../../application/ports/tracer';
+import { HttpClient } from '../../application/ports/http-client';
+import { NoopLogger } from '../../infrastructure/logging/noop-logger';
+import { NoopTracer } from '../../infrastructure/tracing/noop-tracer';
+import { FetchHttpClient } from '../../infrastructure/http/fetch-http-client';
+import { InstrumentedHttpClient } from '../../infrastructure/http/instrumented-http-client';
+import { BasicAuthProvider } from '../../infrastructure/auth/basic-auth-provider';
+import { ExponentialBackoffRetryPolicy } from '../../infrastructure/retry/retry-policy';
+import { RetryPolicy } from '../../infrastructure/retry/retry-policy';
+import { RetryingCarrierClient } from '../../infrastructure/retry/retrying-carrier-client';
+import { CircuitBreaker } from '../../infrastructure/circuit-breaker/circuit-breaker';
+import { CircuitBreakerCarrierClient } from '../../infrastructure/circuit-breaker/circuit-breaker-carrier-client';
+import { InMemoryRateCache } from '../../infrastructure/caching/in-memory-rate-cache';
+import { RateCache } from '../../application/ports/rate-cache';
+import { DhlExpressConfig, loadDhlExpressConfig } from './dhl-config';
+import { DhlExpressRateClient } from './dhl-rate-client';
+import { DhlExpressRateMapper } from './dhl-rate-mapper';
+import { DhlExpressRateCarrier } from './dhl-rate-carrier';
+
+export interface DhlExpressPluginOptions {
+  config?: DhlExpressConfig;
+  httpClient?: HttpClient;
+  logger?: Logger;
+  tracer?: Tracer;
+  instrumentHttp?: boolean;
+  enableRetry?: boolean;
+  retryPolicy?: RetryPolicy;
+  enableCircuitBreaker?: boolean;
+  circuitBreaker?: CircuitBreaker;
+  enableRateCache?: boolean;
+  rateCache?: RateCache;
+}
+
+export function registerDhlExpressRateCarrier(
+  registry: CarrierRegistry,
+  options: DhlExpressPluginOptions = {}
+): {
+  cache?: RateCache;
+} {
+  const config = options.config ?? loadDhlExpressConfig();
+  const logger = options.logger ?? new NoopLogger();
+  const tracer = options.tracer ?? new NoopTracer();
+
+  const baseHttp = options.httpClient ?? new FetchHttpClient(config.timeoutMs);
+  const httpClient =
+    options.instrumentHttp === false
+      ? baseHttp
+      : new InstrumentedHttpClient(baseHttp, { logger, tracer });
+
+  const authProvider = new BasicAuthProvider({
+    username: config.apiKey,
+    password: config.apiSecret
+  });
+  const dhlClient = new DhlExpressRateClient(httpClient, authProvider, config);
+
+  const retryPolicy =
+    options.retryPolicy ??
+    new ExponentialBackoffRetryPolicy({
+      maxAttempts: 3,
+      baseDelayMs: 200,
+      maxDelayMs: 2000,
+      jitterRatio: 0.2
+    });
+
+  const retryWrapped =
+    options.enableRetry === false
+      ? dhlClient
+      : new RetryingCarrierClient('DHL', retryPolicy, dhlClient, logger);
+
+  const breaker = options.circuitBreaker ?? new CircuitBreaker({ failureThreshold: 5, openDurationMs: 30000 });
+  const resilientClient =
+    options.enableCircuitBreaker === false
+      ? retryWrapped
+      : new CircuitBreakerCarrierClient('DHL', breaker, retryWrapped);
+
+  const mapper = new DhlExpressRateMapper({ accountNumber: config.accountNumber });
+  const carrier = new DhlExpressRateCarrier(resilientClient, mapper);
+  registry.registerCarrier(carrier);
+
+  const cache =
+    options.enableRateCache === true
+      ? options.rateCache ?? new InMemoryRateCache({ maxEntries: 500 })
+      : undefined;
+
+  return cache ? { cache } : {};
+}
@@ -0,0 +1,21 @@
+import { envNumber, optionalEnv, requireEnv, EnvReader, processEnv } from '../../config/env';
+
+export interface FedExConfig {
+  clientId: string;
+  clientSecret: string;
+  accountNumber: string;
+  baseUrl: string;
+  authUrl: string;
+  timeoutMs: number;
+}
+
+export function loadFedExConfig(env: EnvReader = processEnv): FedExConfig {
+  return {
+    clientId: requireEnv('FEDEX_CLIENT_ID', env),
+    clientSecret: requireEnv('FEDEX_CLIENT_SECRET', env),
+    accountNumber: requireEnv('FEDEX_ACCOUNT_NUMBER', env),
+    baseUrl: optionalEnv('FEDEX_BASE_URL', env) ?? 'https://apis.fedex.com',
+    authUrl: optionalEnv('FEDEX_AUTH_URL', env) ?? 'https://apis.fedex.com/oauth/token',
+    timeoutMs: envNumber('FEDEX_TIMEOUT_MS', 30000, env)
+  };
+}
@@ -0,0 +1,55 @@
+import { Carrier, CarrierRateContext } from '../../application/ports/carrier';
+import { RateRequest, RateResponse, ServiceLevel } from '../../domain/rates';
+import { fedExRateResponseSchema } from './fedex-schemas';
+import { FedExRateMapper } from './fedex-rate-mapper';
+import { CarrierClient } from '../shared/carrier-client';
+import { createRequestId, safeJsonParse, withCarrierContext } from '../shared/carrier-response';
+import { FedExRateRequest, FEDEX_SERVICE_TYPES } from './fedex-types';
+import { CarrierError, ErrorCode } from '../../domain/errors';
+import { CarrierService } from '../../domain/service-catalog';
+import { FEDEX_SERVICE_CATALOG } from './fedex-service-catalog';
+
+export class FedExRateCarrier implements Carrier {
+  private readonly carrierName = 'FedEx';
+
+  constructor(
+    private readonly client: CarrierClient<FedExRateRequest>,
+    private readonly mapper: FedExRateMapper
+  ) {}
+
+  getName(): string {
+    return this.carrierName;
+  }
+
+  supportsServiceLevel(serviceLevel: ServiceLevel): boolean {
+    return serviceLevel in FEDEX_SERVICE_TYPES;
+  }
+
+  getServiceCatalog(): CarrierService[] {
+    return [...FEDEX_SERVICE_CATALOG];
+  }
+
+  async getRates(request: RateRequest, context: CarrierRateContext = {}): Promise<RateResponse> {
+    const requestId = createRequestId();
+    const signal = context.signal ? { signal: context.signal } : {};
+    try {
+      const fedExRequest = this.mapper.toCarrierRequest(request, context.options);
+      const res = await this.client.send(fedExRequest, { requestId, ...signal });
+
+      const parsedJson = safeJsonParse(res.bodyText);
+      const parsed = fedExRateResponseSchema.safeParse(parsedJson);
+      if (!parsed.success) {
+        throw new CarrierError(
+          ErrorCode.MALFORMED_RESPONSE,
+          'FedEx response failed validation',
+          this.carrierName,
+          { retryable: false, details: { issues: parsed.error.issues } }
+        );
+      }
+
+      return this.mapper.fromCarrierResponse(parsed.data, requestId);
+    } catch (error) {
+      throw withCarrierContext(error, this.carrierName);
+    }
+  }
+}
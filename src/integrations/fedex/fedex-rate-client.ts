@@ -0,0 +1,33 @@
+import { HttpClient, HttpResponse } from '../../application/ports/http-client';
+import { AuthProvider } from '../../application/ports/auth-provider';
+import { CarrierClient, CarrierRequestContext } from '../shared/carrier-client';
+import { sendAuthorizedRequest } from '../shared/authorized-request';
+import { FedExConfig } from './fedex-config';
+import { FedExRateRequest } from './fedex-types';
+
+export class FedExRateClient implements CarrierClient<FedExRateRequest> {
+  private readonly carrierName = 'FedEx';
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly auth: AuthProvider,
+    private readonly config: Pick<FedExConfig, 'baseUrl' | 'timeoutMs'>
+  ) {}
+
+  async send(request: FedExRateRequest, context: CarrierRequestContext): Promise<HttpResponse> {
+    const url = `${this.config.baseUrl}/rate/v1/rates/quotes`;
+
+    return sendAuthorizedRequest(this.httpClient, this.auth, this.carrierName, context.signal, (authorization) => ({
+      method: 'POST',
+      url,
+      timeoutMs: this.config.timeoutMs,
+      headers: {
+        Authorization: authorization,
+        'Content-Type': 'application/json',
+        'X-locale': 'en_US',
+        'x-customer-transaction-id': context.requestId
+      },
+      body: JSON.stringify(request)
+    }));
+  }
+}
@@ -0,0 +1,185 @@
+import { RateMapper } from '../shared/rate-mapper';
+import { ShipmentOptionName, assertSupportedShipmentOptions } from '../shared/shipment-options';
+import { assertSupportedPackaging, requestedPackagingTypes } from '../shared/packaging';
+import { CarrierRateOptions, RateRequest, RateResponse, RateQuote, Address, Package } from '../../domain/rates';
+import { PackagingType, isFlatRatePackaging } from '../../domain/packaging';
+import { CarrierError, ErrorCode, ValidationError } from '../../domain/errors';
+import {
+  FedExRateRequest,
+  FEDEX_SERVICE_TYPES,
+  FEDEX_SERVICE_NAMES,
+  FEDEX_PACKAGING_TYPES,
+  FedExAddress,
+  FedExPackageLineItem
+} from './fedex-types';
+import { FedExRateResponse } from './fedex-schemas';
+import { UnitSystem, convertPackage, roundUp, unitSystemForCountry, unitsForSystem } from '../../domain/units';
+import { moneyToNumber, parseMoney } from '../../domain/money';
+import { findCarrierService, serviceLevelsByCode } from '../../domain/service-catalog';
+import { FEDEX_SERVICE_CATALOG } from './fedex-service-catalog';
+
+const SERVICE_TYPE_TO_LEVEL = serviceLevelsByCode(FEDEX_SERVICE_CATALOG);
+
+const TRANSIT_TIME_DAYS: Record<string, number> = {
+  ONE_DAY: 1,
+  TWO_DAYS: 2,
+  THREE_DAYS: 3,
+  FOUR_DAYS: 4,
+  FIVE_DAYS: 5,
+  SIX_DAYS: 6,
+  SEVEN_DAYS: 7,
+  EIGHT_DAYS: 8,
+  NINE_DAYS: 9,
+  TEN_DAYS: 10
+};
+
+const SUPPORTED_SHIPMENT_OPTIONS: readonly ShipmentOptionName[] = ['residential'];
+
+const SUPPORTED_PACKAGING = Object.keys(FEDEX_PACKAGING_TYPES) as PackagingType[];
+
+export class FedExRateMapper implements RateMapper<FedExRateRequest, FedExRateResponse> {
+  private readonly carrierName = 'FedEx';
+
+  constructor(private readonly config: { accountNumber: string }) {}
+
+  toCarrierRequest(request: RateRequest, options?: CarrierRateOptions): FedExRateRequest {
+    assertSupportedShipmentOptions(this.carrierName, request.shipmentOptions, SUPPORTED_SHIPMENT_OPTIONS);
+    assertSupportedPackaging(this.carrierName, request.packages, SUPPORTED_PACKAGING);
+    const packagingTypes = requestedPackagingTypes(request.packages);
+    if (packagingTypes.length > 1) {
+      throw new ValidationError('FedEx requires every package in a shipment to use the same packaging type', {
+        packagingTypes
+      });
+    }
+
+    const unitSystem = unitSystemForCountry(request.origin.country);
+    const fedExRequest: FedExRateRequest = {
+      accountNumber: { value: options?.accountNumber ?? this.config.accountNumber },
+      rateRequestControlParameters: { returnTransitTimes: true },
+      requestedShipment: {
+        shipper: { address: this.toFedExAddress(request.origin) },
+        recipient: {
+          address: {
+            ...this.toFedExAddress(request.destination),
+            ...(request.shipmentOptions?.residential ? { residential: true } : {})
+          }
+        },
+        pickupType: 'DROPOFF_AT_FEDEX_LOCATION',
+        packagingType: FEDEX_PACKAGING_TYPES[packagingTypes[0]!]!,
+        ...(request.shipDate ? { shipDateStamp: request.shipDate } : {}),
+        rateRequestType: ['LIST', 'ACCOUNT'],
+        requestedPackageLineItems: request.packages.map((pkg) => this.toFedExPackage(pkg, unitSystem))
+      }
+    };
+
+    if (request.carrierService) {
+      const service = findCarrierService(FEDEX_SERVICE_CATALOG, request.carrierService.code);
+      if (!service) {
+        throw new ValidationError(`Unknown FedEx service type: ${request.carrierService.code}`);
+      }
+      fedExRequest.requestedShipment.serviceType = service.code;
+    } else if (request.serviceLevel) {
+      const serviceType = FEDEX_SERVICE_TYPES[request.serviceLevel];
+      if (!serviceType) {
+        throw new ValidationError(`Unsupported service level: ${request.serviceLevel}`);
+      }
+      fedExRequest.requestedShipment.serviceType = serviceType;
+    }
+
+    return fedExRequest;
+  }
+
+  fromCarrierResponse(response: FedExRateResponse, requestId: string): RateResponse {
+    if (response.errors && response.errors.length > 0) {
+      const errorMessages = response.errors.map((e) => e.message ?? e.code).join('; ');
+      throw new CarrierError(
+        ErrorCode.API_ERROR,
+        `FedEx API error: ${errorMessages}`,
+        this.carrierName,
+        { details: { codes: response.errors.map((e) => e.code) } }
+      );
+    }
+
+    const replyDetails = response.output?.rateReplyDetails ?? [];
+    if (replyDetails.length === 0) {
+      throw new CarrierError(
+        ErrorCode.API_ERROR,
+        'FedEx API returned no rate quotes',
+        this.carrierName
+      );
+    }
+
+    const quotes: RateQuote[] = [];
+    for (const detail of replyDetails) {
+      const serviceLevel = SERVICE_TYPE_TO_LEVEL[detail.serviceType] ?? 'other';
+
+      const rated =
+        detail.ratedShipmentDetails.find((r) => r.rateType === 'ACCOUNT') ??
+        detail.ratedShipmentDetails[0];
+      if (!rated) continue;
+
+      const transitTime =
+        detail.operationalDetail?.transitTime ?? detail.commit?.transitDays?.minimumTransitTime;
+      const estimatedDays = transitTime ? TRANSIT_TIME_DAYS[transitTime] : undefined;
+      const commitDateTime = detail.commit?.dateDetail?.dayFormat;
+      const [commitDate, commitTime] = commitDateTime ? commitDateTime.split('T') : [];
+
+      const price = parseMoney(rated.totalNetCharge, rated.currency ?? rated.shipmentRateDetail?.currency ?? 'USD');
+      quotes.push({
+        serviceLevel,
+        serviceName:
+          detail.serviceName ??
+          findCarrierService(FEDEX_SERVICE_CATALOG, detail.serviceType)?.name ??
+          FEDEX_SERVICE_NAMES[serviceLevel] ??
+          `FedEx service ${detail.serviceType}`,
+        carrierServiceCode: detail.serviceType,
+        totalCost: moneyToNumber(price),
+        currency: price.currency,
+        price,
+        ...(estimatedDays !== undefined ? { estimatedDays } : {}),
+        ...(commitDate ? { estimatedDeliveryDate: commitDate } : {}),
+        ...(commitTime ? { deliveryWindow: { end: commitTime.slice(0, 5) } } : {}),
+        carrier: this.carrierName
+      });
+    }
+
+    if (quotes.length === 0) {
+      throw new CarrierError(
+        ErrorCode.API_ERROR,
+        'FedEx API returned no supported rate quotes',
+        this.carrierName,
+        { details: { serviceTypes: replyDetails.map((d) => d.serviceType) } }
+      );
+    }
+
+    return { quotes, requestId };
+  }
+
+  private toFedExAddress(address: Address): FedExAddress {
+    return {
+      streetLines: address.street,
+      city: address.city,
+      ...(address.state ? { stateOrProvinceCode: address.state } : {}),
+      ...(address.postalCode ? { postalCode: address.postalCode } : {}),
+      countryCode: address.country
+    };
+  }
+
+  private toFedExPackage(pkg: Package, unitSystem: UnitSystem): FedExPackageLineItem {
+    const { weightUnit, dimensionUnit } = unitsForSystem(unitSystem);
+    const converted = convertPackage(pkg, weightUnit, dimensionUnit);
+    return {
+      weight: { units: unitSystem === 'imperial' ? 'LB' : 'KG', value: roundUp(converted.weight, 1) },
+      ...(isFlatRatePackaging(pkg.packagingType)
+        ? {}
+        : {
+            dimensions: {
+              length: roundUp(converted.length, 0),
+              width: roundUp(converted.width, 0),
+              height: roundUp(converted.height, 0),
+              units: unitSystem === 'imperial' ? ('IN' as const) : ('CM' as const)
+            }
+          })
+    };
+  }
+}
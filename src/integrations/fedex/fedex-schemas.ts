@@ -0,0 +1,79 @@
+import { z } from 'zod';
+
+const alertSchema = z
+  .object({
+    code: z.string(),
+    message: z.string().optional(),
+    alertType: z.string().optional()
+  })
+  .passthrough();
+
+const errorSchema = z
+  .object({
+    code: z.string(),
+    message: z.string().optional()
+  })
+  .passthrough();
+
+const ratedShipmentDetailSchema = z
+  .object({
+    rateType: z.string().optional(),
+    totalNetCharge: z.number(),
+    totalBaseCharge: z.number().optional(),
+    currency: z.string().optional(),
+    shipmentRateDetail: z
+      .object({
+        currency: z.string().optional()
+      })
+      .passthrough()
+      .optional()
+  })
+  .passthrough();
+
+const rateReplyDetailSchema = z
+  .object({
+    serviceType: z.string(),
+    serviceName: z.string().optional(),
+    ratedShipmentDetails: z.array(ratedShipmentDetailSchema),
+    operationalDetail: z
+      .object({
+        transitTime: z.string().optional(),
+        deliveryDate: z.string().optional()
+      })
+      .passthrough()
+      .optional(),
+    commit: z
+      .object({
+        transitDays: z
+          .object({
+            minimumTransitTime: z.string().optional()
+          })
+          .passthrough()
+          .optional(),
+        dateDetail: z
+          .object({
+            dayFormat: z.string().optional()
+          })
+          .passthrough()
+          .optional()
+      })
+      .passthrough()
+      .optional()
+  })
+  .passthrough();
+
+export const fedExRateResponseSchema = z
+  .object({
+    transactionId: z.string().optional(),
+    output: z
+      .object({
+        rateReplyDetails: z.array(rateReplyDetailSchema).optional(),
+        alerts: z.array(alertSchema).optional()
+      })
+      .passthrough()
+      .optional(),
+    errors: z.array(errorSchema).optional()
+  })
+  .passthrough();
+
+export type FedExRateResponse = z.infer<typeof fedExRateResponseSchema>;
@@ -0,0 +1,108 @@
+import { CarrierService } from '../../domain/service-catalog';
+
+export const FEDEX_SERVICE_CATALOG: readonly CarrierService[] = [
+  {
+    code: 'FEDEX_GROUND',
+    name: 'FedEx Ground',
+    serviceLevel: 'ground',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { guaranteed: false }
+  },
+  {
+    code: 'GROUND_HOME_DELIVERY',
+    name: 'FedEx Home Delivery',
+    serviceLevel: 'ground',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { guaranteed: false }
+  },
+  {
+    code: 'FIRST_OVERNIGHT',
+    name: 'FedEx First Overnight',
+    serviceLevel: 'nextDayAirEarly',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { businessDays: 1, time: '08:00', guaranteed: true }
+  },
+  {
+    code: 'PRIORITY_OVERNIGHT',
+    name: 'FedEx Priority Overnight',
+    serviceLevel: 'express',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { businessDays: 1, time: '10:30', guaranteed: true }
+  },
+  {
+    code: 'STANDARD_OVERNIGHT',
+    name: 'FedEx Standard Overnight',
+    serviceLevel: 'nextDayAir',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { businessDays: 1, time: '17:00', guaranteed: true }
+  },
+  {
+    code: 'FEDEX_2_DAY_AM',
+    name: 'FedEx 2Day A.M.',
+    serviceLevel: 'secondDayAirAM',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { businessDays: 2, time: '10:30', guaranteed: true }
+  },
+  {
+    code: 'FEDEX_2_DAY',
+    name: 'FedEx 2Day',
+    serviceLevel: 'secondDayAir',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { businessDays: 2, guaranteed: true }
+  },
+  {
+    code: 'FEDEX_EXPRESS_SAVER',
+    name: 'FedEx Express Saver',
+    serviceLevel: 'threeDaySelect',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { businessDays: 3, guaranteed: true }
+  },
+  {
+    code: 'INTERNATIONAL_FIRST',
+    name: 'FedEx International First',
+    serviceLevel: 'worldwideExpressPlus',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { guaranteed: true }
+  },
+  {
+    code: 'INTERNATIONAL_PRIORITY',
+    name: 'FedEx International Priority',
+    serviceLevel: 'worldwideExpress',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { guaranteed: true }
+  },
+  {
+    code: 'FEDEX_INTERNATIONAL_PRIORITY',
+    name: 'FedEx International Priority',
+    serviceLevel: 'worldwideExpress',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { guaranteed: true }
+  },
+  {
+    code: 'INTERNATIONAL_ECONOMY',
+    name: 'FedEx International Economy',
+    serviceLevel: 'worldwideExpedited',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { guaranteed: true }
+  },
+  {
+    code: 'FEDEX_INTERNATIONAL_CONNECT_PLUS',
+    name: 'FedEx International Connect Plus',
+    serviceLevel: 'worldwideExpedited',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { guaranteed: false }
+  }
+];
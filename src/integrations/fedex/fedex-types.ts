@@ -0,0 +1,74 @@
+import { PackagingType } from '../../domain/packaging';
+
+export interface FedExAddress {
+  streetLines: string[];
+  city: string;
+  stateOrProvinceCode?: string;
+  postalCode?: string;
+  countryCode: string;
+  residential?: boolean;
+}
+
+export interface FedExPackageLineItem {
+  weight: {
+    units: 'LB' | 'KG';
+    value: number;
+  };
+  dimensions?: {
+    length: number;
+    width: number;
+    height: number;
+    units: 'IN' | 'CM';
+  };
+}
+
+export const FEDEX_PACKAGING_TYPES: Partial<Record<PackagingType, string>> = {
+  custom: 'YOUR_PACKAGING',
+  envelope: 'FEDEX_ENVELOPE',
+  pak: 'FEDEX_PAK',
+  tube: 'FEDEX_TUBE',
+  smallBox: 'FEDEX_SMALL_BOX',
+  mediumBox: 'FEDEX_MEDIUM_BOX',
+  largeBox: 'FEDEX_LARGE_BOX'
+};
+
+export const FEDEX_SERVICE_TYPES: Record<string, string> = {
+  ground: 'FEDEX_GROUND',
+  nextDayAir: 'STANDARD_OVERNIGHT',
+  nextDayAirEarly: 'FIRST_OVERNIGHT',
+  express: 'PRIORITY_OVERNIGHT',
+  secondDayAir: 'FEDEX_2_DAY',
+  secondDayAirAM: 'FEDEX_2_DAY_AM',
+  threeDaySelect: 'FEDEX_EXPRESS_SAVER',
+  worldwideExpress: 'INTERNATIONAL_PRIORITY',
+  worldwideExpressPlus: 'INTERNATIONAL_FIRST',
+  worldwideExpedited: 'INTERNATIONAL_ECONOMY'
+};
+
+export const FEDEX_SERVICE_NAMES: Record<string, string> = {
+  ground: 'FedEx Ground',
+  nextDayAir: 'FedEx Standard Overnight',
+  nextDayAirEarly: 'FedEx First Overnight',
+  express: 'FedEx Priority Overnight',
+  secondDayAir: 'FedEx 2Day',
+  secondDayAirAM: 'FedEx 2Day A.M.',
+  threeDaySelect: 'FedEx Express Saver',
+  worldwideExpress: 'FedEx International Priority',
+  worldwideExpressPlus: 'FedEx International First',
+  worldwideExpedited: 'FedEx International Economy'
+};
+
+export interface FedExRateRequest {
+  accountNumber: { value: string };
+  rateRequestControlParameters?: { returnTransitTimes?: boolean };
+  requestedShipment: {
+    shipper: { address: FedExAddress };
+    recipient: { address: FedExAddress };
+    pickupType: string;
+    packagingType: string;
+    shipDateStamp?: string;
+    serviceType?: string;
+    rateRequestType: string[];
+    requestedPackageLineItems: FedExPackageLineItem[];
+  };
+}
@@ -0,0 +1,7 @@
+import { Address } from '../../domain/rates';
+import { AddressValidationResult } from '../../domain/address-validation';
+
+export interface AddressValidationMapper<CarrierRequest, CarrierResponse> {
+  toCarrierRequest(address: Address): CarrierRequest;
+  fromCarrierResponse(response: CarrierResponse, address: Address): AddressValidationResult;
+}
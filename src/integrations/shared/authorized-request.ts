@@ -0,0 +1,83 @@
+import { HttpClient, HttpRequest, HttpResponse } from '../../application/ports/http-client';
+import { AuthProvider } from '../../application/ports/auth-provider';
+import { AuthError, CarrierError, ErrorCode, RateLimitError } from '../../domain/errors';
+
+export async function sendAuthorizedRequest(
+  httpClient: HttpClient,
+  auth: AuthProvider,
+  carrierName: string,
+  signal: AbortSignal | undefined,
+  buildRequest: (authorization: string) => HttpRequest
+): Promise<HttpResponse> {
+  const attempt = async (): Promise<HttpResponse> => {
+    const authorization = await auth.getAuthorizationHeader(signal);
+    return httpClient.request({ ...buildRequest(authorization), ...(signal ? { signal } : {}) });
+  };
+
+  const first = await attempt();
+
+  if (isUnauthorized(first)) {
+    auth.invalidate();
+    const retry = await attempt();
+    if (isUnauthorized(retry)) throw tokenInvalidError(retry, carrierName);
+    return ensureSuccessStatus(retry, carrierName);
+  }
+
+  return ensureSuccessStatus(first, carrierName);
+}
+
+export async function sendAuthorizedRequestOnce(
+  httpClient: HttpClient,
+  auth: AuthProvider,
+  carrierName: string,
+  signal: AbortSignal | undefined,
+  buildRequest: (authorization: string) => HttpRequest
+): Promise<HttpResponse> {
+  const authorization = await auth.getAuthorizationHeader(signal);
+  const response = await httpClient.request({ ...buildRequest(authorization), ...(signal ? { signal } : {}) });
+  if (isUnauthorized(response)) throw tokenInvalidError(response, carrierName);
+  return ensureSuccessStatus(response, carrierName);
+}
+
+function isUnauthorized(response: HttpResponse): boolean {
+  return response.status === 401 || response.status === 403;
+}
+
+function tokenInvalidError(response: HttpResponse, carrierName: string): AuthError {
+  return new AuthError(
+    ErrorCode.AUTH_TOKEN_INVALID,
+    'Authentication token invalid or expired',
+    carrierName,
+    { status: response.status, body: response.bodyText }
+  );
+}
+
+export function ensureSuccessStatus(response: HttpResponse, carrierName: string): HttpResponse {
+  if (response.status === 429) {
+    throw new RateLimitError(
+      'Rate limit exceeded. Please retry after some time.',
+      carrierName,
+      { status: response.status, body: response.bodyText }
+    );
+  }
+
+  if (response.status >= 500) {
+    throw new CarrierError(
+      ErrorCode.API_ERROR,
+      `Carrier service unavailable (HTTP ${response.status})`,
+      carrierName,
+      { retryable: true, details: { status: response.status, body: response.bodyText } }
+    );
+  }
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new CarrierError(
+      ErrorCode.API_ERROR,
+      `${carrierName} API request failed (HTTP ${response.status})`,
+      carrierName,
+      { retryable: false, details: { status: response.status, body: response.bodyText } }
+    );
+  }
+
+  return response;
+}
@@ -1,6 +1,11 @@
 import { HttpResponse } from '../../application/ports/http-client';
 
+export interface CarrierRequestContext {
+  requestId: string;
+  signal?: AbortSignal;
+}
+
 export interface CarrierClient<CarrierRequest> {
-  send(request: CarrierRequest, context: { requestId: string }): Promise<HttpResponse>;
+  send(request: CarrierRequest, context: CarrierRequestContext): Promise<HttpResponse>;
 }
 
@@ -0,0 +1,52 @@
+import {
+  CancelledError,
+  NetworkError,
+  ServiceError,
+  TimeoutError,
+  UnknownError
+} from '../../domain/errors';
+
+export function withCarrierContext(
+  error: unknown,
+  carrierName: string,
+  unexpectedMessage = 'Unexpected error while fetching rates'
+): ServiceError {
+  if (error instanceof ServiceError) {
+    if (error instanceof CancelledError) return error;
+    if (error instanceof TimeoutError) {
+      return error.carrier === carrierName
+        ? error
+        : new TimeoutError(error.message, carrierName, error.details, error);
+    }
+    if (error instanceof NetworkError) {
+      return error.carrier === carrierName
+        ? error
+        : new NetworkError(error.message, carrierName, error.details, error);
+    }
+    if (error.carrier === carrierName) return error;
+    return new ServiceError(error.message, {
+      code: error.code,
+      carrier: carrierName,
+      retryable: error.retryable,
+      details:
+        error.carrier === 'SYSTEM'
+          ? error.details
+          : { originalCarrier: error.carrier, details: error.details },
+      cause: error
+    });
+  }
+
+  return new UnknownError(unexpectedMessage, carrierName, undefined, error);
+}
+
+export function safeJsonParse(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+export function createRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
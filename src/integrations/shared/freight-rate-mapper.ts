@@ -0,0 +1,7 @@
+import { FreightRateRequest } from '../../domain/freight';
+import { RateResponse } from '../../domain/rates';
+
+export interface FreightRateMapper<CarrierRequest, CarrierResponse> {
+  toCarrierRequest(request: FreightRateRequest): CarrierRequest;
+  fromCarrierResponse(response: CarrierResponse, requestId: string): RateResponse;
+}
@@ -0,0 +1,20 @@
+import { Package } from '../../domain/rates';
+import { DEFAULT_PACKAGING_TYPE, PackagingType } from '../../domain/packaging';
+import { ValidationError } from '../../domain/errors';
+
+export function requestedPackagingTypes(packages: readonly Package[]): PackagingType[] {
+  return [...new Set(packages.map((pkg) => pkg.packagingType ?? DEFAULT_PACKAGING_TYPE))];
+}
+
+export function assertSupportedPackaging(
+  carrierName: string,
+  packages: readonly Package[],
+  supported: readonly PackagingType[]
+): void {
+  const unsupported = requestedPackagingTypes(packages).filter((type) => !supported.includes(type));
+  if (unsupported.length > 0) {
+    throw new ValidationError(`${carrierName} does not support packaging types: ${unsupported.join(', ')}`, {
+      unsupportedPackaging: unsupported
+    });
+  }
+}
@@ -1,7 +1,7 @@
-import { RateRequest, RateResponse } from '../../domain/rates';
+import { CarrierRateOptions, RateRequest, RateResponse } from '../../domain/rates';
 
 export interface RateMapper<CarrierRequest, CarrierResponse> {
-  toCarrierRequest(request: RateRequest): CarrierRequest;
+  toCarrierRequest(request: RateRequest, options?: CarrierRateOptions): CarrierRequest;
   fromCarrierResponse(response: CarrierResponse, requestId: string): RateResponse;
 }
 
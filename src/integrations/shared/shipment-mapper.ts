@@ -0,0 +1,6 @@
+import { Shipment, ShipmentRequest } from '../../domain/shipments';
+
+export interface ShipmentMapper<CarrierRequest, CarrierResponse> {
+  toCarrierRequest(request: ShipmentRequest): CarrierRequest;
+  fromCarrierResponse(response: CarrierResponse, request: ShipmentRequest, requestId: string): Shipment;
+}
@@ -0,0 +1,25 @@
+import { ShipmentOptions } from '../../domain/rates';
+import { ValidationError } from '../../domain/errors';
+
+export type ShipmentOptionName = keyof ShipmentOptions;
+
+export function requestedShipmentOptions(options: ShipmentOptions | undefined): ShipmentOptionName[] {
+  if (!options) return [];
+  return (Object.keys(options) as ShipmentOptionName[]).filter((name) => {
+    const value = options[name];
+    return value !== undefined && value !== false;
+  });
+}
+
+export function assertSupportedShipmentOptions(
+  carrierName: string,
+  options: ShipmentOptions | undefined,
+  supported: readonly ShipmentOptionName[]
+): void {
+  const unsupported = requestedShipmentOptions(options).filter((name) => !supported.includes(name));
+  if (unsupported.length > 0) {
+    throw new ValidationError(`${carrierName} does not support shipment options: ${unsupported.join(', ')}`, {
+      unsupportedOptions: unsupported
+    });
+  }
+}
@@ -0,0 +1,6 @@
+import { TrackingInfo } from '../../domain/tracking';
+
+export interface TrackingMapper<CarrierRequest, CarrierResponse> {
+  toCarrierRequest(trackingNumber: string): CarrierRequest;
+  fromCarrierResponse(response: CarrierResponse, trackingNumber: string): TrackingInfo;
+}
@@ -0,0 +1,6 @@
+import { TransitTimeRequest, TransitTimeResponse } from '../../domain/transit-times';
+
+export interface TransitTimeMapper<CarrierRequest, CarrierResponse> {
+  toCarrierRequest(request: TransitTimeRequest): CarrierRequest;
+  fromCarrierResponse(response: CarrierResponse, requestId: string): TransitTimeResponse;
+}
@@ -15,10 +15,30 @@ import { CircuitBreaker } from '../../infrastructure/circuit-breaker/circuit-bre
 import { CircuitBreakerCarrierClient } from '../../infrastructure/circuit-breaker/circuit-breaker-carrier-client';
 import { InMemoryRateCache } from '../../infrastructure/caching/in-memory-rate-cache';
 import { RateCache } from '../../application/ports/rate-cache';
+import { AuthProvider } from '../../application/ports/auth-provider';
+import { CarrierClient } from '../shared/carrier-client';
+import { ConfigError, ErrorCode } from '../../domain/errors';
 import { UpsConfig, loadUpsConfig } from './ups-config';
 import { UpsRateClient } from './ups-rate-client';
 import { UpsRateMapper } from './ups-rate-mapper';
 import { UpsRateCarrier } from './ups-rate-carrier';
+import { UpsLandedCostClient } from './ups-landed-cost-client';
+import { UpsLandedCostMapper } from './ups-landed-cost-mapper';
+import { UpsShipClient } from './ups-ship-client';
+import { UpsShipmentMapper } from './ups-shipment-mapper';
+import { UpsShippingCarrier } from './ups-shipping-carrier';
+import { UpsTrackClient } from './ups-track-client';
+import { UpsTrackingMapper } from './ups-tracking-mapper';
+import { UpsTrackingCarrier } from './ups-tracking-carrier';
+import { UpsAddressValidationClient } from './ups-address-validation-client';
+import { UpsAddressValidationMapper } from './ups-address-validation-mapper';
+import { UpsAddressValidationCarrier } from './ups-address-validation-carrier';
+import { UpsTransitTimeClient } from './ups-transit-time-client';
+import { UpsTransitTimeMapper } from './ups-transit-time-mapper';
+import { UpsTransitTimeCarrier } from './ups-transit-time-carrier';
+import { UpsFreightRateClient } from './ups-freight-client';
+import { UpsFreightRateMapper } from './ups-freight-mapper';
+import { UpsFreightCarrier } from './ups-freight-carrier';
 
 export interface UpsPluginOptions {
   config?: UpsConfig;
@@ -32,11 +52,147 @@ export interface UpsPluginOptions {
   circuitBreaker?: CircuitBreaker;
   enableRateCache?: boolean;
   rateCache?: RateCache;
+  enableLandedCost?: boolean;
+  landedCostCircuitBreaker?: CircuitBreaker;
 }
 
 export function registerUpsRateCarrier(registry: CarrierRegistry, options: UpsPluginOptions = {}): {
   cache?: RateCache;
 } {
+  const context = createUpsPluginContext(options);
+  const { config } = context;
+
+  const upsClient = new UpsRateClient(context.httpClient, context.authProvider, config);
+  const retryPolicy = options.retryPolicy ?? createDefaultRetryPolicy();
+
+  const resilientClient = context.withResilience(upsClient, retryPolicy);
+  const mapper = new UpsRateMapper(config.accountNumber ? { accountNumber: config.accountNumber } : {});
+  const landedCost =
+    options.enableLandedCost === true
+      ? {
+          client: context.withCircuitBreaker(
+            new UpsLandedCostClient(context.httpClient, context.authProvider, config),
+            options.landedCostCircuitBreaker ?? createDefaultCircuitBreaker()
+          ),
+          mapper: new UpsLandedCostMapper(),
+          logger: context.logger
+        }
+      : undefined;
+  const carrier = new UpsRateCarrier(resilientClient, mapper, landedCost);
+  registry.registerCarrier(carrier);
+
+  const cache =
+    options.enableRateCache === true
+      ? options.rateCache ?? new InMemoryRateCache({ maxEntries: 500 })
+      : undefined;
+
+  return cache ? { cache } : {};
+}
+
+export function registerUpsShippingCarrier(
+  registry: CarrierRegistry,
+  options: UpsPluginOptions = {}
+): void {
+  const context = createUpsPluginContext(options);
+  const { config } = context;
+  if (!config.accountNumber) {
+    throw new ConfigError('UPS shipping requires UPS_ACCOUNT_NUMBER to be configured');
+  }
+
+  const shipClient = new UpsShipClient(context.httpClient, context.authProvider, config);
+  const retryPolicy =
+    options.retryPolicy ??
+    new ExponentialBackoffRetryPolicy({
+      maxAttempts: 3,
+      baseDelayMs: 200,
+      maxDelayMs: 2000,
+      jitterRatio: 0.2,
+      retryableCodes: [ErrorCode.RATE_LIMIT_EXCEEDED, ErrorCode.AUTH_TOKEN_INVALID]
+    });
+
+  const resilientClient = context.withResilience(shipClient, retryPolicy);
+  const mapper = new UpsShipmentMapper({ accountNumber: config.accountNumber });
+  registry.registerShippingCarrier(new UpsShippingCarrier(resilientClient, mapper));
+}
+
+export function registerUpsTrackingCarrier(
+  registry: CarrierRegistry,
+  options: UpsPluginOptions = {}
+): void {
+  const context = createUpsPluginContext(options);
+
+  const trackClient = new UpsTrackClient(context.httpClient, context.authProvider, context.config);
+  const retryPolicy = options.retryPolicy ?? createDefaultRetryPolicy();
+  const resilientClient = context.withResilience(trackClient, retryPolicy);
+  registry.registerTrackingCarrier(new UpsTrackingCarrier(resilientClient, new UpsTrackingMapper()));
+}
+
+export function registerUpsAddressValidationCarrier(
+  registry: CarrierRegistry,
+  options: UpsPluginOptions = {}
+): void {
+  const context = createUpsPluginContext(options);
+
+  const xavClient = new UpsAddressValidationClient(context.httpClient, context.authProvider, context.config);
+  const retryPolicy = options.retryPolicy ?? createDefaultRetryPolicy();
+  const resilientClient = context.withResilience(xavClient, retryPolicy);
+  registry.registerAddressValidationCarrier(
+    new UpsAddressValidationCarrier(resilientClient, new UpsAddressValidationMapper())
+  );
+}
+
+export function registerUpsTransitTimeCarrier(
+  registry: CarrierRegistry,
+  options: UpsPluginOptions = {}
+): void {
+  const context = createUpsPluginContext(options);
+
+  const tntClient = new UpsTransitTimeClient(context.httpClient, context.authProvider, context.config);
+  const retryPolicy = options.retryPolicy ?? createDefaultRetryPolicy();
+  const resilientClient = context.withResilience(tntClient, retryPolicy);
+  registry.registerTransitTimeCarrier(new UpsTransitTimeCarrier(resilientClient, new UpsTransitTimeMapper()));
+}
+
+export function registerUpsFreightCarrier(
+  registry: CarrierRegistry,
+  options: UpsPluginOptions = {}
+): void {
+  const context = createUpsPluginContext(options);
+  const { config } = context;
+  if (!config.accountNumber) {
+    throw new ConfigError('UPS freight rating requires UPS_ACCOUNT_NUMBER to be configured');
+  }
+
+  const freightClient = new UpsFreightRateClient(context.httpClient, context.authProvider, config);
+  const retryPolicy = options.retryPolicy ?? createDefaultRetryPolicy();
+  const resilientClient = context.withResilience(freightClient, retryPolicy);
+  const mapper = new UpsFreightRateMapper({ accountNumber: config.accountNumber });
+  registry.registerFreightCarrier(new UpsFreightCarrier(resilientClient, mapper));
+}
+
+function createDefaultCircuitBreaker(): CircuitBreaker {
+  return new CircuitBreaker({ failureThreshold: 5, openDurationMs: 30000 });
+}
+
+function createDefaultRetryPolicy(): RetryPolicy {
+  return new ExponentialBackoffRetryPolicy({
+    maxAttempts: 3,
+    baseDelayMs: 200,
+    maxDelayMs: 2000,
+    jitterRatio: 0.2
+  });
+}
+
+interface UpsPluginContext {
+  config: UpsConfig;
+  logger: Logger;
+  httpClient: HttpClient;
+  authProvider: AuthProvider;
+  withResilience<T>(client: CarrierClient<T>, retryPolicy: RetryPolicy): CarrierClient<T>;
+  withCircuitBreaker<T>(client: CarrierClient<T>, breaker: CircuitBreaker): CarrierClient<T>;
+}
+
+function createUpsPluginContext(options: UpsPluginOptions): UpsPluginContext {
   const config = options.config ?? loadUpsConfig();
   const logger = options.logger ?? new NoopLogger();
   const tracer = options.tracer ?? new NoopTracer();
@@ -55,37 +211,24 @@ export function registerUpsRateCarrier(registry: CarrierRegistry, options: UpsPl
   });
 
   const authProvider = new ClientCredentialsAuthProvider(oauthClient);
-  const upsClient = new UpsRateClient(httpClient, authProvider, config);
+  const breaker = options.circuitBreaker ?? createDefaultCircuitBreaker();
 
-  const retryPolicy =
-    options.retryPolicy ??
-    new ExponentialBackoffRetryPolicy({
-      maxAttempts: 3,
-      baseDelayMs: 200,
-      maxDelayMs: 2000,
-      jitterRatio: 0.2
-    });
+  const withCircuitBreaker = <T>(client: CarrierClient<T>, circuitBreaker: CircuitBreaker): CarrierClient<T> =>
+    options.enableCircuitBreaker === false ? client : new CircuitBreakerCarrierClient('UPS', circuitBreaker, client);
 
-  const retryWrapped =
-    options.enableRetry === false
-      ? upsClient
-      : new RetryingCarrierClient('UPS', retryPolicy, upsClient, logger);
-
-  const breaker = options.circuitBreaker ?? new CircuitBreaker({ failureThreshold: 5, openDurationMs: 30000 });
-  const resilientClient =
-    options.enableCircuitBreaker === false
-      ? retryWrapped
-      : new CircuitBreakerCarrierClient('UPS', breaker, retryWrapped);
-
-  const mapper = new UpsRateMapper(config.accountNumber ? { accountNumber: config.accountNumber } : {});
-  const carrier = new UpsRateCarrier(resilientClient, mapper);
-  registry.registerCarrier(carrier);
+  return {
+    config,
+    logger,
+    httpClient,
+    authProvider,
+    withResilience<T>(client: CarrierClient<T>, retryPolicy: RetryPolicy): CarrierClient<T> {
+      const retryWrapped =
+        options.enableRetry === false
+          ? client
+          : new RetryingCarrierClient('UPS', retryPolicy, client, logger);
 
-  const cache =
-    options.enableRateCache === true
-      ? options.rateCache ?? new InMemoryRateCache({ maxEntries: 500 })
-      : undefined;
-
-  return cache ? { cache } : {};
+      return withCircuitBreaker(retryWrapped, breaker);
+    },
+    withCircuitBreaker
+  };
 }
-
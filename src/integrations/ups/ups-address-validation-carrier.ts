@@ -0,0 +1,45 @@
+import { AddressValidationCarrier } from '../../application/ports/address-validation-carrier';
+import { Address } from '../../domain/rates';
+import { AddressValidationResult } from '../../domain/address-validation';
+import { upsAddressValidationResponseSchema } from './ups-address-validation-schemas';
+import { UpsAddressValidationMapper } from './ups-address-validation-mapper';
+import { UpsAddressValidationRequest } from './ups-types';
+import { CarrierClient } from '../shared/carrier-client';
+import { createRequestId, safeJsonParse, withCarrierContext } from '../shared/carrier-response';
+import { CarrierError, ErrorCode } from '../../domain/errors';
+
+export class UpsAddressValidationCarrier implements AddressValidationCarrier {
+  private readonly carrierName = 'UPS';
+
+  constructor(
+    private readonly client: CarrierClient<UpsAddressValidationRequest>,
+    private readonly mapper: UpsAddressValidationMapper
+  ) {}
+
+  getName(): string {
+    return this.carrierName;
+  }
+
+  async validateAddress(address: Address): Promise<AddressValidationResult> {
+    const requestId = createRequestId();
+    try {
+      const upsRequest = this.mapper.toCarrierRequest(address);
+      const res = await this.client.send(upsRequest, { requestId });
+
+      const parsedJson = safeJsonParse(res.bodyText);
+      const parsed = upsAddressValidationResponseSchema.safeParse(parsedJson);
+      if (!parsed.success) {
+        throw new CarrierError(
+          ErrorCode.MALFORMED_RESPONSE,
+          'UPS address validation response failed validation',
+          this.carrierName,
+          { retryable: false, details: { issues: parsed.error.issues } }
+        );
+      }
+
+      return this.mapper.fromCarrierResponse(parsed.data, address);
+    } catch (error) {
+      throw withCarrierContext(error, this.carrierName, 'Unexpected error while validating address');
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { HttpClient, HttpResponse } from '../../application/ports/http-client';
+import { AuthProvider } from '../../application/ports/auth-provider';
+import { CarrierClient, CarrierRequestContext } from '../shared/carrier-client';
+import { sendAuthorizedRequest } from '../shared/authorized-request';
+import { UpsConfig } from './ups-config';
+import { UpsAddressValidationRequest } from './ups-types';
+
+const REQUEST_OPTION_VALIDATION_AND_CLASSIFICATION = 3;
+const MAXIMUM_CANDIDATES = 5;
+
+export class UpsAddressValidationClient implements CarrierClient<UpsAddressValidationRequest> {
+  private readonly carrierName = 'UPS';
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly auth: AuthProvider,
+    private readonly config: Pick<UpsConfig, 'baseUrl' | 'timeoutMs'>
+  ) {}
+
+  async send(request: UpsAddressValidationRequest, context: CarrierRequestContext): Promise<HttpResponse> {
+    const url =
+      `${this.config.baseUrl}/api/addressvalidation/v2/${REQUEST_OPTION_VALIDATION_AND_CLASSIFICATION}` +
+      `?regionalrequestindicator=false&maximumcandidatelistsize=${MAXIMUM_CANDIDATES}`;
+
+    return sendAuthorizedRequest(this.httpClient, this.auth, this.carrierName, context.signal, (authorization) => ({
+      method: 'POST',
+      url,
+      timeoutMs: this.config.timeoutMs,
+      headers: {
+        Authorization: authorization,
+        'Content-Type': 'application/json',
+        transId: context.requestId,
+        transactionSrc: 'Cybership'
+      },
+      body: JSON.stringify(request)
+    }));
+  }
+}
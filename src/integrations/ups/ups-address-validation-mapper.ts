@@ -0,0 +1,99 @@
+import { AddressValidationMapper } from '../shared/address-validation-mapper';
+import { Address } from '../../domain/rates';
+import {
+  AddressCandidate,
+  AddressClassification,
+  AddressValidationResult,
+  AddressValidationStatus
+} from '../../domain/address-validation';
+import { ValidationError } from '../../domain/errors';
+import { UpsAddressValidationResponse } from './ups-address-validation-schemas';
+import { UpsAddressValidationRequest } from './ups-types';
+
+type UpsCandidate = Extract<
+  NonNullable<UpsAddressValidationResponse['XAVResponse']['Candidate']>,
+  unknown[]
+>[number];
+
+const SUPPORTED_COUNTRIES = new Set(['US', 'PR']);
+
+const CLASSIFICATION_CODES: Record<string, AddressClassification> = {
+  '0': 'unknown',
+  '1': 'commercial',
+  '2': 'residential'
+};
+
+export class UpsAddressValidationMapper
+  implements AddressValidationMapper<UpsAddressValidationRequest, UpsAddressValidationResponse>
+{
+  private readonly carrierName = 'UPS';
+
+  toCarrierRequest(address: Address): UpsAddressValidationRequest {
+    if (!SUPPORTED_COUNTRIES.has(address.country)) {
+      throw new ValidationError(`UPS address validation does not support country: ${address.country}`);
+    }
+
+    const [primary, extended] = address.postalCode?.split('-') ?? [];
+    return {
+      XAVRequest: {
+        AddressKeyFormat: {
+          AddressLine: address.street,
+          PoliticalDivision2: address.city,
+          ...(address.state ? { PoliticalDivision1: address.state } : {}),
+          ...(primary ? { PostcodePrimaryLow: primary } : {}),
+          ...(extended ? { PostcodeExtendedLow: extended } : {}),
+          CountryCode: address.country
+        }
+      }
+    };
+  }
+
+  fromCarrierResponse(response: UpsAddressValidationResponse, address: Address): AddressValidationResult {
+    const xav = response.XAVResponse;
+    const rawCandidates = xav.Candidate === undefined ? [] : [xav.Candidate].flat();
+    const candidates = rawCandidates.map((candidate) => this.toCandidate(candidate, address));
+
+    const status = this.toStatus(xav, candidates.length);
+    const standardized = status === 'valid' ? candidates[0] : undefined;
+
+    return {
+      carrier: this.carrierName,
+      status,
+      classification: standardized?.classification ?? toClassification(xav.AddressClassification?.Code),
+      input: address,
+      ...(standardized ? { standardizedAddress: standardized.address } : {}),
+      candidates
+    };
+  }
+
+  private toStatus(
+    xav: UpsAddressValidationResponse['XAVResponse'],
+    candidateCount: number
+  ): AddressValidationStatus {
+    if (xav.ValidAddressIndicator !== undefined && candidateCount > 0) return 'valid';
+    if (xav.AmbiguousAddressIndicator !== undefined && candidateCount > 0) return 'ambiguous';
+    return 'invalid';
+  }
+
+  private toCandidate(candidate: UpsCandidate, fallback: Address): AddressCandidate {
+    const key = candidate.AddressKeyFormat;
+    const street = key.AddressLine === undefined ? fallback.street : [key.AddressLine].flat();
+    const primary = key.PostcodePrimaryLow ?? fallback.postalCode;
+    const state = key.PoliticalDivision1 ?? fallback.state;
+
+    return {
+      address: {
+        street,
+        city: key.PoliticalDivision2 ?? fallback.city,
+        ...(state ? { state } : {}),
+        ...(primary ? { postalCode: key.PostcodeExtendedLow ? `${primary}-${key.PostcodeExtendedLow}` : primary } : {}),
+        country: key.CountryCode ?? fallback.country
+      },
+      classification: toClassification(candidate.AddressClassification?.Code)
+    };
+  }
+}
+
+function toClassification(code: string | undefined): AddressClassification {
+  return (code && CLASSIFICATION_CODES[code]) || 'unknown';
+}
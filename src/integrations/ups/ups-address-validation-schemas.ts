@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+const classificationSchema = z
+  .object({
+    Code: z.string(),
+    Description: z.string().optional()
+  })
+  .passthrough();
+
+const candidateSchema = z
+  .object({
+    AddressClassification: classificationSchema.optional(),
+    AddressKeyFormat: z
+      .object({
+        AddressLine: z.union([z.array(z.string()), z.string()]).optional(),
+        PoliticalDivision2: z.string().optional(),
+        PoliticalDivision1: z.string().optional(),
+        PostcodePrimaryLow: z.string().optional(),
+        PostcodeExtendedLow: z.string().optional(),
+        CountryCode: z.string().optional()
+      })
+      .passthrough()
+  })
+  .passthrough();
+
+export const upsAddressValidationResponseSchema = z
+  .object({
+    XAVResponse: z
+      .object({
+        ValidAddressIndicator: z.string().optional(),
+        AmbiguousAddressIndicator: z.string().optional(),
+        NoCandidatesIndicator: z.string().optional(),
+        AddressClassification: classificationSchema.optional(),
+        Candidate: z.union([z.array(candidateSchema), candidateSchema]).optional()
+      })
+      .passthrough()
+  })
+  .passthrough();
+
+export type UpsAddressValidationResponse = z.infer<typeof upsAddressValidationResponseSchema>;
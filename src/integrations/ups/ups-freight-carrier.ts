@@ -0,0 +1,45 @@
+import { FreightCarrier } from '../../application/ports/freight-carrier';
+import { FreightRateRequest } from '../../domain/freight';
+import { RateResponse } from '../../domain/rates';
+import { upsFreightRateResponseSchema } from './ups-freight-schemas';
+import { UpsFreightRateMapper } from './ups-freight-mapper';
+import { UpsFreightRateRequest } from './ups-types';
+import { CarrierClient } from '../shared/carrier-client';
+import { createRequestId, safeJsonParse, withCarrierContext } from '../shared/carrier-response';
+import { CarrierError, ErrorCode } from '../../domain/errors';
+
+export class UpsFreightCarrier implements FreightCarrier {
+  private readonly carrierName = 'UPS';
+
+  constructor(
+    private readonly client: CarrierClient<UpsFreightRateRequest>,
+    private readonly mapper: UpsFreightRateMapper
+  ) {}
+
+  getName(): string {
+    return this.carrierName;
+  }
+
+  async getFreightRates(request: FreightRateRequest): Promise<RateResponse> {
+    const requestId = createRequestId();
+    try {
+      const upsRequest = this.mapper.toCarrierRequest(request);
+      const res = await this.client.send(upsRequest, { requestId });
+
+      const parsedJson = safeJsonParse(res.bodyText);
+      const parsed = upsFreightRateResponseSchema.safeParse(parsedJson);
+      if (!parsed.success) {
+        throw new CarrierError(
+          ErrorCode.MALFORMED_RESPONSE,
+          'UPS freight response failed validation',
+          this.carrierName,
+          { retryable: false, details: { issues: parsed.error.issues } }
+        );
+      }
+
+      return this.mapper.fromCarrierResponse(parsed.data, requestId);
+    } catch (error) {
+      throw withCarrierContext(error, this.carrierName, 'Unexpected error while fetching freight rates');
+    }
+  }
+}
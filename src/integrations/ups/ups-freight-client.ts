@@ -0,0 +1,33 @@
+import { HttpClient, HttpResponse } from '../../application/ports/http-client';
+import { AuthProvider } from '../../application/ports/auth-provider';
+import { CarrierClient, CarrierRequestContext } from '../shared/carrier-client';
+import { sendAuthorizedRequest } from '../shared/authorized-request';
+import { UpsConfig } from './ups-config';
+import { UpsFreightRateRequest } from './ups-types';
+
+export class UpsFreightRateClient implements CarrierClient<UpsFreightRateRequest> {
+  private readonly carrierName = 'UPS';
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly auth: AuthProvider,
+    private readonly config: Pick<UpsConfig, 'baseUrl' | 'timeoutMs'>
+  ) {}
+
+  async send(request: UpsFreightRateRequest, context: CarrierRequestContext): Promise<HttpResponse> {
+    const url = `${this.config.baseUrl}/api/freight/v1/rating/ground`;
+
+    return sendAuthorizedRequest(this.httpClient, this.auth, this.carrierName, context.signal, (authorization) => ({
+      method: 'POST',
+      url,
+      timeoutMs: this.config.timeoutMs,
+      headers: {
+        Authorization: authorization,
+        'Content-Type': 'application/json',
+        transId: context.requestId,
+        transactionSrc: 'Cybership'
+      },
+      body: JSON.stringify(request)
+    }));
+  }
+}
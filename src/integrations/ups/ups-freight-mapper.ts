@@ -0,0 +1,190 @@
+import { FreightRateMapper } from '../shared/freight-rate-mapper';
+import { FreightAccessorial, FreightRateRequest, HandlingUnit, HandlingUnitType } from '../../domain/freight';
+import { Address, RateQuote, RateResponse, ServiceLevel } from '../../domain/rates';
+import { CarrierError, ErrorCode, ValidationError } from '../../domain/errors';
+import { UnitSystem, convertPackage, roundUp, unitSystemForCountry, unitsForSystem } from '../../domain/units';
+import { moneyToNumber, parseMoney } from '../../domain/money';
+import { UpsFreightRateResponse } from './ups-freight-schemas';
+import {
+  UPS_FREIGHT_SERVICE_CODES,
+  UPS_FREIGHT_SERVICE_NAMES,
+  UPS_UNIT_CODES,
+  UpsFreightCommodity,
+  UpsFreightHandlingUnit,
+  UpsFreightParty,
+  UpsFreightRateRequest
+} from './ups-types';
+
+const HANDLING_UNIT_CODES: Record<HandlingUnitType, string> = {
+  pallet: 'PLT',
+  skid: 'SKD',
+  tote: 'TOT',
+  loose: 'LOO',
+  other: 'OTH'
+};
+
+const ACCESSORIAL_OPTIONS: Record<FreightAccessorial, { group: 'PickupOptions' | 'DeliveryOptions'; field: string }> = {
+  liftgatePickup: { group: 'PickupOptions', field: 'LiftGateRequiredIndicator' },
+  liftgateDelivery: { group: 'DeliveryOptions', field: 'LiftGateRequiredIndicator' },
+  insidePickup: { group: 'PickupOptions', field: 'InsidePickupIndicator' },
+  insideDelivery: { group: 'DeliveryOptions', field: 'InsideDeliveryIndicator' },
+  residentialPickup: { group: 'PickupOptions', field: 'ResidentialPickupIndicator' },
+  residentialDelivery: { group: 'DeliveryOptions', field: 'ResidentialDeliveryIndicator' },
+  limitedAccessPickup: { group: 'PickupOptions', field: 'LimitedAccessPickupIndicator' },
+  limitedAccessDelivery: { group: 'DeliveryOptions', field: 'LimitedAccessDeliveryIndicator' },
+  appointmentDelivery: { group: 'DeliveryOptions', field: 'CallBeforeDeliveryIndicator' }
+};
+
+const SERVICE_CODE_TO_LEVEL: Record<string, ServiceLevel> = {
+  '308': 'ltlStandard',
+  '309': 'ltlGuaranteed'
+};
+
+export class UpsFreightRateMapper implements FreightRateMapper<UpsFreightRateRequest, UpsFreightRateResponse> {
+  private readonly carrierName = 'UPS';
+
+  constructor(private readonly config: { accountNumber: string }) {}
+
+  toCarrierRequest(request: FreightRateRequest): UpsFreightRateRequest {
+    const unitSystem = unitSystemForCountry(request.origin.country);
+    const handlingUnits = this.toHandlingUnits(request.handlingUnits);
+    const [handlingUnitOne, handlingUnitTwo] = handlingUnits;
+    if (!handlingUnitOne) {
+      throw new ValidationError('UPS freight requires at least one handling unit');
+    }
+    if (handlingUnits.length > 2) {
+      throw new ValidationError('UPS freight supports at most two handling unit types per shipment');
+    }
+
+    const serviceLevel = request.serviceLevel ?? 'ltlStandard';
+    const upsRequest: UpsFreightRateRequest = {
+      FreightRateRequest: {
+        ShipFrom: this.toParty('Shipper', request.origin),
+        ShipTo: this.toParty('Consignee', request.destination),
+        PaymentInformation: {
+          Payer: { ...this.toParty('Shipper', request.origin), ShipperNumber: this.config.accountNumber },
+          ShipmentBillingOption: { Code: '10' }
+        },
+        Service: { Code: UPS_FREIGHT_SERVICE_CODES[serviceLevel]! },
+        HandlingUnitOne: handlingUnitOne,
+        ...(handlingUnitTwo ? { HandlingUnitTwo: handlingUnitTwo } : {}),
+        Commodity: request.handlingUnits.map((unit) => this.toCommodity(unit, unitSystem)),
+        ...(request.shipDate ? { PickupRequest: { PickupDate: request.shipDate.replace(/-/g, '') } } : {}),
+        TimeInTransitIndicator: ''
+      }
+    };
+
+    const serviceOptions = this.toServiceOptions(request.accessorials ?? []);
+    if (serviceOptions) {
+      upsRequest.FreightRateRequest.ShipmentServiceOptions = serviceOptions;
+    }
+
+    return upsRequest;
+  }
+
+  fromCarrierResponse(response: UpsFreightRateResponse, requestId: string): RateResponse {
+    const { Response, Service, TotalShipmentCharge, TimeInTransit, GuaranteedIndicator } =
+      response.FreightRateResponse;
+
+    if (Response.ResponseStatus.Code !== '1') {
+      throw new CarrierError(
+        ErrorCode.API_ERROR,
+        `UPS freight API error: ${Response.ResponseStatus.Description}`,
+        this.carrierName,
+        { details: { code: Response.ResponseStatus.Code } }
+      );
+    }
+
+    if (!TotalShipmentCharge) {
+      throw new CarrierError(ErrorCode.API_ERROR, 'UPS freight API returned no rate', this.carrierName);
+    }
+
+    const serviceLevel = SERVICE_CODE_TO_LEVEL[Service?.Code ?? '308'];
+    if (!serviceLevel) {
+      throw new CarrierError(
+        ErrorCode.API_ERROR,
+        `UPS freight API returned an unsupported service: ${Service?.Code}`,
+        this.carrierName
+      );
+    }
+
+    const transitDays = TimeInTransit ? parseInt(TimeInTransit.DaysInTransit, 10) : NaN;
+    const price = parseMoney(TotalShipmentCharge.MonetaryValue, TotalShipmentCharge.CurrencyCode);
+    const quote: RateQuote = {
+      serviceLevel,
+      serviceName: UPS_FREIGHT_SERVICE_NAMES[serviceLevel] ?? 'TForce Freight',
+      carrierServiceCode: Service?.Code ?? '308',
+      totalCost: moneyToNumber(price),
+      currency: price.currency,
+      price,
+      ...(!Number.isNaN(transitDays) ? { estimatedDays: transitDays } : {}),
+      guaranteed: serviceLevel === 'ltlGuaranteed' || GuaranteedIndicator !== undefined,
+      mode: 'ltl',
+      carrier: this.carrierName
+    };
+
+    return { quotes: [quote], requestId };
+  }
+
+  private toHandlingUnits(units: HandlingUnit[]): UpsFreightHandlingUnit[] {
+    const quantities = new Map<HandlingUnitType, number>();
+    for (const unit of units) {
+      quantities.set(unit.type, (quantities.get(unit.type) ?? 0) + unit.quantity);
+    }
+    return [...quantities].map(([type, quantity]) => ({
+      Quantity: quantity.toString(),
+      Type: { Code: HANDLING_UNIT_CODES[type] }
+    }));
+  }
+
+  private toCommodity(unit: HandlingUnit, unitSystem: UnitSystem): UpsFreightCommodity {
+    const { weightUnit, dimensionUnit } = unitsForSystem(unitSystem);
+    const converted = convertPackage(unit, weightUnit, dimensionUnit);
+    const codes = UPS_UNIT_CODES[unitSystem];
+    const [primeCode, subCode] = unit.nmfcCode?.split('-') ?? [];
+
+    return {
+      Description: unit.description,
+      Weight: {
+        UnitOfMeasurement: { Code: codes.weight },
+        Value: roundUp(converted.weight * unit.quantity, 1).toString()
+      },
+      Dimensions: {
+        UnitOfMeasurement: { Code: codes.dimension },
+        Length: roundUp(converted.length, 0).toString(),
+        Width: roundUp(converted.width, 0).toString(),
+        Height: roundUp(converted.height, 0).toString()
+      },
+      NumberOfPieces: unit.quantity.toString(),
+      PackagingType: { Code: HANDLING_UNIT_CODES[unit.type] },
+      FreightClass: unit.freightClass,
+      ...(primeCode ? { NMFCCommodity: { PrimeCode: primeCode, ...(subCode ? { SubCode: subCode } : {}) } } : {})
+    };
+  }
+
+  private toServiceOptions(
+    accessorials: FreightAccessorial[]
+  ): NonNullable<UpsFreightRateRequest['FreightRateRequest']['ShipmentServiceOptions']> | undefined {
+    if (accessorials.length === 0) return undefined;
+
+    const options: { PickupOptions?: Record<string, string>; DeliveryOptions?: Record<string, string> } = {};
+    for (const accessorial of accessorials) {
+      const { group, field } = ACCESSORIAL_OPTIONS[accessorial];
+      options[group] = { ...options[group], [field]: '' };
+    }
+    return options;
+  }
+
+  private toParty(name: string, address: Address): UpsFreightParty {
+    return {
+      Name: name,
+      Address: {
+        AddressLine: address.street,
+        City: address.city,
+        ...(address.state ? { StateProvinceCode: address.state } : {}),
+        ...(address.postalCode ? { PostalCode: address.postalCode } : {}),
+        CountryCode: address.country
+      }
+    };
+  }
+}
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+
+const moneySchema = z
+  .object({
+    CurrencyCode: z.string(),
+    MonetaryValue: z.string()
+  })
+  .passthrough();
+
+const rateSchema = z
+  .object({
+    Type: z
+      .object({
+        Code: z.string(),
+        Description: z.string().optional()
+      })
+      .passthrough(),
+    Factor: z
+      .object({
+        Value: z.string(),
+        UnitOfMeasurement: z.object({ Code: z.string() }).passthrough().optional()
+      })
+      .passthrough()
+  })
+  .passthrough();
+
+export const upsFreightRateResponseSchema = z
+  .object({
+    FreightRateResponse: z
+      .object({
+        Response: z
+          .object({
+            ResponseStatus: z
+              .object({
+                Code: z.string(),
+                Description: z.string()
+              })
+              .passthrough()
+          })
+          .passthrough(),
+        Service: z.object({ Code: z.string() }).passthrough().optional(),
+        Rate: z.union([z.array(rateSchema), rateSchema]).optional(),
+        TotalShipmentCharge: moneySchema.optional(),
+        BillableShipmentWeight: z
+          .object({
+            UnitOfMeasurement: z.object({ Code: z.string() }).passthrough(),
+            Value: z.string()
+          })
+          .passthrough()
+          .optional(),
+        GuaranteedIndicator: z.string().optional(),
+        TimeInTransit: z
+          .object({
+            DaysInTransit: z.string()
+          })
+          .passthrough()
+          .optional()
+      })
+      .passthrough()
+  })
+  .passthrough();
+
+export type UpsFreightRateResponse = z.infer<typeof upsFreightRateResponseSchema>;
@@ -0,0 +1,61 @@
+import { DutiesAndTaxes, RateRequest } from '../../domain/rates';
+import { ValidationError } from '../../domain/errors';
+import { Money, parseMoney, sumMoney } from '../../domain/money';
+import { UpsLandedCostResponse } from './ups-landed-cost-schemas';
+import { UpsLandedCostRequest } from './ups-types';
+
+const GROUND_SERVICE_LEVELS = new Set(['ground', 'standard']);
+
+export class UpsLandedCostMapper {
+  toCarrierRequest(request: RateRequest, requestId: string): UpsLandedCostRequest {
+    const { customs } = request;
+    if (!customs) {
+      throw new ValidationError('UPS landed cost requires customs information');
+    }
+
+    return {
+      currencyCode: customs.value.currency,
+      transID: requestId,
+      allowPartialLandedCostResult: false,
+      alversion: 1,
+      shipment: {
+        id: requestId,
+        importCountryCode: request.destination.country,
+        ...(request.destination.state ? { importProvince: request.destination.state } : {}),
+        exportCountryCode: request.origin.country,
+        ...(request.shipDate ? { shipDate: request.shipDate } : {}),
+        transModes:
+          request.serviceLevel && GROUND_SERVICE_LEVELS.has(request.serviceLevel) ? 'INT_GROUND' : 'INT_AIR',
+        shipmentType: 'Sale',
+        shipmentItems: customs.commodities.map((commodity, index) => ({
+          commodityId: String(index + 1),
+          priceEach: commodity.unitValue.toFixed(2),
+          commodityCurrencyCode: customs.value.currency,
+          quantity: commodity.quantity,
+          UOM: 'Each',
+          ...(commodity.hsCode ? { hsCode: commodity.hsCode } : {}),
+          description: commodity.description,
+          originCountryCode: commodity.countryOfOrigin
+        }))
+      }
+    };
+  }
+
+  fromCarrierResponse(response: UpsLandedCostResponse): DutiesAndTaxes {
+    const { shipment } = response;
+    const currency = shipment.currencyCode;
+    const toMoney = (value: number | undefined): Money => parseMoney(value ?? 0, currency);
+    const duties = toMoney(shipment.totalDuties);
+    const taxes = toMoney(shipment.totalVAT);
+    const fees = sumMoney(
+      [
+        toMoney(shipment.totalCommodityLevelTaxesAndFees),
+        toMoney(shipment.totalShipmentLevelTaxesAndFees),
+        toMoney(shipment.totalBrokerageFees)
+      ],
+      currency
+    );
+
+    return { duties, taxes, fees, total: sumMoney([duties, taxes, fees], currency) };
+  }
+}
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+export const upsLandedCostResponseSchema = z
+  .object({
+    shipment: z
+      .object({
+        currencyCode: z.string(),
+        importCountryCode: z.string().optional(),
+        totalDuties: z.number().optional(),
+        totalVAT: z.number().optional(),
+        totalCommodityLevelTaxesAndFees: z.number().optional(),
+        totalShipmentLevelTaxesAndFees: z.number().optional(),
+        totalBrokerageFees: z.number().optional(),
+        totalDutyAndTax: z.number().optional()
+      })
+      .passthrough(),
+    transID: z.string().optional()
+  })
+  .passthrough();
+
+export type UpsLandedCostResponse = z.infer<typeof upsLandedCostResponseSchema>;
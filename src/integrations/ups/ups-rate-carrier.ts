@@ -1,25 +1,29 @@
-import { Carrier } from '../../application/ports/carrier';
-import { RateRequest, RateResponse, ServiceLevel } from '../../domain/rates';
+import { Carrier, CarrierRateContext } from '../../application/ports/carrier';
+import { Logger } from '../../application/ports/logger';
+import { DutiesAndTaxes, RateRequest, RateResponse, ServiceLevel } from '../../domain/rates';
 import { upsRateResponseSchema } from './ups-schemas';
 import { UpsRateMapper } from './ups-rate-mapper';
-import { CarrierClient } from '../shared/carrier-client';
-import { UpsRateRequest } from './ups-types';
+import { CarrierClient, CarrierRequestContext } from '../shared/carrier-client';
+import { createRequestId, safeJsonParse, withCarrierContext } from '../shared/carrier-response';
+import { UpsLandedCostRequest, UpsRateRequest } from './ups-types';
 import { UPS_SERVICE_CODES } from './ups-types';
-import {
-  CarrierError,
-  ErrorCode,
-  NetworkError,
-  ServiceError,
-  TimeoutError,
-  UnknownError
-} from '../../domain/errors';
+import { upsLandedCostResponseSchema } from './ups-landed-cost-schemas';
+import { UpsLandedCostMapper } from './ups-landed-cost-mapper';
+import { CarrierError, ErrorCode, ServiceError } from '../../domain/errors';
+import { CarrierService } from '../../domain/service-catalog';
+import { UPS_SERVICE_CATALOG } from './ups-service-catalog';
 
 export class UpsRateCarrier implements Carrier {
   private readonly carrierName = 'UPS';
 
   constructor(
     private readonly client: CarrierClient<UpsRateRequest>,
-    private readonly mapper: UpsRateMapper
+    private readonly mapper: UpsRateMapper,
+    private readonly landedCost?: {
+      client: CarrierClient<UpsLandedCostRequest>;
+      mapper: UpsLandedCostMapper;
+      logger?: Logger;
+    }
   ) {}
 
   getName(): string {
@@ -30,11 +34,19 @@ export class UpsRateCarrier implements Carrier {
     return serviceLevel in UPS_SERVICE_CODES;
   }
 
-  async getRates(request: RateRequest): Promise<RateResponse> {
+  getServiceCatalog(): CarrierService[] {
+    return [...UPS_SERVICE_CATALOG];
+  }
+
+  async getRates(request: RateRequest, context: CarrierRateContext = {}): Promise<RateResponse> {
     const requestId = createRequestId();
+    const signal = context.signal ? { signal: context.signal } : {};
     try {
-      const upsRequest = this.mapper.toCarrierRequest(request);
-      const res = await this.client.send(upsRequest, { requestId });
+      const upsRequest = this.mapper.toCarrierRequest(request, context.options);
+      const [res, dutiesAndTaxes] = await Promise.all([
+        this.client.send(upsRequest, { requestId, ...signal }),
+        this.getDutiesAndTaxesSafe(request, { requestId, ...signal })
+      ]);
 
       const parsedJson = safeJsonParse(res.bodyText);
       const parsed = upsRateResponseSchema.safeParse(parsedJson);
@@ -47,50 +59,55 @@ export class UpsRateCarrier implements Carrier {
         );
       }
 
-      return this.mapper.fromCarrierResponse(parsed.data, requestId);
+      const response = this.mapper.fromCarrierResponse(parsed.data, requestId);
+      if (!dutiesAndTaxes) return response;
+      return {
+        ...response,
+        quotes: response.quotes.map((quote) => ({ ...quote, estimatedDutiesAndTaxes: dutiesAndTaxes }))
+      };
     } catch (error) {
-      throw this.withCarrierContext(error);
+      throw withCarrierContext(error, this.carrierName);
     }
   }
 
-  private withCarrierContext(error: unknown): ServiceError {
-    if (error instanceof ServiceError) {
-      if (error instanceof TimeoutError) {
-        return error.carrier === this.carrierName
-          ? error
-          : new TimeoutError(error.message, this.carrierName, error.details, error);
-      }
-      if (error instanceof NetworkError) {
-        return error.carrier === this.carrierName
-          ? error
-          : new NetworkError(error.message, this.carrierName, error.details, error);
+  private async getDutiesAndTaxesSafe(
+    request: RateRequest,
+    context: CarrierRequestContext
+  ): Promise<DutiesAndTaxes | undefined> {
+    try {
+      return await this.getDutiesAndTaxes(request, context);
+    } catch (error) {
+      if (!context.signal?.aborted) {
+        const err = error instanceof ServiceError ? error.toJSON() : { message: String(error) };
+        this.landedCost?.logger
+          ?.child({ carrier: this.carrierName, requestId: context.requestId })
+          .warn({ err }, 'UPS landed cost lookup failed; returning rates without duties and taxes');
       }
-      if (error.carrier === this.carrierName) return error;
-      return new ServiceError(error.message, {
-        code: error.code,
-        carrier: this.carrierName,
-        retryable: error.retryable,
-        details:
-          error.carrier === 'SYSTEM'
-            ? error.details
-            : { originalCarrier: error.carrier, details: error.details },
-        cause: error
-      });
+      return undefined;
     }
-
-    return new UnknownError('Unexpected error while fetching rates', this.carrierName, undefined, error);
   }
-}
 
-function safeJsonParse(text: string): unknown {
-  try {
-    return JSON.parse(text) as unknown;
-  } catch {
-    return undefined;
-  }
-}
+  private async getDutiesAndTaxes(
+    request: RateRequest,
+    context: CarrierRequestContext
+  ): Promise<DutiesAndTaxes | undefined> {
+    if (!this.landedCost || !request.customs || request.origin.country === request.destination.country) {
+      return undefined;
+    }
 
-function createRequestId(): string {
-  return `req_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
-}
+    const landedCostRequest = this.landedCost.mapper.toCarrierRequest(request, context.requestId);
+    const res = await this.landedCost.client.send(landedCostRequest, context);
 
+    const parsed = upsLandedCostResponseSchema.safeParse(safeJsonParse(res.bodyText));
+    if (!parsed.success) {
+      throw new CarrierError(
+        ErrorCode.MALFORMED_RESPONSE,
+        'UPS landed cost response failed validation',
+        this.carrierName,
+        { retryable: false, details: { issues: parsed.error.issues } }
+      );
+    }
+
+    return this.landedCost.mapper.fromCarrierResponse(parsed.data);
+  }
+}
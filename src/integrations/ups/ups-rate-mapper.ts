@@ -1,49 +1,127 @@
 import { RateMapper } from '../shared/rate-mapper';
-import { RateRequest, RateResponse, RateQuote, ServiceLevel, Address, Package } from '../../domain/rates';
+import {
+  CarrierRateOptions,
+  RateRequest,
+  RateResponse,
+  RateQuote,
+  Address,
+  Package,
+  RateCharge,
+  RateChargeType,
+  ShipmentOptions
+} from '../../domain/rates';
+import { DEFAULT_PACKAGING_TYPE, isFlatRatePackaging } from '../../domain/packaging';
+import {
+  Money,
+  moneyFromMinorUnits,
+  moneyToDecimal,
+  moneyToNumber,
+  parseMoney,
+  subtractMoney,
+  sumMoney
+} from '../../domain/money';
 import { CarrierError, ErrorCode, ValidationError } from '../../domain/errors';
-import { UpsRateRequest, UPS_SERVICE_CODES, UPS_SERVICE_NAMES, UpsAddress, UpsPackage } from './ups-types';
+import { findCarrierService, serviceLevelsByCode } from '../../domain/service-catalog';
+import {
+  DEFAULT_WEIGHT_UNIT,
+  UnitSystem,
+  convertPackage,
+  convertWeight,
+  roundUp,
+  unitSystemForCountry,
+  unitsForSystem
+} from '../../domain/units';
+import {
+  UpsRateRequest,
+  UPS_SERVICE_CODES,
+  UPS_SERVICE_NAMES,
+  UPS_UNIT_CODES,
+  UPS_PACKAGING_CODES,
+  UpsAddress,
+  UpsMonetaryValue,
+  UpsPackage
+} from './ups-types';
 import { UpsRateResponse } from './ups-schemas';
+import { UPS_SERVICE_CATALOG } from './ups-service-catalog';
 
-const SERVICE_CODE_TO_LEVEL: Record<string, ServiceLevel> = {
-  '03': 'ground',
-  '01': 'nextDayAir',
-  '02': 'secondDayAir',
-  '12': 'threeDaySelect',
-  '14': 'nextDayAirEarly',
-  '59': 'secondDayAirAM',
-  '07': 'worldwideExpress',
-  '54': 'worldwideExpressPlus',
-  '08': 'worldwideExpedited',
-  '11': 'standard'
-};
+type UpsShipmentServiceOptions = NonNullable<UpsRateRequest['RateRequest']['Shipment']['ShipmentServiceOptions']>;
+type UpsPackageServiceOptions = NonNullable<UpsPackage['PackageServiceOptions']>;
+type UpsRatedShipment = NonNullable<UpsRateResponse['RateResponse']['RatedShipment']>[number];
+
+const SERVICE_CODE_TO_LEVEL = serviceLevelsByCode(UPS_SERVICE_CATALOG);
 
-const MS_PER_DAY = 86400000;
+const ITEMIZED_CHARGE_TYPES: Record<string, RateChargeType> = {
+  '270': 'residential',
+  '375': 'fuel',
+  '376': 'delivery_area'
+};
 
 export class UpsRateMapper implements RateMapper<UpsRateRequest, UpsRateResponse> {
   private readonly carrierName = 'UPS';
 
   constructor(private readonly config: { accountNumber?: string }) {}
 
-  toCarrierRequest(request: RateRequest): UpsRateRequest {
+  toCarrierRequest(request: RateRequest, carrierOptions?: CarrierRateOptions): UpsRateRequest {
+    const shipperNumber = carrierOptions?.accountNumber ?? this.config.accountNumber;
+    const unitSystem = unitSystemForCountry(request.origin.country);
+    const options = request.shipmentOptions ?? {};
+    const domestic = request.origin.country === request.destination.country;
     const upsRequest: UpsRateRequest = {
       RateRequest: {
         Request: {
-          RequestOption: request.serviceLevel ? 'Rate' : 'Shop'
+          RequestOption: `${request.serviceLevel || request.carrierService ? 'Rate' : 'Shop'}${request.shipDate ? 'timeintransit' : ''}`
         },
         Shipment: {
           Shipper: {
             Address: this.toUpsAddress(request.origin),
-            ...(this.config.accountNumber && { ShipperNumber: this.config.accountNumber })
+            ...(shipperNumber && { ShipperNumber: shipperNumber })
           },
           ShipTo: {
-            Address: this.toUpsAddress(request.destination)
+            Address: {
+              ...this.toUpsAddress(request.destination),
+              ...(options.residential ? { ResidentialAddressIndicator: '' } : {})
+            }
           },
-          Package: request.packages.map((pkg) => this.toUpsPackage(pkg))
+          Package: request.packages.map((pkg, index) => {
+            const upsPackage = this.toUpsPackage(pkg, unitSystem);
+            const serviceOptions = this.toPackageServiceOptions(options, domestic, index, request.packages.length);
+            return serviceOptions ? { ...upsPackage, PackageServiceOptions: serviceOptions } : upsPackage;
+          })
         }
       }
     };
 
-    if (request.serviceLevel) {
+    if (request.shipDate) {
+      const { weightUnit } = unitsForSystem(unitSystem);
+      const totalWeight = request.packages.reduce(
+        (sum, pkg) => sum + convertWeight(pkg.weight, pkg.weightUnit ?? DEFAULT_WEIGHT_UNIT, weightUnit),
+        0
+      );
+      upsRequest.RateRequest.Shipment.ShipmentTotalWeight = {
+        UnitOfMeasurement: { Code: UPS_UNIT_CODES[unitSystem].weight },
+        Weight: roundUp(totalWeight, 1).toString()
+      };
+      upsRequest.RateRequest.Shipment.DeliveryTimeInformation = {
+        PackageBillType: '03',
+        Pickup: { Date: request.shipDate.replace(/-/g, '') }
+      };
+    }
+
+    if (!domestic && request.customs) {
+      const { amount, currency } = request.customs.value;
+      upsRequest.RateRequest.Shipment.InvoiceLineTotal = toUpsMoney(parseMoney(amount, currency));
+    }
+
+    const shipmentServiceOptions = this.toShipmentServiceOptions(options, domestic);
+    if (shipmentServiceOptions) {
+      upsRequest.RateRequest.Shipment.ShipmentServiceOptions = shipmentServiceOptions;
+    }
+
+    if (request.carrierService) {
+      const { code } = request.carrierService;
+      const name = findCarrierService(UPS_SERVICE_CATALOG, code)?.name;
+      upsRequest.RateRequest.Shipment.Service = name ? { Code: code, Description: name } : { Code: code };
+    } else if (request.serviceLevel) {
       const serviceCode = UPS_SERVICE_CODES[request.serviceLevel];
       if (!serviceCode) {
         throw new ValidationError(`Unsupported service level: ${request.serviceLevel}`);
@@ -81,24 +159,35 @@ export class UpsRateMapper implements RateMapper<UpsRateRequest, UpsRateResponse
     }
 
     const quotes: RateQuote[] = ratedShipments.map((shipment) => {
-      const serviceLevel = SERVICE_CODE_TO_LEVEL[shipment.Service.Code] ?? 'express';
+      const serviceCode = shipment.Service.Code;
+      const serviceLevel = SERVICE_CODE_TO_LEVEL[serviceCode] ?? 'other';
       const charges =
         shipment.NegotiatedRateCharges?.TotalCharge ??
         shipment.TotalChargesWithTaxes ??
         shipment.TotalCharges;
+      const published = shipment.TotalChargesWithTaxes ?? shipment.TotalCharges;
+      const negotiated =
+        shipment.NegotiatedRateCharges?.TotalChargesWithTaxes ?? shipment.NegotiatedRateCharges?.TotalCharge;
 
-      let estimatedDays: number | undefined;
-      if (shipment.GuaranteedDelivery?.Date) {
-        const deliveryDate = new Date(shipment.GuaranteedDelivery.Date);
-        estimatedDays = Math.ceil((deliveryDate.getTime() - Date.now()) / MS_PER_DAY);
-      }
+      const price = parseMoney(charges.MonetaryValue, charges.CurrencyCode);
+      const publishedPrice = parseMoney(published.MonetaryValue, published.CurrencyCode);
+      const negotiatedPrice = negotiated ? parseMoney(negotiated.MonetaryValue, negotiated.CurrencyCode) : undefined;
 
       return {
         serviceLevel,
-        serviceName: shipment.Service.Description ?? UPS_SERVICE_NAMES[serviceLevel] ?? 'Unknown',
-        totalCost: parseFloat(charges.MonetaryValue),
-        currency: charges.CurrencyCode,
-        ...(estimatedDays !== undefined ? { estimatedDays } : {}),
+        serviceName:
+          shipment.Service.Description ??
+          findCarrierService(UPS_SERVICE_CATALOG, serviceCode)?.name ??
+          `UPS service ${serviceCode}`,
+        carrierServiceCode: serviceCode,
+        totalCost: moneyToNumber(price),
+        currency: price.currency,
+        price,
+        publishedCost: moneyToNumber(publishedPrice),
+        publishedPrice,
+        ...(negotiatedPrice ? { negotiatedCost: moneyToNumber(negotiatedPrice), negotiatedPrice } : {}),
+        charges: this.toCharges(shipment),
+        ...this.toDeliveryEstimate(shipment),
         carrier: this.carrierName
       };
     });
@@ -106,30 +195,192 @@ export class UpsRateMapper implements RateMapper<UpsRateRequest, UpsRateResponse
     return { quotes, requestId };
   }
 
+  private toDeliveryEstimate(
+    shipment: UpsRatedShipment
+  ): Pick<RateQuote, 'estimatedDays' | 'estimatedDeliveryDate' | 'deliveryWindow' | 'guaranteed'> {
+    const summary = shipment.TimeInTransit?.ServiceSummary;
+    const arrival = summary?.EstimatedArrival;
+    const guaranteedDelivery = shipment.GuaranteedDelivery;
+
+    const transitDays = parseInt(
+      arrival?.BusinessDaysInTransit ?? guaranteedDelivery?.BusinessDaysInTransit ?? '',
+      10
+    );
+    const deliveryDate = arrival?.Arrival?.Date ?? guaranteedDelivery?.Date;
+    const windowEnd = arrival?.Arrival?.Time
+      ? toClockTime(arrival.Arrival.Time)
+      : toClockTime(guaranteedDelivery?.DeliveryByTime);
+    const guaranteed = summary ? summary.GuaranteedIndicator !== undefined : guaranteedDelivery ? true : undefined;
+
+    return {
+      ...(!Number.isNaN(transitDays) ? { estimatedDays: transitDays } : {}),
+      ...(deliveryDate ? { estimatedDeliveryDate: toIsoDate(deliveryDate) } : {}),
+      ...(windowEnd ? { deliveryWindow: { end: windowEnd } } : {}),
+      ...(guaranteed !== undefined ? { guaranteed } : {})
+    };
+  }
+
+  private toCharges(shipment: UpsRatedShipment): RateCharge[] {
+    const currency = shipment.TotalCharges.CurrencyCode;
+    const itemized = toArray(shipment.ItemizedCharges).map((item) => ({
+      item,
+      price: parseMoney(item.MonetaryValue, item.CurrencyCode)
+    }));
+    const serviceOptions = parseMoney(shipment.ServiceOptionsCharges?.MonetaryValue ?? '0', currency);
+
+    let base: Money;
+    if (shipment.BaseServiceCharge) {
+      base = parseMoney(shipment.BaseServiceCharge.MonetaryValue, currency);
+    } else {
+      const transportation = shipment.TransportationCharges
+        ? parseMoney(shipment.TransportationCharges.MonetaryValue, currency)
+        : subtractMoney(parseMoney(shipment.TotalCharges.MonetaryValue, currency), serviceOptions);
+      base = subtractMoney(transportation, sumMoney(itemized.map((charge) => charge.price), transportation.currency));
+    }
+
+    return [
+      toCharge('transportation', 'Transportation', base),
+      ...itemized.map(({ item, price }) =>
+        toCharge(
+          ITEMIZED_CHARGE_TYPES[item.Code] ?? 'surcharge',
+          item.Description ?? `UPS charge ${item.Code}`,
+          price,
+          item.Code
+        )
+      ),
+      ...(serviceOptions.minorUnits > 0 ? [toCharge('service_option', 'Service options', serviceOptions)] : []),
+      ...toArray(shipment.TaxCharges).map((tax) => toCharge('tax', tax.Type, parseMoney(tax.MonetaryValue, currency)))
+    ];
+  }
+
+  private toShipmentServiceOptions(
+    options: ShipmentOptions,
+    domestic: boolean
+  ): UpsShipmentServiceOptions | undefined {
+    const serviceOptions: UpsShipmentServiceOptions = {};
+    if (options.saturdayDelivery) {
+      serviceOptions.SaturdayDeliveryIndicator = '';
+    }
+    if (!domestic) {
+      if (options.signature) {
+        serviceOptions.DeliveryConfirmation = { DCISType: options.signature === 'adult' ? '2' : '1' };
+      } else if (options.deliveryConfirmation) {
+        throw new ValidationError(
+          'UPS delivery confirmation without a signature is only available for domestic shipments'
+        );
+      }
+      if (options.cod) {
+        serviceOptions.COD = {
+          CODFundsCode: '9',
+          CODAmount: toUpsMoney(parseMoney(options.cod.amount, options.cod.currency))
+        };
+      }
+    }
+    return Object.keys(serviceOptions).length > 0 ? serviceOptions : undefined;
+  }
+
+  private toPackageServiceOptions(
+    options: ShipmentOptions,
+    domestic: boolean,
+    packageIndex: number,
+    packageCount: number
+  ): UpsPackageServiceOptions | undefined {
+    const serviceOptions: UpsPackageServiceOptions = {};
+    if (domestic) {
+      if (options.signature) {
+        serviceOptions.DeliveryConfirmation = { DCISType: options.signature === 'adult' ? '3' : '2' };
+      } else if (options.deliveryConfirmation) {
+        serviceOptions.DeliveryConfirmation = { DCISType: '1' };
+      }
+      if (options.cod && packageIndex === 0) {
+        serviceOptions.COD = {
+          CODFundsCode: '0',
+          CODAmount: toUpsMoney(parseMoney(options.cod.amount, options.cod.currency))
+        };
+      }
+    }
+    if (options.declaredValue) {
+      const { amount, currency } = options.declaredValue;
+      const total = parseMoney(amount, currency);
+      serviceOptions.DeclaredValue = toUpsMoney(splitMoney(total, packageCount, packageIndex));
+    }
+    return Object.keys(serviceOptions).length > 0 ? serviceOptions : undefined;
+  }
+
   private toUpsAddress(address: Address): UpsAddress {
     return {
       AddressLine: address.street,
       City: address.city,
-      StateProvinceCode: address.state,
-      PostalCode: address.postalCode,
+      ...(address.state ? { StateProvinceCode: address.state } : {}),
+      ...(address.postalCode ? { PostalCode: address.postalCode } : {}),
       CountryCode: address.country
     };
   }
 
-  private toUpsPackage(pkg: Package): UpsPackage {
+  private toUpsPackage(pkg: Package, unitSystem: UnitSystem): UpsPackage {
+    const { weightUnit, dimensionUnit } = unitsForSystem(unitSystem);
+    const converted = convertPackage(pkg, weightUnit, dimensionUnit);
+    const codes = UPS_UNIT_CODES[unitSystem];
     return {
       Weight: {
-        Value: pkg.weight.toString(),
-        UnitOfMeasurement: { Code: 'LBS' }
-      },
-      Dimensions: {
-        Length: pkg.length.toString(),
-        Width: pkg.width.toString(),
-        Height: pkg.height.toString(),
-        UnitOfMeasurement: { Code: 'IN' }
+        Value: roundUp(converted.weight, 1).toString(),
+        UnitOfMeasurement: { Code: codes.weight }
       },
-      Packaging: { Code: '02', Description: 'Package' }
+      ...(isFlatRatePackaging(pkg.packagingType)
+        ? {}
+        : {
+            Dimensions: {
+              Length: roundUp(converted.length, 1).toString(),
+              Width: roundUp(converted.width, 1).toString(),
+              Height: roundUp(converted.height, 1).toString(),
+              UnitOfMeasurement: { Code: codes.dimension }
+            }
+          }),
+      Packaging: UPS_PACKAGING_CODES[pkg.packagingType ?? DEFAULT_PACKAGING_TYPE]
     };
   }
 }
 
+function toCharge(type: RateChargeType, description: string, price: Money, carrierCode?: string): RateCharge {
+  return {
+    type,
+    description,
+    amount: moneyToNumber(price),
+    currency: price.currency,
+    price,
+    ...(carrierCode !== undefined ? { carrierCode } : {})
+  };
+}
+
+function toIsoDate(date: string): string {
+  return /^\d{8}$/.test(date) ? `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}` : date;
+}
+
+function toUpsMoney(money: Money): UpsMonetaryValue {
+  return { CurrencyCode: money.currency, MonetaryValue: moneyToDecimal(money) };
+}
+
+function splitMoney(total: Money, parts: number, index: number): Money {
+  const share = Math.floor(total.minorUnits / parts);
+  const remainder = index === parts - 1 ? total.minorUnits - share * parts : 0;
+  return moneyFromMinorUnits(share + remainder, total.currency);
+}
+
+function toClockTime(time: string | undefined): string | undefined {
+  if (!time) return undefined;
+  const compact = /^(\d{2})(\d{2})(\d{2})?$/.exec(time);
+  if (compact) return `${compact[1]}:${compact[2]}`;
+
+  const meridiem = /^(\d{1,2}):(\d{2})\s*(A\.?M\.?|P\.?M\.?|Noon)?$/i.exec(time.trim());
+  if (!meridiem) return undefined;
+  let hours = parseInt(meridiem[1]!, 10);
+  const suffix = meridiem[3]?.toUpperCase() ?? '';
+  if (suffix.startsWith('P') && hours < 12) hours += 12;
+  if (suffix.startsWith('A') && hours === 12) hours = 0;
+  return `${hours.toString().padStart(2, '0')}:${meridiem[2]}`;
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
@@ -21,6 +21,25 @@ const moneySchema = z
   })
   .passthrough();
 
+const itemizedChargeSchema = z
+  .object({
+    Code: z.string(),
+    Description: z.string().optional(),
+    CurrencyCode: z.string(),
+    MonetaryValue: z.string(),
+    SubType: z.string().optional()
+  })
+  .passthrough();
+
+const taxChargeSchema = z
+  .object({
+    Type: z.string(),
+    MonetaryValue: z.string()
+  })
+  .passthrough();
+
+const oneOrMany = <T extends z.ZodTypeAny>(schema: T) => z.union([z.array(schema), schema]);
+
 const serviceSchema = z
   .object({
     Code: z.string(),
@@ -31,18 +50,52 @@ const serviceSchema = z
 const ratedShipmentSchema = z
   .object({
     Service: serviceSchema,
+    TransportationCharges: moneySchema.optional(),
+    BaseServiceCharge: moneySchema.optional(),
+    ServiceOptionsCharges: moneySchema.optional(),
+    ItemizedCharges: oneOrMany(itemizedChargeSchema).optional(),
+    TaxCharges: oneOrMany(taxChargeSchema).optional(),
     TotalCharges: moneySchema,
     TotalChargesWithTaxes: moneySchema.optional(),
     NegotiatedRateCharges: z
       .object({
-        TotalCharge: moneySchema
+        TotalCharge: moneySchema,
+        TotalChargesWithTaxes: moneySchema.optional()
       })
+      .passthrough()
+      .optional(),
+    TimeInTransit: z
+      .object({
+        ServiceSummary: z
+          .object({
+            GuaranteedIndicator: z.string().optional(),
+            EstimatedArrival: z
+              .object({
+                Arrival: z
+                  .object({
+                    Date: z.string(),
+                    Time: z.string().optional()
+                  })
+                  .passthrough()
+                  .optional(),
+                BusinessDaysInTransit: z.string().optional()
+              })
+              .passthrough()
+              .optional()
+          })
+          .passthrough()
+          .optional()
+      })
+      .passthrough()
       .optional(),
     GuaranteedDelivery: z
       .object({
-        Date: z.string(),
+        BusinessDaysInTransit: z.string().optional(),
+        DeliveryByTime: z.string().optional(),
+        Date: z.string().optional(),
         Time: z.string().optional()
       })
+      .passthrough()
       .optional()
   })
   .passthrough();
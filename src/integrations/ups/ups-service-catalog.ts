@@ -0,0 +1,120 @@
+import { CarrierService } from '../../domain/service-catalog';
+
+export const UPS_SERVICE_CATALOG: readonly CarrierService[] = [
+  {
+    code: '01',
+    name: 'UPS Next Day Air',
+    serviceLevel: 'nextDayAir',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { businessDays: 1, time: '10:30', guaranteed: true }
+  },
+  {
+    code: '02',
+    name: 'UPS 2nd Day Air',
+    serviceLevel: 'secondDayAir',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { businessDays: 2, guaranteed: true }
+  },
+  {
+    code: '03',
+    name: 'UPS Ground',
+    serviceLevel: 'ground',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { guaranteed: false }
+  },
+  {
+    code: '07',
+    name: 'UPS Worldwide Express',
+    serviceLevel: 'worldwideExpress',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { guaranteed: true }
+  },
+  {
+    code: '08',
+    name: 'UPS Worldwide Expedited',
+    serviceLevel: 'worldwideExpedited',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { guaranteed: true }
+  },
+  {
+    code: '11',
+    name: 'UPS Standard',
+    serviceLevel: 'standard',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { guaranteed: false }
+  },
+  {
+    code: '12',
+    name: 'UPS 3 Day Select',
+    serviceLevel: 'threeDaySelect',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { businessDays: 3, guaranteed: true }
+  },
+  {
+    code: '13',
+    name: 'UPS Next Day Air Saver',
+    serviceLevel: 'nextDayAirSaver',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { businessDays: 1, guaranteed: true }
+  },
+  {
+    code: '14',
+    name: 'UPS Next Day Air Early',
+    serviceLevel: 'nextDayAirEarly',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { businessDays: 1, time: '08:00', guaranteed: true }
+  },
+  { code: '17', name: 'UPS Worldwide Economy DDU', domestic: false, international: true },
+  {
+    code: '54',
+    name: 'UPS Worldwide Express Plus',
+    serviceLevel: 'worldwideExpressPlus',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { guaranteed: true }
+  },
+  {
+    code: '59',
+    name: 'UPS 2nd Day Air A.M.',
+    serviceLevel: 'secondDayAirAM',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { businessDays: 2, time: '10:30', guaranteed: true }
+  },
+  {
+    code: '65',
+    name: 'UPS Worldwide Saver',
+    serviceLevel: 'worldwideSaver',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { guaranteed: true }
+  },
+  { code: '71', name: 'UPS Worldwide Express Freight Midday', domestic: false, international: true },
+  { code: '72', name: 'UPS Worldwide Economy DDP', domestic: false, international: true },
+  {
+    code: '74',
+    name: 'UPS Express 12:00',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { businessDays: 1, time: '12:00', guaranteed: true }
+  },
+  { code: '92', name: 'UPS SurePost Less Than 1 lb', domestic: true, international: false },
+  {
+    code: '93',
+    name: 'UPS Ground Saver',
+    serviceLevel: 'groundSaver',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { guaranteed: false }
+  },
+  { code: '96', name: 'UPS Worldwide Express Freight', domestic: false, international: true }
+];
@@ -0,0 +1,33 @@
+import { HttpClient, HttpResponse } from '../../application/ports/http-client';
+import { AuthProvider } from '../../application/ports/auth-provider';
+import { CarrierClient, CarrierRequestContext } from '../shared/carrier-client';
+import { sendAuthorizedRequest } from '../shared/authorized-request';
+import { UpsConfig } from './ups-config';
+import { UpsShipRequest } from './ups-ship-types';
+
+export class UpsShipClient implements CarrierClient<UpsShipRequest> {
+  private readonly carrierName = 'UPS';
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly auth: AuthProvider,
+    private readonly config: Pick<UpsConfig, 'baseUrl' | 'timeoutMs'>
+  ) {}
+
+  async send(request: UpsShipRequest, context: CarrierRequestContext): Promise<HttpResponse> {
+    const url = `${this.config.baseUrl}/api/shipments/v2409/ship`;
+
+    return sendAuthorizedRequest(this.httpClient, this.auth, this.carrierName, context.signal, (authorization) => ({
+      method: 'POST',
+      url,
+      timeoutMs: this.config.timeoutMs,
+      headers: {
+        Authorization: authorization,
+        'Content-Type': 'application/json',
+        transId: context.requestId,
+        transactionSrc: 'Cybership'
+      },
+      body: JSON.stringify(request)
+    }));
+  }
+}
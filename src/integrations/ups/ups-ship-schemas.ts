@@ -0,0 +1,69 @@
+import { z } from 'zod';
+
+const statusSchema = z
+  .object({
+    Code: z.string(),
+    Description: z.string()
+  })
+  .passthrough();
+
+const alertSchema = z
+  .object({
+    Code: z.string(),
+    Description: z.string()
+  })
+  .passthrough();
+
+const moneySchema = z
+  .object({
+    CurrencyCode: z.string(),
+    MonetaryValue: z.string()
+  })
+  .passthrough();
+
+const packageResultSchema = z
+  .object({
+    TrackingNumber: z.string(),
+    ShippingLabel: z
+      .object({
+        ImageFormat: z.object({ Code: z.string() }).passthrough(),
+        GraphicImage: z.string()
+      })
+      .passthrough()
+  })
+  .passthrough();
+
+export const upsShipResponseSchema = z
+  .object({
+    ShipmentResponse: z
+      .object({
+        Response: z
+          .object({
+            ResponseStatus: statusSchema,
+            Alert: z.union([z.array(alertSchema), alertSchema]).optional()
+          })
+          .passthrough(),
+        ShipmentResults: z
+          .object({
+            ShipmentIdentificationNumber: z.string(),
+            ShipmentCharges: z
+              .object({
+                TotalCharges: moneySchema
+              })
+              .passthrough(),
+            NegotiatedRateCharges: z
+              .object({
+                TotalCharge: moneySchema
+              })
+              .passthrough()
+              .optional(),
+            PackageResults: z.union([z.array(packageResultSchema), packageResultSchema])
+          })
+          .passthrough()
+          .optional()
+      })
+      .passthrough()
+  })
+  .passthrough();
+
+export type UpsShipResponse = z.infer<typeof upsShipResponseSchema>;
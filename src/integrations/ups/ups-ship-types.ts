@@ -0,0 +1,45 @@
+import { UpsAddress } from './ups-types';
+
+export interface UpsShipParty {
+  Name: string;
+  AttentionName?: string;
+  Phone?: { Number: string };
+  Address: UpsAddress;
+}
+
+export interface UpsShipPackage {
+  Packaging: { Code: string; Description?: string };
+  Dimensions?: {
+    UnitOfMeasurement: { Code: string };
+    Length: string;
+    Width: string;
+    Height: string;
+  };
+  PackageWeight: {
+    UnitOfMeasurement: { Code: string };
+    Weight: string;
+  };
+}
+
+export interface UpsShipRequest {
+  ShipmentRequest: {
+    Request: {
+      RequestOption: string;
+      TransactionReference?: { CustomerContext?: string };
+    };
+    Shipment: {
+      Shipper: UpsShipParty & { ShipperNumber: string };
+      ShipTo: UpsShipParty;
+      ShipFrom?: UpsShipParty;
+      PaymentInformation: {
+        ShipmentCharge: Array<{ Type: string; BillShipper: { AccountNumber: string } }>;
+      };
+      Service: { Code: string; Description?: string };
+      Package: UpsShipPackage[];
+    };
+    LabelSpecification: {
+      LabelImageFormat: { Code: string };
+      LabelStockSize?: { Height: string; Width: string };
+    };
+  };
+}
@@ -0,0 +1,161 @@
+import { ShipmentMapper } from '../shared/shipment-mapper';
+import { Address, Package } from '../../domain/rates';
+import { LabelFormat, Shipment, ShipmentParty, ShipmentRequest } from '../../domain/shipments';
+import { DEFAULT_PACKAGING_TYPE, isFlatRatePackaging } from '../../domain/packaging';
+import { moneyToNumber, parseMoney } from '../../domain/money';
+import { CarrierError, ErrorCode, ValidationError } from '../../domain/errors';
+import { UnitSystem, convertPackage, roundUp, unitSystemForCountry, unitsForSystem } from '../../domain/units';
+import { UPS_SERVICE_CODES, UPS_SERVICE_NAMES, UPS_UNIT_CODES, UPS_PACKAGING_CODES, UpsAddress } from './ups-types';
+import { UpsShipParty, UpsShipPackage, UpsShipRequest } from './ups-ship-types';
+import { UpsShipResponse } from './ups-ship-schemas';
+
+const UPS_LABEL_FORMATS: Partial<Record<LabelFormat, string>> = {
+  GIF: 'GIF',
+  PNG: 'PNG',
+  ZPL: 'ZPL'
+};
+
+export class UpsShipmentMapper implements ShipmentMapper<UpsShipRequest, UpsShipResponse> {
+  private readonly carrierName = 'UPS';
+
+  constructor(private readonly config: { accountNumber: string }) {}
+
+  toCarrierRequest(request: ShipmentRequest): UpsShipRequest {
+    const serviceCode = UPS_SERVICE_CODES[request.serviceLevel];
+    if (!serviceCode) {
+      throw new ValidationError(`Unsupported service level: ${request.serviceLevel}`);
+    }
+
+    const labelFormat = request.labelFormat ?? 'GIF';
+    const labelCode = UPS_LABEL_FORMATS[labelFormat];
+    if (!labelCode) {
+      throw new ValidationError(`Unsupported UPS label format: ${labelFormat}`);
+    }
+
+    const description = UPS_SERVICE_NAMES[request.serviceLevel];
+    const unitSystem = unitSystemForCountry(request.shipper.address.country);
+    return {
+      ShipmentRequest: {
+        Request: {
+          RequestOption: 'nonvalidate',
+          ...(request.reference && { TransactionReference: { CustomerContext: request.reference } })
+        },
+        Shipment: {
+          Shipper: {
+            ...this.toUpsParty(request.shipper),
+            ShipperNumber: this.config.accountNumber
+          },
+          ShipTo: this.toUpsParty(request.recipient),
+          PaymentInformation: {
+            ShipmentCharge: [{ Type: '01', BillShipper: { AccountNumber: this.config.accountNumber } }]
+          },
+          Service: description ? { Code: serviceCode, Description: description } : { Code: serviceCode },
+          Package: request.packages.map((pkg) => this.toUpsPackage(pkg, unitSystem))
+        },
+        LabelSpecification: {
+          LabelImageFormat: { Code: labelCode },
+          ...(labelCode === 'ZPL' && { LabelStockSize: { Height: '6', Width: '4' } })
+        }
+      }
+    };
+  }
+
+  fromCarrierResponse(
+    response: UpsShipResponse,
+    request: ShipmentRequest,
+    requestId: string
+  ): Shipment {
+    const { Response, ShipmentResults } = response.ShipmentResponse;
+
+    if (Response.ResponseStatus.Code !== '1' || !ShipmentResults) {
+      const alerts = Response.Alert === undefined ? [] : [Response.Alert].flat();
+      const errorMessages = alerts.map((a) => a.Description).join('; ');
+      throw new CarrierError(
+        ErrorCode.API_ERROR,
+        `UPS API error: ${Response.ResponseStatus.Description}. ${errorMessages}`,
+        this.carrierName,
+        { details: { code: Response.ResponseStatus.Code } }
+      );
+    }
+
+    const packageResults = [ShipmentResults.PackageResults].flat();
+    const firstPackage = packageResults[0];
+    if (!firstPackage) {
+      throw new CarrierError(
+        ErrorCode.MALFORMED_RESPONSE,
+        'UPS shipment response contained no packages',
+        this.carrierName
+      );
+    }
+
+    const charges =
+      ShipmentResults.NegotiatedRateCharges?.TotalCharge ??
+      ShipmentResults.ShipmentCharges.TotalCharges;
+    const price = parseMoney(charges.MonetaryValue, charges.CurrencyCode);
+
+    return {
+      carrier: this.carrierName,
+      shipmentId: ShipmentResults.ShipmentIdentificationNumber,
+      trackingNumber: firstPackage.TrackingNumber,
+      serviceLevel: request.serviceLevel,
+      totalCost: moneyToNumber(price),
+      currency: price.currency,
+      price,
+      packages: packageResults.map((pkg) => ({
+        trackingNumber: pkg.TrackingNumber,
+        label: {
+          format: toLabelFormat(pkg.ShippingLabel.ImageFormat.Code),
+          imageBase64: pkg.ShippingLabel.GraphicImage
+        }
+      })),
+      requestId
+    };
+  }
+
+  private toUpsParty(party: ShipmentParty): UpsShipParty {
+    return {
+      Name: party.companyName ?? party.name,
+      AttentionName: party.name,
+      ...(party.phone && { Phone: { Number: party.phone } }),
+      Address: this.toUpsAddress(party.address)
+    };
+  }
+
+  private toUpsAddress(address: Address): UpsAddress {
+    return {
+      AddressLine: address.street,
+      City: address.city,
+      ...(address.state ? { StateProvinceCode: address.state } : {}),
+      ...(address.postalCode ? { PostalCode: address.postalCode } : {}),
+      CountryCode: address.country
+    };
+  }
+
+  private toUpsPackage(pkg: Package, unitSystem: UnitSystem): UpsShipPackage {
+    const { weightUnit, dimensionUnit } = unitsForSystem(unitSystem);
+    const converted = convertPackage(pkg, weightUnit, dimensionUnit);
+    const codes = UPS_UNIT_CODES[unitSystem];
+    return {
+      Packaging: UPS_PACKAGING_CODES[pkg.packagingType ?? DEFAULT_PACKAGING_TYPE],
+      ...(isFlatRatePackaging(pkg.packagingType)
+        ? {}
+        : {
+            Dimensions: {
+              UnitOfMeasurement: { Code: codes.dimension },
+              Length: roundUp(converted.length, 1).toString(),
+              Width: roundUp(converted.width, 1).toString(),
+              Height: roundUp(converted.height, 1).toString()
+            }
+          }),
+      PackageWeight: {
+        UnitOfMeasurement: { Code: codes.weight },
+        Weight: roundUp(converted.weight, 1).toString()
+      }
+    };
+  }
+}
+
+function toLabelFormat(code: string): LabelFormat {
+  const upper = code.toUpperCase();
+  return upper === 'PNG' || upper === 'ZPL' || upper === 'PDF' ? upper : 'GIF';
+}
@@ -0,0 +1,50 @@
+import { ShippingCarrier } from '../../application/ports/shipping-carrier';
+import { ServiceLevel } from '../../domain/rates';
+import { Shipment, ShipmentRequest } from '../../domain/shipments';
+import { upsShipResponseSchema } from './ups-ship-schemas';
+import { UpsShipmentMapper } from './ups-shipment-mapper';
+import { CarrierClient } from '../shared/carrier-client';
+import { createRequestId, safeJsonParse, withCarrierContext } from '../shared/carrier-response';
+import { UpsShipRequest } from './ups-ship-types';
+import { UPS_SERVICE_CODES } from './ups-types';
+import { CarrierError, ErrorCode } from '../../domain/errors';
+
+export class UpsShippingCarrier implements ShippingCarrier {
+  private readonly carrierName = 'UPS';
+
+  constructor(
+    private readonly client: CarrierClient<UpsShipRequest>,
+    private readonly mapper: UpsShipmentMapper
+  ) {}
+
+  getName(): string {
+    return this.carrierName;
+  }
+
+  supportsServiceLevel(serviceLevel: ServiceLevel): boolean {
+    return serviceLevel in UPS_SERVICE_CODES;
+  }
+
+  async createShipment(request: ShipmentRequest): Promise<Shipment> {
+    const requestId = createRequestId();
+    try {
+      const upsRequest = this.mapper.toCarrierRequest(request);
+      const res = await this.client.send(upsRequest, { requestId });
+
+      const parsedJson = safeJsonParse(res.bodyText);
+      const parsed = upsShipResponseSchema.safeParse(parsedJson);
+      if (!parsed.success) {
+        throw new CarrierError(
+          ErrorCode.MALFORMED_RESPONSE,
+          'UPS shipment response failed validation',
+          this.carrierName,
+          { retryable: false, details: { issues: parsed.error.issues } }
+        );
+      }
+
+      return this.mapper.fromCarrierResponse(parsed.data, request, requestId);
+    } catch (error) {
+      throw withCarrierContext(error, this.carrierName, 'Unexpected error while creating shipment');
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { HttpClient, HttpResponse } from '../../application/ports/http-client';
+import { AuthProvider } from '../../application/ports/auth-provider';
+import { CarrierClient, CarrierRequestContext } from '../shared/carrier-client';
+import { sendAuthorizedRequest } from '../shared/authorized-request';
+import { UpsConfig } from './ups-config';
+import { UpsTrackRequest } from './ups-types';
+
+export class UpsTrackClient implements CarrierClient<UpsTrackRequest> {
+  private readonly carrierName = 'UPS';
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly auth: AuthProvider,
+    private readonly config: Pick<UpsConfig, 'baseUrl' | 'timeoutMs'>
+  ) {}
+
+  async send(request: UpsTrackRequest, context: CarrierRequestContext): Promise<HttpResponse> {
+    const inquiryNumber = encodeURIComponent(request.inquiryNumber);
+    const url = `${this.config.baseUrl}/api/track/v1/details/${inquiryNumber}?locale=en_US&returnSignature=false`;
+
+    return sendAuthorizedRequest(this.httpClient, this.auth, this.carrierName, context.signal, (authorization) => ({
+      method: 'GET',
+      url,
+      timeoutMs: this.config.timeoutMs,
+      headers: {
+        Authorization: authorization,
+        transId: context.requestId,
+        transactionSrc: 'Cybership'
+      }
+    }));
+  }
+}
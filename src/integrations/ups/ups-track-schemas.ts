@@ -0,0 +1,79 @@
+import { z } from 'zod';
+
+const activitySchema = z
+  .object({
+    location: z
+      .object({
+        address: z
+          .object({
+            city: z.string().optional(),
+            stateProvince: z.string().optional(),
+            postalCode: z.string().optional(),
+            countryCode: z.string().optional()
+          })
+          .passthrough()
+          .optional()
+      })
+      .passthrough()
+      .optional(),
+    status: z
+      .object({
+        type: z.string().optional(),
+        description: z.string().optional(),
+        code: z.string().optional(),
+        statusCode: z.string().optional()
+      })
+      .passthrough()
+      .optional(),
+    date: z.string(),
+    time: z.string().optional(),
+    gmtDate: z.string().optional(),
+    gmtTime: z.string().optional()
+  })
+  .passthrough();
+
+const packageSchema = z
+  .object({
+    trackingNumber: z.string(),
+    deliveryDate: z
+      .array(
+        z
+          .object({
+            type: z.string(),
+            date: z.string()
+          })
+          .passthrough()
+      )
+      .optional(),
+    activity: z.array(activitySchema).optional()
+  })
+  .passthrough();
+
+export const upsTrackResponseSchema = z
+  .object({
+    trackResponse: z
+      .object({
+        shipment: z.array(
+          z
+            .object({
+              inquiryNumber: z.string().optional(),
+              package: z.array(packageSchema).optional(),
+              warnings: z
+                .array(
+                  z
+                    .object({
+                      code: z.string(),
+                      message: z.string()
+                    })
+                    .passthrough()
+                )
+                .optional()
+            })
+            .passthrough()
+        )
+      })
+      .passthrough()
+  })
+  .passthrough();
+
+export type UpsTrackResponse = z.infer<typeof upsTrackResponseSchema>;
@@ -0,0 +1,44 @@
+import { TrackingCarrier } from '../../application/ports/tracking-carrier';
+import { TrackingInfo } from '../../domain/tracking';
+import { upsTrackResponseSchema } from './ups-track-schemas';
+import { UpsTrackingMapper } from './ups-tracking-mapper';
+import { UpsTrackRequest } from './ups-types';
+import { CarrierClient } from '../shared/carrier-client';
+import { createRequestId, safeJsonParse, withCarrierContext } from '../shared/carrier-response';
+import { CarrierError, ErrorCode } from '../../domain/errors';
+
+export class UpsTrackingCarrier implements TrackingCarrier {
+  private readonly carrierName = 'UPS';
+
+  constructor(
+    private readonly client: CarrierClient<UpsTrackRequest>,
+    private readonly mapper: UpsTrackingMapper
+  ) {}
+
+  getName(): string {
+    return this.carrierName;
+  }
+
+  async track(trackingNumber: string): Promise<TrackingInfo> {
+    const requestId = createRequestId();
+    try {
+      const upsRequest = this.mapper.toCarrierRequest(trackingNumber);
+      const res = await this.client.send(upsRequest, { requestId });
+
+      const parsedJson = safeJsonParse(res.bodyText);
+      const parsed = upsTrackResponseSchema.safeParse(parsedJson);
+      if (!parsed.success) {
+        throw new CarrierError(
+          ErrorCode.MALFORMED_RESPONSE,
+          'UPS tracking response failed validation',
+          this.carrierName,
+          { retryable: false, details: { issues: parsed.error.issues } }
+        );
+      }
+
+      return this.mapper.fromCarrierResponse(parsed.data, trackingNumber);
+    } catch (error) {
+      throw withCarrierContext(error, this.carrierName, 'Unexpected error while tracking shipment');
+    }
+  }
+}
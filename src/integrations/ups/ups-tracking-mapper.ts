@@ -0,0 +1,111 @@
+import { TrackingMapper } from '../shared/tracking-mapper';
+import { TrackingEvent, TrackingInfo, TrackingLocation, TrackingStatus } from '../../domain/tracking';
+import { CarrierError, ErrorCode } from '../../domain/errors';
+import { UpsTrackResponse } from './ups-track-schemas';
+import { UpsTrackRequest } from './ups-types';
+
+type UpsActivity = NonNullable<
+  NonNullable<UpsTrackResponse['trackResponse']['shipment'][number]['package']>[number]['activity']
+>[number];
+
+const STATUS_TYPE_TO_STATUS: Record<string, TrackingStatus> = {
+  M: 'pre_transit',
+  MV: 'pre_transit',
+  P: 'in_transit',
+  I: 'in_transit',
+  O: 'out_for_delivery',
+  D: 'delivered',
+  X: 'exception',
+  RS: 'returned'
+};
+
+const OUT_FOR_DELIVERY_STATUS_CODES = new Set(['021', 'OT']);
+
+export class UpsTrackingMapper implements TrackingMapper<UpsTrackRequest, UpsTrackResponse> {
+  private readonly carrierName = 'UPS';
+
+  toCarrierRequest(trackingNumber: string): UpsTrackRequest {
+    return { inquiryNumber: trackingNumber };
+  }
+
+  fromCarrierResponse(response: UpsTrackResponse, trackingNumber: string): TrackingInfo {
+    const shipment = response.trackResponse.shipment[0];
+    const pkg = shipment?.package?.[0];
+    if (!pkg) {
+      const warnings = shipment?.warnings ?? [];
+      throw new CarrierError(
+        ErrorCode.API_ERROR,
+        `UPS returned no tracking details for ${trackingNumber}. ${warnings.map((w) => w.message).join('; ')}`.trim(),
+        this.carrierName,
+        { details: { codes: warnings.map((w) => w.code) } }
+      );
+    }
+
+    const events = (pkg.activity ?? [])
+      .map((activity) => this.toTrackingEvent(activity))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    const latest = events[0];
+    const status = latest?.status ?? 'unknown';
+    const scheduled = pkg.deliveryDate?.find((d) => d.type === 'RDD' || d.type === 'SDD');
+
+    return {
+      carrier: this.carrierName,
+      trackingNumber: pkg.trackingNumber,
+      status,
+      events,
+      ...(scheduled && status !== 'delivered' ? { estimatedDeliveryDate: toIsoDate(scheduled.date) } : {}),
+      ...(latest && status === 'delivered' ? { deliveredAt: latest.timestamp } : {})
+    };
+  }
+
+  private toTrackingEvent(activity: UpsActivity): TrackingEvent {
+    const statusCode = activity.status?.statusCode ?? activity.status?.code;
+    const location = toLocation(activity);
+    return {
+      status: toTrackingStatus(activity.status?.type, statusCode),
+      description: activity.status?.description?.trim() ?? '',
+      timestamp: toTimestamp(activity),
+      ...(location ? { location } : {}),
+      ...(statusCode ? { carrierStatusCode: statusCode } : {})
+    };
+  }
+}
+
+function toTrackingStatus(type: string | undefined, statusCode: string | undefined): TrackingStatus {
+  if (statusCode && OUT_FOR_DELIVERY_STATUS_CODES.has(statusCode)) return 'out_for_delivery';
+  if (!type) return 'unknown';
+  return STATUS_TYPE_TO_STATUS[type] ?? 'unknown';
+}
+
+function toLocation(activity: UpsActivity): TrackingLocation | undefined {
+  const address = activity.location?.address;
+  if (!address) return undefined;
+
+  const location: TrackingLocation = {
+    ...(address.city ? { city: address.city } : {}),
+    ...(address.stateProvince ? { state: address.stateProvince } : {}),
+    ...(address.postalCode ? { postalCode: address.postalCode } : {}),
+    ...(address.countryCode ? { country: address.countryCode } : {})
+  };
+  return Object.keys(location).length > 0 ? location : undefined;
+}
+
+function toTimestamp(activity: UpsActivity): string {
+  if (activity.gmtDate && activity.gmtTime) {
+    return `${toIsoDate(activity.gmtDate)}T${toIsoTime(activity.gmtTime)}Z`;
+  }
+  return `${toIsoDate(activity.date)}T${toIsoTime(activity.time ?? '000000')}`;
+}
+
+function toIsoDate(yyyymmdd: string): string {
+  if (/^\d{8}$/.test(yyyymmdd)) {
+    return `${yyyymmdd.slice(0, 4)}-${yyyymmdd.slice(4, 6)}-${yyyymmdd.slice(6, 8)}`;
+  }
+  return yyyymmdd;
+}
+
+function toIsoTime(time: string): string {
+  const digits = time.replace(/[^0-9]/g, '').padEnd(6, '0');
+  return `${digits.slice(0, 2)}:${digits.slice(2, 4)}:${digits.slice(4, 6)}`;
+}
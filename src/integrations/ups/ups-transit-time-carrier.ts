@@ -0,0 +1,47 @@
+import { TransitTimeCarrier, TransitTimeContext } from '../../application/ports/transit-time-carrier';
+import { TransitTimeRequest, TransitTimeResponse } from '../../domain/transit-times';
+import { upsTransitTimeResponseSchema } from './ups-transit-time-schemas';
+import { UpsTransitTimeMapper } from './ups-transit-time-mapper';
+import { UpsTransitTimeRequest } from './ups-types';
+import { CarrierClient } from '../shared/carrier-client';
+import { createRequestId, safeJsonParse, withCarrierContext } from '../shared/carrier-response';
+import { CarrierError, ErrorCode } from '../../domain/errors';
+
+export class UpsTransitTimeCarrier implements TransitTimeCarrier {
+  private readonly carrierName = 'UPS';
+
+  constructor(
+    private readonly client: CarrierClient<UpsTransitTimeRequest>,
+    private readonly mapper: UpsTransitTimeMapper
+  ) {}
+
+  getName(): string {
+    return this.carrierName;
+  }
+
+  async getTransitTimes(request: TransitTimeRequest, context: TransitTimeContext = {}): Promise<TransitTimeResponse> {
+    const requestId = createRequestId();
+    try {
+      const upsRequest = this.mapper.toCarrierRequest(request);
+      const res = await this.client.send(upsRequest, {
+        requestId,
+        ...(context.signal ? { signal: context.signal } : {})
+      });
+
+      const parsedJson = safeJsonParse(res.bodyText);
+      const parsed = upsTransitTimeResponseSchema.safeParse(parsedJson);
+      if (!parsed.success) {
+        throw new CarrierError(
+          ErrorCode.MALFORMED_RESPONSE,
+          'UPS transit time response failed validation',
+          this.carrierName,
+          { retryable: false, details: { issues: parsed.error.issues } }
+        );
+      }
+
+      return this.mapper.fromCarrierResponse(parsed.data, requestId);
+    } catch (error) {
+      throw withCarrierContext(error, this.carrierName, 'Unexpected error while fetching transit times');
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { TransitTimeMapper } from '../shared/transit-time-mapper';
+import { ServiceLevel } from '../../domain/rates';
+import { TransitTimeEstimate, TransitTimeRequest, TransitTimeResponse } from '../../domain/transit-times';
+import { CarrierError, ErrorCode } from '../../domain/errors';
+import { UpsTransitTimeResponse } from './ups-transit-time-schemas';
+import { UPS_SERVICE_NAMES, UpsTransitTimeRequest } from './ups-types';
+import {
+  DEFAULT_WEIGHT_UNIT,
+  convertWeight,
+  roundUp,
+  unitSystemForCountry,
+  unitsForSystem
+} from '../../domain/units';
+
+const SERVICE_LEVEL_CODES: Record<string, ServiceLevel> = {
+  GND: 'ground',
+  '3DS': 'threeDaySelect',
+  '2DA': 'secondDayAir',
+  '2DM': 'secondDayAirAM',
+  '1DA': 'nextDayAir',
+  '1DM': 'nextDayAirEarly',
+  '1DP': 'nextDayAirSaver',
+  '01': 'worldwideExpress',
+  '03': 'standard',
+  '05': 'worldwideExpedited',
+  '21': 'worldwideExpressPlus',
+  '28': 'worldwideSaver'
+};
+
+export interface UpsTransitTimeMapperConfig {
+  now?: () => number;
+}
+
+export class UpsTransitTimeMapper implements TransitTimeMapper<UpsTransitTimeRequest, UpsTransitTimeResponse> {
+  private readonly carrierName = 'UPS';
+
+  constructor(private readonly config: UpsTransitTimeMapperConfig = {}) {}
+
+  toCarrierRequest(request: TransitTimeRequest): UpsTransitTimeRequest {
+    const { origin, destination } = request;
+    const unitSystem = unitSystemForCountry(origin.country);
+    const { weightUnit } = unitsForSystem(unitSystem);
+    const totalWeight = request.packages?.reduce(
+      (sum, pkg) => sum + convertWeight(pkg.weight, pkg.weightUnit ?? DEFAULT_WEIGHT_UNIT, weightUnit),
+      0
+    );
+
+    return {
+      originCountryCode: origin.country,
+      ...(origin.state ? { originStateProvince: origin.state } : {}),
+      originCityName: origin.city,
+      ...(origin.postalCode ? { originPostalCode: origin.postalCode } : {}),
+      destinationCountryCode: destination.country,
+      ...(destination.state ? { destinationStateProvince: destination.state } : {}),
+      destinationCityName: destination.city,
+      ...(destination.postalCode ? { destinationPostalCode: destination.postalCode } : {}),
+      shipDate: request.shipDate ?? this.today(),
+      ...(totalWeight !== undefined
+        ? {
+            weight: roundUp(totalWeight, 1).toString(),
+            weightUnitOfMeasure: unitSystem === 'imperial' ? ('LBS' as const) : ('KGS' as const),
+            numberOfPackages: request.packages!.length.toString()
+          }
+        : {}),
+      billType: '03',
+      avvFlag: true
+    };
+  }
+
+  fromCarrierResponse(response: UpsTransitTimeResponse, requestId: string): TransitTimeResponse {
+    const ems = response.emsResponse;
+    if (!ems) {
+      const invalidFields = response.validationList?.invalidFieldList ?? [];
+      throw new CarrierError(
+        ErrorCode.API_ERROR,
+        invalidFields.length > 0
+          ? `UPS rejected the transit time request: ${invalidFields.join(', ')}`
+          : 'UPS could not resolve the origin or destination for transit times',
+        this.carrierName,
+        { details: { codes: response.validationList?.invalidFieldListCodes ?? [] } }
+      );
+    }
+
+    const estimates: TransitTimeEstimate[] = [];
+    for (const service of ems.services ?? []) {
+      const serviceLevel = SERVICE_LEVEL_CODES[service.serviceLevel];
+      if (!serviceLevel) continue;
+
+      estimates.push({
+        serviceLevel,
+        serviceName: service.serviceLevelDescription ?? UPS_SERVICE_NAMES[serviceLevel] ?? serviceLevel,
+        businessTransitDays: Number(service.businessTransitDays),
+        estimatedDeliveryDate: service.deliveryDate,
+        ...(service.deliveryTime ? { deliveryTime: service.deliveryTime } : {}),
+        guaranteed: service.guaranteeIndicator === '1' && ems.guaranteeSuspended !== true
+      });
+    }
+
+    return {
+      carrier: this.carrierName,
+      shipDate: ems.shipDate,
+      estimates,
+      requestId
+    };
+  }
+
+  private today(): string {
+    const now = this.config.now?.() ?? Date.now();
+    return new Date(now).toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+const serviceSchema = z
+  .object({
+    serviceLevel: z.string(),
+    serviceLevelDescription: z.string().optional(),
+    deliveryDate: z.string(),
+    deliveryTime: z.string().optional(),
+    guaranteeIndicator: z.string().optional(),
+    businessTransitDays: z.union([z.string(), z.number()])
+  })
+  .passthrough();
+
+export const upsTransitTimeResponseSchema = z
+  .object({
+    emsResponse: z
+      .object({
+        shipDate: z.string(),
+        guaranteeSuspended: z.boolean().optional(),
+        services: z.array(serviceSchema).optional()
+      })
+      .passthrough()
+      .optional(),
+    validationList: z
+      .object({
+        invalidFieldList: z.array(z.string()).optional(),
+        invalidFieldListCodes: z.array(z.string()).optional()
+      })
+      .passthrough()
+      .optional()
+  })
+  .passthrough();
+
+export type UpsTransitTimeResponse = z.infer<typeof upsTransitTimeResponseSchema>;
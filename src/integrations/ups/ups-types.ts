@@ -1,9 +1,23 @@
+import { UnitSystem } from '../../domain/units';
+import { PackagingType } from '../../domain/packaging';
+
 export interface UpsAddress {
   AddressLine?: string[];
   City: string;
-  StateProvinceCode: string;
-  PostalCode: string;
+  StateProvinceCode?: string;
+  PostalCode?: string;
   CountryCode: string;
+  ResidentialAddressIndicator?: string;
+}
+
+export interface UpsMonetaryValue {
+  CurrencyCode: string;
+  MonetaryValue: string;
+}
+
+export interface UpsCod {
+  CODFundsCode: string;
+  CODAmount: UpsMonetaryValue;
 }
 
 export interface UpsPackage {
@@ -21,8 +35,29 @@ export interface UpsPackage {
     Code: string;
     Description?: string;
   };
+  PackageServiceOptions?: {
+    DeliveryConfirmation?: { DCISType: string };
+    DeclaredValue?: UpsMonetaryValue;
+    COD?: UpsCod;
+  };
 }
 
+export const UPS_UNIT_CODES: Record<UnitSystem, { weight: string; dimension: string }> = {
+  imperial: { weight: 'LBS', dimension: 'IN' },
+  metric: { weight: 'KGS', dimension: 'CM' }
+};
+
+export const UPS_PACKAGING_CODES: Record<PackagingType, { Code: string; Description: string }> = {
+  custom: { Code: '02', Description: 'Package' },
+  envelope: { Code: '01', Description: 'UPS Letter' },
+  pak: { Code: '04', Description: 'PAK' },
+  tube: { Code: '03', Description: 'Tube' },
+  smallBox: { Code: '2a', Description: 'Small Express Box' },
+  mediumBox: { Code: '2b', Description: 'Medium Express Box' },
+  largeBox: { Code: '2c', Description: 'Large Express Box' },
+  pallet: { Code: '30', Description: 'Pallet' }
+};
+
 export const UPS_SERVICE_CODES: Record<string, string> = {
   ground: '03',
   nextDayAir: '01',
@@ -34,7 +69,10 @@ export const UPS_SERVICE_CODES: Record<string, string> = {
   worldwideExpressPlus: '54',
   worldwideExpedited: '08',
   standard: '11',
-  express: '07'
+  express: '07',
+  nextDayAirSaver: '13',
+  worldwideSaver: '65',
+  groundSaver: '93'
 };
 
 export const UPS_SERVICE_NAMES: Record<string, string> = {
@@ -48,7 +86,10 @@ export const UPS_SERVICE_NAMES: Record<string, string> = {
   worldwideExpressPlus: 'UPS Worldwide Express Plus',
   worldwideExpedited: 'UPS Worldwide Expedited',
   standard: 'UPS Standard',
-  express: 'UPS Express'
+  express: 'UPS Express',
+  nextDayAirSaver: 'UPS Next Day Air Saver',
+  worldwideSaver: 'UPS Worldwide Saver',
+  groundSaver: 'UPS Ground Saver'
 };
 
 export interface UpsRateRequest {
@@ -73,8 +114,141 @@ export interface UpsRateRequest {
       };
       Service?: { Code: string; Description?: string };
       Package: UpsPackage[];
+      ShipmentTotalWeight?: {
+        UnitOfMeasurement: { Code: string };
+        Weight: string;
+      };
+      DeliveryTimeInformation?: {
+        PackageBillType: string;
+        Pickup?: { Date: string; Time?: string };
+      };
+      ShipmentServiceOptions?: {
+        SaturdayDeliveryIndicator?: string;
+        DeliveryConfirmation?: { DCISType: string };
+        COD?: UpsCod;
+      };
+      InvoiceLineTotal?: UpsMonetaryValue;
       ShipmentRatingOptions?: { NegotiatedRatesIndicator?: string };
     };
   };
 }
 
+export interface UpsTrackRequest {
+  inquiryNumber: string;
+}
+
+export interface UpsAddressKeyFormat {
+  AddressLine: string[];
+  PoliticalDivision2: string;
+  PoliticalDivision1?: string;
+  PostcodePrimaryLow?: string;
+  PostcodeExtendedLow?: string;
+  CountryCode: string;
+}
+
+export interface UpsAddressValidationRequest {
+  XAVRequest: {
+    AddressKeyFormat: UpsAddressKeyFormat;
+  };
+}
+
+export interface UpsTransitTimeRequest {
+  originCountryCode: string;
+  originStateProvince?: string;
+  originCityName: string;
+  originPostalCode?: string;
+  destinationCountryCode: string;
+  destinationStateProvince?: string;
+  destinationCityName: string;
+  destinationPostalCode?: string;
+  shipDate: string;
+  weight?: string;
+  weightUnitOfMeasure?: 'LBS' | 'KGS';
+  numberOfPackages?: string;
+  billType: '03';
+  avvFlag: boolean;
+}
+
+export interface UpsLandedCostShipmentItem {
+  commodityId: string;
+  priceEach: string;
+  commodityCurrencyCode: string;
+  quantity: number;
+  UOM: string;
+  hsCode?: string;
+  description: string;
+  originCountryCode: string;
+}
+
+export interface UpsLandedCostRequest {
+  currencyCode: string;
+  transID: string;
+  allowPartialLandedCostResult: boolean;
+  alversion: number;
+  shipment: {
+    id: string;
+    importCountryCode: string;
+    importProvince?: string;
+    exportCountryCode: string;
+    shipDate?: string;
+    transModes: string;
+    shipmentType: string;
+    shipmentItems: UpsLandedCostShipmentItem[];
+  };
+}
+
+export const UPS_FREIGHT_SERVICE_CODES: Record<string, string> = {
+  ltlStandard: '308',
+  ltlGuaranteed: '309'
+};
+
+export const UPS_FREIGHT_SERVICE_NAMES: Record<string, string> = {
+  ltlStandard: 'TForce Freight LTL',
+  ltlGuaranteed: 'TForce Freight LTL - Guaranteed'
+};
+
+export interface UpsFreightParty {
+  Name: string;
+  Address: Omit<UpsAddress, 'ResidentialAddressIndicator'>;
+}
+
+export interface UpsFreightHandlingUnit {
+  Quantity: string;
+  Type: { Code: string; Description?: string };
+}
+
+export interface UpsFreightCommodity {
+  Description: string;
+  Weight: { UnitOfMeasurement: { Code: string }; Value: string };
+  Dimensions: {
+    UnitOfMeasurement: { Code: string };
+    Length: string;
+    Width: string;
+    Height: string;
+  };
+  NumberOfPieces: string;
+  PackagingType: { Code: string };
+  FreightClass: string;
+  NMFCCommodity?: { PrimeCode: string; SubCode?: string };
+}
+
+export interface UpsFreightRateRequest {
+  FreightRateRequest: {
+    ShipFrom: UpsFreightParty;
+    ShipTo: UpsFreightParty;
+    PaymentInformation: {
+      Payer: UpsFreightParty & { ShipperNumber: string };
+      ShipmentBillingOption: { Code: string };
+    };
+    Service: { Code: string };
+    HandlingUnitOne: UpsFreightHandlingUnit;
+    HandlingUnitTwo?: UpsFreightHandlingUnit;
+    Commodity: UpsFreightCommodity[];
+    ShipmentServiceOptions?: {
+      PickupOptions?: Record<string, string>;
+      DeliveryOptions?: Record<string, string>;
+    };
+    PickupRequest?: { PickupDate: string };
+    TimeInTransitIndicator: string;
+  };
+}
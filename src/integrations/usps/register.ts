@@ -0,0 +1,94 @@
+import { CarrierRegistry } from '../../application/registry/carrier-registry';
+import { Logger } from '../../application/ports/logger';
+import { Tracer } from '../../application/ports/tracer';
+import { HttpClient } from '../../application/ports/http-client';
+import { NoopLogger } from '../../infrastructure/logging/noop-logger';
+import { NoopTracer } from '../../infrastructure/tracing/noop-tracer';
+import { FetchHttpClient } from '../../infrastructure/http/fetch-http-client';
+import { InstrumentedHttpClient } from '../../infrastructure/http/instrumented-http-client';
+import { OAuthClient } from '../../infrastructure/auth/oauth-client';
+import { ClientCredentialsAuthProvider } from '../../infrastructure/auth/client-credentials-auth-provider';
+import { ExponentialBackoffRetryPolicy } from '../../infrastructure/retry/retry-policy';
+import { RetryPolicy } from '../../infrastructure/retry/retry-policy';
+import { RetryingCarrierClient } from '../../infrastructure/retry/retrying-carrier-client';
+import { CircuitBreaker } from '../../infrastructure/circuit-breaker/circuit-breaker';
+import { CircuitBreakerCarrierClient } from '../../infrastructure/circuit-breaker/circuit-breaker-carrier-client';
+import { InMemoryRateCache } from '../../infrastructure/caching/in-memory-rate-cache';
+import { RateCache } from '../../application/ports/rate-cache';
+import { UspsConfig, loadUspsConfig } from './usps-config';
+import { UspsRateClient } from './usps-rate-client';
+import { UspsRateMapper } from './usps-rate-mapper';
+import { UspsRateCarrier } from './usps-rate-carrier';
+
+export interface UspsPluginOptions {
+  config?: UspsConfig;
+  httpClient?: HttpClient;
+  logger?: Logger;
+  tracer?: Tracer;
+  instrumentHttp?: boolean;
+  enableRetry?: boolean;
+  retryPolicy?: RetryPolicy;
+  enableCircuitBreaker?: boolean;
+  circuitBreaker?: CircuitBreaker;
+  enableRateCache?: boolean;
+  rateCache?: RateCache;
+}
+
+export function registerUspsRateCarrier(
+  registry: CarrierRegistry,
+  options: UspsPluginOptions = {}
+): {
+  cache?: RateCache;
+} {
+  const config = options.config ?? loadUspsConfig();
+  const logger = options.logger ?? new NoopLogger();
+  const tracer = options.tracer ?? new NoopTracer();
+
+  const baseHttp = options.httpClient ?? new FetchHttpClient(config.timeoutMs);
+  const httpClient =
+    options.instrumentHttp === false
+      ? baseHttp
+      : new InstrumentedHttpClient(baseHttp, { logger, tracer });
+
+  const oauthClient = new OAuthClient(httpClient, {
+    authUrl: config.authUrl,
+    clientId: config.clientId,
+    clientSecret: config.clientSecret,
+    timeoutMs: config.timeoutMs,
+    clientAuthMethod: 'body'
+  });
+
+  const authProvider = new ClientCredentialsAuthProvider(oauthClient);
+  const uspsClient = new UspsRateClient(httpClient, authProvider, config);
+
+  const retryPolicy =
+    options.retryPolicy ??
+    new ExponentialBackoffRetryPolicy({
+      maxAttempts: 3,
+      baseDelayMs: 200,
+      maxDelayMs: 2000,
+      jitterRatio: 0.2
+    });
+
+  const retryWrapped =
+    options.enableRetry === false
+      ? uspsClient
+      : new RetryingCarrierClient('USPS', retryPolicy, uspsClient, logger);
+
+  const breaker = options.circuitBreaker ?? new CircuitBreaker({ failureThreshold: 5, openDurationMs: 30000 });
+  const resilientClient =
+    options.enableCircuitBreaker === false
+      ? retryWrapped
+      : new CircuitBreakerCarrierClient('USPS', breaker, retryWrapped);
+
+  const mapper = new UspsRateMapper({ priceType: config.priceType });
+  const carrier = new UspsRateCarrier(resilientClient, mapper, logger);
+  registry.registerCarrier(carrier);
+
+  const cache =
+    options.enableRateCache === true
+      ? options.rateCache ?? new InMemoryRateCache({ maxEntries: 500 })
+      : undefined;
+
+  return cache ? { cache } : {};
+}
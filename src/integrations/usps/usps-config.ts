@@ -0,0 +1,36 @@
+import { envNumber, optionalEnv, requireEnv, EnvReader, processEnv } from '../../config/env';
+import { ConfigError } from '../../domain/errors';
+
+export type UspsPriceType = 'RETAIL' | 'COMMERCIAL' | 'CONTRACT';
+
+export interface UspsConfig {
+  clientId: string;
+  clientSecret: string;
+  baseUrl: string;
+  authUrl: string;
+  priceType: UspsPriceType;
+  timeoutMs: number;
+}
+
+const PRICE_TYPES: readonly UspsPriceType[] = ['RETAIL', 'COMMERCIAL', 'CONTRACT'];
+
+export function loadUspsConfig(env: EnvReader = processEnv): UspsConfig {
+  return {
+    clientId: requireEnv('USPS_CLIENT_ID', env),
+    clientSecret: requireEnv('USPS_CLIENT_SECRET', env),
+    baseUrl: optionalEnv('USPS_BASE_URL', env) ?? 'https://apis.usps.com',
+    authUrl: optionalEnv('USPS_AUTH_URL', env) ?? 'https://apis.usps.com/oauth2/v3/token',
+    priceType: parsePriceType(optionalEnv('USPS_PRICE_TYPE', env)),
+    timeoutMs: envNumber('USPS_TIMEOUT_MS', 30000, env)
+  };
+}
+
+function parsePriceType(value: string | undefined): UspsPriceType {
+  if (value === undefined) return 'RETAIL';
+  const upper = value.toUpperCase();
+  const match = PRICE_TYPES.find((t) => t === upper);
+  if (!match) {
+    throw new ConfigError(`Invalid value for environment variable USPS_PRICE_TYPE: ${value}`);
+  }
+  return match;
+}
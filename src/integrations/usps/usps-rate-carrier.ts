@@ -0,0 +1,88 @@
+import { Carrier, CarrierRateContext } from '../../application/ports/carrier';
+import { Logger } from '../../application/ports/logger';
+import { RateRequest, RateResponse, ServiceLevel } from '../../domain/rates';
+import { uspsPriceResponseSchema, UspsPriceResponse, UspsRateResponse } from './usps-schemas';
+import { UspsRateMapper } from './usps-rate-mapper';
+import { CarrierClient, CarrierRequestContext } from '../shared/carrier-client';
+import { createRequestId, safeJsonParse, withCarrierContext } from '../shared/carrier-response';
+import { UspsPriceQuery, USPS_MAIL_CLASSES } from './usps-types';
+import { CarrierError, ErrorCode, ServiceError } from '../../domain/errors';
+import { CarrierService } from '../../domain/service-catalog';
+import { USPS_SERVICE_CATALOG } from './usps-service-catalog';
+
+export class UspsRateCarrier implements Carrier {
+  private readonly carrierName = 'USPS';
+
+  constructor(
+    private readonly client: CarrierClient<UspsPriceQuery>,
+    private readonly mapper: UspsRateMapper,
+    private readonly logger?: Logger
+  ) {}
+
+  getName(): string {
+    return this.carrierName;
+  }
+
+  supportsServiceLevel(serviceLevel: ServiceLevel): boolean {
+    return serviceLevel in USPS_MAIL_CLASSES;
+  }
+
+  getServiceCatalog(): CarrierService[] {
+    return [...USPS_SERVICE_CATALOG];
+  }
+
+  async getRates(request: RateRequest, context: CarrierRateContext = {}): Promise<RateResponse> {
+    const requestId = createRequestId();
+    const requestContext: CarrierRequestContext = { requestId, ...(context.signal ? { signal: context.signal } : {}) };
+    try {
+      const { queries } = this.mapper.toCarrierRequest(request, context.options);
+      const serviceLevels = [...new Set(queries.map((q) => q.serviceLevel))];
+
+      const settled = await Promise.allSettled(
+        serviceLevels.map(async (serviceLevel) => {
+          const prices = await Promise.all(
+            queries
+              .filter((q) => q.serviceLevel === serviceLevel)
+              .map((q) => this.fetchPrice(q, requestContext))
+          );
+          return { serviceLevel, prices };
+        })
+      );
+
+      const results: UspsRateResponse['results'] = [];
+      const failures: Array<{ serviceLevel: ServiceLevel; reason: unknown }> = [];
+      settled.forEach((outcome, index) => {
+        if (outcome.status === 'fulfilled') results.push(outcome.value);
+        else failures.push({ serviceLevel: serviceLevels[index]!, reason: outcome.reason });
+      });
+
+      if (results.length === 0) throw failures[0]?.reason;
+
+      const log = this.logger?.child({ carrier: this.carrierName, requestId });
+      for (const { serviceLevel, reason } of failures) {
+        const err = reason instanceof ServiceError ? reason.toJSON() : { message: String(reason) };
+        log?.warn({ serviceLevel, err }, 'USPS mail class failed; returning rates for the other mail classes');
+      }
+
+      return this.mapper.fromCarrierResponse({ results }, requestId);
+    } catch (error) {
+      throw withCarrierContext(error, this.carrierName);
+    }
+  }
+
+  private async fetchPrice(query: UspsPriceQuery, context: CarrierRequestContext): Promise<UspsPriceResponse> {
+    const res = await this.client.send(query, context);
+
+    const parsedJson = safeJsonParse(res.bodyText);
+    const parsed = uspsPriceResponseSchema.safeParse(parsedJson);
+    if (!parsed.success) {
+      throw new CarrierError(
+        ErrorCode.MALFORMED_RESPONSE,
+        'USPS response failed validation',
+        this.carrierName,
+        { retryable: false, details: { issues: parsed.error.issues } }
+      );
+    }
+    return parsed.data;
+  }
+}
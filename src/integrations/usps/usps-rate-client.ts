@@ -0,0 +1,37 @@
+import { HttpClient, HttpResponse } from '../../application/ports/http-client';
+import { AuthProvider } from '../../application/ports/auth-provider';
+import { CarrierClient, CarrierRequestContext } from '../shared/carrier-client';
+import { sendAuthorizedRequest } from '../shared/authorized-request';
+import { UspsConfig } from './usps-config';
+import { UspsPriceQuery } from './usps-types';
+
+const PRICE_PATHS: Record<UspsPriceQuery['kind'], string> = {
+  domestic: '/prices/v3/base-rates/search',
+  international: '/international-prices/v3/base-rates/search'
+};
+
+export class UspsRateClient implements CarrierClient<UspsPriceQuery> {
+  private readonly carrierName = 'USPS';
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly auth: AuthProvider,
+    private readonly config: Pick<UspsConfig, 'baseUrl' | 'timeoutMs'>
+  ) {}
+
+  async send(query: UspsPriceQuery, context: CarrierRequestContext): Promise<HttpResponse> {
+    const url = `${this.config.baseUrl}${PRICE_PATHS[query.kind]}`;
+
+    return sendAuthorizedRequest(this.httpClient, this.auth, this.carrierName, context.signal, (authorization) => ({
+      method: 'POST',
+      url,
+      timeoutMs: this.config.timeoutMs,
+      headers: {
+        Authorization: authorization,
+        'Content-Type': 'application/json',
+        'X-Request-ID': context.requestId
+      },
+      body: JSON.stringify(query.body)
+    }));
+  }
+}
@@ -0,0 +1,166 @@
+import { RateMapper } from '../shared/rate-mapper';
+import { ShipmentOptionName, assertSupportedShipmentOptions } from '../shared/shipment-options';
+import { assertSupportedPackaging } from '../shared/packaging';
+import { CarrierRateOptions, RateRequest, RateResponse, RateQuote, ServiceLevel, Package } from '../../domain/rates';
+import { DEFAULT_PACKAGING_TYPE, PackagingType, isFlatRatePackaging } from '../../domain/packaging';
+import { CarrierError, ErrorCode, ValidationError } from '../../domain/errors';
+import {
+  UspsRateRequest,
+  UspsPriceQuery,
+  USPS_MAIL_CLASSES,
+  USPS_SERVICE_NAMES,
+  USPS_RATE_INDICATORS,
+  USPS_FLAT_RATE_SERVICE_LEVELS,
+  USPS_DOMESTIC_SERVICE_LEVELS,
+  USPS_INTERNATIONAL_SERVICE_LEVELS
+} from './usps-types';
+import { UspsRateResponse } from './usps-schemas';
+import { UspsPriceType } from './usps-config';
+import { convertPackage, roundUp } from '../../domain/units';
+import { moneyToNumber, parseMoney, sumMoney } from '../../domain/money';
+import { findCarrierService } from '../../domain/service-catalog';
+import { USPS_SERVICE_CATALOG } from './usps-service-catalog';
+
+const DOMESTIC_COUNTRIES = new Set(['US', 'PR', 'VI', 'GU', 'AS', 'MP']);
+
+const MAX_WEIGHT_LBS = 70;
+
+const SUPPORTED_SHIPMENT_OPTIONS: readonly ShipmentOptionName[] = ['residential'];
+
+const SUPPORTED_PACKAGING = Object.keys(USPS_RATE_INDICATORS) as PackagingType[];
+
+export class UspsRateMapper implements RateMapper<UspsRateRequest, UspsRateResponse> {
+  private readonly carrierName = 'USPS';
+
+  constructor(private readonly config: { priceType: UspsPriceType }) {}
+
+  toCarrierRequest(request: RateRequest, options?: CarrierRateOptions): UspsRateRequest {
+    if (!DOMESTIC_COUNTRIES.has(request.origin.country)) {
+      throw new ValidationError(`USPS does not ship from origin country: ${request.origin.country}`);
+    }
+    if (options?.accountNumber) {
+      throw new ValidationError('USPS does not support a per-request account number');
+    }
+    assertSupportedShipmentOptions(this.carrierName, request.shipmentOptions, SUPPORTED_SHIPMENT_OPTIONS);
+    assertSupportedPackaging(this.carrierName, request.packages, SUPPORTED_PACKAGING);
+
+    const packages = request.packages.map((pkg) => convertPackage(pkg, 'lb', 'in'));
+    const overweight = packages.findIndex((pkg) => pkg.weight > MAX_WEIGHT_LBS);
+    if (overweight !== -1) {
+      throw new ValidationError(
+        `USPS package weight exceeds ${MAX_WEIGHT_LBS} lbs (package ${overweight})`
+      );
+    }
+
+    const international = !DOMESTIC_COUNTRIES.has(request.destination.country);
+    const flatRate = request.packages.some((pkg) => isFlatRatePackaging(pkg.packagingType));
+    const available = (international ? USPS_INTERNATIONAL_SERVICE_LEVELS : USPS_DOMESTIC_SERVICE_LEVELS).filter(
+      (level) => !flatRate || USPS_FLAT_RATE_SERVICE_LEVELS.includes(level)
+    );
+
+    let requestedLevel = request.serviceLevel;
+    if (request.carrierService) {
+      requestedLevel = findCarrierService(USPS_SERVICE_CATALOG, request.carrierService.code)?.serviceLevel;
+      if (!requestedLevel) {
+        throw new ValidationError(`Unknown USPS mail class: ${request.carrierService.code}`);
+      }
+    }
+
+    let serviceLevels: readonly ServiceLevel[] = available;
+    if (requestedLevel) {
+      if (!available.includes(requestedLevel)) {
+        throw new ValidationError(
+          `Unsupported service level for ${international ? 'international' : 'domestic'}${flatRate ? ' flat rate' : ''} USPS shipment: ${requestedLevel}`
+        );
+      }
+      serviceLevels = [requestedLevel];
+    }
+
+    const queries = serviceLevels.flatMap((serviceLevel) =>
+      packages.map((pkg, packageIndex) =>
+        this.toPriceQuery(serviceLevel, packageIndex, pkg, request, international)
+      )
+    );
+
+    return { queries };
+  }
+
+  fromCarrierResponse(response: UspsRateResponse, requestId: string): RateResponse {
+    if (response.results.length === 0) {
+      throw new CarrierError(
+        ErrorCode.API_ERROR,
+        'USPS API returned no rate quotes',
+        this.carrierName
+      );
+    }
+
+    const quotes: RateQuote[] = response.results.map((result) => {
+      const price = sumMoney(result.prices.map((p) => parseMoney(p.totalBasePrice, 'USD')), 'USD');
+      const mailClass = USPS_MAIL_CLASSES[result.serviceLevel];
+      return {
+        serviceLevel: result.serviceLevel,
+        serviceName: USPS_SERVICE_NAMES[result.serviceLevel] ?? 'Unknown',
+        ...(mailClass ? { carrierServiceCode: mailClass } : {}),
+        totalCost: moneyToNumber(price),
+        currency: price.currency,
+        price,
+        carrier: this.carrierName
+      };
+    });
+
+    return { quotes, requestId };
+  }
+
+  private toPriceQuery(
+    serviceLevel: ServiceLevel,
+    packageIndex: number,
+    pkg: Package,
+    request: RateRequest,
+    international: boolean
+  ): UspsPriceQuery {
+    const { origin, destination } = request;
+    const mailClass = USPS_MAIL_CLASSES[serviceLevel];
+    if (!mailClass) {
+      throw new ValidationError(`Unsupported service level: ${serviceLevel}`);
+    }
+
+    const packagingType = pkg.packagingType ?? DEFAULT_PACKAGING_TYPE;
+    const common = {
+      originZIPCode: toZip5(origin.postalCode),
+      weight: roundUp(pkg.weight, 2),
+      length: roundUp(pkg.length, 2),
+      width: roundUp(pkg.width, 2),
+      height: roundUp(pkg.height, 2),
+      mailClass,
+      processingCategory: packagingType === 'envelope' ? 'FLATS' : 'MACHINABLE',
+      rateIndicator: USPS_RATE_INDICATORS[packagingType]!,
+      destinationEntryFacilityType: 'NONE',
+      priceType: this.config.priceType,
+      ...(request.shipDate ? { mailingDate: request.shipDate } : {})
+    };
+
+    if (international) {
+      return {
+        kind: 'international',
+        serviceLevel,
+        packageIndex,
+        body: {
+          ...common,
+          ...(destination.postalCode ? { foreignPostalCode: destination.postalCode } : {}),
+          destinationCountryCode: destination.country
+        }
+      };
+    }
+
+    return {
+      kind: 'domestic',
+      serviceLevel,
+      packageIndex,
+      body: { ...common, destinationZIPCode: toZip5(destination.postalCode) }
+    };
+  }
+}
+
+function toZip5(postalCode: string | undefined): string {
+  return (postalCode ?? '').replace(/[^0-9]/g, '').slice(0, 5);
+}
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { ServiceLevel } from '../../domain/rates';
+
+const rateSchema = z
+  .object({
+    SKU: z.string().optional(),
+    description: z.string().optional(),
+    priceType: z.string().optional(),
+    price: z.number(),
+    mailClass: z.string().optional(),
+    zone: z.string().optional()
+  })
+  .passthrough();
+
+export const uspsPriceResponseSchema = z
+  .object({
+    totalBasePrice: z.number(),
+    rates: z.array(rateSchema).optional()
+  })
+  .passthrough();
+
+export type UspsPriceResponse = z.infer<typeof uspsPriceResponseSchema>;
+
+export interface UspsRateResponse {
+  results: Array<{
+    serviceLevel: ServiceLevel;
+    prices: UspsPriceResponse[];
+  }>;
+}
@@ -0,0 +1,28 @@
+import { CarrierService } from '../../domain/service-catalog';
+
+export const USPS_SERVICE_CATALOG: readonly CarrierService[] = [
+  {
+    code: 'PRIORITY_MAIL',
+    name: 'USPS Priority Mail',
+    serviceLevel: 'priorityMail',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { businessDays: 3, guaranteed: false }
+  },
+  {
+    code: 'USPS_GROUND_ADVANTAGE',
+    name: 'USPS Ground Advantage',
+    serviceLevel: 'groundAdvantage',
+    domestic: true,
+    international: false,
+    deliveryCommitment: { businessDays: 5, guaranteed: false }
+  },
+  {
+    code: 'PRIORITY_MAIL_INTERNATIONAL',
+    name: 'USPS Priority Mail International',
+    serviceLevel: 'priorityMailInternational',
+    domestic: false,
+    international: true,
+    deliveryCommitment: { guaranteed: false }
+  }
+];
@@ -0,0 +1,80 @@
+import { PackagingType } from '../../domain/packaging';
+import { ServiceLevel } from '../../domain/rates';
+
+export type UspsPriceQueryKind = 'domestic' | 'international';
+
+export interface UspsDomesticPriceBody {
+  originZIPCode: string;
+  destinationZIPCode: string;
+  weight: number;
+  length: number;
+  width: number;
+  height: number;
+  mailClass: string;
+  processingCategory: string;
+  rateIndicator: string;
+  destinationEntryFacilityType: string;
+  priceType: string;
+  mailingDate?: string;
+}
+
+export interface UspsInternationalPriceBody {
+  originZIPCode: string;
+  foreignPostalCode?: string;
+  destinationCountryCode: string;
+  weight: number;
+  length: number;
+  width: number;
+  height: number;
+  mailClass: string;
+  processingCategory: string;
+  rateIndicator: string;
+  destinationEntryFacilityType: string;
+  priceType: string;
+  mailingDate?: string;
+}
+
+export type UspsPriceQuery =
+  | {
+      kind: 'domestic';
+      serviceLevel: ServiceLevel;
+      packageIndex: number;
+      body: UspsDomesticPriceBody;
+    }
+  | {
+      kind: 'international';
+      serviceLevel: ServiceLevel;
+      packageIndex: number;
+      body: UspsInternationalPriceBody;
+    };
+
+export interface UspsRateRequest {
+  queries: UspsPriceQuery[];
+}
+
+export const USPS_MAIL_CLASSES: Record<string, string> = {
+  priorityMail: 'PRIORITY_MAIL',
+  groundAdvantage: 'USPS_GROUND_ADVANTAGE',
+  priorityMailInternational: 'PRIORITY_MAIL_INTERNATIONAL'
+};
+
+export const USPS_SERVICE_NAMES: Record<string, string> = {
+  priorityMail: 'USPS Priority Mail',
+  groundAdvantage: 'USPS Ground Advantage',
+  priorityMailInternational: 'USPS Priority Mail International'
+};
+
+export const USPS_RATE_INDICATORS: Partial<Record<PackagingType, string>> = {
+  custom: 'SP',
+  envelope: 'FE',
+  pak: 'FP',
+  smallBox: 'FS',
+  mediumBox: 'FB',
+  largeBox: 'PL'
+};
+
+export const USPS_FLAT_RATE_SERVICE_LEVELS: readonly ServiceLevel[] = ['priorityMail', 'priorityMailInternational'];
+
+export const USPS_DOMESTIC_SERVICE_LEVELS: readonly ServiceLevel[] = ['priorityMail', 'groundAdvantage'];
+
+export const USPS_INTERNATIONAL_SERVICE_LEVELS: readonly ServiceLevel[] = ['priorityMailInternational'];
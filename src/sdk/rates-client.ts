@@ -1,23 +1,56 @@
 import { CarrierRegistry } from '../application/registry/carrier-registry';
 import { RateService, RateServiceOptions } from '../application/services/rate-service';
+import { ShipmentService } from '../application/services/shipment-service';
+import { TrackingService } from '../application/services/tracking-service';
+import { AddressValidationService } from '../application/services/address-validation-service';
+import { TransitTimeService } from '../application/services/transit-time-service';
+import { FreightRateService } from '../application/services/freight-rate-service';
+import { PricingEngine } from '../application/services/pricing-engine';
 import { Logger } from '../application/ports/logger';
 import { Tracer } from '../application/ports/tracer';
 import { RateCache } from '../application/ports/rate-cache';
+import { ExchangeRateProvider } from '../application/ports/exchange-rate-provider';
+import { DimensionalDivisors } from '../domain/billable-weight';
+import { PricingRuleSet } from '../domain/pricing';
 import { NoopLogger } from '../infrastructure/logging/noop-logger';
 import { NoopTracer } from '../infrastructure/tracing/noop-tracer';
 import { createPinoLogger } from '../infrastructure/logging/pino-logger';
 import { OpenTelemetryTracer } from '../infrastructure/tracing/opentelemetry-tracer';
-import { registerUpsRateCarrier, UpsPluginOptions } from '../integrations/ups/register';
+import {
+  registerUpsRateCarrier,
+  registerUpsShippingCarrier,
+  registerUpsTrackingCarrier,
+  registerUpsAddressValidationCarrier,
+  registerUpsTransitTimeCarrier,
+  registerUpsFreightCarrier,
+  UpsPluginOptions
+} from '../integrations/ups/register';
+import { registerFedExRateCarrier, FedExPluginOptions } from '../integrations/fedex/register';
+import { registerUspsRateCarrier, UspsPluginOptions } from '../integrations/usps/register';
+import { registerDhlExpressRateCarrier, DhlExpressPluginOptions } from '../integrations/dhl/register';
 
 export interface CreateRatesClientOptions extends UpsPluginOptions {
   logger?: Logger;
   tracer?: Tracer;
   cache?: RateCache;
   cacheTtlMs?: number;
+  rateDeadlineMs?: number;
   usePino?: boolean;
   useOpenTelemetry?: boolean;
   serviceName?: string;
   logLevel?: string;
+  enableShipping?: boolean;
+  enableTracking?: boolean;
+  enableAddressValidation?: boolean;
+  enableTransitTimes?: boolean;
+  includeTransitTimes?: boolean;
+  enableFreight?: boolean;
+  dimDivisors?: Record<string, DimensionalDivisors>;
+  exchangeRates?: ExchangeRateProvider;
+  pricingRules?: PricingRuleSet;
+  fedex?: FedExPluginOptions;
+  usps?: UspsPluginOptions;
+  dhl?: DhlExpressPluginOptions;
   registerCarriers?: (registry: CarrierRegistry, deps: { logger: Logger; tracer: Tracer }) => {
     cache?: RateCache;
   } | void;
@@ -26,7 +59,27 @@ export interface CreateRatesClientOptions extends UpsPluginOptions {
 export class CybershipRatesClient {
   constructor(
     public readonly registry: CarrierRegistry,
-    public readonly service: RateService
+    public readonly service: RateService,
+    public readonly shipments: ShipmentService = new ShipmentService(registry, {
+      logger: new NoopLogger(),
+      tracer: new NoopTracer()
+    }),
+    public readonly tracking: TrackingService = new TrackingService(registry, {
+      logger: new NoopLogger(),
+      tracer: new NoopTracer()
+    }),
+    public readonly addresses: AddressValidationService = new AddressValidationService(registry, {
+      logger: new NoopLogger(),
+      tracer: new NoopTracer()
+    }),
+    public readonly transitTimes: TransitTimeService = new TransitTimeService(registry, {
+      logger: new NoopLogger(),
+      tracer: new NoopTracer()
+    }),
+    public readonly freight: FreightRateService = new FreightRateService(registry, {
+      logger: new NoopLogger(),
+      tracer: new NoopTracer()
+    })
   ) {}
 }
 
@@ -46,18 +99,76 @@ export function createCybershipRatesClient(options: CreateRatesClientOptions = {
       tracer
     });
     cacheFromRegistration = result.cache;
+
+    if (options.enableShipping) {
+      registerUpsShippingCarrier(registry, { ...options, logger, tracer });
+    }
+
+    if (options.enableTracking) {
+      registerUpsTrackingCarrier(registry, { ...options, logger, tracer });
+    }
+
+    if (options.enableAddressValidation) {
+      registerUpsAddressValidationCarrier(registry, { ...options, logger, tracer });
+    }
+
+    if (options.enableTransitTimes || options.includeTransitTimes) {
+      registerUpsTransitTimeCarrier(registry, { ...options, logger, tracer });
+    }
+
+    if (options.enableFreight) {
+      registerUpsFreightCarrier(registry, { ...options, logger, tracer });
+    }
+
+    if (options.fedex) {
+      const fedExResult = registerFedExRateCarrier(registry, {
+        ...options.fedex,
+        logger: options.fedex.logger ?? logger,
+        tracer: options.fedex.tracer ?? tracer
+      });
+      cacheFromRegistration = cacheFromRegistration ?? fedExResult.cache;
+    }
+
+    if (options.usps) {
+      const uspsResult = registerUspsRateCarrier(registry, {
+        ...options.usps,
+        logger: options.usps.logger ?? logger,
+        tracer: options.usps.tracer ?? tracer
+      });
+      cacheFromRegistration = cacheFromRegistration ?? uspsResult.cache;
+    }
+
+    if (options.dhl) {
+      const dhlResult = registerDhlExpressRateCarrier(registry, {
+        ...options.dhl,
+        logger: options.dhl.logger ?? logger,
+        tracer: options.dhl.tracer ?? tracer
+      });
+      cacheFromRegistration = cacheFromRegistration ?? dhlResult.cache;
+    }
   }
 
   const resolvedCache = options.cache ?? cacheFromRegistration;
+  const pricing = options.pricingRules ? new PricingEngine(options.pricingRules) : undefined;
   const serviceOptions: RateServiceOptions = {
     logger,
     tracer,
     ...(resolvedCache ? { cache: resolvedCache } : {}),
-    ...(options.cacheTtlMs !== undefined ? { cacheTtlMs: options.cacheTtlMs } : {})
+    ...(options.cacheTtlMs !== undefined ? { cacheTtlMs: options.cacheTtlMs } : {}),
+    ...(options.rateDeadlineMs !== undefined ? { deadlineMs: options.rateDeadlineMs } : {}),
+    ...(options.includeTransitTimes ? { includeTransitTimes: true } : {}),
+    ...(options.dimDivisors ? { dimDivisors: options.dimDivisors } : {}),
+    ...(options.exchangeRates ? { exchangeRates: options.exchangeRates } : {}),
+    ...(pricing ? { pricing } : {})
   };
 
   const service = new RateService(registry, serviceOptions);
-  return new CybershipRatesClient(registry, service);
+  const shipments = new ShipmentService(registry, { logger, tracer });
+  const tracking = new TrackingService(registry, { logger, tracer });
+  const addresses = new AddressValidationService(registry, { logger, tracer });
+  const transitTimes = new TransitTimeService(registry, { logger, tracer });
+  const freight = new FreightRateService(registry, { logger, tracer, ...(pricing ? { pricing } : {}) });
+  return new CybershipRatesClient(registry, service, shipments, tracking, addresses, transitTimes, freight);
 }
 
 function resolveLogger(options: CreateRatesClientOptions): Logger {